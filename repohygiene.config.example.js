@@ -68,6 +68,19 @@ export default {
 
         // Only check production dependencies
         production: true,
+
+        // Packages approved despite the policy. Each needs a reason, an approver
+        // and an expiry date: the audit warns 30 days ahead and fails once expired.
+        // exceptions: [
+        //     {
+        //         package: 'some-gpl-tool',
+        //         version: '^2.0.0',
+        //         license: 'GPL-3.0-only',
+        //         reason: 'Build-time only, never distributed',
+        //         approver: 'legal@example.com',
+        //         expires: '2027-06-30',
+        //     },
+        // ],
     },
 
     // ============================================================================
@@ -89,10 +102,91 @@ export default {
             '*.map',
         ],
 
-        // Custom patterns to detect (in addition to built-in patterns)
-        // customPatterns: [
-        //   { name: 'Internal API Key', pattern: /INTERNAL_[A-Z0-9]{32}/ },
-        // ],
+        // Custom patterns to detect (in addition to built-in patterns).
+        // A custom pattern with the same name as a built-in replaces it.
+        patterns: [
+            // {
+            //     name: 'Internal API Key',
+            //     pattern: /INTERNAL_[A-Z0-9]{32}/,
+            //     severity: 'high',
+            //     description: 'Internal service API key',
+            //     keywords: ['INTERNAL_'],
+            // },
+        ],
+
+        // Built-in patterns to turn off, by name or rule id
+        disabledPatterns: [],
+
+        // Remap pattern severities ('high' | 'medium' | 'low'), by rule id or name
+        severityOverrides: {
+            // 'stripe-publishable-key': 'low',
+        },
+
+        // Drop findings below this severity
+        // minSeverity: 'medium',
+
+        // Worker threads for scanning files (defaults to CPU cores - 1, 1 disables workers)
+        // concurrency: 4,
+
+        // Skip files larger than this many bytes (default 5 MB)
+        // maxFileSize: 5 * 1024 * 1024,
+
+        // Decode long base64 blobs and scan their contents
+        decodeBase64: false,
+
+        // PII detectors, opt-in. `pii: true` turns them all on (same as --pii); an object
+        // turns on every family not set to false. Email and phone lists are only
+        // reported in fixture, seed and dump files.
+        // pii: {
+        //     'credit-card': true,
+        //     iban: true,
+        //     'national-id': true,
+        //     'email-list': false,
+        //     'phone-list': false,
+        // },
+
+        // Flag tracked or unignored .env*, *.pem, *.p12, id_rsa, credentials.json and
+        // token-bearing .npmrc files, and .env.example keys out of sync with .env
+        // (same as --no-sensitive-files when false)
+        sensitiveFiles: true,
+
+        // Check found secrets against their service endpoints (same as --verify)
+        verify: false,
+        verification: {
+            // Endpoint base URL per verifier, by pattern name or rule id
+            baseUrls: {
+                // 'github-token': 'https://github.example.com/api/v3',
+                // 'postgresql-connection-string': 'https://creds-check.internal/db',
+            },
+            timeout: 5000,
+        },
+
+        // Extra pattern packs: local JSON/YAML/JS files or npm package names
+        patternPacks: [
+            // './security/secret-patterns.yaml',
+            // '@acme/repohygiene-patterns',
+        ],
+
+        // Import rules and allowlists from gitleaks (.toml) or trufflehog (.yaml / .json)
+        // configs. Anything that can't be converted is reported as a warning.
+        ruleImports: [
+            // './.gitleaks.toml',
+        ],
+
+        // Accept findings matching any of paths / regexes / stopwords / commits
+        // (or all of them with condition: 'and'), optionally only for some rules
+        allowlists: [
+            // {
+            //     description: 'test fixtures',
+            //     rules: ['aws-access-key-id'],
+            //     paths: ['^test/fixtures/'],
+            //     regexes: ['EXAMPLE$'],
+            //     regexTarget: 'secret', // 'secret' | 'match' | 'line'
+            //     stopwords: ['dummy'],
+            //     commits: ['3f2a9c1'],
+            //     condition: 'or',
+            // },
+        ],
     },
 
     // ============================================================================
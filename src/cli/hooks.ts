@@ -12,8 +12,8 @@ const HOOK_TEMPLATE = `#!/bin/sh
 
 echo "🧹 RepoHygiene: Running pre-commit checks..."
 
-# Run secret scan
-npx repohygiene secrets --staged-only
+# Scan only the lines being committed
+npx repohygiene secrets --staged
 
 # Check exit code
 if [ $? -ne 0 ]; then
@@ -35,7 +35,7 @@ const PRE_PUSH_TEMPLATE = `#!/bin/sh
 echo "🧹 RepoHygiene: Running pre-push checks..."
 
 # Run license scan
-npx repohygiene licenses --fail-on-denied
+npx repohygiene licenses --fail-on restricted
 
 if [ $? -ne 0 ]; then
   echo ""
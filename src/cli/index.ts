@@ -2,11 +2,24 @@
  * RepoHygiene - Main CLI Entry Point
  */
 
-import { Command } from 'commander';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { Command, Option } from 'commander';
 import chalk from 'chalk';
 import { loadConfig } from '../core/config.js';
-import { initGitContext } from '../core/git.js';
-import type { GlobalOptions } from '../types/index.js';
+import { initGitContext, type GitContext } from '../core/git.js';
+import type {
+  BranchesOptions,
+  CodeownersOptions,
+  DepsOptions,
+  GlobalOptions,
+  LicenseDrift,
+  LicenseOptions,
+  RepoHygieneConfig,
+  ScanResult,
+  SecretFinding,
+  SecretsOptions,
+} from '../types/index.js';
 import {
   printHeader,
   printHelpfulError,
@@ -14,24 +27,112 @@ import {
   printError,
   printSummary,
   printModuleIssues,
+  printSection,
+  printWarning,
+  printInfo,
 } from './ui/index.js';
 import {
   createCodeownersScanner,
   createLicenseAuditor,
   createSecretsAuditor,
+  createRemediationPlan,
+  writeReplacementsFile,
+  rewriteHistory,
   createBranchesScanner,
   createDepsScanner,
+  generateSbom,
+  checkSbomEncoding,
+  readProjectInfo,
+  scanLicenseTree,
+  collectAttributions,
+  renderNotices,
+  NOTICE_FILE_NAME,
+  NOTICE_FORMATS,
+  SBOM_FORMATS,
+  SBOM_ENCODINGS,
+  type NoticeFormat,
+  type SbomEncoding,
+  type SbomFormat,
 } from '../modules/index.js';
 // SARIF imports reserved for future --output sarif flag
 // import { generateSarif, writeSarifFile, createSarifResult } from './sarif.js';
 import { generateMarkdownReport, writeMarkdownReport, createReportData } from './report.js';
 import { installAllHooks, uninstallAllHooks, getHooksStatus } from './hooks.js';
+import {
+  BRANCHES_SCHEMA,
+  CODEOWNERS_SCHEMA,
+  DEPS_SCHEMA,
+  LICENSE_DISTRIBUTIONS,
+  LICENSE_FAIL_ON,
+  LICENSE_SCHEMA,
+  SCAN_FAIL_ON,
+  SECRET_SEVERITIES,
+  SECRETS_SCHEMA,
+  choice,
+  exceedsFailLevel,
+  flagParser,
+  integer,
+  list,
+  number,
+  resolveOptions,
+} from './options.js';
 
 // Get version from package.json
 const VERSION = '0.1.0';
 
 const program = new Command();
 
+/**
+ * Create every module scanner with options resolved from config and defaults
+ */
+function createModuleScanners(
+  gitContext: GitContext,
+  config: RepoHygieneConfig,
+  globalOpts: GlobalOptions
+): Array<{ execute(): Promise<ScanResult> }> {
+  return [
+    createCodeownersScanner(gitContext, config, {
+      ...globalOpts,
+      ...resolveOptions<CodeownersOptions>('codeowners', CODEOWNERS_SCHEMA, config),
+    }),
+    createLicenseAuditor(gitContext, config, {
+      ...globalOpts,
+      ...resolveOptions<LicenseOptions>('licenses', LICENSE_SCHEMA, config),
+    }),
+    createSecretsAuditor(gitContext, config, {
+      ...globalOpts,
+      ...resolveOptions<SecretsOptions>('secrets', SECRETS_SCHEMA, config),
+    }),
+    createBranchesScanner(gitContext, config, {
+      ...globalOpts,
+      ...resolveOptions<BranchesOptions>('branches', BRANCHES_SCHEMA, config),
+    }),
+    createDepsScanner(gitContext, config, {
+      ...globalOpts,
+      ...resolveOptions<DepsOptions>('deps', DEPS_SCHEMA, config),
+    }),
+  ];
+}
+
+/**
+ * Print the packages added, relicensed and removed since the compared ref
+ */
+function printLicenseDrift(drift: LicenseDrift): void {
+  printSection(`License changes since ${drift.ref} (${drift.commit.slice(0, 8)})`);
+  const rows = [
+    ...drift.added.map((dep) => `  ${chalk.green('+')} ${dep.name}@${dep.version} ${dep.license}`),
+    ...drift.changed.map(
+      ({ dependency: dep, previousVersion, previousLicense }) =>
+        `  ${chalk.yellow('~')} ${dep.name}@${dep.version} ${dep.license} ${chalk.dim(`(was ${previousLicense} at ${previousVersion})`)}`
+    ),
+    ...drift.removed.map((dep) => `  ${chalk.red('-')} ${dep.name}@${dep.version} ${dep.license}`),
+  ];
+  // eslint-disable-next-line no-console
+  console.log(
+    rows.length > 0 ? rows.join('\n') : chalk.dim('  No dependencies added, removed or relicensed')
+  );
+}
+
 program
   .name('repohygiene')
   .description('One CLI to rule all your repo maintenance')
@@ -40,11 +141,15 @@ program
   .option('--cwd <path>', 'Working directory', process.cwd())
   .option('--json', 'Output as JSON')
   .option('--verbose', 'Verbose output')
-  .hook('preAction', (thisCommand) => {
+  .hook('preAction', (thisCommand, actionCommand) => {
     const options = thisCommand.opts<GlobalOptions>();
+    const commandOptions = actionCommand.opts<{ sbom?: string; output?: string }>();
 
-    // Don't print header for JSON output
-    if (options.json !== true) {
+    // Don't print header for JSON output, or an SBOM written to stdout
+    if (
+      options.json !== true &&
+      (commandOptions.sbom === undefined || commandOptions.output !== undefined)
+    ) {
       printHeader(VERSION);
     }
   });
@@ -55,15 +160,22 @@ program
 program
   .command('scan')
   .description('Run all maintenance checks on the repository')
-  .option('--fail-on <level>', 'Exit with error on: error, warning, any', 'error')
-  .action(async (_options, command) => {
+  .addOption(
+    new Option('--fail-on <level>', 'Exit with error on: error, warning, any, none')
+      .choices(SCAN_FAIL_ON)
+      .default('error')
+  )
+  .action(async (_options: { failOn: (typeof SCAN_FAIL_ON)[number] }, command) => {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
     const globalOpts = (command.parent?.opts() ?? {}) as GlobalOptions;
     const cwd = globalOpts.cwd ?? process.cwd();
 
     try {
       // Initialize
-      const [configResult, gitContext] = await Promise.all([loadConfig(cwd), initGitContext(cwd)]);
+      const [configResult, gitContext] = await Promise.all([
+        loadConfig(cwd, globalOpts.config),
+        initGitContext(cwd),
+      ]);
       const config = configResult.config;
 
       if (!gitContext.isGitRepo) {
@@ -88,13 +200,7 @@ program
         printSuccess('Starting repository scan...');
       }
 
-      const scanners = [
-        createCodeownersScanner(gitContext, config, globalOpts),
-        createLicenseAuditor(gitContext, config, globalOpts),
-        createSecretsAuditor(gitContext, config, globalOpts),
-        createBranchesScanner(gitContext, config, globalOpts),
-        createDepsScanner(gitContext, config, globalOpts),
-      ];
+      const scanners = createModuleScanners(gitContext, config, globalOpts);
 
       const results = await Promise.all(scanners.map((s) => s.execute()));
 
@@ -105,9 +211,7 @@ program
         printSummary(results);
       }
 
-      const hasErrors = results.some((r) => r.status === 'failed');
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-member-access
-      if (hasErrors && _options.failOn !== 'none') {
+      if (exceedsFailLevel(results, _options.failOn)) {
         process.exit(1);
       }
 
@@ -127,10 +231,14 @@ program
   .option('--analyze', 'Analyze git history to determine owners')
   .option('--generate', 'Generate CODEOWNERS file')
   .option('--validate', 'Validate existing CODEOWNERS file')
-  .option('--threshold <n>', 'Minimum commits to be considered owner', '10')
+  .option(
+    '--threshold <n>',
+    'Minimum commits to be considered owner (default: 10)',
+    flagParser(integer({ min: 1 }))
+  )
   .option('--since <date>', 'Only consider commits since date')
   .option('--output <path>', 'Output path for CODEOWNERS file')
-  .action(async (_options, command) => {
+  .action(async (_options: Record<string, unknown>, command) => {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
     const globalOpts = (command.parent?.opts() ?? {}) as GlobalOptions;
     const cwd = globalOpts.cwd ?? process.cwd();
@@ -147,8 +255,12 @@ program
         process.exit(1);
       }
 
-      const configResult = await loadConfig(cwd);
-      const scanner = createCodeownersScanner(gitContext, configResult.config, globalOpts);
+      const configResult = await loadConfig(cwd, globalOpts.config);
+      const config = configResult.config;
+      const scanner = createCodeownersScanner(gitContext, config, {
+        ...globalOpts,
+        ...resolveOptions<CodeownersOptions>('codeowners', CODEOWNERS_SCHEMA, config, _options),
+      });
       const result = await scanner.execute();
 
       if (globalOpts.json) {
@@ -173,28 +285,87 @@ program
 // ============================================================================
 // LICENSES Command
 // ============================================================================
-program
+const licensesCommand = program
   .command('licenses')
   .description('Audit dependency licenses')
-  .option('--allow <licenses>', 'Comma-separated allowed licenses')
-  .option('--deny <licenses>', 'Comma-separated denied licenses')
-  .option('--fail-on <type>', 'Fail on: unknown, restricted, any', 'restricted')
-  .option('--production', 'Only check production dependencies', true)
-  .action(async (_options, command) => {
+  .option('--allow <licenses>', 'Comma-separated allowed licenses', flagParser(list))
+  .option('--deny <licenses>', 'Comma-separated denied licenses', flagParser(list))
+  .addOption(
+    new Option(
+      '--fail-on <type>',
+      'Fail on: unknown, restricted, any (default: restricted)'
+    ).choices(LICENSE_FAIL_ON)
+  )
+  .option('--production', 'Only check production dependencies (the default)')
+  .option('--no-production', 'Also check dev dependencies')
+  .addOption(
+    new Option(
+      '--distribution <model>',
+      "Check licenses against the project's license when distributed as: saas, binary, library"
+    ).choices(LICENSE_DISTRIBUTIONS)
+  )
+  .option('--project-license <expression>', "The project's SPDX license, instead of package.json")
+  .option('--compare <ref>', 'Only fail on license violations introduced since a git ref')
+  .addOption(
+    new Option('--sbom <format>', 'Write a software bill of materials').choices(SBOM_FORMATS)
+  )
+  .addOption(
+    new Option(
+      '--sbom-encoding <encoding>',
+      'SBOM encoding: json, xml (CycloneDX), tag-value (SPDX)'
+    )
+      .choices(SBOM_ENCODINGS)
+      .default('json')
+  )
+  .option('--output <path>', 'Write the SBOM to a file instead of stdout')
+  .action(async (_options: Record<string, unknown>, command) => {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
     const globalOpts = (command.parent?.opts() ?? {}) as GlobalOptions;
     const cwd = globalOpts.cwd ?? process.cwd();
+    const sbom = _options.sbom as SbomFormat | undefined;
+    const sbomEncoding = _options.sbomEncoding as SbomEncoding;
+    const output = _options.output as string | undefined;
 
     try {
-      const [configResult, gitContext] = await Promise.all([loadConfig(cwd), initGitContext(cwd)]);
+      if (sbom !== undefined) checkSbomEncoding(sbom, sbomEncoding);
+
+      const [configResult, gitContext] = await Promise.all([
+        loadConfig(cwd, globalOpts.config),
+        initGitContext(cwd),
+      ]);
 
-      const scanner = createLicenseAuditor(gitContext, configResult.config, globalOpts);
+      const config = configResult.config;
+      const scanner = createLicenseAuditor(gitContext, config, {
+        ...globalOpts,
+        ...resolveOptions<LicenseOptions>('licenses', LICENSE_SCHEMA, config, _options),
+        compare: _options.compare as string | undefined,
+      });
       const result = await scanner.execute();
 
+      if (sbom !== undefined) {
+        if (result.data === undefined) {
+          throw new Error(result.issues[0]?.message ?? 'License audit failed');
+        }
+        const content = generateSbom(result.data.dependencies, sbom, sbomEncoding, {
+          project: await readProjectInfo(cwd),
+          toolVersion: VERSION,
+        });
+
+        if (output === undefined) {
+          // The SBOM is the only output, so it can be piped
+          process.stdout.write(content);
+          if (result.status === 'failed') process.exit(1);
+          return;
+        }
+        await writeFile(resolve(cwd, output), content, 'utf-8');
+        if (!globalOpts.json) printSuccess(`SBOM written to ${output}`);
+      }
+
       if (globalOpts.json) {
         // eslint-disable-next-line no-console
         console.log(JSON.stringify(result, null, 2));
       } else {
+        if (result.data?.drift !== undefined) printLicenseDrift(result.data.drift);
         printModuleIssues(result);
         printSummary([result]);
       }
@@ -210,27 +381,159 @@ program
     }
   });
 
+licensesCommand
+  .command('notice')
+  .description('Write the license texts and notices of production dependencies')
+  .option(
+    '--format <formats>',
+    `Comma-separated formats to write: ${NOTICE_FORMATS.join(', ')} (default: all)`,
+    flagParser((value) => list(value).map((item) => choice(NOTICE_FORMATS)(item)))
+  )
+  .option('--out-dir <dir>', 'Directory to write THIRD_PARTY_NOTICES files to', '.')
+  .action(async (_options: Record<string, unknown>, command) => {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    const globalOpts = (command.parent?.parent?.opts() ?? {}) as GlobalOptions;
+    const cwd = globalOpts.cwd ?? process.cwd();
+    const formats = (_options.format as NoticeFormat[] | undefined) ?? [...NOTICE_FORMATS];
+    const outDir = _options.outDir as string;
+
+    try {
+      // Only what ships needs attribution
+      const tree = await scanLicenseTree({ cwd, production: true });
+      const project = await readProjectInfo(cwd);
+      const bundle = await collectAttributions(cwd, project.name, tree.dependencies);
+
+      await mkdir(resolve(cwd, outDir), { recursive: true });
+      const files: string[] = [];
+      for (const format of new Set(formats)) {
+        const file = join(outDir, `${NOTICE_FILE_NAME}.${format}`);
+        await writeFile(resolve(cwd, file), renderNotices(bundle, format), 'utf-8');
+        files.push(file);
+      }
+
+      const missing = bundle.packages.filter((pkg) => pkg.licenseTexts.length === 0);
+      if (globalOpts.json) {
+        // eslint-disable-next-line no-console
+        console.log(
+          JSON.stringify(
+            {
+              files,
+              packages: bundle.packages.length,
+              licenseTexts: bundle.licenseTexts.length,
+              notices: bundle.notices.length,
+              missing: missing.map((pkg) => `${pkg.name}@${pkg.version}`),
+            },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      printSuccess(
+        `Attributions for ${bundle.packages.length} packages (${bundle.licenseTexts.length} license texts, ${bundle.notices.length} notices) written to ${files.join(', ')}`
+      );
+      if (missing.length > 0) {
+        printWarning(`No license text found for ${missing.length} packages:`);
+        for (const pkg of missing) {
+          // eslint-disable-next-line no-console
+          console.log(chalk.dim(`  ${pkg.name}@${pkg.version} (${pkg.license})`));
+        }
+        printInfo(
+          'Install dependencies so their license files can be read, or add the texts by hand'
+        );
+      }
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      printError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // SECRETS Command
 // ============================================================================
-program
+const secretsCommand = program
   .command('secrets')
   .description('Scan for leaked secrets')
   .option('--scan-git-history', 'Scan git history for secrets')
-  .option('--entropy-threshold <n>', 'Minimum entropy for detection', '4.5')
-  .option('--exclude <patterns>', 'Glob patterns to exclude')
-  .option('--include <patterns>', 'Glob patterns to include')
-  .action(async (_options, command) => {
+  .option('--staged', 'Scan only lines added in staged changes')
+  .addOption(new Option('--staged-only', 'Alias of --staged').hideHelp())
+  .option('--diff <range>', 'Scan only lines added in a <base>..<head> range')
+  .option('--since-commit <commit>', 'Scan only commits after <commit>, up to HEAD')
+  .option('--baseline <path>', 'Baseline file of accepted findings')
+  .option('--update-baseline', 'Accept all current findings into the baseline file')
+  .option('--audit-baseline', 'Report baseline entries that no longer match a finding')
+  .addOption(
+    new Option('--min-severity <level>', 'Only report findings at or above this severity').choices(
+      SECRET_SEVERITIES
+    )
+  )
+  .option(
+    '--entropy-threshold <n>',
+    'Minimum entropy for detection (default: 4.5)',
+    flagParser(number({ min: 0, max: 8 }))
+  )
+  .option(
+    '--concurrency <n>',
+    'Worker threads for scanning files (1 disables workers)',
+    flagParser(integer({ min: 1 }))
+  )
+  .option(
+    '--max-file-size <bytes>',
+    'Skip files larger than this many bytes',
+    flagParser(integer({ min: 1 }))
+  )
+  .option('--decode-base64', 'Decode long base64 blobs and scan their contents')
+  .option('--verify', 'Check detected secrets against their service endpoints')
+  .option('--pii', 'Run the PII detectors (payment cards, IBANs, national IDs, contact lists)')
+  .option('--no-pii', 'Skip the PII detectors, even if secrets.pii enables them')
+  .option('--no-sensitive-files', 'Skip the check for tracked or unignored secret-bearing files')
+  .option(
+    '--exclude <patterns>',
+    'Comma-separated glob patterns to exclude, added to the configured excludes',
+    flagParser(list)
+  )
+  .option('--include <patterns>', 'Comma-separated glob patterns to include', flagParser(list))
+  .action(async (_options: Record<string, unknown>, command) => {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
     const globalOpts = (command.parent?.opts() ?? {}) as GlobalOptions;
     const cwd = globalOpts.cwd ?? process.cwd();
 
     try {
-      const [configResult, gitContext] = await Promise.all([loadConfig(cwd), initGitContext(cwd)]);
+      const [configResult, gitContext] = await Promise.all([
+        loadConfig(cwd, globalOpts.config),
+        initGitContext(cwd),
+      ]);
 
-      const scanner = createSecretsAuditor(gitContext, configResult.config, globalOpts);
+      const config = configResult.config;
+      const scanner = createSecretsAuditor(gitContext, config, {
+        ...globalOpts,
+        ...resolveOptions<SecretsOptions>('secrets', SECRETS_SCHEMA, config, {
+          ..._options,
+          // Negatable and switch flags only override config when given
+          scanHistory: _options.scanGitHistory === true ? true : undefined,
+          sensitiveFiles: _options.sensitiveFiles === false ? false : undefined,
+        }),
+        staged: _options.staged === true || _options.stagedOnly === true,
+        diff: _options.diff as string | undefined,
+        sinceCommit: _options.sinceCommit as string | undefined,
+        auditBaseline: _options.auditBaseline === true,
+        ...(typeof _options.pii === 'boolean' ? { pii: _options.pii } : {}),
+      });
+      const updateBaseline = _options.updateBaseline === true;
       const result = await scanner.execute();
 
+      if (updateBaseline) {
+        if (result.data === undefined) {
+          printModuleIssues(result);
+          process.exit(1);
+        }
+        const baseline = await scanner.updateBaseline(result.data);
+        printSuccess(`Baseline updated with ${baseline.entries.length} accepted findings`);
+        return;
+      }
+
       if (globalOpts.json) {
         // eslint-disable-next-line no-console
         console.log(JSON.stringify(result, null, 2));
@@ -250,19 +553,144 @@ program
     }
   });
 
+secretsCommand
+  .command('remediate')
+  .description('Plan the removal of leaked secrets from the working tree and history')
+  .option('--from <report>', 'Use findings from a `secrets --json` report instead of scanning')
+  .option('--replacements <path>', 'Where to write the git filter-repo replacements file')
+  .option('--rewrite', 'Rewrite history on a throwaway mirror clone')
+  .option('--clone-dir <dir>', 'Directory for the rewritten clone (must not exist)')
+  .action(async (_options, command) => {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
+    const globalOpts = (command.parent?.parent?.opts() ?? {}) as GlobalOptions;
+    const cwd = globalOpts.cwd ?? process.cwd();
+
+    try {
+      const [configResult, gitContext] = await Promise.all([
+        loadConfig(cwd, globalOpts.config),
+        initGitContext(cwd),
+      ]);
+
+      /* eslint-disable @typescript-eslint/no-unsafe-member-access */
+      const from = _options.from as string | undefined;
+      const replacementsPath = _options.replacements as string | undefined;
+      const rewrite = _options.rewrite === true;
+      const cloneDir = _options.cloneDir as string | undefined;
+      /* eslint-enable @typescript-eslint/no-unsafe-member-access */
+
+      let findings: readonly SecretFinding[];
+      if (from !== undefined) {
+        const report = JSON.parse(await readFile(resolve(cwd, from), 'utf-8')) as {
+          data?: { findings?: SecretFinding[] };
+        };
+        if (!Array.isArray(report.data?.findings)) {
+          throw new Error(`${from} is not a secrets JSON report`);
+        }
+        findings = report.data.findings;
+      } else {
+        const scanner = createSecretsAuditor(gitContext, configResult.config, {
+          ...globalOpts,
+          scanHistory: gitContext.isGitRepo,
+        });
+        const result = await scanner.execute();
+        findings = result.data?.findings ?? [];
+      }
+
+      const plan = await createRemediationPlan(gitContext, findings);
+      if (plan.secrets.length === 0 && plan.manual.length === 0) {
+        printSuccess('No secrets to remediate');
+        return;
+      }
+
+      const replacements = await writeReplacementsFile(
+        plan,
+        replacementsPath !== undefined ? resolve(cwd, replacementsPath) : undefined
+      );
+      const rewritten = rewrite ? await rewriteHistory(gitContext, plan, cloneDir) : undefined;
+
+      if (globalOpts.json) {
+        // Raw values stay in the replacements file, never on stdout
+        const secrets = plan.secrets.map(({ value: _value, replacement: _r, ...rest }) => rest);
+        // eslint-disable-next-line no-console
+        console.log(
+          JSON.stringify(
+            { secrets, manual: plan.manual, refs: plan.refs, replacements, rewritten },
+            null,
+            2
+          )
+        );
+        return;
+      }
+
+      printSection('Secrets to rotate');
+      for (const secret of plan.secrets) {
+        const commits = secret.commits.map((c) => c.slice(0, 8)).join(', ');
+        // eslint-disable-next-line no-console
+        console.log(
+          `  ${chalk.bold(secret.type)} ${chalk.dim(secret.masked)}` +
+            (commits !== '' ? ` introduced in ${commits}` : '')
+        );
+        for (const file of secret.workingTreeFiles) {
+          // eslint-disable-next-line no-console
+          console.log(chalk.dim(`    still in working tree: ${file}`));
+        }
+      }
+
+      if (plan.manual.length > 0) {
+        printSection('Private keys to remove by hand');
+        for (const location of plan.manual) {
+          // eslint-disable-next-line no-console
+          console.log(
+            `  ${location.file}:${location.line}` +
+              (location.commit !== undefined ? ` introduced in ${location.commit.slice(0, 8)}` : '')
+          );
+        }
+        printWarning('The key block could not be read, so it is not in the replacements file.');
+      }
+
+      if (plan.refs.length > 0) {
+        printSection('Affected refs');
+        for (const ref of plan.refs) {
+          // eslint-disable-next-line no-console
+          console.log(`  ${ref}`);
+        }
+      }
+
+      printWarning(`Replacements file (contains raw secrets, delete after use): ${replacements}`);
+      if (rewritten) {
+        printSuccess(`History rewritten in ${rewritten.cloneDir}`);
+        printInfo(
+          `Review it, then run: git -C ${rewritten.cloneDir} push --force --mirror <remote>`
+        );
+      } else {
+        printInfo(`Rewrite with: git filter-repo --replace-text ${replacements}`);
+      }
+      printInfo('Rotate every secret above: rewriting history does not revoke them.');
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    } catch (error: any) {
+      printError(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // ============================================================================
 // BRANCHES Command
 // ============================================================================
 program
   .command('branches')
   .description('Find and clean stale branches')
-  .option('--stale-days <n>', 'Days since last commit to consider stale', '90')
-  .option('--exclude <patterns>', 'Branch patterns to exclude')
+  .option(
+    '--stale-days <n>',
+    'Days since last commit to consider stale (default: 90)',
+    flagParser(integer({ min: 1 }))
+  )
+  .option('--exclude <patterns>', 'Comma-separated branch patterns to exclude', flagParser(list))
   .option('--dry-run', 'Show what would be deleted without deleting')
   .option('--delete', 'Actually delete stale branches')
-  .option('--remote', 'Include remote branches')
+  .option('--remote', 'Include remote branches (the default)')
+  .option('--no-remote', 'Only check local branches')
   .option('--merged-only', 'Only show/delete merged branches')
-  .action(async (_options, command) => {
+  .action(async (_options: Record<string, unknown>, command) => {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
     const globalOpts = (command.parent?.opts() ?? {}) as GlobalOptions;
     const cwd = globalOpts.cwd ?? process.cwd();
@@ -279,8 +707,20 @@ program
         process.exit(1);
       }
 
-      const configResult = await loadConfig(cwd);
-      const scanner = createBranchesScanner(gitContext, configResult.config, globalOpts);
+      const configResult = await loadConfig(cwd, globalOpts.config);
+      const config = configResult.config;
+      const scanner = createBranchesScanner(gitContext, config, {
+        ...globalOpts,
+        ...resolveOptions<BranchesOptions>('branches', BRANCHES_SCHEMA, config, _options),
+      });
+
+      if (_options.delete === true || _options.dryRun === true) {
+        // Deleting needs --delete; --dry-run alone, or with it, only previews
+        // eslint-disable-next-line no-console
+        console.log(await scanner.cleanup(_options.delete !== true || _options.dryRun === true));
+        return;
+      }
+
       const result = await scanner.execute();
 
       if (globalOpts.json) {
@@ -311,16 +751,23 @@ program
   .option('--graph', 'Generate dependency graph')
   .option('--outdated', 'Check for outdated packages')
   .option('--duplicates', 'Find duplicate dependencies')
-  .option('--circular', 'Detect circular dependencies')
-  .action(async (_options, command) => {
+  .option('--circular', 'Detect circular imports between source files')
+  .action(async (_options: Record<string, unknown>, command) => {
     // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment, @typescript-eslint/no-unsafe-call, @typescript-eslint/no-unsafe-member-access
     const globalOpts = (command.parent?.opts() ?? {}) as GlobalOptions;
     const cwd = globalOpts.cwd ?? process.cwd();
 
     try {
-      const [configResult, gitContext] = await Promise.all([loadConfig(cwd), initGitContext(cwd)]);
+      const [configResult, gitContext] = await Promise.all([
+        loadConfig(cwd, globalOpts.config),
+        initGitContext(cwd),
+      ]);
 
-      const scanner = createDepsScanner(gitContext, configResult.config, globalOpts);
+      const config = configResult.config;
+      const scanner = createDepsScanner(gitContext, config, {
+        ...globalOpts,
+        ...resolveOptions<DepsOptions>('deps', DEPS_SCHEMA, config, _options),
+      });
       const result = await scanner.execute();
 
       if (globalOpts.json) {
@@ -513,7 +960,10 @@ program
     const cwd = globalOpts.cwd ?? process.cwd();
 
     try {
-      const [configResult, gitContext] = await Promise.all([loadConfig(cwd), initGitContext(cwd)]);
+      const [configResult, gitContext] = await Promise.all([
+        loadConfig(cwd, globalOpts.config),
+        initGitContext(cwd),
+      ]);
       const config = configResult.config;
 
       if (!gitContext.isGitRepo) {
@@ -526,13 +976,7 @@ program
       }
 
       // Run all scanners
-      const scanners = [
-        createCodeownersScanner(gitContext, config, globalOpts),
-        createLicenseAuditor(gitContext, config, globalOpts),
-        createSecretsAuditor(gitContext, config, globalOpts),
-        createBranchesScanner(gitContext, config, globalOpts),
-        createDepsScanner(gitContext, config, globalOpts),
-      ];
+      const scanners = createModuleScanners(gitContext, config, globalOpts);
 
       const results = await Promise.all(scanners.map((s) => s.execute()));
 
@@ -0,0 +1,255 @@
+/**
+ * RepoHygiene - CLI Options
+ * Coerces and validates command flags, and layers them over config and defaults
+ */
+
+import { InvalidArgumentError } from 'commander';
+import { DEFAULT_CONFIG } from '../core/config.js';
+import type {
+  BranchesOptions,
+  CodeownersOptions,
+  DepsOptions,
+  LicenseOptions,
+  RepoHygieneConfig,
+  ScanResult,
+  SecretsOptions,
+} from '../types/index.js';
+
+/** Converts a flag or config value, throwing an Error that says what was expected */
+export type Coercer<T> = (value: unknown) => T;
+
+export type OptionSchema<T> = { readonly [K in keyof T]?: Coercer<NonNullable<T[K]>> };
+
+type ConfigSection = Exclude<keyof RepoHygieneConfig, 'exclude'>;
+
+function describeBounds(min?: number, max?: number): string {
+  if (min !== undefined && max !== undefined) return ` between ${min} and ${max}`;
+  if (min !== undefined) return ` of at least ${min}`;
+  if (max !== undefined) return ` of at most ${max}`;
+  return '';
+}
+
+function numeric(kind: 'integer' | 'number', min?: number, max?: number): Coercer<number> {
+  const expected = `Expected ${kind === 'integer' ? 'an integer' : 'a number'}${describeBounds(min, max)}`;
+  return (value) => {
+    const parsed =
+      typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+    const valid =
+      (typeof value === 'number' || (typeof value === 'string' && value.trim() !== '')) &&
+      Number.isFinite(parsed) &&
+      (kind === 'number' || Number.isInteger(parsed)) &&
+      (min === undefined || parsed >= min) &&
+      (max === undefined || parsed <= max);
+    if (!valid) throw new Error(expected);
+    return parsed;
+  };
+}
+
+export function integer(bounds: { min?: number; max?: number } = {}): Coercer<number> {
+  return numeric('integer', bounds.min, bounds.max);
+}
+
+export function number(bounds: { min?: number; max?: number } = {}): Coercer<number> {
+  return numeric('number', bounds.min, bounds.max);
+}
+
+export function choice<T extends string>(choices: readonly T[]): Coercer<T> {
+  return (value) => {
+    const match = choices.find((c) => typeof value === 'string' && c === value.trim());
+    if (match === undefined) throw new Error(`Expected one of: ${choices.join(', ')}`);
+    return match;
+  };
+}
+
+export const boolean: Coercer<boolean> = (value) => {
+  if (typeof value === 'boolean') return value;
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  if (['true', 'yes', '1'].includes(text)) return true;
+  if (['false', 'no', '0'].includes(text)) return false;
+  throw new Error('Expected true or false');
+};
+
+export const string: Coercer<string> = (value) => {
+  if (typeof value !== 'string' || value.trim() === '') throw new Error('Expected a string');
+  return value;
+};
+
+/** A list, given as an array or a comma-separated string */
+export const list: Coercer<string[]> = (value) => {
+  const items = typeof value === 'string' ? value.split(',') : value;
+  if (!Array.isArray(items) || !items.every((item) => typeof item === 'string')) {
+    throw new Error('Expected a comma-separated list');
+  }
+  return items.map((item) => item.trim()).filter((item) => item !== '');
+};
+
+/**
+ * Adapt a coercer to a commander argument parser, so invalid flags are
+ * reported by commander with the flag name
+ */
+export function flagParser<T>(coerce: Coercer<T>): (value: string) => T {
+  return (value) => {
+    try {
+      return coerce(value);
+    } catch (error) {
+      throw new InvalidArgumentError(error instanceof Error ? error.message : String(error));
+    }
+  };
+}
+
+// ============================================================================
+// Module Schemas
+// ============================================================================
+
+export const LICENSE_FAIL_ON = ['unknown', 'restricted', 'any'] as const;
+export const LICENSE_DISTRIBUTIONS = ['saas', 'binary', 'library'] as const;
+export const SCAN_FAIL_ON = ['error', 'warning', 'any', 'none'] as const;
+export const SECRET_SEVERITIES = ['low', 'medium', 'high'] as const;
+
+export const LICENSE_SCHEMA: OptionSchema<LicenseOptions> = {
+  allow: list,
+  deny: list,
+  failOn: choice(LICENSE_FAIL_ON),
+  production: boolean,
+  distribution: choice(LICENSE_DISTRIBUTIONS),
+  projectLicense: string,
+};
+
+export const SECRETS_SCHEMA: OptionSchema<SecretsOptions> = {
+  scanHistory: boolean,
+  entropyThreshold: number({ min: 0, max: 8 }),
+  include: list,
+  exclude: list,
+  baseline: string,
+  minSeverity: choice(SECRET_SEVERITIES),
+  concurrency: integer({ min: 1 }),
+  maxFileSize: integer({ min: 1 }),
+  decodeBase64: boolean,
+  verify: boolean,
+  sensitiveFiles: boolean,
+};
+
+export const BRANCHES_SCHEMA: OptionSchema<BranchesOptions> = {
+  staleDays: integer({ min: 1 }),
+  exclude: list,
+  remote: boolean,
+  mergedOnly: boolean,
+  dryRun: boolean,
+};
+
+export const CODEOWNERS_SCHEMA: OptionSchema<CodeownersOptions> = {
+  threshold: integer({ min: 1 }),
+  since: string,
+  output: string,
+};
+
+export const DEPS_SCHEMA: OptionSchema<DepsOptions> = {
+  graph: boolean,
+  outdated: boolean,
+  duplicates: boolean,
+  circular: boolean,
+};
+
+/**
+ * List flags that add to the configured list rather than replace it, so
+ * excluding one more path doesn't drop the default excludes
+ */
+const EXTENDING_FLAGS: Readonly<Partial<Record<ConfigSection, readonly string[]>>> = {
+  secrets: ['exclude'],
+};
+
+// ============================================================================
+// Merging
+// ============================================================================
+
+/**
+ * Layer option sources: later layers override earlier ones, and undefined
+ * values never override a value from an earlier layer
+ */
+export function mergeOptions<T extends object>(
+  ...layers: ReadonlyArray<Partial<T> | undefined>
+): Partial<T> {
+  const merged: Partial<T> = {};
+  for (const layer of layers) {
+    if (layer === undefined) continue;
+    for (const [key, value] of Object.entries(layer)) {
+      if (value !== undefined) (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+function toFlag(key: string): string {
+  return `--${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+function coerceLayer<T>(
+  schema: OptionSchema<T>,
+  values: Readonly<Record<string, unknown>> | undefined,
+  describe: (key: string) => string
+): Partial<T> {
+  const layer: Record<string, unknown> = {};
+  for (const [key, coerce] of Object.entries(schema) as Array<[string, Coercer<unknown>]>) {
+    const value = values?.[key];
+    if (value === undefined) continue;
+    try {
+      layer[key] = coerce(value);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid value for ${describe(key)}: ${reason}`);
+    }
+  }
+  return layer as Partial<T>;
+}
+
+/**
+ * Resolve a module's options: command flags override the config file, which
+ * overrides the built-in defaults, except for the list flags in
+ * {@link EXTENDING_FLAGS}, which are appended. Values from each source are
+ * coerced and validated against the schema; keys outside it are left to the
+ * module.
+ */
+export function resolveOptions<T extends object>(
+  section: ConfigSection,
+  schema: OptionSchema<T>,
+  config: RepoHygieneConfig,
+  flags: Readonly<Record<string, unknown>> = {}
+): Partial<T> {
+  const defaults = DEFAULT_CONFIG[section] as Readonly<Record<string, unknown>> | undefined;
+  const configured = config[section] as Readonly<Record<string, unknown>> | undefined;
+
+  const base = mergeOptions<T>(
+    coerceLayer(schema, defaults, (key) => `default ${section}.${key}`),
+    coerceLayer(schema, configured, (key) => `config ${section}.${key}`)
+  );
+  const overrides: Record<string, unknown> = coerceLayer(schema, flags, toFlag);
+
+  for (const key of EXTENDING_FLAGS[section] ?? []) {
+    const configuredList = (base as Record<string, unknown>)[key];
+    const added = overrides[key];
+    if (Array.isArray(configuredList) && Array.isArray(added)) {
+      overrides[key] = [...(configuredList as unknown[]), ...(added as unknown[])];
+    }
+  }
+
+  return mergeOptions<T>(base, overrides as Partial<T>);
+}
+
+/**
+ * Whether `scan` results should fail the process for a `--fail-on` level
+ */
+export function exceedsFailLevel(
+  results: readonly ScanResult[],
+  level: (typeof SCAN_FAIL_ON)[number]
+): boolean {
+  switch (level) {
+    case 'none':
+      return false;
+    case 'error':
+      return results.some((r) => r.status === 'failed');
+    case 'warning':
+      return results.some((r) => r.status === 'failed' || r.status === 'warning');
+    case 'any':
+      return results.some((r) => r.issues.some((issue) => issue.suppressed !== true));
+  }
+}
@@ -44,7 +44,10 @@ export function printSummary(results: readonly ScanResult[]): void {
   const failed = results.filter((r) => r.status === 'failed').length;
   const skipped = results.filter((r) => r.status === 'skipped').length;
 
-  const totalIssues = results.reduce((sum, r) => sum + r.issues.length, 0);
+  const totalIssues = results.reduce(
+    (sum, r) => sum + r.issues.filter((i) => i.suppressed !== true).length,
+    0
+  );
   const totalDuration = results.reduce((sum, r) => sum + r.duration, 0);
 
   // eslint-disable-next-line no-console
@@ -83,9 +86,17 @@ export function printModuleIssues(result: ScanResult): void {
     return;
   }
 
+  const active = result.issues.filter((i) => i.suppressed !== true);
+  const suppressed = result.issues.length - active.length;
+
   printSection(`${result.module.toUpperCase()} Issues`);
   // eslint-disable-next-line no-console
-  console.log(createIssueTable(result.issues));
+  console.log(createIssueTable(active));
+
+  if (suppressed > 0) {
+    // eslint-disable-next-line no-console
+    console.log(chalk.dim(`  ${suppressed} suppressed by inline comments (see --json)`));
+  }
 }
 
 /**
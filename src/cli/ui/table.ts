@@ -111,7 +111,7 @@ export function createSummaryTable(results: readonly ScanResult[]): string {
     table.push([
       chalk.cyan(result.module),
       statusColor(`${statusIcon} ${result.status}`),
-      result.issues.length.toString(),
+      result.issues.filter((i) => i.suppressed !== true).length.toString(),
       `${result.duration}ms`,
     ]);
   }
@@ -162,7 +162,13 @@ export function createLicenseTable(
 
   for (const pkg of licenses) {
     const statusColor =
-      pkg.status === 'allowed' ? chalk.green : pkg.status === 'denied' ? chalk.red : chalk.yellow;
+      pkg.status === 'allowed'
+        ? chalk.green
+        : pkg.status === 'allowed-by-exception'
+          ? chalk.cyan
+          : pkg.status === 'denied'
+            ? chalk.red
+            : chalk.yellow;
 
     table.push([pkg.name, chalk.dim(pkg.version), pkg.license, statusColor(pkg.status)]);
   }
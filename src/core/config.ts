@@ -3,6 +3,7 @@
  * Uses cosmiconfig to load configuration from multiple sources
  */
 
+import { resolve } from 'path';
 import { cosmiconfig } from 'cosmiconfig';
 import type { RepoHygieneConfig } from '../types/index.js';
 
@@ -68,9 +69,12 @@ export interface LoadConfigResult {
 }
 
 /**
- * Loads configuration from various sources
+ * Loads configuration from various sources, or from `configPath` when given
  */
-export async function loadConfig(cwd: string = process.cwd()): Promise<LoadConfigResult> {
+export async function loadConfig(
+  cwd: string = process.cwd(),
+  configPath?: string
+): Promise<LoadConfigResult> {
   const explorer = cosmiconfig(MODULE_NAME, {
     searchPlaces: [
       'package.json',
@@ -84,7 +88,10 @@ export async function loadConfig(cwd: string = process.cwd()): Promise<LoadConfi
     ],
   });
 
-  const result = await explorer.search(cwd);
+  const result =
+    configPath !== undefined
+      ? await explorer.load(resolve(cwd, configPath))
+      : await explorer.search(cwd);
 
   if (result === null) {
     return {
@@ -189,6 +189,34 @@ export async function isTracked(ctx: GitContext, path: string): Promise<boolean>
   }
 }
 
+/**
+ * Paths of every file in the index, relative to the repository root. Files
+ * deleted from the working tree but not yet staged are still listed.
+ */
+export async function listTrackedFiles(ctx: GitContext): Promise<string[]> {
+  const output = await ctx.git.raw(['ls-files', '-z']);
+  return output.split('\0').filter(Boolean);
+}
+
+/**
+ * Paths added, copied, modified or renamed by a `git diff`, relative to the
+ * repository root. Pass `['--cached']` for the index or `['base..head']` for a range.
+ */
+export async function listChangedFiles(
+  ctx: GitContext,
+  diffArgs: readonly string[]
+): Promise<string[]> {
+  const output = await ctx.git.raw([
+    'diff',
+    '--name-only',
+    '-z',
+    '--no-renames',
+    '--diff-filter=ACMR',
+    ...diffArgs,
+  ]);
+  return output.split('\0').filter(Boolean);
+}
+
 /**
  * Get current branch name
  */
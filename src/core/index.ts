@@ -11,6 +11,8 @@ export {
   getBranchLastCommit,
   getContributionStats,
   isTracked,
+  listTrackedFiles,
+  listChangedFiles,
   getCurrentBranch,
   getDefaultBranch,
   type GitContext,
@@ -18,3 +20,11 @@ export {
   type BlameInfo,
 } from './git.js';
 export { BaseScanner, createIssue } from './scanner.js';
+export {
+  parseSuppressions,
+  applySuppressions,
+  findSuppression,
+  suppressionMatches,
+  type Suppression,
+  type SuppressionResult,
+} from './suppressions.js';
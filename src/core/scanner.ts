@@ -12,6 +12,7 @@ import type {
   BaseModuleOptions,
 } from '../types/index.js';
 import type { GitContext } from './git.js';
+import { applySuppressions, type Suppression } from './suppressions.js';
 
 export abstract class BaseScanner<TOptions extends BaseModuleOptions, TData> {
   protected readonly name: ModuleName;
@@ -46,6 +47,7 @@ export abstract class BaseScanner<TOptions extends BaseModuleOptions, TData> {
 
     try {
       const data = await this.scan();
+      await this.applyInlineSuppressions();
       const duration = Date.now() - startTime;
 
       return {
@@ -86,11 +88,44 @@ export abstract class BaseScanner<TOptions extends BaseModuleOptions, TData> {
   }
 
   /**
-   * Determine overall status based on issues
+   * Honour `repohygiene-ignore` comments in the files issues point to
+   */
+  protected async applyInlineSuppressions(): Promise<void> {
+    const { issues, unused } = await applySuppressions(
+      this.name,
+      this.issues,
+      this.gitContext.rootDir
+    );
+    this.issues = issues;
+
+    for (const { file, suppression } of unused) {
+      this.addUnusedSuppression(file, suppression);
+    }
+  }
+
+  /**
+   * Report a suppression comment that didn't match any issue
+   */
+  protected addUnusedSuppression(file: string, suppression: Suppression): void {
+    const target = suppression.rules.length > 0 ? suppression.rules.join(', ') : 'all rules';
+
+    this.addIssue({
+      severity: 'warning',
+      message: `Unused suppression for ${target}`,
+      file,
+      line: suppression.line,
+      rule: 'unused-suppression',
+      suggestion: 'Remove this repohygiene-ignore comment',
+    });
+  }
+
+  /**
+   * Determine overall status based on issues. Suppressed issues don't count.
    */
   protected determineStatus(): 'passed' | 'warning' | 'failed' {
-    const hasErrors = this.issues.some((i) => i.severity === 'error');
-    const hasWarnings = this.issues.some((i) => i.severity === 'warning');
+    const active = this.issues.filter((i) => i.suppressed !== true);
+    const hasErrors = active.some((i) => i.severity === 'error');
+    const hasWarnings = active.some((i) => i.severity === 'warning');
 
     if (hasErrors) return 'failed';
     if (hasWarnings) return 'warning';
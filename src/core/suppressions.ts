@@ -0,0 +1,206 @@
+/**
+ * RepoHygiene - Inline Suppressions
+ * Parse `repohygiene-ignore` comments and apply them to issues
+ */
+
+import { execFile } from 'child_process';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, resolve } from 'path';
+import { promisify } from 'util';
+import type { Issue, ModuleName } from '../types/index.js';
+
+export interface Suppression {
+  /** Line the comment is on */
+  readonly line: number;
+  /** Line the comment applies to */
+  readonly targetLine: number;
+  /** Rule ids such as `secrets/aws-access-key-id`; empty means every rule */
+  readonly rules: readonly string[];
+  readonly reason?: string;
+}
+
+export interface SuppressionResult {
+  readonly issues: Issue[];
+  readonly unused: Array<{ file: string; suppression: Suppression }>;
+}
+
+const DIRECTIVE = 'repohygiene-ignore';
+
+const execFileAsync = promisify(execFile);
+
+const DIRECTIVE_PATTERN =
+  /(?:\/\/|\/\*|#|<!--|--|;)\s*repohygiene-ignore(-next-line)?(?=\s|$|\*\/|-->)(.*)$/;
+
+const REASON_PATTERN = /reason=(?:"([^"]*)"|'([^']*)'|(\S+))/;
+
+/**
+ * Parse suppression comments from file content.
+ *
+ * `repohygiene-ignore` applies to its own line, `repohygiene-ignore-next-line`
+ * to the line below. Both accept optional rule ids and a `reason="..."`.
+ */
+export function parseSuppressions(content: string): Suppression[] {
+  if (!content.includes(DIRECTIVE)) {
+    return [];
+  }
+
+  const suppressions: Suppression[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const match = DIRECTIVE_PATTERN.exec(lines[i] ?? '');
+    if (!match) {
+      continue;
+    }
+
+    let rest = (match[2] ?? '').replace(/\s*(?:\*\/|-->)\s*$/, '');
+    let reason: string | undefined;
+
+    const reasonMatch = REASON_PATTERN.exec(rest);
+    if (reasonMatch) {
+      reason = reasonMatch[1] ?? reasonMatch[2] ?? reasonMatch[3];
+      rest = rest.replace(reasonMatch[0], ' ');
+    }
+
+    const rules = rest
+      .split(/[\s,]+/)
+      .map((r) => r.trim())
+      .filter(Boolean);
+
+    const line = i + 1;
+    suppressions.push({
+      line,
+      targetLine: match[1] !== undefined ? line + 1 : line,
+      rules,
+      reason,
+    });
+  }
+
+  return suppressions;
+}
+
+/**
+ * Check whether a suppression covers a rule of a module. Accepts `module/rule`,
+ * a bare `module` or a bare `rule`.
+ */
+export function suppressionMatches(
+  suppression: Suppression,
+  module: ModuleName,
+  rule: string | undefined
+): boolean {
+  if (suppression.rules.length === 0) {
+    return true;
+  }
+
+  return suppression.rules.some((token) => {
+    if (token === module) return true;
+    if (rule === undefined) return false;
+    return token === rule || token === `${module}/${rule}`;
+  });
+}
+
+/**
+ * Check whether a suppression names rules of a specific module
+ */
+export function suppressionTargetsModule(suppression: Suppression, module: ModuleName): boolean {
+  return suppression.rules.some((token) => token === module || token.startsWith(`${module}/`));
+}
+
+/**
+ * Find the suppression covering a rule on a given line, if any
+ */
+export function findSuppression(
+  suppressions: readonly Suppression[],
+  module: ModuleName,
+  rule: string | undefined,
+  line: number
+): Suppression | undefined {
+  return suppressions.find((s) => s.targetLine === line && suppressionMatches(s, module, rule));
+}
+
+/**
+ * Mark issues covered by inline suppressions in the files they point to, and
+ * collect suppressions for this module that matched nothing, in any file.
+ */
+export async function applySuppressions(
+  module: ModuleName,
+  issues: readonly Issue[],
+  rootDir: string
+): Promise<SuppressionResult> {
+  const byFile = new Map<string, { file: string; suppressions: Suppression[] }>();
+  const used = new Set<Suppression>();
+
+  const load = async (file: string): Promise<Suppression[]> => {
+    const path = resolve(rootDir, file);
+    let entry = byFile.get(path);
+    if (entry === undefined) {
+      entry = { file, suppressions: await readSuppressions(path) };
+      byFile.set(path, entry);
+    }
+    return entry.suppressions;
+  };
+
+  const result: Issue[] = [];
+  for (const issue of issues) {
+    if (issue.file === undefined || issue.line === undefined || issue.suppressed === true) {
+      result.push(issue);
+      continue;
+    }
+
+    const suppressions = await load(issue.file);
+    const suppression = findSuppression(suppressions, module, issue.rule, issue.line);
+    if (suppression) {
+      used.add(suppression);
+      result.push({ ...issue, suppressed: true, suppressionReason: suppression.reason });
+    } else {
+      result.push(issue);
+    }
+  }
+
+  // Files without issues can hold stale suppressions too
+  for (const file of await findDirectiveFiles(rootDir)) {
+    await load(join(rootDir, file));
+  }
+
+  const unused: SuppressionResult['unused'] = [];
+  for (const { file, suppressions } of byFile.values()) {
+    for (const suppression of suppressions) {
+      if (!used.has(suppression) && suppressionTargetsModule(suppression, module)) {
+        unused.push({ file, suppression });
+      }
+    }
+  }
+
+  return { issues: result, unused };
+}
+
+/**
+ * Paths, relative to the root, of the text files that mention the directive.
+ * `git grep --no-index` works in and outside repositories and honours
+ * `.gitignore`; it exits 1 when nothing matches.
+ */
+async function findDirectiveFiles(rootDir: string): Promise<string[]> {
+  try {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['grep', '--no-index', '--exclude-standard', '-I', '-l', '-z', '-F', '-e', DIRECTIVE],
+      { cwd: rootDir, maxBuffer: 16 * 1024 * 1024 }
+    );
+    return stdout.split('\0').filter(Boolean);
+  } catch {
+    return [];
+  }
+}
+
+async function readSuppressions(path: string): Promise<Suppression[]> {
+  if (!existsSync(path)) {
+    return [];
+  }
+
+  try {
+    return parseSuppressions(await readFile(path, 'utf-8'));
+  } catch {
+    return [];
+  }
+}
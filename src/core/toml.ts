@@ -0,0 +1,330 @@
+/**
+ * RepoHygiene - Minimal TOML Parser
+ * Enough of TOML 1.0 to read gitleaks configs and Cargo and Poetry files: tables,
+ * arrays of tables, strings, numbers, booleans, arrays and inline tables. Dates are
+ * not supported.
+ */
+
+export type TomlValue = string | number | boolean | TomlValue[] | TomlTable;
+
+export interface TomlTable {
+  [key: string]: TomlValue;
+}
+
+const BARE_KEY = /[A-Za-z0-9_-]/;
+
+const ESCAPES: Readonly<Record<string, string>> = {
+  b: '\b',
+  t: '\t',
+  n: '\n',
+  f: '\f',
+  r: '\r',
+  '"': '"',
+  '\\': '\\',
+};
+
+/**
+ * Parse a TOML document into plain objects and arrays
+ */
+export function parseToml(input: string): TomlTable {
+  return new TomlParser(input).parse();
+}
+
+class TomlParser {
+  private pos = 0;
+  private readonly root: TomlTable = {};
+  private current: TomlTable = this.root;
+  /** Tables created by a `[header]`, which may not be defined twice */
+  private readonly defined = new Set<TomlTable>();
+
+  constructor(private readonly input: string) {}
+
+  parse(): TomlTable {
+    for (;;) {
+      this.skipWhitespace(true);
+      if (this.pos >= this.input.length) return this.root;
+
+      if (this.peek() === '[') {
+        this.parseHeader();
+      } else {
+        this.parseKeyValue(this.current);
+      }
+      this.expectLineEnd();
+    }
+  }
+
+  private parseHeader(): void {
+    const isArray = this.input.startsWith('[[', this.pos);
+    this.pos += isArray ? 2 : 1;
+    this.skipWhitespace(false);
+    const keys = this.parseKey();
+    this.skipWhitespace(false);
+    if (!this.input.startsWith(isArray ? ']]' : ']', this.pos)) {
+      this.fail(`Expected "${isArray ? ']]' : ']'}" after table name`);
+    }
+    this.pos += isArray ? 2 : 1;
+
+    const parent = this.descend(this.root, keys.slice(0, -1));
+    const last = keys[keys.length - 1] as string;
+
+    if (isArray) {
+      const existing = parent[last] ?? [];
+      if (!Array.isArray(existing)) this.fail(`"${keys.join('.')}" is not an array of tables`);
+      const table: TomlTable = {};
+      existing.push(table);
+      parent[last] = existing;
+      this.current = table;
+      return;
+    }
+
+    const existing = parent[last];
+    if (existing === undefined) {
+      const table: TomlTable = {};
+      parent[last] = table;
+      this.current = table;
+    } else if (isTable(existing) && !this.defined.has(existing)) {
+      this.current = existing;
+    } else {
+      this.fail(`Table "${keys.join('.')}" is defined twice`);
+    }
+    this.defined.add(this.current);
+  }
+
+  private parseKeyValue(table: TomlTable): void {
+    const keys = this.parseKey();
+    this.skipWhitespace(false);
+    if (this.peek() !== '=') this.fail('Expected "=" after key');
+    this.pos++;
+    this.skipWhitespace(false);
+
+    const target = this.descend(table, keys.slice(0, -1));
+    const last = keys[keys.length - 1] as string;
+    if (last in target) this.fail(`Key "${keys.join('.')}" is defined twice`);
+    target[last] = this.parseValue();
+  }
+
+  /**
+   * Walk dotted keys from a table, creating tables and entering the last
+   * element of arrays of tables
+   */
+  private descend(table: TomlTable, keys: readonly string[]): TomlTable {
+    let node = table;
+    for (const key of keys) {
+      let next = node[key];
+      if (next === undefined) {
+        next = {};
+        node[key] = next;
+      }
+      if (Array.isArray(next)) next = next[next.length - 1];
+      if (next === undefined || !isTable(next)) this.fail(`"${key}" is not a table`);
+      node = next;
+    }
+    return node;
+  }
+
+  private parseKey(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      const char = this.peek();
+      if (char === '"' || char === "'") {
+        keys.push(this.parseString());
+      } else {
+        const start = this.pos;
+        while (this.pos < this.input.length && BARE_KEY.test(this.peek())) this.pos++;
+        if (start === this.pos) this.fail('Expected a key');
+        keys.push(this.input.slice(start, this.pos));
+      }
+
+      this.skipWhitespace(false);
+      if (this.peek() !== '.') return keys;
+      this.pos++;
+      this.skipWhitespace(false);
+    }
+  }
+
+  private parseValue(): TomlValue {
+    const char = this.peek();
+
+    if (char === '"' || char === "'") return this.parseString();
+    if (char === '[') return this.parseArray();
+    if (char === '{') return this.parseInlineTable();
+
+    const match = /^[^\s,\]}#]+/.exec(this.input.slice(this.pos));
+    const token = match?.[0] ?? '';
+    this.pos += token.length;
+
+    if (token === 'true') return true;
+    if (token === 'false') return false;
+    if (/^[+-]?(inf|nan)$/.test(token)) {
+      return token.endsWith('nan') ? NaN : token.startsWith('-') ? -Infinity : Infinity;
+    }
+    if (/^0x[0-9A-Fa-f_]+$|^0o[0-7_]+$|^0b[01_]+$/.test(token)) {
+      return Number(token.replace(/_/g, ''));
+    }
+    if (/^[+-]?\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d[\d_]*)?$/.test(token)) {
+      return Number(token.replace(/_/g, ''));
+    }
+    if (/^\d{4}-\d{2}-\d{2}|^\d{2}:\d{2}/.test(token)) {
+      this.fail('Dates and times are not supported');
+    }
+    return this.fail(token === '' ? 'Expected a value' : `Invalid value "${token}"`);
+  }
+
+  private parseArray(): TomlValue[] {
+    this.pos++;
+    const values: TomlValue[] = [];
+    for (;;) {
+      this.skipWhitespace(true);
+      if (this.peek() === ']') {
+        this.pos++;
+        return values;
+      }
+      values.push(this.parseValue());
+      this.skipWhitespace(true);
+      if (this.peek() === ',') {
+        this.pos++;
+      } else if (this.peek() !== ']') {
+        this.fail('Expected "," or "]" in array');
+      }
+    }
+  }
+
+  private parseInlineTable(): TomlTable {
+    this.pos++;
+    const table: TomlTable = {};
+    this.skipWhitespace(false);
+    if (this.peek() === '}') {
+      this.pos++;
+      return table;
+    }
+    for (;;) {
+      this.skipWhitespace(false);
+      this.parseKeyValue(table);
+      this.skipWhitespace(false);
+      const char = this.peek();
+      this.pos++;
+      if (char === '}') return table;
+      if (char !== ',') this.fail('Expected "," or "}" in inline table');
+    }
+  }
+
+  private parseString(): string {
+    const quote = this.peek();
+    const multiline = this.input.startsWith(quote.repeat(3), this.pos);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    this.pos += delimiter.length;
+
+    // A newline right after the opening delimiter is trimmed
+    if (multiline && this.peek() === '\n') this.pos++;
+    else if (multiline && this.input.startsWith('\r\n', this.pos)) this.pos += 2;
+
+    let value = '';
+    for (;;) {
+      if (this.pos >= this.input.length) this.fail('Unterminated string');
+
+      if (this.input.startsWith(delimiter, this.pos)) {
+        // Up to two quotes may sit right before the closing delimiter
+        let extra = 0;
+        while (multiline && extra < 2 && this.input[this.pos + 3 + extra] === quote) extra++;
+        this.pos += delimiter.length + extra;
+        return value + quote.repeat(extra);
+      }
+
+      const char = this.peek();
+      if (!multiline && (char === '\n' || char === '\r')) this.fail('Newline in string');
+
+      if (char === '\\' && quote === '"') {
+        value += this.parseEscape(multiline);
+        continue;
+      }
+
+      value += char;
+      this.pos++;
+    }
+  }
+
+  private parseEscape(multiline: boolean): string {
+    this.pos++;
+    const char = this.peek();
+
+    // Line-ending backslash: skip the newline and leading whitespace that follows
+    if (multiline && /[\s]/.test(char)) {
+      const rest = /^[ \t]*\r?\n[\s]*/.exec(this.input.slice(this.pos));
+      if (rest === null) this.fail('Invalid line-ending backslash');
+      this.pos += rest[0].length;
+      return '';
+    }
+
+    if (char === 'u' || char === 'U') {
+      const length = char === 'u' ? 4 : 8;
+      const hex = this.input.slice(this.pos + 1, this.pos + 1 + length);
+      if (!new RegExp(`^[0-9A-Fa-f]{${length}}$`).test(hex)) this.fail('Invalid unicode escape');
+      this.pos += 1 + length;
+      return String.fromCodePoint(parseInt(hex, 16));
+    }
+
+    const escaped = ESCAPES[char];
+    if (escaped === undefined) this.fail(`Invalid escape "\\${char}"`);
+    this.pos++;
+    return escaped;
+  }
+
+  private skipWhitespace(newlines: boolean): void {
+    while (this.pos < this.input.length) {
+      const char = this.peek();
+      if (char === ' ' || char === '\t' || (newlines && (char === '\n' || char === '\r'))) {
+        this.pos++;
+      } else if (char === '#' && newlines) {
+        while (this.pos < this.input.length && this.peek() !== '\n') this.pos++;
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipWhitespace(false);
+    if (this.peek() === '#') {
+      while (this.pos < this.input.length && this.peek() !== '\n') this.pos++;
+    }
+    if (this.pos < this.input.length && this.peek() !== '\n' && this.peek() !== '\r') {
+      this.fail('Expected a newline');
+    }
+  }
+
+  private peek(): string {
+    return this.input[this.pos] ?? '';
+  }
+
+  private fail(message: string): never {
+    const line = this.input.slice(0, this.pos).split('\n').length;
+    throw new Error(`Invalid TOML at line ${line}: ${message}`);
+  }
+}
+
+/**
+ * A value as a table, or an empty one when it is missing or isn't a table
+ */
+export function tomlTable(value: TomlValue | undefined): TomlTable {
+  return value !== undefined && isTable(value) ? value : {};
+}
+
+/**
+ * The tables of an array of tables, such as Cargo.lock's `[[package]]`
+ */
+export function tomlTables(value: TomlValue | undefined): TomlTable[] {
+  return Array.isArray(value) ? value.filter(isTable) : [];
+}
+
+/**
+ * The strings of an array, or none when the value isn't an array
+ */
+export function tomlStrings(value: TomlValue | undefined): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : [];
+}
+
+function isTable(value: TomlValue): value is TomlTable {
+  return typeof value === 'object' && !Array.isArray(value);
+}
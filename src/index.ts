@@ -23,3 +23,10 @@ export {
 } from './core/git.js';
 
 export { BaseScanner, createIssue } from './core/scanner.js';
+
+export {
+  parseSuppressions,
+  applySuppressions,
+  type Suppression,
+  type SuppressionResult,
+} from './core/suppressions.js';
@@ -10,7 +10,13 @@ import { exec } from 'child_process';
 // I'll use built-in util.promisify.
 
 import { promisify } from 'util';
-import type { DependencyInfo, DuplicateDependency, DepsData } from '../../types/index.js';
+import type {
+  DependencyInfo,
+  DuplicateDependency,
+  DepsData,
+  ImportCycle,
+} from '../../types/index.js';
+import { findCircularImports } from './circular.js';
 
 const execAsync = promisify(exec);
 
@@ -135,19 +141,35 @@ function traverseDependencies(
   }
 }
 
+export interface AnalyzeOptions {
+  /** Look for import cycles among the project's sources */
+  readonly circular?: boolean;
+  readonly exclude?: readonly string[];
+}
+
 /**
  * Core analysis function
  */
-export async function analyzeDependencies(cwd: string): Promise<DepsData> {
-  const [outdated, duplicates] = await Promise.all([
+export async function analyzeDependencies(
+  cwd: string,
+  options: AnalyzeOptions = {}
+): Promise<DepsData> {
+  const [outdated, duplicates, importCycles] = await Promise.all([
     checkOutdated(cwd).catch((): DependencyInfo[] => []),
     checkDuplicates(cwd).catch((): DuplicateDependency[] => []),
+    options.circular === true
+      ? findCircularImports(cwd, { exclude: options.exclude })
+      : Promise.resolve<ImportCycle[]>([]),
   ]);
 
   return {
     dependencies: outdated, // Only tracking outdated ones as "dependencies" of interest for now
     duplicates,
-    circularDeps: [], // Not implemented
+    circularDeps: importCycles.map(({ cycle }) => [
+      ...cycle.map((edge) => edge.from),
+      ...cycle.slice(0, 1).map((edge) => edge.from),
+    ]),
+    importCycles,
     outdatedCount: outdated.length,
   };
 }
@@ -0,0 +1,257 @@
+/**
+ * RepoHygiene - Circular Imports
+ * Build the import graph of a repository's sources and find its cycles
+ */
+
+import { readFile } from 'fs/promises';
+import { dirname, relative, sep } from 'path';
+import { globby } from 'globby';
+import type { ImportCycle, ImportEdge } from '../../types/index.js';
+import {
+  createImportResolver,
+  extractImports,
+  SOURCE_EXTENSIONS,
+  type LocalPackage,
+} from './imports.js';
+
+const DEFAULT_EXCLUDES = ['**/node_modules/**', '**/*.d.ts', '**/*.d.mts', '**/*.d.cts'];
+
+export interface CircularImportOptions {
+  /** Glob patterns of files to leave out of the graph */
+  readonly exclude?: readonly string[];
+}
+
+/**
+ * Find the import cycles among a repository's TS/JS sources. Each strongly
+ * connected component of the import graph is reported once, with the
+ * shortest cycle through it.
+ */
+export async function findCircularImports(
+  rootDir: string,
+  options: CircularImportOptions = {}
+): Promise<ImportCycle[]> {
+  const ignore = [...DEFAULT_EXCLUDES, ...(options.exclude ?? [])];
+  const [sources, manifests] = await Promise.all([
+    globby(
+      SOURCE_EXTENSIONS.map((ext) => `**/*${ext}`),
+      { cwd: rootDir, ignore, gitignore: true, absolute: true }
+    ),
+    globby('**/package.json', { cwd: rootDir, ignore, gitignore: true, absolute: true }),
+  ]);
+
+  const files = new Set(sources);
+  const resolveImport = await createImportResolver(
+    rootDir,
+    files,
+    await readLocalPackages(manifests)
+  );
+
+  const edges: ImportEdge[] = [];
+  for (const file of [...files].sort()) {
+    let source: string;
+    try {
+      source = await readFile(file, 'utf-8');
+    } catch {
+      continue;
+    }
+    for (const { specifier, line } of extractImports(source)) {
+      const target = resolveImport(specifier, file);
+      if (target === undefined) continue;
+      edges.push({
+        from: toPosix(relative(rootDir, file)),
+        to: toPosix(relative(rootDir, target)),
+        line,
+        specifier,
+      });
+    }
+  }
+
+  return findCycles(edges);
+}
+
+/**
+ * Group an import graph into strongly connected components, returning each
+ * component that contains a cycle along with its shortest cycle. Where two
+ * imports link the same files, the first one is shown.
+ */
+export function findCycles(edges: readonly ImportEdge[]): ImportCycle[] {
+  const graph = new Map<string, Map<string, ImportEdge>>();
+  for (const edge of edges) {
+    if (!graph.has(edge.to)) graph.set(edge.to, new Map());
+    let targets = graph.get(edge.from);
+    if (targets === undefined) {
+      targets = new Map();
+      graph.set(edge.from, targets);
+    }
+    const existing = targets.get(edge.to);
+    if (existing === undefined || edge.line < existing.line) targets.set(edge.to, edge);
+  }
+
+  const cycles: ImportCycle[] = [];
+  for (const component of stronglyConnectedComponents(graph)) {
+    const [only] = component;
+    if (component.length === 1 && (only === undefined || graph.get(only)?.has(only) !== true)) {
+      continue;
+    }
+    const members = new Set(component);
+    const cycle = shortestCycle(graph, [...component].sort(), members);
+    if (cycle !== undefined) cycles.push({ files: [...component].sort(), cycle });
+  }
+
+  return cycles.sort((a, b) => (a.files[0] ?? '').localeCompare(b.files[0] ?? ''));
+}
+
+/**
+ * Describe a cycle with the file and line of each import, e.g.
+ * `src/a.ts:3 → src/b.ts:7 → src/a.ts`
+ */
+export function formatCycle(cycle: ImportCycle): string {
+  const [first] = cycle.cycle;
+  if (first === undefined) return '';
+  return [...cycle.cycle.map((edge) => `${edge.from}:${edge.line}`), first.from].join(' → ');
+}
+
+// ============================================================================
+// Graph
+// ============================================================================
+
+/**
+ * Tarjan's algorithm, iterative so deep import chains can't overflow the stack
+ */
+function stronglyConnectedComponents(
+  graph: ReadonlyMap<string, ReadonlyMap<string, ImportEdge>>
+): string[][] {
+  const index = new Map<string, number>();
+  const lowlink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of graph.keys()) {
+    if (index.has(root)) continue;
+
+    const work: Array<{ node: string; targets: Iterator<string> }> = [];
+    const visit = (node: string): void => {
+      index.set(node, counter);
+      lowlink.set(node, counter);
+      counter++;
+      stack.push(node);
+      onStack.add(node);
+      work.push({ node, targets: (graph.get(node)?.keys() ?? [].values()) as Iterator<string> });
+    };
+    visit(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      if (frame === undefined) break;
+      const next = frame.targets.next();
+
+      if (next.done !== true) {
+        const target = next.value;
+        if (!index.has(target)) {
+          visit(target);
+        } else if (onStack.has(target)) {
+          lowlink.set(frame.node, Math.min(lowlink.get(frame.node) ?? 0, index.get(target) ?? 0));
+        }
+        continue;
+      }
+
+      work.pop();
+      const parent = work[work.length - 1];
+      if (parent !== undefined) {
+        lowlink.set(
+          parent.node,
+          Math.min(lowlink.get(parent.node) ?? 0, lowlink.get(frame.node) ?? 0)
+        );
+      }
+      if (lowlink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string | undefined;
+        do {
+          member = stack.pop();
+          if (member === undefined) break;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component);
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * The shortest cycle within a component, found by a breadth-first search back
+ * to each of its files. Ties go to the cycle starting at the first file.
+ */
+function shortestCycle(
+  graph: ReadonlyMap<string, ReadonlyMap<string, ImportEdge>>,
+  starts: readonly string[],
+  members: ReadonlySet<string>
+): ImportEdge[] | undefined {
+  let best: ImportEdge[] | undefined;
+
+  for (const start of starts) {
+    const via = new Map<string, ImportEdge>();
+    const queue = [start];
+    let found: ImportEdge | undefined;
+
+    search: for (let i = 0; i < queue.length; i++) {
+      const node = queue[i] ?? '';
+      for (const [target, edge] of graph.get(node) ?? []) {
+        if (!members.has(target)) continue;
+        if (target === start) {
+          found = edge;
+          break search;
+        }
+        if (!via.has(target)) {
+          via.set(target, edge);
+          queue.push(target);
+        }
+      }
+    }
+    if (found === undefined) continue;
+
+    const path = [found];
+    for (let edge = via.get(found.from); edge !== undefined; edge = via.get(edge.from)) {
+      path.unshift(edge);
+    }
+    if (best === undefined || path.length < best.length) best = path;
+  }
+
+  return best;
+}
+
+// ============================================================================
+// Packages
+// ============================================================================
+
+async function readLocalPackages(manifests: readonly string[]): Promise<LocalPackage[]> {
+  const packages: LocalPackage[] = [];
+  for (const manifest of manifests) {
+    try {
+      const json = JSON.parse(await readFile(manifest, 'utf-8')) as {
+        name?: unknown;
+        exports?: unknown;
+        imports?: unknown;
+        main?: unknown;
+      };
+      packages.push({
+        name: typeof json.name === 'string' ? json.name : undefined,
+        dir: dirname(manifest),
+        exports: json.exports,
+        imports: json.imports,
+        main: typeof json.main === 'string' ? json.main : undefined,
+      });
+    } catch {
+      // Not a package manifest we can read
+    }
+  }
+  return packages;
+}
+
+function toPosix(path: string): string {
+  return sep === '/' ? path : path.split(sep).join('/');
+}
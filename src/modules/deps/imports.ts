@@ -0,0 +1,429 @@
+/**
+ * RepoHygiene - Import Resolution
+ * Find the imports in TS/JS sources and resolve them to files in the repository
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+
+/** Extensions of the sources in the import graph, in the order they're tried */
+export const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/** Compiled extensions and the source extensions they're written from */
+const COMPILED_EXTENSIONS: Readonly<Record<string, readonly string[]>> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/**
+ * Conditions tried in package.json `exports` and `imports`. Every target is
+ * tried in turn, since only those pointing at sources can be followed.
+ */
+const EXPORT_CONDITIONS = ['source', 'development', 'import', 'require', 'node', 'default'];
+
+export interface SourceImport {
+  readonly specifier: string;
+  /** 1-based line of the import statement */
+  readonly line: number;
+}
+
+/** Resolves an import specifier to a source file, or undefined when it isn't one */
+export type ImportResolver = (specifier: string, fromFile: string) => string | undefined;
+
+interface TsconfigPaths {
+  /** Directory `paths` targets are relative to */
+  readonly baseDir: string;
+  readonly baseUrl?: string;
+  readonly paths: Readonly<Record<string, readonly string[]>>;
+}
+
+export interface LocalPackage {
+  readonly name?: string;
+  /** Absolute directory of the package.json */
+  readonly dir: string;
+  readonly exports?: unknown;
+  readonly imports?: unknown;
+  readonly main?: string;
+}
+
+// ============================================================================
+// Extraction
+// ============================================================================
+
+/**
+ * The clause is spelled out (a default binding, `* as ns`, `{ ... }` or a
+ * default followed by one of the others) rather than matched loosely, so in
+ * code without semicolons a match can't run on from one statement into the
+ * `from` of a later one
+ */
+const STATIC_IMPORT =
+  /(?<![\w$.])(import|export)(\s+type)?\s+((?:[\w$]+\s*,\s*)?(?:\{[^{}'";]*\}|\*(?:\s+as\s+[\w$]+)?|[\w$]+))\s*from\s*(['"])([^'"\n]+)\4/g;
+const SIDE_EFFECT_IMPORT = /(?<![\w$.])import\s*(['"])([^'"\n]+)\1/g;
+const REQUIRE_CALL = /(?<![\w$.])require\s*\(\s*(['"])([^'"\n]+)\1\s*\)/g;
+
+/**
+ * The imports a module runs when it loads: static imports and re-exports,
+ * side-effect imports and `require()` calls. Type-only imports are erased by
+ * the compiler and dynamic `import()` is deferred, so neither is included.
+ */
+export function extractImports(source: string): SourceImport[] {
+  const { code, strings } = lexSource(source);
+  // Import-like text inside a string literal isn't an import
+  const inString = (index: number): boolean =>
+    strings.some(([start, end]) => index > start && index < end);
+  const imports: Array<{ specifier: string; index: number }> = [];
+
+  for (const match of code.matchAll(STATIC_IMPORT)) {
+    const [, , typeOnly, clause = '', , specifier = ''] = match;
+    if (typeOnly !== undefined || isTypeOnlyClause(clause) || inString(match.index)) continue;
+    imports.push({ specifier, index: match.index });
+  }
+  for (const pattern of [SIDE_EFFECT_IMPORT, REQUIRE_CALL]) {
+    for (const match of code.matchAll(pattern)) {
+      if (inString(match.index)) continue;
+      imports.push({ specifier: match[2] ?? '', index: match.index });
+    }
+  }
+
+  // Count lines once, walking the imports in source order
+  let line = 1;
+  let position = 0;
+  return imports
+    .sort((a, b) => a.index - b.index)
+    .map(({ specifier, index }) => {
+      for (; position < index; position++) {
+        if (code.charCodeAt(position) === 10) line++;
+      }
+      return { specifier, line };
+    });
+}
+
+/** `{ type A, type B }`: named imports that are all types */
+function isTypeOnlyClause(clause: string): boolean {
+  const named = /^\{([^}]*)\}$/.exec(clause.trim());
+  if (named === null) return false;
+  const specifiers = (named[1] ?? '')
+    .split(',')
+    .map((s) => s.trim())
+    .filter((s) => s !== '');
+  return specifiers.length > 0 && specifiers.every((s) => /^type\s/.test(s));
+}
+
+/**
+ * Replace comments with spaces, keeping line breaks and string contents, so
+ * commented-out imports are ignored and lines still line up
+ */
+export function blankComments(source: string): string {
+  return lexSource(source).code;
+}
+
+/** The source with comments blanked, and the `[open, close]` quote offsets of its strings */
+function lexSource(source: string): { code: string; strings: Array<[number, number]> } {
+  const strings: Array<[number, number]> = [];
+  let code = '';
+  let quote: string | undefined;
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i] ?? '';
+    const next = source[i + 1];
+
+    if (quote !== undefined) {
+      code += char;
+      if (char === '\\') {
+        code += next ?? '';
+        i += 2;
+        continue;
+      }
+      if (char === quote || (char === '\n' && quote !== '`')) {
+        quote = undefined;
+        const open = strings[strings.length - 1];
+        if (open !== undefined) open[1] = i;
+      }
+      i++;
+    } else if (char === '/' && next === '/') {
+      while (i < source.length && source[i] !== '\n') {
+        code += ' ';
+        i++;
+      }
+    } else if (char === '/' && next === '*') {
+      const end = source.indexOf('*/', i + 2);
+      const stop = end === -1 ? source.length : end + 2;
+      code += source.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+    } else {
+      if (char === "'" || char === '"' || char === '`') {
+        quote = char;
+        strings.push([i, source.length]);
+      }
+      code += char;
+      i++;
+    }
+  }
+
+  return { code, strings };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Create a resolver for the sources of a repository. Relative imports, the
+ * `paths` and `baseUrl` of the root tsconfig.json, and imports of the
+ * repository's own packages through their package.json `exports`, `imports`
+ * and `main` are followed; anything else is an external dependency.
+ */
+export async function createImportResolver(
+  rootDir: string,
+  files: ReadonlySet<string>,
+  packages: readonly LocalPackage[]
+): Promise<ImportResolver> {
+  const tsconfig = await readTsconfigPaths(join(rootDir, 'tsconfig.json'));
+  const byName = new Map(
+    packages.flatMap((pkg) => (pkg.name !== undefined ? [[pkg.name, pkg] as const] : []))
+  );
+
+  const toFile = (path: string): string | undefined => resolveFile(path, files);
+
+  return (specifier, fromFile) => {
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      return toFile(resolve(dirname(fromFile), specifier));
+    }
+
+    if (specifier.startsWith('#')) {
+      const pkg = nearestPackage(fromFile, packages);
+      if (pkg === undefined) return undefined;
+      return firstFile(pkg.dir, matchSubpath(pkg.imports, specifier), toFile);
+    }
+
+    if (tsconfig !== undefined) {
+      const mapped = matchTsconfigPaths(tsconfig, specifier);
+      for (const target of mapped) {
+        const file = toFile(target);
+        if (file !== undefined) return file;
+      }
+      if (tsconfig.baseUrl !== undefined) {
+        const file = toFile(join(tsconfig.baseUrl, specifier));
+        if (file !== undefined) return file;
+      }
+    }
+
+    const { name, subpath } = splitPackageSpecifier(specifier);
+    const pkg = byName.get(name);
+    if (pkg === undefined) return undefined;
+    if (pkg.exports !== undefined) {
+      return firstFile(pkg.dir, matchSubpath(exportsMap(pkg.exports), subpath), toFile);
+    }
+    return subpath === '.'
+      ? toFile(join(pkg.dir, pkg.main ?? 'index'))
+      : toFile(join(pkg.dir, subpath));
+  };
+}
+
+/**
+ * The source file a path refers to: the path itself, its TypeScript source
+ * when it names compiled output, the path with an extension, or a directory
+ * index
+ */
+function resolveFile(path: string, files: ReadonlySet<string>): string | undefined {
+  const candidates = [path];
+  for (const [compiled, sources] of Object.entries(COMPILED_EXTENSIONS)) {
+    if (path.endsWith(compiled)) {
+      candidates.push(...sources.map((ext) => path.slice(0, -compiled.length) + ext));
+    }
+  }
+  candidates.push(
+    ...SOURCE_EXTENSIONS.map((ext) => path + ext),
+    ...SOURCE_EXTENSIONS.map((ext) => join(path, `index${ext}`))
+  );
+  return candidates.find((candidate) => files.has(candidate));
+}
+
+function firstFile(
+  dir: string,
+  targets: readonly string[],
+  toFile: (path: string) => string | undefined
+): string | undefined {
+  for (const target of targets) {
+    const file = toFile(join(dir, target));
+    if (file !== undefined) return file;
+  }
+  return undefined;
+}
+
+/**
+ * Split `@scope/name/sub/path` into the package name and the `./sub/path`
+ * subpath it exports
+ */
+function splitPackageSpecifier(specifier: string): { name: string; subpath: string } {
+  const parts = specifier.split('/');
+  const length = specifier.startsWith('@') ? 2 : 1;
+  const rest = parts.slice(length);
+  return {
+    name: parts.slice(0, length).join('/'),
+    subpath: rest.length > 0 ? `./${rest.join('/')}` : '.',
+  };
+}
+
+/** Normalize `exports` to a subpath map: a bare target or conditions object is `.` */
+function exportsMap(exports: unknown): unknown {
+  if (typeof exports === 'string' || Array.isArray(exports)) return { '.': exports };
+  if (isObject(exports) && !Object.keys(exports).some((key) => key.startsWith('.'))) {
+    return { '.': exports };
+  }
+  return exports;
+}
+
+/**
+ * Match a subpath against an `exports` or `imports` map, exactly or through a
+ * `*` pattern, preferring the longest prefix as Node does. Returns every
+ * target the conditions allow, in order.
+ */
+function matchSubpath(map: unknown, subpath: string): string[] {
+  if (!isObject(map)) return [];
+
+  const exact = map[subpath];
+  if (exact !== undefined) return conditionTargets(exact);
+
+  let best: { prefix: string; value: unknown; capture: string } | undefined;
+  for (const [key, value] of Object.entries(map)) {
+    const star = key.indexOf('*');
+    if (star === -1) continue;
+    const prefix = key.slice(0, star);
+    const suffix = key.slice(star + 1);
+    if (
+      subpath.startsWith(prefix) &&
+      subpath.endsWith(suffix) &&
+      subpath.length >= key.length - 1 &&
+      (best === undefined || prefix.length > best.prefix.length)
+    ) {
+      best = {
+        prefix,
+        value,
+        capture: subpath.slice(prefix.length, subpath.length - suffix.length),
+      };
+    }
+  }
+  if (best === undefined) return [];
+  const { capture } = best;
+  return conditionTargets(best.value).map((target) => target.replace(/\*/g, capture));
+}
+
+function conditionTargets(value: unknown): string[] {
+  if (typeof value === 'string') return [value];
+  if (Array.isArray(value)) return value.flatMap((item) => conditionTargets(item));
+  if (!isObject(value)) return [];
+  return EXPORT_CONDITIONS.filter((condition) => condition in value).flatMap((condition) =>
+    conditionTargets(value[condition])
+  );
+}
+
+/** The package whose directory is the closest ancestor of a file */
+function nearestPackage(file: string, packages: readonly LocalPackage[]): LocalPackage | undefined {
+  let best: LocalPackage | undefined;
+  for (const pkg of packages) {
+    const inside = file.startsWith(pkg.dir.endsWith('/') ? pkg.dir : `${pkg.dir}/`);
+    if (inside && (best === undefined || pkg.dir.length > best.dir.length)) best = pkg;
+  }
+  return best;
+}
+
+// ============================================================================
+// tsconfig.json
+// ============================================================================
+
+/**
+ * Read the `baseUrl` and `paths` of a tsconfig.json, following `extends`
+ */
+async function readTsconfigPaths(
+  path: string,
+  seen: ReadonlySet<string> = new Set()
+): Promise<TsconfigPaths | undefined> {
+  if (!existsSync(path) || seen.has(path)) return undefined;
+
+  let config: { extends?: unknown; compilerOptions?: { baseUrl?: unknown; paths?: unknown } };
+  try {
+    config = JSON.parse(stripJsonComments(await readFile(path, 'utf-8'))) as typeof config;
+  } catch {
+    return undefined;
+  }
+
+  const dir = dirname(path);
+  const parents = (Array.isArray(config.extends) ? config.extends : [config.extends]).filter(
+    (parent): parent is string => typeof parent === 'string'
+  );
+  let inherited: TsconfigPaths | undefined;
+  for (const parent of parents) {
+    const parentPath = parent.startsWith('.')
+      ? resolve(dir, parent.endsWith('.json') ? parent : `${parent}.json`)
+      : join(dir, 'node_modules', parent);
+    inherited = (await readTsconfigPaths(parentPath, new Set([...seen, path]))) ?? inherited;
+  }
+
+  const options = config.compilerOptions ?? {};
+  const baseUrl =
+    typeof options.baseUrl === 'string' ? resolve(dir, options.baseUrl) : inherited?.baseUrl;
+  const paths = isObject(options.paths)
+    ? Object.fromEntries(
+        Object.entries(options.paths).map(([key, targets]) => [
+          key,
+          Array.isArray(targets) ? targets.filter((t): t is string => typeof t === 'string') : [],
+        ])
+      )
+    : undefined;
+
+  if (paths === undefined && baseUrl === undefined && inherited === undefined) return undefined;
+  return {
+    // `paths` resolve against baseUrl, or the tsconfig.json declaring them
+    baseDir: baseUrl ?? (paths !== undefined ? dir : (inherited?.baseDir ?? dir)),
+    baseUrl,
+    paths: paths ?? inherited?.paths ?? {},
+  };
+}
+
+/**
+ * The absolute paths a specifier maps to through tsconfig `paths`, using the
+ * pattern with the longest prefix
+ */
+function matchTsconfigPaths(tsconfig: TsconfigPaths, specifier: string): string[] {
+  let best: { prefix: string; targets: readonly string[]; capture: string } | undefined;
+  for (const [pattern, targets] of Object.entries(tsconfig.paths)) {
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      if (pattern === specifier) return targets.map((target) => resolve(tsconfig.baseDir, target));
+      continue;
+    }
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix) &&
+      specifier.length >= pattern.length - 1 &&
+      (best === undefined || prefix.length > best.prefix.length)
+    ) {
+      best = {
+        prefix,
+        targets,
+        capture: specifier.slice(prefix.length, specifier.length - suffix.length),
+      };
+    }
+  }
+  if (best === undefined) return [];
+  const { capture } = best;
+  return best.targets.map((target) => resolve(tsconfig.baseDir, target.replace('*', capture)));
+}
+
+/**
+ * Make JSON with comments and trailing commas, as tsconfig.json allows, parseable
+ */
+export function stripJsonComments(text: string): string {
+  return blankComments(text).replace(/,(\s*[}\]])/g, '$1');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -4,3 +4,5 @@
 
 export { DepsScanner, createDepsScanner } from './scanner.js';
 export { analyzeDependencies, checkOutdated, checkDuplicates } from './analyzer.js';
+export { findCircularImports, findCycles, formatCycle } from './circular.js';
+export { extractImports, createImportResolver } from './imports.js';
@@ -7,12 +7,14 @@ import { BaseScanner } from '../../core/scanner.js';
 import type { GitContext } from '../../core/git.js';
 import type { DepsOptions, DepsData, RepoHygieneConfig } from '../../types/index.js';
 import { analyzeDependencies } from './analyzer.js';
+import { formatCycle } from './circular.js';
 
 export class DepsScanner extends BaseScanner<DepsOptions, DepsData> {
   constructor(gitContext: GitContext, config: RepoHygieneConfig, options: DepsOptions = {}) {
     const mergedOptions: DepsOptions = {
       outdated: config.deps?.outdated ?? true,
       duplicates: config.deps?.duplicates ?? true,
+      circular: config.deps?.circular ?? false,
       ...options,
     };
 
@@ -22,7 +24,10 @@ export class DepsScanner extends BaseScanner<DepsOptions, DepsData> {
   async scan(): Promise<DepsData> {
     this.log('Starting dependency analysis...');
 
-    const data = await analyzeDependencies(this.gitContext.rootDir);
+    const data = await analyzeDependencies(this.gitContext.rootDir, {
+      circular: this.options.circular,
+      exclude: this.config.exclude,
+    });
 
     this.log(`Found ${data.outdatedCount} outdated packages`);
 
@@ -48,6 +53,24 @@ export class DepsScanner extends BaseScanner<DepsOptions, DepsData> {
       });
     }
 
+    // Add issues for import cycles
+    for (const importCycle of data.importCycles ?? []) {
+      const [first] = importCycle.cycle;
+      this.addIssue({
+        severity: 'warning',
+        message:
+          `Circular import: ${formatCycle(importCycle)}` +
+          (importCycle.files.length > importCycle.cycle.length
+            ? ` (one of ${importCycle.files.length} files importing each other)`
+            : ''),
+        file: first?.from,
+        line: first?.line,
+        rule: 'no-circular',
+        suggestion:
+          'Move the shared code into a module both import, or use `import type` for type-only imports',
+      });
+    }
+
     return data;
   }
 }
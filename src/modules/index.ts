@@ -17,8 +17,21 @@ export {
   LicenseAuditor,
   createLicenseAuditor,
   scanLicenses,
+  scanLicenseTree,
   generateLicenseSummary,
   generateMarkdownReport,
+  generateSbom,
+  checkSbomEncoding,
+  readProjectInfo,
+  SBOM_FORMATS,
+  SBOM_ENCODINGS,
+  collectAttributions,
+  renderNotices,
+  NOTICE_FILE_NAME,
+  NOTICE_FORMATS,
+  type NoticeFormat,
+  type SbomEncoding,
+  type SbomFormat,
 } from './licenses/index.js';
 
 // Secrets module
@@ -27,7 +40,11 @@ export {
   createSecretsAuditor,
   SECRET_PATTERNS,
   scanFilesForSecrets,
+  scanGitHistory,
   calculateEntropy,
+  createRemediationPlan,
+  writeReplacementsFile,
+  rewriteHistory,
 } from './secrets/index.js';
 
 // Branches module
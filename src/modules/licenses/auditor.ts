@@ -5,8 +5,24 @@
 
 import { BaseScanner } from '../../core/scanner.js';
 import type { GitContext } from '../../core/git.js';
-import type { LicenseOptions, LicenseData, RepoHygieneConfig } from '../../types/index.js';
-import { scanLicenses } from './scanner.js';
+import type {
+  DependencyLicense,
+  LicenseCompatibilityTarget,
+  LicenseDrift,
+  LicenseOptions,
+  LicenseData,
+  RepoHygieneConfig,
+} from '../../types/index.js';
+import { ECOSYSTEM_ADAPTERS, scanLicenseTree } from './scanner.js';
+import { compareLicenses } from './drift.js';
+import { formatConfidence } from './detect.js';
+import { createCompatibilityPolicy, readProjectLicense } from './compatibility.js';
+import {
+  applyLicenseExceptions,
+  compileLicenseException,
+  EXCEPTION_WARNING_DAYS,
+  type LicenseException,
+} from './exceptions.js';
 import {
   generateLicenseSummary,
   shouldFail,
@@ -23,6 +39,9 @@ export class LicenseAuditor extends BaseScanner<LicenseOptions, LicenseData> {
       deny: config.licenses?.deny ?? DEFAULT_POLICY.deny,
       failOn: config.licenses?.failOn ?? 'restricted',
       production: config.licenses?.production ?? true,
+      exceptions: config.licenses?.exceptions ?? [],
+      distribution: config.licenses?.distribution,
+      projectLicense: config.licenses?.projectLicense,
       ...options,
     };
 
@@ -38,43 +57,180 @@ export class LicenseAuditor extends BaseScanner<LicenseOptions, LicenseData> {
   async scan(): Promise<LicenseData> {
     this.log('Starting license audit...');
 
+    const exceptions = (this.options.exceptions ?? []).map((definition) =>
+      compileLicenseException(definition)
+    );
+
+    // With a distribution model, licenses are checked against the project's own
+    // license instead of the allow and deny lists
+    let compatibility: LicenseCompatibilityTarget | undefined;
+    if (this.options.distribution !== undefined) {
+      compatibility = {
+        ...(await readProjectLicense(this.gitContext.rootDir, this.options.projectLicense)),
+        distribution: this.options.distribution,
+      };
+      this.log(
+        `Checking compatibility with ${compatibility.projectLicense} (${compatibility.distribution})`
+      );
+    }
+
     // Scan all dependencies
-    const dependencies = await scanLicenses({
+    const scanned = await scanLicenseTree({
       cwd: this.gitContext.rootDir,
       allow: this.policy.allow,
       deny: this.policy.deny,
       production: this.options.production,
+      evaluate: compatibility !== undefined ? createCompatibilityPolicy(compatibility) : undefined,
     });
 
-    this.log(`Scanned ${dependencies.length} dependencies`);
+    const { lockfile, ecosystems } = scanned;
+    this.log(
+      `Scanned ${scanned.dependencies.length} dependencies (${ecosystems.map((source) => source.ecosystem).join(', ')})`
+    );
+
+    const { dependencies, applied, expired, unused } = applyLicenseExceptions(
+      scanned.dependencies,
+      exceptions
+    );
+
+    for (const source of ecosystems) {
+      const adapter = ECOSYSTEM_ADAPTERS.find(
+        (candidate) => candidate.ecosystem === source.ecosystem
+      );
+      if (!source.directOnly || adapter === undefined) continue;
+      this.addIssue({
+        severity: 'info',
+        message: `No ${adapter.label} lockfile found: only direct dependencies were audited, at their declared ranges`,
+        rule: 'no-lockfile',
+        suggestion: adapter.lockfileHint,
+      });
+    }
+
+    if (compatibility?.projectLicenseSource === 'none') {
+      this.addIssue({
+        severity: 'info',
+        message: 'No project license found: dependencies were checked as for a proprietary project',
+        rule: 'no-project-license',
+        suggestion: 'Set licenses.projectLicense, or the license field of package.json',
+      });
+    }
+
+    for (const { dependency, exception, daysLeft } of applied) {
+      if (daysLeft > EXCEPTION_WARNING_DAYS) continue;
+      this.addIssue({
+        severity: 'warning',
+        message: `License exception for ${dependency.name}@${dependency.version} (${dependency.license}) expires ${formatDaysLeft(daysLeft)}, on ${exception.expires} (approved by ${exception.definition.approver})`,
+        rule: 'license-exception-expiring',
+        suggestion: 'Renew the exception with its approver or replace the package',
+      });
+    }
+
+    for (const { dependency, exception } of expired) {
+      this.addIssue({
+        severity: 'error',
+        message: `License exception for ${dependency.name}@${dependency.version} (${dependency.license}) expired on ${exception.expires} (approved by ${exception.definition.approver})`,
+        rule: 'license-exception-expired',
+        suggestion: 'Renew the exception with its approver or replace the package',
+      });
+    }
+
+    for (const exception of unused) {
+      this.addIssue({
+        severity: 'info',
+        message: `License exception for ${formatExceptionTarget(exception)} matches no denied or unknown dependency`,
+        rule: 'unused-license-exception',
+        suggestion: 'Remove it from licenses.exceptions',
+      });
+    }
 
     // Generate summary
     const summary = generateLicenseSummary(dependencies);
 
+    // Against a ref, only packages that are new or changed license are reported
+    let drift: LicenseDrift | undefined;
+    let reported: readonly DependencyLicense[] = dependencies;
+    if (this.options.compare !== undefined) {
+      drift = await compareLicenses(this.gitContext, this.options.compare, dependencies, {
+        production: this.options.production,
+      });
+      this.log(
+        `Compared with ${drift.ref}: ${drift.added.length} added, ${drift.changed.length} changed, ${drift.removed.length} removed`
+      );
+      reported = [...drift.added, ...drift.changed.map((change) => change.dependency)];
+
+      for (const ecosystem of drift.directOnly) {
+        const adapter = ECOSYSTEM_ADAPTERS.find((candidate) => candidate.ecosystem === ecosystem);
+        this.addIssue({
+          severity: 'info',
+          message: `No ${adapter?.label ?? ecosystem} lockfile in ${drift.ref}: only direct dependencies were compared`,
+          rule: 'no-lockfile-at-ref',
+          suggestion: adapter?.lockfileHint,
+        });
+      }
+    }
+
     // Report denied licenses
-    for (const dep of dependencies) {
+    for (const dep of reported) {
+      const since = drift !== undefined ? formatSince(dep, drift) : '';
       if (dep.status === 'denied') {
         this.addIssue({
           severity: 'error',
-          message: `Denied license: ${dep.name}@${dep.version} uses ${dep.license}`,
+          message: `Denied license: ${dep.name}@${dep.version} uses ${dep.license}${formatVia(dep)}${since}${dep.obligation !== undefined ? `: ${dep.obligation}` : ''}`,
           rule: 'denied-license',
           suggestion: 'Remove this package or seek an exception',
         });
       } else if (dep.status === 'unknown') {
         this.addIssue({
           severity: 'warning',
-          message: `Unknown license: ${dep.name}@${dep.version} (${dep.license})`,
+          message: `Unknown license: ${dep.name}@${dep.version} (${dep.license})${formatVia(dep)}${since}`,
           rule: 'unknown-license',
           suggestion: 'Review this license manually and add to allow/deny list',
         });
       }
+
+      if (dep.licenseMismatch === true && dep.detectedLicense !== undefined) {
+        this.addIssue({
+          severity: 'warning',
+          message: `License mismatch: ${dep.name}@${dep.version} declares ${dep.license} but ${dep.licenseFile ?? 'its license file'} matches ${dep.detectedLicense.id} (${formatConfidence(dep.detectedLicense.confidence)} confidence)${formatVia(dep)}`,
+          rule: 'license-mismatch',
+          suggestion: 'Check which license applies before relying on the package.json license',
+        });
+      }
+    }
+
+    if (drift !== undefined) {
+      for (const { dependency, previousVersion, previousLicense } of drift.changed) {
+        if (dependency.status === 'denied' || dependency.status === 'unknown') continue;
+        this.addIssue({
+          severity: 'info',
+          message: `License changed: ${dependency.name}@${dependency.version} uses ${dependency.license}, was ${previousLicense} at ${previousVersion} in ${drift.ref}`,
+          rule: 'license-changed',
+        });
+      }
+
+      const introduced = new Set(reported);
+      const existing = dependencies.filter(
+        (dep) => (dep.status === 'denied' || dep.status === 'unknown') && !introduced.has(dep)
+      );
+      if (existing.length > 0) {
+        this.addIssue({
+          severity: 'info',
+          message: `${existing.length} denied or unknown licenses unchanged since ${drift.ref} were not reported`,
+          rule: 'existing-license-violations',
+          suggestion: 'Run without --compare to review them',
+        });
+      }
     }
 
     // Check if should fail
-    if (shouldFail(summary, this.policy)) {
+    const reportedSummary = drift !== undefined ? generateLicenseSummary(reported) : summary;
+    if (shouldFail(reportedSummary, this.policy)) {
       this.addIssue({
         severity: 'error',
-        message: `License policy violation: ${summary.denied} denied, ${summary.unknown} unknown`,
+        message:
+          drift !== undefined
+            ? `License policy violation since ${drift.ref}: ${reportedSummary.denied} denied, ${reportedSummary.unknown} unknown introduced`
+            : `License policy violation: ${summary.denied} denied, ${summary.unknown} unknown`,
         rule: 'policy-violation',
       });
     }
@@ -82,10 +238,50 @@ export class LicenseAuditor extends BaseScanner<LicenseOptions, LicenseData> {
     return {
       dependencies,
       summary,
+      lockfile,
+      ecosystems,
+      compatibility,
+      drift,
     };
   }
 }
 
+/**
+ * Describe how a transitive dependency was pulled in, e.g. ` (via express > debug)`
+ */
+function formatVia(dep: DependencyLicense): string {
+  const path = dep.dependencyPath ?? [];
+  return path.length > 1 ? ` (via ${path.join(' > ')})` : '';
+}
+
+/**
+ * Describe why a package is reported against a ref, e.g. ` (new since main)`
+ * or ` (was MIT at 1.0.0 in main)`
+ */
+function formatSince(dep: DependencyLicense, drift: LicenseDrift): string {
+  const change = drift.changed.find((candidate) => candidate.dependency === dep);
+  return change !== undefined
+    ? ` (was ${change.previousLicense} at ${change.previousVersion} in ${drift.ref})`
+    : ` (new since ${drift.ref})`;
+}
+
+/**
+ * Describe the time left on an exception, e.g. `in 12 days`
+ */
+function formatDaysLeft(days: number): string {
+  if (days === 0) return 'today';
+  return days === 1 ? 'tomorrow' : `in ${days} days`;
+}
+
+/**
+ * Describe what an exception covers, e.g. `left-pad@^1.0.0 (WTFPL)`
+ */
+function formatExceptionTarget(exception: LicenseException): string {
+  const { definition } = exception;
+  const version = definition.version !== undefined ? `@${definition.version}` : '';
+  return `${definition.package}${version} (${definition.license})`;
+}
+
 /**
  * Factory function for creating license auditor
  */
@@ -0,0 +1,377 @@
+/**
+ * RepoHygiene - License Compatibility
+ * Check dependency licenses against the project's own license and the way
+ * the project is distributed
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { LicenseCompatibilityTarget, LicenseDistribution } from '../../types/index.js';
+import { detectLicenseText } from './detect.js';
+import { findLicenseFile, isRecognizedLicense } from './license-files.js';
+import {
+  evaluateExpression,
+  formatSpdx,
+  getSpdxLicenses,
+  parseSpdx,
+  type LicenseDecision,
+  type SpdxExpression,
+  type SpdxLicense,
+} from './spdx.js';
+
+/**
+ * How far a license reaches into the work that uses it: not at all, into
+ * changes to the licensed code, into the whole program once it is
+ * distributed, into the whole program once it is used over a network, or
+ * it restricts use outright
+ */
+export type LicenseCategory =
+  | 'permissive'
+  | 'weak-copyleft'
+  | 'strong-copyleft'
+  | 'network-copyleft'
+  | 'restricted';
+
+const CATEGORIES: Readonly<Record<LicenseCategory, readonly string[]>> = {
+  permissive: [
+    '0BSD',
+    'AFL-3.0',
+    'Apache-1.1',
+    'Apache-2.0',
+    'Artistic-2.0',
+    'BlueOak-1.0.0',
+    'BSD-1-Clause',
+    'BSD-2-Clause',
+    'BSD-3-Clause',
+    'BSD-3-Clause-Clear',
+    'BSL-1.0',
+    'CC-BY-3.0',
+    'CC-BY-4.0',
+    'CC0-1.0',
+    'curl',
+    'HPND',
+    'ISC',
+    'MIT',
+    'MIT-0',
+    'NCSA',
+    'PostgreSQL',
+    'PSF-2.0',
+    'Python-2.0',
+    'Unicode-3.0',
+    'Unicode-DFS-2016',
+    'Unlicense',
+    'UPL-1.0',
+    'W3C',
+    'WTFPL',
+    'X11',
+    'Zlib',
+  ],
+  'weak-copyleft': [
+    'CDDL-1.0',
+    'CDDL-1.1',
+    'CPL-1.0',
+    'EPL-1.0',
+    'EPL-2.0',
+    'LGPL-2.0',
+    'LGPL-2.1',
+    'LGPL-3.0',
+    'MPL-1.1',
+    'MPL-2.0',
+    'MS-RL',
+  ],
+  'strong-copyleft': ['EUPL-1.1', 'EUPL-1.2', 'GPL-2.0', 'GPL-3.0'],
+  'network-copyleft': ['AGPL-3.0', 'SSPL-1.0'],
+  restricted: [
+    'BUSL-1.1',
+    'CC-BY-NC-4.0',
+    'CC-BY-NC-ND-4.0',
+    'CC-BY-NC-SA-4.0',
+    'Elastic-2.0',
+    'PolyForm-Noncommercial-1.0.0',
+    'PolyForm-Small-Business-1.0.0',
+  ],
+};
+
+const CATEGORY_BY_ID = new Map(
+  Object.entries(CATEGORIES).flatMap(([category, ids]) =>
+    ids.map((id) => [id.toLowerCase(), category as LicenseCategory] as const)
+  )
+);
+
+/** Exceptions that let a GPL-family license be linked with code under other terms */
+const LINKING_EXCEPTIONS = new Set(
+  [
+    'Autoconf-exception-3.0',
+    'Bison-exception-2.2',
+    'Classpath-exception-2.0',
+    'Font-exception-2.0',
+    'GCC-exception-2.0',
+    'GCC-exception-3.1',
+    'Linux-syscall-note',
+    'LLVM-exception',
+    'OpenJDK-assembly-exception-1.0',
+  ].map((id) => id.toLowerCase())
+);
+
+const CATEGORY_LABELS: Readonly<Record<LicenseCategory, string>> = {
+  permissive: 'permissive',
+  'weak-copyleft': 'weak copyleft',
+  'strong-copyleft': 'strong copyleft',
+  'network-copyleft': 'network copyleft',
+  restricted: 'source-available, not open source',
+};
+
+const DISTRIBUTION_LABELS: Readonly<Record<LicenseDistribution, string>> = {
+  saas: 'run as a service',
+  binary: 'distributed as a binary',
+  library: 'published as a library',
+};
+
+/** The project license, compiled for comparison */
+interface ProjectLicense {
+  readonly text: string;
+  /** Licenses the project is offered under; none for proprietary projects */
+  readonly licenses: readonly SpdxLicense[];
+}
+
+/**
+ * The category of a license, or undefined when the matrix doesn't cover it.
+ * A GPL-family license with a linking exception counts as weak copyleft.
+ */
+export function licenseCategory(license: SpdxLicense): LicenseCategory | undefined {
+  const category = CATEGORY_BY_ID.get(baseId(license).toLowerCase());
+  if (
+    (category === 'strong-copyleft' || category === 'network-copyleft') &&
+    license.exception !== undefined &&
+    LINKING_EXCEPTIONS.has(license.exception.toLowerCase())
+  ) {
+    return 'weak-copyleft';
+  }
+  return category;
+}
+
+/**
+ * Build a license evaluator for a project license and distribution model.
+ * Each license in an expression is judged by how far it reaches into the
+ * project: permissive and weak copyleft licenses are always allowed; strong
+ * copyleft only when the project isn't distributed or its license is
+ * compatible; network copyleft only under a compatible project license; and
+ * source-available licenses never. Denials name the obligation the project
+ * couldn't meet.
+ */
+export function createCompatibilityPolicy(
+  target: Pick<LicenseCompatibilityTarget, 'projectLicense' | 'distribution'>
+): (license: string) => LicenseDecision {
+  const project = compileProjectLicense(target.projectLicense);
+
+  return (license) => {
+    let expression: SpdxExpression;
+    try {
+      expression = parseSpdx(license);
+    } catch {
+      return {
+        status: 'unknown',
+        branch: license,
+        reason: `${license} is not a valid SPDX expression`,
+      };
+    }
+    return evaluateExpression(expression, (id) => decide(id, project, target.distribution));
+  };
+}
+
+function decide(
+  license: SpdxLicense,
+  project: ProjectLicense,
+  distribution: LicenseDistribution
+): LicenseDecision {
+  const text = formatSpdx(license);
+  const category = licenseCategory(license);
+  if (category === undefined) {
+    return {
+      status: 'unknown',
+      branch: text,
+      reason: license.known
+        ? `${text} is not in the compatibility matrix`
+        : `${text} is not a known SPDX license id`,
+    };
+  }
+
+  const label = CATEGORY_LABELS[category];
+  const context = `the project (${project.licenses.length === 0 ? 'proprietary' : project.text}, ${DISTRIBUTION_LABELS[distribution]})`;
+  const denied = (obligation: string): LicenseDecision => ({
+    status: 'denied',
+    branch: text,
+    reason: `${text} is ${label}, incompatible with ${context}`,
+    obligation,
+  });
+  const allowed = (reason: string): LicenseDecision => ({
+    status: 'allowed',
+    branch: text,
+    reason,
+  });
+
+  if (project.licenses.some((own) => baseId(own).toLowerCase() === baseId(license).toLowerCase())) {
+    return allowed(`${text} is the project's own license`);
+  }
+
+  switch (category) {
+    case 'permissive':
+      if (distribution !== 'saas' && baseId(license) === 'Apache-2.0' && onlyGpl2(project)) {
+        return denied(
+          "Apache-2.0's patent termination and indemnity terms are further restrictions that GPL-2.0-only forbids, so the two can't be distributed together"
+        );
+      }
+      return allowed(`${text} is permissive`);
+
+    case 'weak-copyleft':
+      return allowed(
+        distribution === 'saas'
+          ? `${text} is weak copyleft, and its terms apply only on distribution`
+          : `${text} is weak copyleft: changes to the ${text} code must be shared under ${text}, the rest of the project is unaffected`
+      );
+
+    case 'strong-copyleft':
+      if (distribution === 'saas') {
+        return allowed(`${text} applies on distribution, and a hosted service isn't distributed`);
+      }
+      if (gplCompatible(license, project)) {
+        return allowed(`${text} is compatible with the project's ${project.text}`);
+      }
+      return denied(
+        distribution === 'binary'
+          ? `Distributing a binary that includes ${text} code requires releasing the source of the whole program under ${text}`
+          : `Publishing a library that uses ${text} code requires licensing the library, and every program built on it, under ${text}`
+      );
+
+    case 'network-copyleft':
+      if (gplCompatible(license, project)) {
+        return allowed(`${text} is compatible with the project's ${project.text}`);
+      }
+      return denied(
+        distribution === 'saas'
+          ? `Users interacting with ${text} code over a network must be offered the complete source of the service under ${text}`
+          : `Software using ${text} code must be released in full under ${text}, with its source offered to everyone who uses it, including over a network`
+      );
+
+    case 'restricted':
+      return denied(
+        `${text} restricts commercial or production use, so using the package needs a separate license from its authors`
+      );
+  }
+}
+
+function compileProjectLicense(projectLicense: string): ProjectLicense {
+  try {
+    const licenses = getSpdxLicenses(parseSpdx(projectLicense)).filter((license) => license.known);
+    return { text: projectLicense, licenses };
+  } catch {
+    // UNLICENSED, or a custom license: treated as proprietary
+    return { text: projectLicense, licenses: [] };
+  }
+}
+
+/** An SPDX id without its `-only` or `-or-later` suffix, e.g. `GPL-3.0` */
+function baseId(license: SpdxLicense): string {
+  return license.id.replace(/-(only|or-later)$/i, '');
+}
+
+/**
+ * The GPL-family terms a license can be conveyed under: GPL-2.0-or-later as
+ * GPL-2.0 or GPL-3.0, and the LGPL also as the GPL it converts to
+ */
+function gplTerms(license: SpdxLicense): string[] {
+  const orLater = license.orLater || /-or-later$/i.test(license.id);
+  switch (baseId(license).toUpperCase()) {
+    case 'GPL-2.0':
+      return orLater ? ['GPL-2.0', 'GPL-3.0'] : ['GPL-2.0'];
+    case 'GPL-3.0':
+      return ['GPL-3.0'];
+    case 'AGPL-3.0':
+      return ['AGPL-3.0'];
+    case 'LGPL-2.1':
+      return orLater ? ['LGPL-2.1', 'GPL-2.0', 'GPL-3.0'] : ['LGPL-2.1', 'GPL-2.0'];
+    case 'LGPL-3.0':
+      return ['LGPL-3.0', 'GPL-3.0'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Whether code under a copyleft license can be combined with the project
+ * under terms the project license also offers. GPL-3.0 and AGPL-3.0 allow
+ * combining with each other.
+ */
+function gplCompatible(license: SpdxLicense, project: ProjectLicense): boolean {
+  const dependency = gplTerms(license);
+  return project.licenses.some((own) =>
+    gplTerms(own).some((term) =>
+      dependency.some(
+        (other) =>
+          term === other ||
+          (term === 'GPL-3.0' && other === 'AGPL-3.0') ||
+          (term === 'AGPL-3.0' && other === 'GPL-3.0')
+      )
+    )
+  );
+}
+
+function onlyGpl2(project: ProjectLicense): boolean {
+  const terms = project.licenses.map(gplTerms);
+  return terms.length > 0 && terms.every((own) => own.length === 1 && own[0] === 'GPL-2.0');
+}
+
+// ============================================================================
+// Project License
+// ============================================================================
+
+/**
+ * Read the project's own license: the configured expression, the `license`
+ * field of the root package.json, or the license its LICENSE file's text
+ * matches. Projects that declare none are treated as proprietary.
+ */
+export async function readProjectLicense(
+  cwd: string,
+  configured?: string
+): Promise<Pick<LicenseCompatibilityTarget, 'projectLicense' | 'projectLicenseSource'>> {
+  if (configured !== undefined) {
+    if (configured.trim().toUpperCase() !== 'UNLICENSED' && !isRecognizedLicense(configured)) {
+      throw new Error(
+        `Invalid licenses.projectLicense "${configured}": expected an SPDX expression or UNLICENSED`
+      );
+    }
+    return { projectLicense: configured, projectLicenseSource: 'config' };
+  }
+
+  const packageJsonPath = join(cwd, 'package.json');
+  if (existsSync(packageJsonPath)) {
+    const license = readPackageJsonLicense(await readFile(packageJsonPath, 'utf-8'));
+    if (
+      license !== undefined &&
+      (license.trim().toUpperCase() === 'UNLICENSED' || isRecognizedLicense(license))
+    ) {
+      return { projectLicense: license, projectLicenseSource: 'package.json' };
+    }
+  }
+
+  const licenseFile = findLicenseFile(cwd);
+  if (licenseFile !== undefined) {
+    const detected = detectLicenseText(await readFile(join(cwd, licenseFile), 'utf-8'));
+    if (detected !== null) {
+      return { projectLicense: detected.id, projectLicenseSource: 'license-file' };
+    }
+  }
+
+  return { projectLicense: 'UNLICENSED', projectLicenseSource: 'none' };
+}
+
+function readPackageJsonLicense(content: string): string | undefined {
+  try {
+    const packageJson = JSON.parse(content) as { license?: string | { type?: string } };
+    if (typeof packageJson.license === 'string') return packageJson.license;
+    return packageJson.license?.type;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * RepoHygiene - License Text Detection
+ * Identifies LICENSE files by similarity to a corpus of canonical texts
+ */
+
+import type { DetectedLicense } from '../../types/index.js';
+import { LICENSE_CORPUS, type LicenseTemplate } from './corpus.js';
+import { getSpdxLicenses, parseSpdx } from './spdx.js';
+
+/** Matches below this similarity are not reported */
+export const MIN_LICENSE_CONFIDENCE = 0.8;
+
+const SHINGLE_SIZE = 3;
+
+/** Words allowed ahead of an excerpt for titles and project notes */
+const EXCERPT_SLACK = 80;
+
+/**
+ * Copyright lines differ between every copy of a license. Wrapped license
+ * wording such as "copyright holders be liable" can also start a line.
+ */
+const COPYRIGHT_LINE =
+  /^\s*(?:copyright\b(?!\s+(?:holders?|notices?|owners?|laws?|interest|and)\b)|\(c\)\s*\d|©)/i;
+
+const SPELLING_VARIANTS: ReadonlyArray<readonly [RegExp, string]> = [
+  [/licence/g, 'license'],
+  [/\backnowledg(e)?ment/g, 'acknowledgment'],
+  [/\bnon-?infringement\b/g, 'noninfringement'],
+  [/\bhttps?:\/\//g, ''],
+];
+
+/**
+ * Reduce license text to lowercase words, dropping copyright lines,
+ * punctuation, markup and layout
+ */
+export function normalizeLicenseText(text: string): string[] {
+  let normalized = text
+    .split(/\r?\n/)
+    .filter((line) => !COPYRIGHT_LINE.test(line))
+    .join('\n')
+    .toLowerCase()
+    .replace(/[‘’´`]/g, "'")
+    .replace(/[“”]/g, '"');
+
+  for (const [pattern, replacement] of SPELLING_VARIANTS) {
+    normalized = normalized.replace(pattern, replacement);
+  }
+
+  return normalized.split(/[^a-z0-9]+/).filter((word) => word !== '');
+}
+
+function shingles(words: readonly string[]): Set<string> {
+  const result = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i++) {
+    result.add(words.slice(i, i + SHINGLE_SIZE).join(' '));
+  }
+  return result;
+}
+
+interface CompiledTemplate {
+  readonly template: LicenseTemplate;
+  readonly words: number;
+  readonly shingles: Set<string>;
+}
+
+let compiledCorpus: CompiledTemplate[] | undefined;
+
+function getCompiledCorpus(): CompiledTemplate[] {
+  compiledCorpus ??= LICENSE_CORPUS.map((template) => {
+    const words = normalizeLicenseText(template.text);
+    return { template, words: words.length, shingles: shingles(words) };
+  });
+  return compiledCorpus;
+}
+
+function countShared(actual: ReadonlySet<string>, expected: ReadonlySet<string>): number {
+  let shared = 0;
+  for (const shingle of expected) {
+    if (actual.has(shingle)) shared++;
+  }
+  return shared;
+}
+
+/**
+ * Score license text against one template. Full texts use the Dice
+ * coefficient, so a file with extra clauses or bundled notices scores lower.
+ * Excerpts of long licenses score by how much of the excerpt the start of
+ * the file contains, so a license quoted deep in a notices file is ignored.
+ */
+function scoreTemplate(
+  words: readonly string[],
+  file: ReadonlySet<string>,
+  compiled: CompiledTemplate
+): number {
+  const expected = compiled.shingles;
+  if (expected.size === 0) return 0;
+
+  if (compiled.template.excerpt) {
+    const head = shingles(words.slice(0, compiled.words + EXCERPT_SLACK));
+    return countShared(head, expected) / expected.size;
+  }
+
+  if (file.size === 0) return 0;
+  return (2 * countShared(file, expected)) / (file.size + expected.size);
+}
+
+/**
+ * Identify the license a LICENSE file contains. Returns the SPDX id of the
+ * closest canonical text, or null when nothing in the corpus reaches
+ * MIN_LICENSE_CONFIDENCE.
+ */
+export function detectLicenseText(text: string): DetectedLicense | null {
+  const words = normalizeLicenseText(text);
+  const file = shingles(words);
+
+  let best: DetectedLicense | null = null;
+  for (const compiled of getCompiledCorpus()) {
+    const confidence = scoreTemplate(words, file, compiled);
+    if (best === null || confidence > best.confidence) {
+      best = { id: compiled.template.id, confidence };
+    }
+  }
+
+  if (best === null || best.confidence < MIN_LICENSE_CONFIDENCE) return null;
+  return { id: best.id, confidence: Math.round(best.confidence * 100) / 100 };
+}
+
+/**
+ * Format a 0-1 similarity as a percentage
+ */
+export function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
+
+/**
+ * Whether a declared license expression names the detected license. License
+ * texts don't say whether later GNU versions may be used, so GPL-2.0-only
+ * text matches a GPL-2.0-or-later declaration.
+ */
+export function declaresDetectedLicense(declared: string, detected: string): boolean {
+  const family = (id: string): string => id.replace(/-(only|or-later)$/, '').toLowerCase();
+  try {
+    return getSpdxLicenses(parseSpdx(declared)).some(
+      (license) => family(license.id) === family(detected)
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * RepoHygiene - License Drift
+ * Compare the audited dependencies with those at another git ref
+ */
+
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, join } from 'path';
+import type { GitContext } from '../../core/git.js';
+import type { DependencyLicense, LicenseChange, LicenseDrift } from '../../types/index.js';
+import { detectEcosystems, ECOSYSTEM_ADAPTERS, scanLicenseTree } from './scanner.js';
+import { satisfiesRange } from './semver.js';
+
+export interface LicenseDriftOptions {
+  readonly production?: boolean;
+  /** Home directory holding package caches; defaults to the user's */
+  readonly homeDir?: string;
+}
+
+/**
+ * Compare dependencies with those at a ref. The ref's manifests and lockfiles
+ * are read with `git show` and scanned on their own; packages at a version
+ * installed now take the license read from the installed copy, so only
+ * versions that are no longer installed rely on what lockfiles and caches
+ * record.
+ */
+export async function compareLicenses(
+  ctx: GitContext,
+  ref: string,
+  current: readonly DependencyLicense[],
+  options: LicenseDriftOptions = {}
+): Promise<LicenseDrift> {
+  if (!ctx.isGitRepo) {
+    throw new Error(`Cannot compare licenses with ${ref}: not a git repository`);
+  }
+
+  const commit = (
+    await ctx.git.raw(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]).catch(() => '')
+  ).trim();
+  if (commit === '') throw new Error(`Unknown git ref "${ref}"`);
+
+  const snapshot = await mkdtemp(join(tmpdir(), 'repohygiene-licenses-'));
+  try {
+    await checkoutManifests(ctx, commit, snapshot);
+    // A ref from before the project had dependencies has nothing to compare
+    const base =
+      detectEcosystems(snapshot).length > 0
+        ? await scanLicenseTree({
+            cwd: snapshot,
+            production: options.production,
+            homeDir: options.homeDir,
+          })
+        : { ecosystems: [], dependencies: [] };
+
+    // Without a lockfile at the ref, its transitive dependencies are unknown,
+    // so only direct dependencies can be compared
+    const directOnly = base.ecosystems
+      .filter((source) => source.directOnly)
+      .map((source) => source.ecosystem);
+    const compared = current.filter(
+      (dependency) =>
+        !directOnly.includes(dependency.ecosystem ?? 'npm') ||
+        dependency.dependencyPath?.length === 1
+    );
+
+    return {
+      ref,
+      commit,
+      ...diffLicenses(withInstalledLicenses(base.dependencies, compared), compared),
+      directOnly,
+    };
+  } finally {
+    await rm(snapshot, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Diff two sets of dependencies by package. A package counts as changed when
+ * its license matches none of the versions of it in the base set, so
+ * upgrades that keep the license don't show up. A license that couldn't be
+ * read at the base isn't compared for packages that pass the policy now.
+ */
+export function diffLicenses(
+  base: readonly DependencyLicense[],
+  current: readonly DependencyLicense[]
+): Pick<LicenseDrift, 'added' | 'changed' | 'removed'> {
+  const baseByPackage = groupByPackage(base);
+  const currentByPackage = groupByPackage(current);
+
+  const added: DependencyLicense[] = [];
+  const changed: LicenseChange[] = [];
+  for (const [key, dependencies] of currentByPackage) {
+    const previous = baseByPackage.get(key);
+    if (previous === undefined) {
+      added.push(...dependencies);
+      continue;
+    }
+    for (const dependency of dependencies) {
+      if (previous.some((p) => p.license === dependency.license)) continue;
+      const passes =
+        dependency.status === 'allowed' || dependency.status === 'allowed-by-exception';
+      if (passes && previous.every((p) => p.license === 'UNKNOWN')) continue;
+      const closest = previous.find((p) => p.version === dependency.version) ?? previous[0];
+      changed.push({
+        dependency,
+        previousVersion: closest?.version ?? '',
+        previousLicense: closest?.license ?? '',
+      });
+    }
+  }
+
+  const removed = [...baseByPackage]
+    .filter(([key]) => !currentByPackage.has(key))
+    .flatMap(([, dependencies]) => dependencies);
+
+  return { added, changed, removed };
+}
+
+// ============================================================================
+// Snapshot
+// ============================================================================
+
+/**
+ * Write every manifest and lockfile the license adapters read, as they were
+ * at a commit, into a directory
+ */
+async function checkoutManifests(ctx: GitContext, commit: string, dir: string): Promise<void> {
+  const names = new Set(
+    ECOSYSTEM_ADAPTERS.flatMap((adapter) => [...adapter.manifests, ...adapter.lockfiles])
+  );
+  const tracked = (await ctx.git.raw(['ls-tree', '-r', '-z', '--name-only', commit]))
+    .split('\0')
+    .filter((path) => names.has(basename(path)) && !path.split('/').includes('node_modules'));
+
+  for (const path of tracked) {
+    const content = await ctx.git.raw(['show', `${commit}:${path}`]);
+    await mkdir(join(dir, dirname(path)), { recursive: true });
+    await writeFile(join(dir, path), content, 'utf-8');
+  }
+}
+
+/**
+ * Give packages at the ref that are still installed the license read now,
+ * which the snapshot, having no installed packages, can only take from
+ * lockfiles. Without a lockfile the ref names version ranges, which take the
+ * license of the installed version they allow.
+ */
+function withInstalledLicenses(
+  base: readonly DependencyLicense[],
+  current: readonly DependencyLicense[]
+): DependencyLicense[] {
+  const installed = groupByPackage(current);
+  return base.map((dependency) => {
+    const versions = installed.get(packageKey(dependency)) ?? [];
+    const match =
+      versions.find((candidate) => candidate.version === dependency.version) ??
+      versions.find((candidate) => allows(dependency.version, candidate.version));
+    return match !== undefined ? { ...dependency, license: match.license } : dependency;
+  });
+}
+
+function allows(range: string, version: string): boolean {
+  try {
+    return satisfiesRange(version, range);
+  } catch {
+    return false;
+  }
+}
+
+function packageKey(dependency: DependencyLicense): string {
+  return `${dependency.ecosystem ?? 'npm'}:${dependency.name}`;
+}
+
+function groupByPackage(
+  dependencies: readonly DependencyLicense[]
+): Map<string, DependencyLicense[]> {
+  const groups = new Map<string, DependencyLicense[]>();
+  for (const dependency of dependencies) {
+    const key = packageKey(dependency);
+    const group = groups.get(key);
+    if (group === undefined) {
+      groups.set(key, [dependency]);
+    } else if (!group.some((d) => d.version === dependency.version)) {
+      group.push(dependency);
+    }
+  }
+  return groups;
+}
@@ -0,0 +1,55 @@
+/**
+ * RepoHygiene - License Ecosystems
+ * The interface each package ecosystem implements for the license audit
+ */
+
+import type {
+  DependencyLicense,
+  LicenseEcosystem,
+  LicenseEcosystemSource,
+} from '../../types/index.js';
+
+/** A dependency as an adapter reports it, before the policy is applied */
+export type EcosystemDependency = Omit<
+  DependencyLicense,
+  'status' | 'policyReason' | 'obligation' | 'licenseException' | 'ecosystem'
+>;
+
+export interface EcosystemContext {
+  /** Project root */
+  readonly cwd: string;
+  /** Where to find caches such as `~/.cargo` and `~/.m2` */
+  readonly homeDir: string;
+  /** Only production dependencies are needed, so adapters may skip the rest */
+  readonly production: boolean;
+}
+
+export interface EcosystemScan extends LicenseEcosystemSource {
+  readonly dependencies: EcosystemDependency[];
+}
+
+export interface EcosystemAdapter {
+  readonly ecosystem: LicenseEcosystem;
+  /** Name shown in messages, e.g. `Python` */
+  readonly label: string;
+  /** Files in the project root that mark it as using the ecosystem */
+  readonly manifests: readonly string[];
+  /** Files besides the manifests that pin the versions installed */
+  readonly lockfiles: readonly string[];
+  /** How to get transitive dependencies audited when only direct ones were found */
+  readonly lockfileHint: string;
+  scan(context: EcosystemContext): Promise<EcosystemScan>;
+}
+
+/**
+ * Run a parser over a file's content, naming the file in any error
+ */
+export function parseFile<T>(file: string, content: string, parse: (content: string) => T): T {
+  try {
+    return parse(content);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * RepoHygiene - License Exceptions
+ * Per-package approvals that override the license policy until they expire
+ */
+
+import type {
+  AppliedLicenseException,
+  DependencyLicense,
+  LicenseExceptionDefinition,
+} from '../../types/index.js';
+import { satisfiesRange, validateRange } from './semver.js';
+import { formatSpdx, parseSpdx } from './spdx.js';
+
+/** Exceptions expiring within this many days are reported */
+export const EXCEPTION_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface LicenseException {
+  readonly definition: LicenseExceptionDefinition;
+  /** Last day the exception applies, as YYYY-MM-DD */
+  readonly expires: string;
+  /** Start of the day after `expires`, in UTC */
+  readonly expiresAt: Date;
+}
+
+export interface ExceptionMatch {
+  readonly dependency: DependencyLicense;
+  readonly exception: LicenseException;
+  /** Whole days between now and the expiry date; 0 on the last day */
+  readonly daysLeft: number;
+  readonly expired: boolean;
+}
+
+export interface LicenseExceptionResult {
+  readonly dependencies: DependencyLicense[];
+  /** Exceptions in force, including those about to expire */
+  readonly applied: ExceptionMatch[];
+  /** Matching exceptions that have expired, leaving the policy status in place */
+  readonly expired: ExceptionMatch[];
+  /** Exceptions matching no denied or unknown dependency */
+  readonly unused: LicenseException[];
+}
+
+function normalizeLicense(license: string): string {
+  try {
+    return formatSpdx(parseSpdx(license));
+  } catch {
+    return license.trim().toLowerCase();
+  }
+}
+
+function parseExpiry(value: unknown): string | null {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10);
+  }
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+
+  // Reject dates such as 2026-02-30 that Date would roll over
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value) ? value : null;
+}
+
+/**
+ * Validate a `licenses.exceptions` entry. YAML configs may give `expires` as a
+ * date rather than a string.
+ */
+export function compileLicenseException(definition: LicenseExceptionDefinition): LicenseException {
+  const raw = definition as Partial<Record<keyof LicenseExceptionDefinition, unknown>>;
+  const name = typeof raw.package === 'string' ? raw.package : JSON.stringify(raw.package);
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid license exception for ${name}: ${problem}`);
+  };
+
+  for (const field of ['package', 'license', 'reason', 'approver'] as const) {
+    const value = raw[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      fail(`"${field}" is required`);
+    }
+  }
+
+  if (raw.version !== undefined) {
+    if (typeof raw.version !== 'string') fail('"version" must be a semver range');
+    try {
+      validateRange(definition.version ?? '');
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const expires = parseExpiry(raw.expires);
+  if (expires === null) {
+    return fail('"expires" must be a date written as YYYY-MM-DD');
+  }
+
+  return {
+    definition,
+    expires,
+    expiresAt: new Date(Date.parse(`${expires}T00:00:00Z`) + DAY_MS),
+  };
+}
+
+function matchesDependency(exception: LicenseException, dependency: DependencyLicense): boolean {
+  const { definition } = exception;
+  return (
+    definition.package === dependency.name &&
+    normalizeLicense(definition.license) === normalizeLicense(dependency.license) &&
+    (definition.version === undefined || satisfiesRange(dependency.version, definition.version))
+  );
+}
+
+function toApplied(exception: LicenseException, expired: boolean): AppliedLicenseException {
+  return {
+    reason: exception.definition.reason,
+    approver: exception.definition.approver,
+    expires: exception.expires,
+    expired,
+  };
+}
+
+/**
+ * Apply exceptions to denied and unknown dependencies. A dependency covered
+ * by an exception in force becomes `allowed-by-exception`; one whose only
+ * exceptions have expired keeps its policy status.
+ */
+export function applyLicenseExceptions(
+  dependencies: readonly DependencyLicense[],
+  exceptions: readonly LicenseException[],
+  now: Date = new Date()
+): LicenseExceptionResult {
+  const applied: ExceptionMatch[] = [];
+  const expired: ExceptionMatch[] = [];
+  const used = new Set<LicenseException>();
+
+  const result = dependencies.map((dependency) => {
+    if (dependency.status === 'allowed') return dependency;
+
+    const matches = exceptions
+      .filter((exception) => matchesDependency(exception, dependency))
+      .map((exception) => {
+        const remaining = exception.expiresAt.getTime() - now.getTime();
+        return {
+          dependency,
+          exception,
+          daysLeft: Math.floor(remaining / DAY_MS),
+          expired: remaining <= 0,
+        };
+      })
+      .sort((a, b) => b.exception.expiresAt.getTime() - a.exception.expiresAt.getTime());
+
+    const best = matches[0];
+    if (best === undefined) return dependency;
+    for (const match of matches) used.add(match.exception);
+
+    if (best.expired) {
+      expired.push(best);
+      return { ...dependency, licenseException: toApplied(best.exception, true) };
+    }
+
+    applied.push(best);
+    return {
+      ...dependency,
+      status: 'allowed-by-exception' as const,
+      licenseException: toApplied(best.exception, false),
+    };
+  });
+
+  return {
+    dependencies: result,
+    applied,
+    expired,
+    unused: exceptions.filter((exception) => !used.has(exception)),
+  };
+}
@@ -0,0 +1,206 @@
+/**
+ * RepoHygiene - Go Licenses
+ * Read module requirements from go.mod and their licenses from vendor/ or
+ * the module cache
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { delimiter, isAbsolute, join, relative } from 'path';
+import type { EcosystemAdapter, EcosystemDependency } from './ecosystem.js';
+import { parseFile } from './ecosystem.js';
+import { resolvePackageLicense } from './license-files.js';
+
+/** A `require` line of go.mod */
+export interface GoRequirement {
+  readonly path: string;
+  readonly version: string;
+  /** Marked `// indirect`: needed only by other requirements */
+  readonly indirect: boolean;
+}
+
+/** A `replace` directive of go.mod */
+export interface GoReplacement {
+  readonly path: string;
+  /** Only this version is replaced; every version when unset */
+  readonly version?: string;
+  /** Module path, or a directory when it starts with `./`, `../` or `/` */
+  readonly newPath: string;
+  readonly newVersion?: string;
+}
+
+export interface GoModule {
+  readonly module?: string;
+  /** The `go` directive, e.g. `1.21` */
+  readonly goVersion?: string;
+  readonly requires: GoRequirement[];
+  readonly replaces: GoReplacement[];
+}
+
+export const goAdapter: EcosystemAdapter = {
+  ecosystem: 'go',
+  label: 'Go',
+  manifests: ['go.mod'],
+  lockfiles: [],
+  lockfileHint: 'Set the go directive in go.mod to 1.17 or later and run `go mod tidy`',
+
+  async scan({ cwd, homeDir }) {
+    const goMod = parseFile('go.mod', await readFile(join(cwd, 'go.mod'), 'utf-8'), parseGoMod);
+    const moduleCache = goModuleCache(homeDir);
+    const dependencies: EcosystemDependency[] = [];
+
+    for (const requirement of goMod.requires) {
+      const replacement = goMod.replaces.find(
+        (replace) =>
+          replace.path === requirement.path &&
+          (replace.version === undefined || replace.version === requirement.version)
+      );
+      const version = replacement?.newVersion ?? requirement.version;
+      const packageDir = findGoModule(cwd, moduleCache, requirement.path, version, replacement);
+      const license = await resolvePackageLicense('UNKNOWN', packageDir);
+
+      dependencies.push({
+        name: requirement.path,
+        version,
+        ...license,
+        licenseFile:
+          license.licenseFile !== undefined && packageDir !== undefined
+            ? relative(cwd, join(packageDir, license.licenseFile))
+            : undefined,
+        packageDir: packageDir !== undefined ? relative(cwd, packageDir) : undefined,
+        resolved:
+          replacement === undefined || replacement.newVersion !== undefined
+            ? `https://proxy.golang.org/${escapeGoPath(replacement?.newPath ?? requirement.path)}/@v/${version}.zip`
+            : undefined,
+        // go.mod doesn't tell test-only modules apart
+        isProduction: true,
+        dependencyPath: requirement.indirect ? undefined : [requirement.path],
+      });
+    }
+
+    // Since Go 1.17, go.mod lists every module the build needs
+    const complete =
+      goMod.goVersion !== undefined && compareGoVersions(goMod.goVersion, '1.17') >= 0;
+    return {
+      ecosystem: 'go',
+      lockfile: complete ? 'go.mod' : undefined,
+      directOnly: !complete,
+      dependencies: complete
+        ? dependencies
+        : dependencies.filter((dependency) => dependency.dependencyPath !== undefined),
+    };
+  },
+};
+
+/**
+ * Parse the module, go, require and replace directives of a go.mod file,
+ * in both their single-line and block forms
+ */
+export function parseGoMod(content: string): GoModule {
+  let module: string | undefined;
+  let goVersion: string | undefined;
+  const requires: GoRequirement[] = [];
+  const replaces: GoReplacement[] = [];
+  let block: string | undefined;
+
+  const directive = (verb: string, args: string, comment: string, line: number): void => {
+    const words = args.split(/\s+/).filter((word) => word !== '');
+    if (verb === 'module') {
+      module = unquote(words[0]);
+    } else if (verb === 'go') {
+      goVersion = words[0];
+    } else if (verb === 'require') {
+      const [path, version] = words;
+      if (path === undefined || version === undefined) {
+        throw new Error(`Invalid require on line ${line}`);
+      }
+      requires.push({ path: unquote(path), version, indirect: /\bindirect\b/.test(comment) });
+    } else if (verb === 'replace') {
+      const arrow = words.indexOf('=>');
+      const [path, version] = words.slice(0, arrow);
+      const [newPath, newVersion] = words.slice(arrow + 1);
+      if (arrow === -1 || path === undefined || newPath === undefined) {
+        throw new Error(`Invalid replace on line ${line}`);
+      }
+      replaces.push({ path: unquote(path), version, newPath: unquote(newPath), newVersion });
+    }
+  };
+
+  const lines = content.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i] ?? '';
+    const commentStart = raw.indexOf('//');
+    const comment = commentStart === -1 ? '' : raw.slice(commentStart + 2);
+    const line = (commentStart === -1 ? raw : raw.slice(0, commentStart)).trim();
+    if (line === '') continue;
+
+    if (block !== undefined) {
+      if (line === ')') block = undefined;
+      else directive(block, line, comment, i + 1);
+      continue;
+    }
+
+    const match = /^(\w+)\s*(.*)$/.exec(line);
+    if (match?.[1] === undefined) continue;
+    if (match[2] === '(') block = match[1];
+    else directive(match[1], match[2] ?? '', comment, i + 1);
+  }
+
+  if (block !== undefined) throw new Error(`Unterminated ${block} block`);
+  return { module, goVersion, requires, replaces };
+}
+
+/**
+ * Escape a module path the way the module cache and proxy do: each capital
+ * letter becomes `!` and its lowercase
+ */
+export function escapeGoPath(path: string): string {
+  return path.replace(/[A-Z]/g, (letter) => `!${letter.toLowerCase()}`);
+}
+
+function goModuleCache(homeDir: string): string {
+  if (process.env.GOMODCACHE !== undefined && process.env.GOMODCACHE !== '') {
+    return process.env.GOMODCACHE;
+  }
+  const goPath = process.env.GOPATH?.split(delimiter)[0];
+  return join(goPath !== undefined && goPath !== '' ? goPath : join(homeDir, 'go'), 'pkg', 'mod');
+}
+
+/**
+ * The directory holding a module's source: a local replacement, vendor/, or
+ * the module cache
+ */
+function findGoModule(
+  cwd: string,
+  moduleCache: string,
+  path: string,
+  version: string,
+  replacement: GoReplacement | undefined
+): string | undefined {
+  if (replacement !== undefined && /^\.{0,2}\//.test(replacement.newPath)) {
+    const dir = isAbsolute(replacement.newPath)
+      ? replacement.newPath
+      : join(cwd, replacement.newPath);
+    return existsSync(dir) ? dir : undefined;
+  }
+
+  const vendored = join(cwd, 'vendor', path);
+  if (existsSync(vendored)) return vendored;
+
+  const cached = join(moduleCache, `${escapeGoPath(replacement?.newPath ?? path)}@${version}`);
+  return existsSync(cached) ? cached : undefined;
+}
+
+function compareGoVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function unquote(value: string | undefined): string {
+  return (value ?? '').replace(/^"(.*)"$/, '$1');
+}
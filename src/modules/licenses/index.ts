@@ -2,15 +2,149 @@
  * RepoHygiene - License Module Exports
  */
 
-export { scanLicenses, parseSpdxExpression } from './scanner.js';
+export {
+  scanLicenses,
+  scanLicenseTree,
+  parseSpdxExpression,
+  detectEcosystems,
+  ECOSYSTEM_ADAPTERS,
+  type LicenseScanOptions,
+  type LicenseScanTree,
+} from './scanner.js';
+export type {
+  EcosystemAdapter,
+  EcosystemContext,
+  EcosystemDependency,
+  EcosystemScan,
+} from './ecosystem.js';
+export { npmAdapter } from './npm.js';
+export {
+  pythonAdapter,
+  normalizePythonName,
+  parseRequirement,
+  readRequirementsFile,
+  parseMetadata,
+  declaredPythonLicense,
+  type InstalledDistribution,
+  type PythonRequirement,
+} from './python.js';
+export {
+  goAdapter,
+  parseGoMod,
+  escapeGoPath,
+  type GoModule,
+  type GoReplacement,
+  type GoRequirement,
+} from './go.js';
+export {
+  rustAdapter,
+  parseCargoLock,
+  readCrateManifest,
+  normalizeCargoLicense,
+  type CrateManifest,
+} from './rust.js';
+export {
+  mavenAdapter,
+  parseXml,
+  interpolate,
+  type MavenDependency,
+  type XmlElement,
+} from './maven.js';
+export {
+  findLicenseFile,
+  resolvePackageLicense,
+  LICENSE_FILES,
+  type PackageLicense,
+} from './license-files.js';
+export {
+  resolveDependencyTree,
+  parseNpmLockfile,
+  parsePnpmLockfile,
+  parseYarnClassic,
+  walkGraph,
+  type DependencyTree,
+  type LockfileGraph,
+  type LockfileNode,
+  type LockfileType,
+  type ResolvedDependency,
+  type RootManifest,
+} from './lockfile.js';
+export {
+  parseSpdx,
+  formatSpdx,
+  getSpdxLicenses,
+  evaluateLicense,
+  evaluateExpression,
+  licenseFromName,
+  type SpdxExpression,
+  type SpdxLicense,
+  type LicenseStatus,
+  type LicenseDecision,
+  type LicenseLists,
+} from './spdx.js';
+export {
+  detectLicenseText,
+  declaresDetectedLicense,
+  normalizeLicenseText,
+  MIN_LICENSE_CONFIDENCE,
+} from './detect.js';
+export { LICENSE_CORPUS, type LicenseTemplate } from './corpus.js';
+export {
+  applyLicenseExceptions,
+  compileLicenseException,
+  EXCEPTION_WARNING_DAYS,
+  type ExceptionMatch,
+  type LicenseException,
+  type LicenseExceptionResult,
+} from './exceptions.js';
+export { satisfiesRange, validateRange } from './semver.js';
 export {
   DEFAULT_POLICY,
   isLicenseAllowed,
   isLicenseDenied,
+  explainLicenseDecision,
   generateLicenseSummary,
   shouldFail,
   groupByLicense,
   type LicensePolicy,
 } from './policy.js';
 export { generateMarkdownReport, generateCsvReport, generateNoticeFile } from './reporter.js';
+export {
+  generateSbom,
+  generateCycloneDx,
+  generateSpdx,
+  renderCycloneDxXml,
+  renderSpdxTagValue,
+  checkSbomEncoding,
+  readProjectInfo,
+  packageUrl,
+  parseIntegrity,
+  SBOM_FORMATS,
+  SBOM_ENCODINGS,
+  type CycloneDxBom,
+  type SpdxDocument,
+  type SbomEncoding,
+  type SbomFormat,
+  type SbomHash,
+  type SbomOptions,
+  type SbomProject,
+} from './sbom.js';
+export {
+  collectAttributions,
+  extractCopyrights,
+  renderNotices,
+  NOTICE_FILE_NAME,
+  NOTICE_FORMATS,
+  type AttributionBundle,
+  type AttributionPackage,
+  type AttributionText,
+  type NoticeFormat,
+} from './notice.js';
+export { compareLicenses, diffLicenses, type LicenseDriftOptions } from './drift.js';
+export {
+  createCompatibilityPolicy,
+  licenseCategory,
+  readProjectLicense,
+  type LicenseCategory,
+} from './compatibility.js';
 export { LicenseAuditor, createLicenseAuditor } from './auditor.js';
@@ -0,0 +1,97 @@
+/**
+ * RepoHygiene - License Files
+ * Find a package's license file and reconcile its text with the declared license
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { DetectedLicense } from '../../types/index.js';
+import { declaresDetectedLicense, detectLicenseText } from './detect.js';
+import { getSpdxLicenses, parseSpdx } from './spdx.js';
+
+export const LICENSE_FILES = [
+  'LICENSE',
+  'LICENSE.md',
+  'LICENSE.txt',
+  'LICENSE.rst',
+  'LICENCE',
+  'LICENCE.md',
+  'LICENCE.txt',
+  'license',
+  'license.md',
+  'COPYING',
+];
+
+export interface PackageLicense {
+  readonly license: string;
+  /** License file, relative to the package directory */
+  readonly licenseFile?: string;
+  readonly detectedLicense?: DetectedLicense;
+  readonly licenseSource?: 'package' | 'lockfile' | 'file';
+  readonly licenseMismatch?: boolean;
+}
+
+/**
+ * The first license file in a package directory, or in one of its
+ * subdirectories such as a wheel's `licenses/`, relative to the package
+ */
+export function findLicenseFile(
+  packageDir: string,
+  subdirs: readonly string[] = ['']
+): string | undefined {
+  for (const subdir of subdirs) {
+    for (const file of LICENSE_FILES) {
+      const relative = subdir === '' ? file : join(subdir, file);
+      if (existsSync(join(packageDir, relative))) return relative;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Settle a package's license from what its metadata declares and the text of
+ * its license file. Packages that don't declare a recognized license get the
+ * one their license file's text matches; for the rest, a license file that
+ * contradicts the declaration is flagged.
+ */
+export async function resolvePackageLicense(
+  declared: string,
+  packageDir: string | undefined,
+  subdirs?: readonly string[]
+): Promise<PackageLicense> {
+  const licenseFile = packageDir !== undefined ? findLicenseFile(packageDir, subdirs) : undefined;
+  if (packageDir === undefined || licenseFile === undefined) {
+    return { license: declared, licenseSource: 'package' };
+  }
+
+  const detectedLicense =
+    detectLicenseText(await readFile(join(packageDir, licenseFile), 'utf-8')) ?? undefined;
+  if (detectedLicense === undefined) {
+    return { license: declared, licenseFile, licenseSource: 'package' };
+  }
+
+  if (!isRecognizedLicense(declared)) {
+    return { license: detectedLicense.id, licenseFile, detectedLicense, licenseSource: 'file' };
+  }
+
+  return {
+    license: declared,
+    licenseFile,
+    detectedLicense,
+    licenseSource: 'package',
+    licenseMismatch: !declaresDetectedLicense(declared, detectedLicense.id),
+  };
+}
+
+/**
+ * Whether a declared license is a valid SPDX expression of known license ids,
+ * rather than e.g. UNKNOWN or "SEE LICENSE IN LICENSE"
+ */
+export function isRecognizedLicense(license: string): boolean {
+  try {
+    return getSpdxLicenses(parseSpdx(license)).every((id) => id.known);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,525 @@
+/**
+ * RepoHygiene - Lockfile Resolver
+ * Resolve the installed dependency tree from npm, yarn and pnpm lockfiles
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { defaultLoaders } from 'cosmiconfig';
+
+export type LockfileType = 'npm' | 'yarn-classic' | 'yarn-berry' | 'pnpm';
+
+export interface ResolvedDependency {
+  readonly name: string;
+  /** Installed version, or the declared range when there is no lockfile */
+  readonly version: string;
+  /** Reachable from a production dependency of the root package */
+  readonly isProduction: boolean;
+  /** Package names from a direct dependency of the root down to this package */
+  readonly path: readonly string[];
+  /** Install directory relative to the project, when the lockfile records it */
+  readonly installPath?: string;
+  /** License recorded in the lockfile (npm v7+) */
+  readonly license?: string;
+  /** Subresource integrity of the package tarball, e.g. `sha512-...` */
+  readonly integrity?: string;
+  /** URL the package tarball was downloaded from */
+  readonly resolved?: string;
+  /** `name@version` of each package this one depends on */
+  readonly dependsOn?: readonly string[];
+}
+
+export interface DependencyTree {
+  /** Lockfile the tree was resolved from; undefined when only package.json was read */
+  readonly lockfile?: string;
+  readonly type?: LockfileType;
+  readonly dependencies: ResolvedDependency[];
+}
+
+export interface LockfileNode {
+  readonly name: string;
+  readonly version: string;
+  /** Keys of the nodes this package depends on */
+  readonly dependencies: string[];
+  readonly installPath?: string;
+  readonly license?: string;
+  readonly integrity?: string;
+  readonly resolved?: string;
+  /** Workspace or linked package: walked through, but not reported */
+  readonly local?: boolean;
+}
+
+export interface LockfileGraph {
+  readonly nodes: Map<string, LockfileNode>;
+  /** Node keys of the root package's direct dependencies */
+  readonly prodRoots: string[];
+  readonly devRoots: string[];
+}
+
+/** Dependency maps of the project's own package.json */
+export interface RootManifest {
+  readonly dependencies: Record<string, string>;
+  readonly devDependencies: Record<string, string>;
+  readonly optionalDependencies: Record<string, string>;
+}
+
+type StringMap = Record<string, string>;
+
+interface NpmPackageEntry {
+  name?: string;
+  version?: string;
+  license?: string;
+  link?: boolean;
+  resolved?: string;
+  integrity?: string;
+  dependencies?: StringMap;
+  devDependencies?: StringMap;
+  optionalDependencies?: StringMap;
+  peerDependencies?: StringMap;
+}
+
+interface NpmV1Entry {
+  version?: string;
+  resolved?: string;
+  integrity?: string;
+  requires?: StringMap;
+  dependencies?: Record<string, NpmV1Entry>;
+}
+
+interface YarnEntry {
+  version?: string;
+  resolution?: string;
+  resolved?: string;
+  integrity?: string;
+  linkType?: string;
+  dependencies?: StringMap;
+  optionalDependencies?: StringMap;
+}
+
+type PnpmVersionRef = string | { version?: string };
+
+interface PnpmImporter {
+  dependencies?: Record<string, PnpmVersionRef>;
+  devDependencies?: Record<string, PnpmVersionRef>;
+  optionalDependencies?: Record<string, PnpmVersionRef>;
+}
+
+interface PnpmLockfile extends PnpmImporter {
+  lockfileVersion?: string | number;
+  importers?: Record<string, PnpmImporter>;
+  packages?: Record<string, PnpmPackageEntry | null>;
+  snapshots?: Record<string, PnpmPackageEntry | null>;
+}
+
+interface PnpmPackageEntry {
+  name?: string;
+  version?: string;
+  resolution?: { integrity?: string; tarball?: string };
+  dependencies?: StringMap;
+  optionalDependencies?: StringMap;
+}
+
+/** Checked in order; the first lockfile found wins */
+export const LOCKFILES = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'pnpm-lock.yaml',
+  'yarn.lock',
+];
+
+/**
+ * Resolve every package installed for a project, direct and transitive, at
+ * its locked version. Without a lockfile only the direct dependencies from
+ * package.json are returned, at their declared ranges.
+ */
+export async function resolveDependencyTree(cwd: string): Promise<DependencyTree> {
+  const packageJsonPath = join(cwd, 'package.json');
+  if (!existsSync(packageJsonPath)) {
+    throw new Error('package.json not found');
+  }
+
+  const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8')) as Partial<RootManifest>;
+  const root: RootManifest = {
+    dependencies: packageJson.dependencies ?? {},
+    devDependencies: packageJson.devDependencies ?? {},
+    optionalDependencies: packageJson.optionalDependencies ?? {},
+  };
+
+  for (const lockfile of LOCKFILES) {
+    const path = join(cwd, lockfile);
+    if (!existsSync(path)) continue;
+
+    let parsed: [LockfileType, LockfileGraph];
+    try {
+      parsed = await parseLockfile(lockfile, await readFile(path, 'utf-8'), root);
+    } catch (error) {
+      throw new Error(
+        `Failed to parse ${lockfile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    const [type, graph] = parsed;
+    return { lockfile, type, dependencies: walkGraph(graph) };
+  }
+
+  const direct = (deps: StringMap, isProduction: boolean): ResolvedDependency[] =>
+    Object.entries(deps).map(([name, version]) => ({ name, version, isProduction, path: [name] }));
+
+  return {
+    dependencies: [
+      ...direct({ ...root.dependencies, ...root.optionalDependencies }, true),
+      ...direct(root.devDependencies, false),
+    ],
+  };
+}
+
+async function parseLockfile(
+  lockfile: string,
+  content: string,
+  root: RootManifest
+): Promise<[LockfileType, LockfileGraph]> {
+  if (lockfile === 'pnpm-lock.yaml') {
+    return ['pnpm', parsePnpmLockfile(await loadYaml(content))];
+  }
+  if (lockfile === 'yarn.lock') {
+    return parseYarnLock(content, root);
+  }
+  return ['npm', parseNpmLockfile(content, root)];
+}
+
+/**
+ * Parse a package-lock.json or npm-shrinkwrap.json. Version 2 and 3 files are
+ * read from `packages`; version 1 files from the nested `dependencies` tree,
+ * with the root package's dependencies taken from package.json.
+ */
+export function parseNpmLockfile(content: string, root?: RootManifest): LockfileGraph {
+  const lock = JSON.parse(content) as {
+    packages?: Record<string, NpmPackageEntry>;
+    dependencies?: Record<string, NpmV1Entry>;
+  };
+
+  const packages = lock.packages ?? flattenNpmV1(lock.dependencies ?? {}, root);
+  const nodes = new Map<string, LockfileNode>();
+
+  // Packages are found in node_modules beside the dependent, then in each parent
+  const resolve = (from: string, name: string): string | undefined => {
+    let base = from;
+    for (;;) {
+      const candidate = `${base === '' ? '' : `${base}/`}node_modules/${name}`;
+      const entry = packages[candidate];
+      if (entry !== undefined) {
+        return entry.link === true && entry.resolved !== undefined ? entry.resolved : candidate;
+      }
+      if (base === '') return undefined;
+      const parent = base.lastIndexOf('/node_modules/');
+      base = parent === -1 ? '' : base.slice(0, parent);
+    }
+  };
+
+  const edges = (from: string, ...maps: Array<StringMap | undefined>): string[] =>
+    maps
+      .flatMap((map) => Object.keys(map ?? {}))
+      .map((name) => resolve(from, name))
+      .filter((key): key is string => key !== undefined);
+
+  for (const [key, entry] of Object.entries(packages)) {
+    if (key === '' || entry.link === true) continue;
+
+    const marker = key.lastIndexOf('node_modules/');
+    nodes.set(key, {
+      name: entry.name ?? (marker === -1 ? key : key.slice(marker + 'node_modules/'.length)),
+      version: entry.version ?? '',
+      // npm 7+ installs peers, so they ship like dependencies; optional peers
+      // that nothing installed don't resolve and drop out
+      dependencies: edges(
+        key,
+        entry.dependencies,
+        entry.optionalDependencies,
+        entry.peerDependencies
+      ),
+      installPath: marker === -1 ? undefined : key,
+      license: entry.license,
+      integrity: entry.integrity,
+      resolved: entry.resolved,
+      local: marker === -1,
+    });
+  }
+
+  const rootEntry = packages[''] ?? root ?? {};
+  return {
+    nodes,
+    prodRoots: edges('', rootEntry.dependencies, rootEntry.optionalDependencies),
+    devRoots: edges('', rootEntry.devDependencies),
+  };
+}
+
+/**
+ * Lay out a version 1 dependency tree as version 2 `packages` entries. v1
+ * doesn't record the root package, so its entry comes from package.json.
+ */
+function flattenNpmV1(
+  tree: Record<string, NpmV1Entry>,
+  root: RootManifest | undefined
+): Record<string, NpmPackageEntry> {
+  const packages: Record<string, NpmPackageEntry> = {};
+
+  const visit = (deps: Record<string, NpmV1Entry>, prefix: string): void => {
+    for (const [name, entry] of Object.entries(deps)) {
+      const key = `${prefix}node_modules/${name}`;
+      packages[key] = {
+        version: entry.version,
+        resolved: entry.resolved,
+        integrity: entry.integrity,
+        dependencies: entry.requires,
+      };
+      visit(entry.dependencies ?? {}, `${key}/`);
+    }
+  };
+  visit(tree, '');
+
+  if (root !== undefined) {
+    packages[''] = root;
+  }
+
+  return packages;
+}
+
+/**
+ * Parse a yarn.lock: the classic v1 format, or the YAML written by yarn 2+
+ */
+async function parseYarnLock(
+  content: string,
+  root: RootManifest
+): Promise<[LockfileType, LockfileGraph]> {
+  if (/^__metadata:/m.test(content)) {
+    const entries = (await loadYaml(content)) as Record<string, YarnEntry>;
+    return ['yarn-berry', buildYarnGraph(entries, root)];
+  }
+  return ['yarn-classic', buildYarnGraph(parseYarnClassic(content), root)];
+}
+
+/**
+ * Parse the yarn v1 lockfile format into entries keyed by their
+ * comma-separated descriptor list
+ */
+export function parseYarnClassic(content: string): Record<string, YarnEntry> {
+  const entries: Record<string, YarnEntry> = {};
+  let entry: Record<string, unknown> | undefined;
+  let section: StringMap | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line.trim() === '' || line.trimStart().startsWith('#')) continue;
+
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0) {
+      entry = {};
+      section = undefined;
+      entries[text.replace(/:$/, '')] = entry as YarnEntry;
+      continue;
+    }
+    if (entry === undefined) continue;
+
+    if (text.endsWith(':')) {
+      section = {};
+      entry[unquote(text.slice(0, -1))] = section;
+      continue;
+    }
+
+    const separator = text.search(/\s/);
+    const key = unquote(text.slice(0, separator));
+    const value = unquote(text.slice(separator + 1).trim());
+    if (indent > 2 && section !== undefined) {
+      section[key] = value;
+    } else {
+      section = undefined;
+      entry[key] = value;
+    }
+  }
+
+  return entries;
+}
+
+function buildYarnGraph(entries: Record<string, YarnEntry>, root: RootManifest): LockfileGraph {
+  const nodes = new Map<string, LockfileNode>();
+  const byDescriptor = new Map<string, string>();
+
+  for (const [key, entry] of Object.entries(entries)) {
+    if (key === '__metadata' || typeof entry !== 'object') continue;
+    for (const descriptor of key.split(',')) {
+      byDescriptor.set(unquote(descriptor.trim()), key);
+    }
+  }
+
+  // Yarn 2+ prefixes npm ranges with `npm:`, but package.json usually doesn't
+  const resolve = (name: string, range: string): string | undefined =>
+    byDescriptor.get(`${name}@${range}`) ?? byDescriptor.get(`${name}@npm:${range}`);
+
+  for (const [key, entry] of Object.entries(entries)) {
+    if (key === '__metadata' || typeof entry !== 'object') continue;
+
+    const descriptor = unquote((key.split(',')[0] ?? key).trim());
+    const deps = { ...entry.dependencies, ...entry.optionalDependencies };
+    nodes.set(key, {
+      name: packageName(entry.resolution ?? descriptor),
+      version: entry.version ?? '',
+      dependencies: Object.entries(deps)
+        .map(([name, range]) => resolve(name, range))
+        .filter((dep): dep is string => dep !== undefined),
+      // Yarn 2+ checksums are of its own zip archives, not of the npm tarball
+      integrity: entry.integrity,
+      resolved: entry.resolved,
+      local: entry.linkType === 'soft' || descriptor.includes('@workspace:'),
+    });
+  }
+
+  const roots = (deps: StringMap): string[] =>
+    Object.entries(deps)
+      .map(([name, range]) => resolve(name, range))
+      .filter((dep): dep is string => dep !== undefined);
+
+  return {
+    nodes,
+    prodRoots: roots({ ...root.dependencies, ...root.optionalDependencies }),
+    devRoots: roots(root.devDependencies),
+  };
+}
+
+/**
+ * Parse a pnpm-lock.yaml: version 5 (`/name/1.0.0`), 6 (`/name@1.0.0`) and
+ * 9 (`name@1.0.0`, with dependencies under `snapshots`). Only the root
+ * importer's dependencies are walked.
+ */
+export function parsePnpmLockfile(lock: unknown): LockfileGraph {
+  const lockfile = (lock ?? {}) as PnpmLockfile;
+  const packages = lockfile.snapshots ?? lockfile.packages ?? {};
+  // Version 9 keeps resolutions under `packages`, keyed without peer suffixes
+  const resolution = (key: string): PnpmPackageEntry['resolution'] =>
+    (lockfile.packages?.[key] ?? lockfile.packages?.[key.replace(/\(.*$/, '')])?.resolution;
+  const slashFormat = parseFloat(String(lockfile.lockfileVersion ?? '9')) < 6;
+  const nodes = new Map<string, LockfileNode>();
+
+  const resolve = (name: string, ref: PnpmVersionRef): string | undefined => {
+    const version = typeof ref === 'string' ? ref : ref.version;
+    if (version === undefined || /^(link|file|workspace):/.test(version)) return undefined;
+
+    const candidates = version.startsWith('/')
+      ? [version]
+      : [`${name}@${version}`, `/${name}@${version}`, `/${name}/${version}`, version];
+    return candidates.find((key) => key in packages);
+  };
+
+  const edges = (...maps: Array<Record<string, PnpmVersionRef> | undefined>): string[] =>
+    maps
+      .flatMap((map) => Object.entries(map ?? {}))
+      .map(([name, ref]) => resolve(name, ref))
+      .filter((key): key is string => key !== undefined);
+
+  for (const [key, value] of Object.entries(packages)) {
+    const entry = value ?? {};
+    const id = key.replace(/^\//, '').replace(/\(.*$/, '');
+    const separator = slashFormat ? id.lastIndexOf('/') : id.lastIndexOf('@');
+    const name = entry.name ?? id.slice(0, separator);
+    let version = entry.version ?? id.slice(separator + 1);
+    if (slashFormat) version = version.replace(/_.*$/, '');
+
+    nodes.set(key, {
+      name,
+      version,
+      dependencies: edges(entry.dependencies, entry.optionalDependencies),
+      installPath: `node_modules/.pnpm/${name.replace('/', '+')}@${version}/node_modules/${name}`,
+      integrity: resolution(key)?.integrity,
+      resolved: resolution(key)?.tarball,
+    });
+  }
+
+  const importer = lockfile.importers?.['.'] ?? lockfile;
+  return {
+    nodes,
+    prodRoots: edges(importer.dependencies, importer.optionalDependencies),
+    devRoots: edges(importer.devDependencies),
+  };
+}
+
+/**
+ * Walk the graph breadth-first from production roots, then from dev roots,
+ * so every package gets the shortest path that pulls it in and counts as
+ * production when any production dependency reaches it. Packages installed
+ * in several places at the same version are reported once.
+ */
+export function walkGraph(graph: LockfileGraph): ResolvedDependency[] {
+  const visited = new Map<string, ResolvedDependency>();
+
+  const walk = (roots: readonly string[], isProduction: boolean): void => {
+    const queue: Array<[string, string[]]> = [];
+    for (const key of roots) {
+      const node = graph.nodes.get(key);
+      if (node !== undefined) queue.push([key, [node.name]]);
+    }
+
+    for (let i = 0; i < queue.length; i++) {
+      const [key, path] = queue[i] as [string, string[]];
+      const node = graph.nodes.get(key);
+      if (node === undefined || visited.has(key)) continue;
+
+      visited.set(key, {
+        name: node.name,
+        version: node.version,
+        isProduction,
+        path,
+        installPath: node.installPath,
+        license: node.license,
+        integrity: node.integrity,
+        resolved: node.resolved,
+        dependsOn: dependencyIds(graph, node),
+      });
+
+      for (const dep of node.dependencies) {
+        const child = graph.nodes.get(dep);
+        if (child !== undefined && !visited.has(dep)) queue.push([dep, [...path, child.name]]);
+      }
+    }
+  };
+
+  walk(graph.prodRoots, true);
+  walk(graph.devRoots, false);
+
+  const unique = new Map<string, ResolvedDependency>();
+  for (const [key, dependency] of visited) {
+    if (graph.nodes.get(key)?.local === true) continue;
+    const id = `${dependency.name}@${dependency.version}`;
+    if (!unique.has(id)) unique.set(id, dependency);
+  }
+  return [...unique.values()];
+}
+
+/**
+ * `name@version` of a node's dependencies, skipping workspace packages
+ */
+function dependencyIds(graph: LockfileGraph, node: LockfileNode): string[] {
+  const ids = new Set<string>();
+  for (const key of node.dependencies) {
+    const child = graph.nodes.get(key);
+    if (child !== undefined && child.local !== true) ids.add(`${child.name}@${child.version}`);
+  }
+  return [...ids];
+}
+
+async function loadYaml(content: string): Promise<unknown> {
+  return (await defaultLoaders['.yaml']('lockfile.yaml', content)) as unknown;
+}
+
+/**
+ * Package name from a descriptor such as `@scope/name@^1.0.0` or `name@npm:1.0.0`
+ */
+function packageName(descriptor: string): string {
+  const at = descriptor.indexOf('@', 1);
+  return at === -1 ? descriptor : descriptor.slice(0, at);
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1)
+    : value;
+}
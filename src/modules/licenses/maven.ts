@@ -0,0 +1,396 @@
+/**
+ * RepoHygiene - Maven Licenses
+ * Read the dependencies a pom.xml declares and their licenses from the poms
+ * in the local Maven repository
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import type { EcosystemAdapter, EcosystemDependency } from './ecosystem.js';
+import { parseFile } from './ecosystem.js';
+import { licenseFromName } from './spdx.js';
+
+/** Parent poms followed for properties, managed versions and licenses */
+const MAX_PARENT_DEPTH = 5;
+
+const XML_ENTITIES: Readonly<Record<string, string>> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/** An element of a parsed XML document; attributes are not kept */
+export interface XmlElement {
+  readonly name: string;
+  readonly children: XmlElement[];
+  /** Text directly inside the element, trimmed */
+  text: string;
+}
+
+/** A `<dependency>` of a pom, with properties interpolated */
+export interface MavenDependency {
+  readonly groupId: string;
+  readonly artifactId: string;
+  readonly version?: string;
+  readonly scope?: string;
+}
+
+/** What a pom and its parents define */
+interface EffectivePom {
+  readonly project: XmlElement;
+  readonly properties: Map<string, string>;
+  /** Versions from `<dependencyManagement>`, keyed by `groupId:artifactId` */
+  readonly managed: Map<string, string>;
+}
+
+export const mavenAdapter: EcosystemAdapter = {
+  ecosystem: 'maven',
+  label: 'Maven',
+  manifests: ['pom.xml'],
+  lockfiles: [],
+  lockfileHint:
+    'Maven has no lockfile: run `mvn dependency:tree` to review transitive dependencies',
+
+  async scan({ cwd, homeDir }) {
+    const repository = join(homeDir, '.m2', 'repository');
+    const modules = await readModules(cwd, join(cwd, 'pom.xml'), repository);
+    const localArtifacts = new Set(modules.map(artifactKey));
+    const dependencies = new Map<string, EcosystemDependency>();
+
+    for (const pom of modules) {
+      for (const dependency of pomDependencies(pom)) {
+        const name = `${dependency.groupId}:${dependency.artifactId}`;
+        const isProduction = dependency.scope !== 'test';
+        if (localArtifacts.has(name) || dependencies.get(name)?.isProduction === true) continue;
+
+        const version = dependency.version ?? '*';
+        const artifactPath = [...dependency.groupId.split('.'), dependency.artifactId, version];
+        const file = `${dependency.artifactId}-${version}`;
+
+        dependencies.set(name, {
+          name,
+          version,
+          license: await readArtifactLicense(
+            repository,
+            dependency.groupId,
+            dependency.artifactId,
+            version
+          ),
+          licenseSource: 'package',
+          integrity: await readSha1(join(repository, ...artifactPath, `${file}.jar.sha1`)),
+          resolved:
+            dependency.version !== undefined
+              ? `https://repo.maven.apache.org/maven2/${artifactPath.join('/')}/${file}.jar`
+              : undefined,
+          isProduction,
+          dependencyPath: [name],
+        });
+      }
+    }
+
+    return {
+      ecosystem: 'maven',
+      directOnly: true,
+      dependencies: [...dependencies.values()],
+    };
+  },
+};
+
+// ============================================================================
+// Poms
+// ============================================================================
+
+/**
+ * Read a pom and, recursively, the modules it aggregates
+ */
+async function readModules(
+  cwd: string,
+  pomPath: string,
+  repository: string,
+  seen: Set<string> = new Set()
+): Promise<EffectivePom[]> {
+  if (seen.has(pomPath) || !existsSync(pomPath)) return [];
+  seen.add(pomPath);
+
+  const pom = await readEffectivePom(cwd, pomPath, repository);
+  const modules = [pom];
+  for (const module of children(child(pom.project, 'modules'), 'module')) {
+    const dir = join(dirname(pomPath), module.text);
+    const path = module.text.endsWith('.xml') ? dir : join(dir, 'pom.xml');
+    modules.push(...(await readModules(cwd, path, repository, seen)));
+  }
+  return modules;
+}
+
+/**
+ * Read a pom along with the properties and managed versions it inherits.
+ * Parents are found through `<relativePath>`, then in the local repository.
+ */
+async function readEffectivePom(
+  cwd: string,
+  pomPath: string,
+  repository: string,
+  depth = 0
+): Promise<EffectivePom> {
+  const project = parseFile(relative(cwd, pomPath), await readFile(pomPath, 'utf-8'), parseXml);
+  const parentElement = child(project, 'parent');
+
+  let parent: EffectivePom | undefined;
+  if (parentElement !== undefined && depth < MAX_PARENT_DEPTH) {
+    const relativePath = childText(parentElement, 'relativePath') ?? '../pom.xml';
+    const local = join(
+      dirname(pomPath),
+      relativePath.endsWith('.xml') ? relativePath : join(relativePath, 'pom.xml')
+    );
+    const remote = artifactPom(
+      repository,
+      childText(parentElement, 'groupId') ?? '',
+      childText(parentElement, 'artifactId') ?? '',
+      childText(parentElement, 'version') ?? ''
+    );
+    const path = [local, remote].find((candidate) => existsSync(candidate));
+    if (path !== undefined) parent = await readEffectivePom(cwd, path, repository, depth + 1);
+  }
+
+  const properties = new Map(parent?.properties);
+  const groupId = childText(project, 'groupId') ?? childText(parentElement, 'groupId');
+  const version = childText(project, 'version') ?? childText(parentElement, 'version');
+  const builtIn: Array<[string, string | undefined]> = [
+    ['project.groupId', groupId],
+    ['project.artifactId', childText(project, 'artifactId')],
+    ['project.version', version],
+    ['project.parent.groupId', childText(parentElement, 'groupId')],
+    ['project.parent.version', childText(parentElement, 'version')],
+  ];
+  for (const [key, value] of builtIn) {
+    if (value === undefined) continue;
+    properties.set(key, value);
+    properties.set(key.replace(/^project\./, ''), value);
+  }
+  for (const property of child(project, 'properties')?.children ?? []) {
+    properties.set(property.name, property.text);
+  }
+
+  const managed = new Map(parent?.managed);
+  const management = child(child(project, 'dependencyManagement'), 'dependencies');
+  for (const dependency of children(management, 'dependency')) {
+    const resolved = readDependency(dependency, properties);
+    if (resolved.version !== undefined) {
+      managed.set(`${resolved.groupId}:${resolved.artifactId}`, resolved.version);
+    }
+  }
+
+  return { project, properties, managed };
+}
+
+/**
+ * The dependencies a pom declares, with versions filled in from
+ * `<dependencyManagement>`
+ */
+function pomDependencies(pom: EffectivePom): MavenDependency[] {
+  return children(child(pom.project, 'dependencies'), 'dependency').map((element) => {
+    const dependency = readDependency(element, pom.properties);
+    return {
+      ...dependency,
+      version:
+        dependency.version ?? pom.managed.get(`${dependency.groupId}:${dependency.artifactId}`),
+    };
+  });
+}
+
+function readDependency(
+  element: XmlElement,
+  properties: ReadonlyMap<string, string>
+): MavenDependency {
+  const field = (name: string): string | undefined => {
+    const value = childText(element, name);
+    return value !== undefined ? interpolate(value, properties) : undefined;
+  };
+  return {
+    groupId: field('groupId') ?? '',
+    artifactId: field('artifactId') ?? '',
+    version: field('version'),
+    scope: field('scope'),
+  };
+}
+
+/**
+ * `groupId:artifactId` of the project a pom builds
+ */
+function artifactKey(pom: EffectivePom): string {
+  return `${pom.properties.get('project.groupId') ?? ''}:${childText(pom.project, 'artifactId') ?? ''}`;
+}
+
+/**
+ * Replace `${property}` references, leaving unknown ones as they are
+ */
+export function interpolate(value: string, properties: ReadonlyMap<string, string>): string {
+  let result = value;
+  // Properties may refer to other properties
+  for (let i = 0; i < 5 && result.includes('${'); i++) {
+    result = result.replace(/\$\{([^}]+)\}/g, (match, key: string) => properties.get(key) ?? match);
+  }
+  return result;
+}
+
+// ============================================================================
+// Local Repository
+// ============================================================================
+
+function artifactPom(
+  repository: string,
+  groupId: string,
+  artifactId: string,
+  version: string
+): string {
+  return join(
+    repository,
+    ...groupId.split('.'),
+    artifactId,
+    version,
+    `${artifactId}-${version}.pom`
+  );
+}
+
+/**
+ * The licenses an artifact's pom declares, or its parents' when it declares
+ * none. Several licenses are offered as a choice.
+ */
+async function readArtifactLicense(
+  repository: string,
+  groupId: string,
+  artifactId: string,
+  version: string,
+  depth = 0
+): Promise<string> {
+  const path = artifactPom(repository, groupId, artifactId, version);
+  if (!existsSync(path) || depth > MAX_PARENT_DEPTH) return 'UNKNOWN';
+
+  let project: XmlElement;
+  try {
+    project = parseXml(await readFile(path, 'utf-8'));
+  } catch {
+    return 'UNKNOWN';
+  }
+
+  const licenses = children(child(project, 'licenses'), 'license')
+    .map((license) => {
+      const name = childText(license, 'name');
+      return licenseFromName(name, childText(license, 'url')) ?? name;
+    })
+    .filter((license): license is string => license !== undefined && license !== '');
+  const unique = [...new Set(licenses)];
+  if (unique.length === 1) return unique[0] as string;
+  if (unique.length > 1) {
+    return unique.map((license) => (license.includes(' ') ? `(${license})` : license)).join(' OR ');
+  }
+
+  const parent = child(project, 'parent');
+  if (parent === undefined) return 'UNKNOWN';
+  return readArtifactLicense(
+    repository,
+    childText(parent, 'groupId') ?? '',
+    childText(parent, 'artifactId') ?? '',
+    childText(parent, 'version') ?? '',
+    depth + 1
+  );
+}
+
+/**
+ * Read a `.sha1` checksum file as a subresource integrity string
+ */
+async function readSha1(path: string): Promise<string | undefined> {
+  if (!existsSync(path)) return undefined;
+  const hex = (await readFile(path, 'utf-8')).trim().split(/\s+/)[0] ?? '';
+  if (!/^[0-9a-f]{40}$/i.test(hex)) return undefined;
+  return `sha1-${Buffer.from(hex, 'hex').toString('base64')}`;
+}
+
+// ============================================================================
+// XML
+// ============================================================================
+
+/**
+ * Parse the elements and text of an XML document, enough to read poms.
+ * Attributes, comments, processing instructions and doctypes are skipped.
+ */
+export function parseXml(content: string): XmlElement {
+  const root: XmlElement = { name: '#document', children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  const line = (): number => content.slice(0, pos).split('\n').length;
+
+  while (pos < content.length) {
+    const current = stack[stack.length - 1] as XmlElement;
+    const open = content.indexOf('<', pos);
+    const text = content.slice(pos, open === -1 ? content.length : open);
+    if (text.trim() !== '') current.text += decodeEntities(text.trim());
+    if (open === -1) break;
+    pos = open;
+
+    if (content.startsWith('<!--', pos)) {
+      const end = content.indexOf('-->', pos);
+      if (end === -1) throw new Error(`Unterminated comment at line ${line()}`);
+      pos = end + 3;
+    } else if (content.startsWith('<![CDATA[', pos)) {
+      const end = content.indexOf(']]>', pos);
+      if (end === -1) throw new Error(`Unterminated CDATA at line ${line()}`);
+      current.text += content.slice(pos + 9, end).trim();
+      pos = end + 3;
+    } else if (content.startsWith('<?', pos) || content.startsWith('<!', pos)) {
+      const end = content.indexOf('>', pos);
+      if (end === -1) throw new Error(`Unterminated declaration at line ${line()}`);
+      pos = end + 1;
+    } else {
+      const end = content.indexOf('>', pos);
+      if (end === -1) throw new Error(`Unterminated tag at line ${line()}`);
+      const tag = content.slice(pos + 1, end);
+      const name = /^\/?\s*([^\s/>]+)/.exec(tag)?.[1] ?? '';
+
+      if (tag.startsWith('/')) {
+        if (stack.length === 1 || current.name !== name) {
+          throw new Error(`Unexpected </${name}> at line ${line()}`);
+        }
+        stack.pop();
+      } else {
+        const element: XmlElement = { name, children: [], text: '' };
+        current.children.push(element);
+        if (!tag.endsWith('/')) stack.push(element);
+      }
+      pos = end + 1;
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Unclosed <${(stack[stack.length - 1] as XmlElement).name}>`);
+  }
+  const [document] = root.children;
+  if (document === undefined) throw new Error('No root element');
+  return document;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity] ?? match;
+  });
+}
+
+function child(element: XmlElement | undefined, name: string): XmlElement | undefined {
+  return element?.children.find((candidate) => candidate.name === name);
+}
+
+function children(element: XmlElement | undefined, name: string): XmlElement[] {
+  return element?.children.filter((candidate) => candidate.name === name) ?? [];
+}
+
+function childText(element: XmlElement | undefined, name: string): string | undefined {
+  return child(element, name)?.text;
+}
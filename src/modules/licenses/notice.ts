@@ -0,0 +1,409 @@
+/**
+ * RepoHygiene - Third-Party Notices
+ * Collect the license texts, copyright lines and NOTICE files of shipped packages
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import type { Dirent } from 'fs';
+import { join } from 'path';
+import type { DependencyLicense, LicenseEcosystem } from '../../types/index.js';
+
+export const NOTICE_FORMATS = ['txt', 'md', 'html'] as const;
+
+export type NoticeFormat = (typeof NOTICE_FORMATS)[number];
+
+/** Base name of the written files, e.g. `THIRD_PARTY_NOTICES.txt` */
+export const NOTICE_FILE_NAME = 'THIRD_PARTY_NOTICES';
+
+const LICENSE_FILE = /^(?:licen[cs]e|copying|unlicense)(?:[-._].*)?$/i;
+const NOTICE_FILE = /^notice(?:[-._].*)?$/i;
+/** Directories holding one file per license, as in wheels and REUSE projects */
+const LICENSE_DIR = /^licen[cs]es$/i;
+/** Source files that happen to be named like license files, e.g. `license.js` */
+const SOURCE_FILE = /\.(?:[cm]?[jt]sx?|json|py|go|rs|java|map)$/i;
+
+const COPYRIGHT_LINE = /^(?:copyright\b|\(c\)|©)/i;
+/** Lines that talk about copyright, or are template placeholders, rather than give a notice */
+const NOT_A_NOTICE =
+  /^copyright\s+(?:notices?|holders?|owners?|law|and|statement|license)\b|[[<{](?:yyyy|year|name|owner|copyright)|free software foundation/i;
+
+export interface AttributionPackage {
+  readonly name: string;
+  readonly version: string;
+  readonly license: string;
+  readonly ecosystem: LicenseEcosystem;
+  readonly repository?: string;
+  /** Copyright lines from the package's license and NOTICE files */
+  readonly copyrights: readonly string[];
+  /** Indexes into the bundle's `licenseTexts`; empty when no license file was found */
+  readonly licenseTexts: readonly number[];
+  /** Indexes into the bundle's `notices` */
+  readonly notices: readonly number[];
+}
+
+export interface AttributionText {
+  /** The file's text, with line endings and trailing whitespace normalized */
+  readonly text: string;
+  /** `name@version` of each package shipping this text */
+  readonly packages: readonly string[];
+}
+
+export interface AttributionBundle {
+  /** Name of the project the notices are for */
+  readonly project: string;
+  readonly packages: readonly AttributionPackage[];
+  /** Each distinct license text, once however many packages ship it */
+  readonly licenseTexts: readonly AttributionText[];
+  /** Each distinct NOTICE file, as Apache-2.0 section 4(d) requires them to be passed on */
+  readonly notices: readonly AttributionText[];
+}
+
+/**
+ * Collect the attributions for a project's production dependencies: the full
+ * text of every license and NOTICE file in each installed package, and the
+ * copyright lines they contain. Identical texts are kept once, listing every
+ * package that ships them.
+ */
+export async function collectAttributions(
+  cwd: string,
+  project: string,
+  dependencies: readonly DependencyLicense[]
+): Promise<AttributionBundle> {
+  const licenseTexts = new TextIndex();
+  const notices = new TextIndex();
+  const packages: AttributionPackage[] = [];
+  const seen = new Set<string>();
+
+  const shipped = dependencies
+    .filter((dependency) => dependency.isProduction)
+    .sort((a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version));
+
+  for (const dependency of shipped) {
+    const ecosystem = dependency.ecosystem ?? 'npm';
+    const key = `${ecosystem}:${dependency.name}@${dependency.version}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const id = `${dependency.name}@${dependency.version}`;
+    const files =
+      dependency.packageDir !== undefined
+        ? await readAttributionFiles(join(cwd, dependency.packageDir))
+        : { licenses: [], notices: [] };
+
+    packages.push({
+      name: dependency.name,
+      version: dependency.version,
+      license: dependency.license,
+      ecosystem,
+      repository: dependency.repository,
+      copyrights: [
+        ...new Set(
+          [...files.licenses, ...files.notices].flatMap((text) => extractCopyrights(text))
+        ),
+      ],
+      licenseTexts: files.licenses.map((text) => licenseTexts.add(text, id)),
+      notices: files.notices.map((text) => notices.add(text, id)),
+    });
+  }
+
+  return {
+    project,
+    packages,
+    licenseTexts: licenseTexts.texts(),
+    notices: notices.texts(),
+  };
+}
+
+/**
+ * The copyright lines in a license or NOTICE file, e.g.
+ * `Copyright (c) 2015 Jane Doe`, without the ones license templates contain
+ */
+export function extractCopyrights(text: string): string[] {
+  const copyrights = new Set<string>();
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine
+      .trim()
+      .replace(/^(?:[#*;-]|\/\/)+\s*/, '')
+      .replace(/\s+/g, ' ');
+    if (COPYRIGHT_LINE.test(line) && !NOT_A_NOTICE.test(line)) copyrights.add(line);
+  }
+  return [...copyrights];
+}
+
+/**
+ * Render a bundle as `THIRD_PARTY_NOTICES.txt`, `.md` or `.html`
+ */
+export function renderNotices(bundle: AttributionBundle, format: NoticeFormat): string {
+  switch (format) {
+    case 'txt':
+      return renderNoticeText(bundle);
+    case 'md':
+      return renderNoticeMarkdown(bundle);
+    case 'html':
+      return renderNoticeHtml(bundle);
+  }
+}
+
+// ============================================================================
+// Collection
+// ============================================================================
+
+class TextIndex {
+  private readonly entries: Array<{ text: string; packages: string[] }> = [];
+  private readonly byText = new Map<string, number>();
+
+  /** Add a package's text, returning the index of its entry */
+  add(text: string, packageId: string): number {
+    let index = this.byText.get(text);
+    if (index === undefined) {
+      index = this.entries.push({ text, packages: [] }) - 1;
+      this.byText.set(text, index);
+    }
+    const entry = this.entries[index];
+    if (entry !== undefined && !entry.packages.includes(packageId)) entry.packages.push(packageId);
+    return index;
+  }
+
+  texts(): AttributionText[] {
+    return this.entries;
+  }
+}
+
+/**
+ * Read the license and NOTICE files in a package directory, including a
+ * `licenses/` subdirectory, normalized for comparison
+ */
+async function readAttributionFiles(
+  packageDir: string
+): Promise<{ licenses: string[]; notices: string[] }> {
+  const licenses: string[] = [];
+  const notices: string[] = [];
+
+  const add = async (list: string[], path: string): Promise<void> => {
+    const text = normalizeText(await readFile(path, 'utf-8'));
+    if (text !== '' && !list.includes(text)) list.push(text);
+  };
+
+  for (const entry of await listDir(packageDir)) {
+    const path = join(packageDir, entry.name);
+    if (!entry.isDirectory() && SOURCE_FILE.test(entry.name)) continue;
+    if (entry.isFile() && LICENSE_FILE.test(entry.name)) {
+      await add(licenses, path);
+    } else if (entry.isFile() && NOTICE_FILE.test(entry.name)) {
+      await add(notices, path);
+    } else if (entry.isDirectory() && LICENSE_DIR.test(entry.name)) {
+      for (const file of await listDir(path)) {
+        if (!file.isFile() || SOURCE_FILE.test(file.name)) continue;
+        await add(NOTICE_FILE.test(file.name) ? notices : licenses, join(path, file.name));
+      }
+    }
+  }
+
+  return { licenses, notices };
+}
+
+async function listDir(dir: string): Promise<Dirent[]> {
+  try {
+    const entries = await readdir(dir, { withFileTypes: true });
+    return entries.sort((a, b) => a.name.localeCompare(b.name));
+  } catch {
+    return [];
+  }
+}
+
+function normalizeText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const RULE = '='.repeat(80);
+
+function packageId(pkg: AttributionPackage): string {
+  return `${pkg.name}@${pkg.version}`;
+}
+
+function intro(bundle: AttributionBundle): string {
+  return `${bundle.project} includes the third-party packages listed below. Their license texts and notices follow the list.`;
+}
+
+function renderNoticeText(bundle: AttributionBundle): string {
+  const lines: string[] = [
+    'THIRD-PARTY SOFTWARE NOTICES AND INFORMATION',
+    RULE,
+    '',
+    intro(bundle),
+    '',
+    'PACKAGES',
+    '--------',
+    '',
+  ];
+
+  for (const pkg of bundle.packages) {
+    lines.push(`${packageId(pkg)} (${pkg.license})`);
+    for (const copyright of pkg.copyrights) lines.push(`  ${copyright}`);
+    if (pkg.repository !== undefined) lines.push(`  ${pkg.repository}`);
+    lines.push(
+      pkg.licenseTexts.length > 0
+        ? `  License text: ${pkg.licenseTexts.map((index) => index + 1).join(', ')}`
+        : '  License text: not found'
+    );
+    if (pkg.notices.length > 0) {
+      lines.push(`  Notice: ${pkg.notices.map((index) => index + 1).join(', ')}`);
+    }
+    lines.push('');
+  }
+
+  const sections = [
+    ...bundle.licenseTexts.map((entry, index) => ({ title: `LICENSE TEXT ${index + 1}`, entry })),
+    ...bundle.notices.map((entry, index) => ({ title: `NOTICE ${index + 1}`, entry })),
+  ];
+  for (const { title, entry } of sections) {
+    lines.push(RULE, title, `Used by: ${entry.packages.join(', ')}`, RULE, '', entry.text, '');
+  }
+
+  return lines.join('\n');
+}
+
+function renderNoticeMarkdown(bundle: AttributionBundle): string {
+  const lines: string[] = [
+    '# Third-Party Software Notices',
+    '',
+    intro(bundle),
+    '',
+    '## Packages',
+    '',
+  ];
+
+  for (const pkg of bundle.packages) {
+    const links = [
+      ...pkg.licenseTexts.map((index) => `[license ${index + 1}](#license-${index + 1})`),
+      ...pkg.notices.map((index) => `[notice ${index + 1}](#notice-${index + 1})`),
+    ];
+    lines.push(
+      `- **${packageId(pkg)}** (${pkg.license}): ${links.length > 0 ? links.join(', ') : 'license text not found'}`
+    );
+    for (const copyright of pkg.copyrights) lines.push(`  - ${copyright}`);
+    if (pkg.repository !== undefined) lines.push(`  - ${pkg.repository}`);
+  }
+  lines.push('');
+
+  const sections = [
+    {
+      heading: 'License Texts',
+      anchor: 'license',
+      title: 'License text',
+      entries: bundle.licenseTexts,
+    },
+    { heading: 'Notices', anchor: 'notice', title: 'Notice', entries: bundle.notices },
+  ];
+  for (const { heading, anchor, title, entries } of sections) {
+    if (entries.length === 0) continue;
+    lines.push(`## ${heading}`, '');
+    entries.forEach((entry, index) => {
+      const fence = '`'.repeat(Math.max(3, longestRun(entry.text, '`') + 1));
+      lines.push(
+        `<a id="${anchor}-${index + 1}"></a>`,
+        '',
+        `### ${title} ${index + 1}`,
+        '',
+        `Used by: ${entry.packages.join(', ')}`,
+        '',
+        `${fence}text`,
+        entry.text,
+        fence,
+        ''
+      );
+    });
+  }
+
+  return lines.join('\n');
+}
+
+function renderNoticeHtml(bundle: AttributionBundle): string {
+  const items = bundle.packages.map((pkg) => {
+    const links = [
+      ...pkg.licenseTexts.map(
+        (index) => `<a href="#license-${index + 1}">license ${index + 1}</a>`
+      ),
+      ...pkg.notices.map((index) => `<a href="#notice-${index + 1}">notice ${index + 1}</a>`),
+    ];
+    const details = [
+      ...pkg.copyrights.map((copyright) => `<li>${escapeHtml(copyright)}</li>`),
+      ...(pkg.repository !== undefined ? [`<li>${escapeHtml(pkg.repository)}</li>`] : []),
+    ];
+    return `    <li><strong>${escapeHtml(packageId(pkg))}</strong> (${escapeHtml(pkg.license)}): ${links.length > 0 ? links.join(', ') : 'license text not found'}${details.length > 0 ? `<ul>${details.join('')}</ul>` : ''}</li>`;
+  });
+
+  const sections = [
+    {
+      heading: 'License Texts',
+      anchor: 'license',
+      title: 'License text',
+      entries: bundle.licenseTexts,
+    },
+    { heading: 'Notices', anchor: 'notice', title: 'Notice', entries: bundle.notices },
+  ].flatMap(({ heading, anchor, title, entries }) =>
+    entries.length === 0
+      ? []
+      : [
+          `  <h2>${heading}</h2>`,
+          ...entries.map(
+            (entry, index) =>
+              `  <h3 id="${anchor}-${index + 1}">${title} ${index + 1}</h3>\n  <p>Used by: ${escapeHtml(entry.packages.join(', '))}</p>\n  <pre>${escapeHtml(entry.text)}</pre>`
+          ),
+        ]
+  );
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Third-Party Software Notices</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, sans-serif; max-width: 900px; margin: 0 auto; padding: 20px; }
+    h1 { border-bottom: 2px solid #333; padding-bottom: 10px; }
+    h2 { color: #444; margin-top: 30px; }
+    li { margin: 5px 0; }
+    pre { background-color: #f4f4f4; padding: 10px; white-space: pre-wrap; }
+    a { color: #0066cc; }
+  </style>
+</head>
+<body>
+  <h1>Third-Party Software Notices</h1>
+  <p>${escapeHtml(intro(bundle))}</p>
+  <h2>Packages</h2>
+  <ul>
+${items.join('\n')}
+  </ul>
+${sections.join('\n')}
+</body>
+</html>
+`;
+}
+
+function longestRun(text: string, char: string): number {
+  let longest = 0;
+  let current = 0;
+  for (const c of text) {
+    current = c === char ? current + 1 : 0;
+    longest = Math.max(longest, current);
+  }
+  return longest;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
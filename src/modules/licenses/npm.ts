@@ -0,0 +1,130 @@
+/**
+ * RepoHygiene - npm Licenses
+ * Read licenses of packages installed from npm, yarn and pnpm lockfiles
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import type { EcosystemAdapter, EcosystemDependency } from './ecosystem.js';
+import { LOCKFILES, resolveDependencyTree, type ResolvedDependency } from './lockfile.js';
+import { resolvePackageLicense, type PackageLicense } from './license-files.js';
+
+interface PackageLicenseInfo extends PackageLicense {
+  readonly repository?: string;
+  readonly packageDir?: string;
+}
+
+export const npmAdapter: EcosystemAdapter = {
+  ecosystem: 'npm',
+  label: 'npm',
+  manifests: ['package.json'],
+  lockfiles: LOCKFILES,
+  lockfileHint:
+    'Commit package-lock.json, yarn.lock or pnpm-lock.yaml to audit transitive dependencies',
+
+  async scan({ cwd, production }) {
+    const tree = await resolveDependencyTree(cwd);
+    const dependencies: EcosystemDependency[] = [];
+
+    for (const dependency of tree.dependencies) {
+      if (production && !dependency.isProduction) continue;
+
+      const license = await getLicenseForPackage(cwd, dependency);
+      dependencies.push({
+        name: dependency.name,
+        version: dependency.version,
+        license: license.license,
+        licenseFile: license.licenseFile,
+        packageDir: license.packageDir,
+        detectedLicense: license.detectedLicense,
+        licenseSource: license.licenseSource,
+        licenseMismatch: license.licenseMismatch,
+        repository: license.repository,
+        integrity: dependency.integrity,
+        resolved: dependency.resolved,
+        dependsOn: dependency.dependsOn,
+        isProduction: dependency.isProduction,
+        dependencyPath: dependency.path,
+      });
+    }
+
+    return {
+      ecosystem: 'npm',
+      lockfile: tree.lockfile,
+      directOnly: tree.lockfile === undefined,
+      dependencies,
+    };
+  },
+};
+
+/**
+ * Get license info for a package from its installed package.json. The copy
+ * at the locked version is preferred; when none is installed, the license
+ * recorded in the lockfile is used. Packages that don't declare a license
+ * get the one their license file's text matches.
+ */
+async function getLicenseForPackage(
+  cwd: string,
+  dependency: ResolvedDependency
+): Promise<PackageLicenseInfo> {
+  const candidates = [
+    ...(dependency.installPath !== undefined ? [dependency.installPath] : []),
+    join('node_modules', dependency.name),
+  ];
+
+  let fallback: PackageLicenseInfo | undefined;
+  for (const candidate of candidates) {
+    const packageDir = join(cwd, candidate);
+    if (!existsSync(join(packageDir, 'package.json'))) continue;
+
+    const info = await readPackageLicense(packageDir);
+    if (info === null) continue;
+    if (info.version === dependency.version) return { ...info, packageDir: candidate };
+    fallback ??= { ...info, packageDir: candidate };
+  }
+
+  if (dependency.license !== undefined) {
+    return { license: dependency.license, licenseSource: 'lockfile' };
+  }
+  return fallback ?? { license: 'UNKNOWN' };
+}
+
+async function readPackageLicense(
+  packageDir: string
+): Promise<(PackageLicenseInfo & { version?: string }) | null> {
+  try {
+    const packageJson = JSON.parse(await readFile(join(packageDir, 'package.json'), 'utf-8')) as {
+      version?: string;
+      license?: string | { type?: string };
+      licenses?: Array<{ type?: string }>;
+      repository?: string | { url?: string };
+    };
+
+    // Get license from package.json
+    let license = 'UNKNOWN';
+    if (typeof packageJson.license === 'string') {
+      license = packageJson.license;
+    } else if (typeof packageJson.license === 'object' && packageJson.license?.type !== undefined) {
+      license = packageJson.license.type;
+    } else if (Array.isArray(packageJson.licenses) && packageJson.licenses[0]?.type !== undefined) {
+      license = packageJson.licenses[0].type;
+    }
+
+    // Get repository
+    let repository: string | undefined;
+    if (typeof packageJson.repository === 'string') {
+      repository = packageJson.repository;
+    } else if (packageJson.repository?.url !== undefined) {
+      repository = packageJson.repository.url;
+    }
+
+    return {
+      ...(await resolvePackageLicense(license, packageDir)),
+      repository,
+      version: packageJson.version,
+    };
+  } catch {
+    return null;
+  }
+}
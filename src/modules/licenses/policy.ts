@@ -4,6 +4,7 @@
  */
 
 import type { DependencyLicense, LicenseSummary } from '../../types/index.js';
+import { evaluateLicense, type LicenseDecision } from './spdx.js';
 
 export interface LicensePolicy {
   readonly allow: readonly string[];
@@ -27,21 +28,25 @@ export const DEFAULT_POLICY: LicensePolicy = {
 };
 
 /**
- * Check if a license is allowed by policy
+ * Check if a license expression is allowed by policy
  */
 export function isLicenseAllowed(license: string, policy: LicensePolicy): boolean {
-  const normalized = license.toUpperCase();
-
-  return policy.allow.some((allowed) => normalized.includes(allowed.toUpperCase()));
+  return evaluateLicense(license, policy).status === 'allowed';
 }
 
 /**
- * Check if a license is denied by policy
+ * Check if a license expression is denied by policy
  */
 export function isLicenseDenied(license: string, policy: LicensePolicy): boolean {
-  const normalized = license.toUpperCase();
+  return evaluateLicense(license, policy).status === 'denied';
+}
 
-  return policy.deny.some((denied) => normalized.includes(denied.toUpperCase()));
+/**
+ * Decide a license expression's status under a policy, with the branch of
+ * the expression the decision rests on
+ */
+export function explainLicenseDecision(license: string, policy: LicensePolicy): LicenseDecision {
+  return evaluateLicense(license, policy);
 }
 
 /**
@@ -53,6 +58,7 @@ export function generateLicenseSummary(licenses: readonly DependencyLicense[]):
     allowed: licenses.filter((l) => l.status === 'allowed').length,
     denied: licenses.filter((l) => l.status === 'denied').length,
     unknown: licenses.filter((l) => l.status === 'unknown').length,
+    excepted: licenses.filter((l) => l.status === 'allowed-by-exception').length,
   };
 }
 
@@ -0,0 +1,431 @@
+/**
+ * RepoHygiene - Python Licenses
+ * Read dependencies from poetry.lock, requirements files and pyproject.toml,
+ * and their licenses from the dist-info metadata of a local virtualenv
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname, join, relative } from 'path';
+import { parseToml, tomlStrings, tomlTable, tomlTables, type TomlTable } from '../../core/toml.js';
+import type { EcosystemAdapter, EcosystemDependency, EcosystemScan } from './ecosystem.js';
+import { parseFile } from './ecosystem.js';
+import { walkGraph, type LockfileGraph, type LockfileNode } from './lockfile.js';
+import { resolvePackageLicense, type PackageLicense } from './license-files.js';
+import { detectLicenseText } from './detect.js';
+import { licenseFromName } from './spdx.js';
+
+const VIRTUALENV_DIRS = ['.venv', 'venv', 'env'];
+
+const REQUIREMENTS_FILES: ReadonlyArray<readonly [string, boolean]> = [
+  ['requirements.txt', true],
+  ['requirements-dev.txt', false],
+  ['dev-requirements.txt', false],
+];
+
+/** A distribution installed in the virtualenv */
+export interface InstalledDistribution {
+  readonly name: string;
+  readonly version: string;
+  /** License the metadata declares, as an SPDX expression where possible */
+  readonly license: string;
+  /** Names of the distributions it requires, excluding extras */
+  readonly requires: string[];
+  /** The `.dist-info` directory */
+  readonly distInfo: string;
+}
+
+/** A requirement line such as `requests[socks]>=2.0 ; python_version > "3.7"` */
+export interface PythonRequirement {
+  readonly name: string;
+  /** Version specifier, e.g. `==2.31.0` or `>=2,<3` */
+  readonly specifier: string;
+  /** The version, when the specifier pins one with `==` */
+  readonly pinned?: string;
+  readonly isProduction: boolean;
+}
+
+export const pythonAdapter: EcosystemAdapter = {
+  ecosystem: 'python',
+  label: 'Python',
+  manifests: ['poetry.lock', 'pyproject.toml', ...REQUIREMENTS_FILES.map(([file]) => file)],
+  lockfiles: [],
+  lockfileHint:
+    'Commit poetry.lock or fully pinned requirements, or create a virtualenv in .venv, to audit transitive dependencies',
+
+  async scan({ cwd }) {
+    const venv = await findSitePackages(cwd);
+    const installed =
+      venv !== undefined ? await readSitePackages(venv) : new Map<string, InstalledDistribution>();
+    const pyproject = existsSync(join(cwd, 'pyproject.toml'))
+      ? parseFile('pyproject.toml', await readFile(join(cwd, 'pyproject.toml'), 'utf-8'), parseToml)
+      : {};
+
+    const scan = existsSync(join(cwd, 'poetry.lock'))
+      ? await scanPoetryLock(cwd, pyproject)
+      : await scanRequirements(cwd, pyproject, installed, venv);
+
+    const dependencies: EcosystemDependency[] = [];
+    for (const dependency of scan.dependencies) {
+      const installedDistribution = installed.get(normalizePythonName(dependency.name));
+      const distribution =
+        installedDistribution?.version === dependency.version ? installedDistribution : undefined;
+      const license =
+        distribution !== undefined
+          ? await resolvePackageLicense(distribution.license, distribution.distInfo, [
+              '',
+              'licenses',
+            ])
+          : ({ license: 'UNKNOWN' } as PackageLicense);
+
+      dependencies.push({
+        ...dependency,
+        ...license,
+        licenseFile:
+          license.licenseFile !== undefined && distribution !== undefined
+            ? relative(cwd, join(distribution.distInfo, license.licenseFile))
+            : undefined,
+        packageDir: distribution !== undefined ? relative(cwd, distribution.distInfo) : undefined,
+      });
+    }
+
+    return { ...scan, dependencies };
+  },
+};
+
+/**
+ * Normalize a distribution name as PEP 503 does, so `Foo_Bar` matches `foo-bar`
+ */
+export function normalizePythonName(name: string): string {
+  return name.toLowerCase().replace(/[-_.]+/g, '-');
+}
+
+// ============================================================================
+// Dependencies
+// ============================================================================
+
+/**
+ * Resolve poetry.lock, walking from the main dependencies in pyproject.toml
+ * before the dev groups. Lockfiles written before Poetry 1.5 also mark each
+ * package's category.
+ */
+async function scanPoetryLock(cwd: string, pyproject: TomlTable): Promise<EcosystemScan> {
+  const lock = parseFile(
+    'poetry.lock',
+    await readFile(join(cwd, 'poetry.lock'), 'utf-8'),
+    parseToml
+  );
+  const packages = tomlTables(lock.package);
+
+  const nodes = new Map<string, LockfileNode>();
+  for (const pkg of packages) {
+    const name = String(pkg.name ?? '');
+    nodes.set(normalizePythonName(name), {
+      name,
+      version: String(pkg.version ?? ''),
+      dependencies: Object.keys(tomlTable(pkg.dependencies)).map(normalizePythonName),
+    });
+  }
+
+  const poetry = tomlTable(tomlTable(pyproject.tool).poetry);
+  const main = [
+    ...Object.keys(tomlTable(poetry.dependencies)),
+    ...tomlStrings(tomlTable(pyproject.project).dependencies).map(
+      (line) => parseRequirement(line)?.name ?? ''
+    ),
+  ];
+  const dev = [
+    ...Object.keys(tomlTable(poetry['dev-dependencies'])),
+    ...Object.values(tomlTable(poetry.group)).flatMap((group) =>
+      Object.keys(tomlTable(tomlTable(group).dependencies))
+    ),
+  ];
+
+  const graph: LockfileGraph = {
+    nodes,
+    prodRoots: main.map(normalizePythonName).filter((name) => nodes.has(name)),
+    devRoots: dev.map(normalizePythonName).filter((name) => nodes.has(name)),
+  };
+
+  // Without pyproject.toml, fall back to the categories in the lockfile
+  if (graph.prodRoots.length === 0 && graph.devRoots.length === 0) {
+    for (const pkg of packages) {
+      const key = normalizePythonName(String(pkg.name ?? ''));
+      (pkg.category === 'dev' ? graph.devRoots : graph.prodRoots).push(key);
+    }
+  }
+
+  return {
+    ecosystem: 'python',
+    lockfile: 'poetry.lock',
+    directOnly: false,
+    dependencies: walkGraph(graph).map((dependency) => ({
+      name: dependency.name,
+      version: dependency.version,
+      license: 'UNKNOWN',
+      isProduction: dependency.isProduction,
+      dependencyPath: dependency.path,
+      dependsOn: dependency.dependsOn,
+    })),
+  };
+}
+
+/**
+ * Resolve requirements files and `[project] dependencies`. Installed
+ * distributions give the versions and, through their `Requires-Dist`, the
+ * transitive dependencies; without a virtualenv, only fully pinned
+ * requirements count as a complete list.
+ */
+async function scanRequirements(
+  cwd: string,
+  pyproject: TomlTable,
+  installed: ReadonlyMap<string, InstalledDistribution>,
+  venv: string | undefined
+): Promise<EcosystemScan> {
+  const requirements: PythonRequirement[] = [];
+  for (const [file, isProduction] of REQUIREMENTS_FILES) {
+    if (existsSync(join(cwd, file))) {
+      requirements.push(...(await readRequirementsFile(join(cwd, file), isProduction)));
+    }
+  }
+  for (const line of tomlStrings(tomlTable(pyproject.project).dependencies)) {
+    const requirement = parseRequirement(line, true);
+    if (requirement !== undefined) requirements.push(requirement);
+  }
+
+  if (venv !== undefined) {
+    const nodes = new Map<string, LockfileNode>();
+    for (const [key, distribution] of installed) {
+      nodes.set(key, {
+        name: distribution.name,
+        version: distribution.version,
+        dependencies: distribution.requires.map(normalizePythonName),
+      });
+    }
+
+    const graph: LockfileGraph = { nodes, prodRoots: [], devRoots: [] };
+    const missing: PythonRequirement[] = [];
+    for (const requirement of requirements) {
+      const key = normalizePythonName(requirement.name);
+      if (!nodes.has(key)) missing.push(requirement);
+      else (requirement.isProduction ? graph.prodRoots : graph.devRoots).push(key);
+    }
+
+    return {
+      ecosystem: 'python',
+      lockfile: relative(cwd, venv),
+      directOnly: false,
+      dependencies: [
+        ...walkGraph(graph).map((dependency) => ({
+          name: dependency.name,
+          version: dependency.version,
+          license: 'UNKNOWN',
+          isProduction: dependency.isProduction,
+          dependencyPath: dependency.path,
+          dependsOn: dependency.dependsOn,
+        })),
+        // Requirements that aren't installed are still audited, as declared
+        ...missing.map(toDirectDependency),
+      ],
+    };
+  }
+
+  const unique = new Map<string, PythonRequirement>();
+  for (const requirement of requirements) {
+    const key = normalizePythonName(requirement.name);
+    const existing = unique.get(key);
+    if (existing === undefined || (!existing.isProduction && requirement.isProduction)) {
+      unique.set(key, requirement);
+    }
+  }
+
+  const pinned = [...unique.values()].every((requirement) => requirement.pinned !== undefined);
+  return {
+    ecosystem: 'python',
+    lockfile: pinned && unique.size > 0 ? 'requirements.txt' : undefined,
+    directOnly: !pinned,
+    dependencies: [...unique.values()].map(toDirectDependency),
+  };
+}
+
+function toDirectDependency(requirement: PythonRequirement): EcosystemDependency {
+  return {
+    name: requirement.name,
+    version: requirement.pinned ?? requirement.specifier,
+    license: 'UNKNOWN',
+    isProduction: requirement.isProduction,
+    dependencyPath: [requirement.name],
+  };
+}
+
+/**
+ * Read a requirements file, following `-r` includes. Editable installs, URLs
+ * and pip options are skipped.
+ */
+export async function readRequirementsFile(
+  path: string,
+  isProduction: boolean,
+  seen: Set<string> = new Set()
+): Promise<PythonRequirement[]> {
+  if (seen.has(path) || !existsSync(path)) return [];
+  seen.add(path);
+
+  const content = await readFile(path, 'utf-8');
+  const requirements: PythonRequirement[] = [];
+
+  for (const rawLine of content.replace(/\\\r?\n/g, ' ').split(/\r?\n/)) {
+    const line = rawLine.replace(/(^|\s)#.*$/, '').trim();
+    if (line === '') continue;
+
+    const include = /^(?:-r|--requirement)[\s=]+(\S+)/.exec(line);
+    if (include?.[1] !== undefined) {
+      requirements.push(
+        ...(await readRequirementsFile(join(dirname(path), include[1]), isProduction, seen))
+      );
+      continue;
+    }
+    if (line.startsWith('-')) continue;
+
+    const requirement = parseRequirement(line, isProduction);
+    if (requirement !== undefined) requirements.push(requirement);
+  }
+
+  return requirements;
+}
+
+/**
+ * Parse a PEP 508 requirement, ignoring extras, environment markers and
+ * per-requirement pip options such as `--hash`
+ */
+export function parseRequirement(line: string, isProduction = true): PythonRequirement | undefined {
+  const match = /^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/.exec(line.trim());
+  if (match?.[1] === undefined) return undefined;
+
+  const specifier = (match[2] ?? '')
+    .replace(/\s--?\S+.*$/, '')
+    .replace(/^\((.*)\)$/, '$1')
+    .trim();
+  if (specifier.startsWith('@')) {
+    return { name: match[1], specifier: '', isProduction };
+  }
+
+  const pinned = /^===?\s*([^\s,;*]+)$/.exec(specifier)?.[1];
+  return { name: match[1], specifier, pinned, isProduction };
+}
+
+// ============================================================================
+// Installed Distributions
+// ============================================================================
+
+/**
+ * The site-packages directory of a virtualenv in the project, if there is one
+ */
+async function findSitePackages(cwd: string): Promise<string | undefined> {
+  for (const venv of VIRTUALENV_DIRS) {
+    const windows = join(cwd, venv, 'Lib', 'site-packages');
+    if (existsSync(windows)) return windows;
+
+    const lib = join(cwd, venv, 'lib');
+    if (!existsSync(lib)) continue;
+    for (const entry of (await readdir(lib)).sort()) {
+      const sitePackages = join(lib, entry, 'site-packages');
+      if (entry.startsWith('python') && existsSync(sitePackages)) return sitePackages;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the METADATA of every distribution in a site-packages directory,
+ * keyed by normalized name
+ */
+export async function readSitePackages(
+  sitePackages: string
+): Promise<Map<string, InstalledDistribution>> {
+  const installed = new Map<string, InstalledDistribution>();
+
+  for (const entry of await readdir(sitePackages)) {
+    if (!entry.endsWith('.dist-info')) continue;
+    const distInfo = join(sitePackages, entry);
+    const metadataPath = join(distInfo, 'METADATA');
+    if (!existsSync(metadataPath)) continue;
+
+    const metadata = parseMetadata(await readFile(metadataPath, 'utf-8'));
+    const name = metadata.get('name')?.[0];
+    const version = metadata.get('version')?.[0];
+    if (name === undefined || version === undefined) continue;
+
+    installed.set(normalizePythonName(name), {
+      name,
+      version,
+      license: declaredPythonLicense(metadata),
+      requires: (metadata.get('requires-dist') ?? [])
+        .filter((requirement) => !/\bextra\s*==/.test(requirement))
+        .map((requirement) => parseRequirement(requirement)?.name)
+        .filter((requirement): requirement is string => requirement !== undefined),
+      distInfo,
+    });
+  }
+
+  return installed;
+}
+
+/**
+ * Parse the email-style headers of a METADATA file. Keys are lowercased;
+ * continuation lines are joined with newlines.
+ */
+export function parseMetadata(content: string): Map<string, string[]> {
+  const headers = new Map<string, string[]>();
+  let last: { key: string; index: number } | undefined;
+
+  for (const line of content.split(/\r?\n/)) {
+    if (line === '') break;
+
+    if (/^\s/.test(line) && last !== undefined) {
+      const values = headers.get(last.key) ?? [];
+      values[last.index] = `${values[last.index] ?? ''}\n${line.replace(/^\s+\|?/, '')}`;
+      continue;
+    }
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const values = headers.get(key) ?? [];
+    values.push(line.slice(separator + 1).trim());
+    headers.set(key, values);
+    last = { key, index: values.length - 1 };
+  }
+
+  return headers;
+}
+
+/**
+ * The license a distribution declares: `License-Expression` (PEP 639), then
+ * a `License` field naming a license, then `License ::` classifiers, then
+ * the text of a `License` field holding the whole license
+ */
+export function declaredPythonLicense(metadata: ReadonlyMap<string, readonly string[]>): string {
+  const expression = metadata.get('license-expression')?.[0];
+  if (expression !== undefined && expression !== '') return expression;
+
+  const field = metadata.get('license')?.[0]?.trim() ?? '';
+  const singleLine = field !== '' && !field.includes('\n');
+  const named = singleLine ? licenseFromName(field) : undefined;
+  if (named !== undefined) return named;
+
+  const classifiers = [
+    ...new Set(
+      (metadata.get('classifier') ?? [])
+        .filter((classifier) => classifier.startsWith('License ::'))
+        .map((classifier) => licenseFromName(classifier.split('::').pop()))
+        .filter((license): license is string => license !== undefined)
+    ),
+  ];
+  if (classifiers.length > 0) return classifiers.join(' OR ');
+
+  if (field !== '' && !singleLine) {
+    const detected = detectLicenseText(field);
+    if (detected !== null) return detected.id;
+  }
+  return singleLine && field !== 'UNKNOWN' && field.length <= 80 ? field : 'UNKNOWN';
+}
@@ -5,6 +5,7 @@
 
 import type { DependencyLicense, LicenseSummary } from '../../types/index.js';
 import { groupByLicense } from './policy.js';
+import { formatConfidence } from './detect.js';
 
 /**
  * Generate markdown license report
@@ -24,6 +25,7 @@ export function generateMarkdownReport(
     `- **Allowed**: ${summary.allowed}`,
     `- **Denied**: ${summary.denied}`,
     `- **Unknown**: ${summary.unknown}`,
+    `- **Allowed by exception**: ${summary.excepted}`,
     '',
   ];
 
@@ -31,14 +33,16 @@ export function generateMarkdownReport(
   const denied = licenses.filter((l) => l.status === 'denied');
   const unknown = licenses.filter((l) => l.status === 'unknown');
   const allowed = licenses.filter((l) => l.status === 'allowed');
+  const excepted = licenses.filter((l) => l.status === 'allowed-by-exception');
 
   if (denied.length > 0) {
     lines.push('## ❌ Denied Licenses');
     lines.push('');
-    lines.push('| Package | Version | License |');
-    lines.push('|---------|---------|---------|');
+    lines.push('| Package | Version | License | Reason |');
+    lines.push('|---------|---------|---------|--------|');
     for (const dep of denied) {
-      lines.push(`| ${dep.name} | ${dep.version} | ${dep.license} |`);
+      const reason = [dep.policyReason, dep.obligation].filter((part) => part !== undefined);
+      lines.push(`| ${dep.name} | ${dep.version} | ${dep.license} | ${reason.join(': ')} |`);
     }
     lines.push('');
   }
@@ -46,10 +50,38 @@ export function generateMarkdownReport(
   if (unknown.length > 0) {
     lines.push('## ⚠️ Unknown Licenses');
     lines.push('');
-    lines.push('| Package | Version | License |');
-    lines.push('|---------|---------|---------|');
+    lines.push('| Package | Version | License | Reason |');
+    lines.push('|---------|---------|---------|--------|');
     for (const dep of unknown) {
-      lines.push(`| ${dep.name} | ${dep.version} | ${dep.license} |`);
+      lines.push(`| ${dep.name} | ${dep.version} | ${dep.license} | ${dep.policyReason ?? ''} |`);
+    }
+    lines.push('');
+  }
+
+  if (excepted.length > 0) {
+    lines.push('## 📝 Allowed by Exception');
+    lines.push('');
+    lines.push('| Package | Version | License | Approved By | Expires | Reason |');
+    lines.push('|---------|---------|---------|-------------|---------|--------|');
+    for (const dep of excepted) {
+      const exception = dep.licenseException;
+      lines.push(
+        `| ${dep.name} | ${dep.version} | ${dep.license} | ${exception?.approver ?? ''} | ${exception?.expires ?? ''} | ${exception?.reason ?? ''} |`
+      );
+    }
+    lines.push('');
+  }
+
+  const mismatched = licenses.filter((l) => l.licenseMismatch === true);
+  if (mismatched.length > 0) {
+    lines.push('## 🔍 License File Mismatches');
+    lines.push('');
+    lines.push('| Package | Version | Declared | License File | Detected | Confidence |');
+    lines.push('|---------|---------|----------|--------------|----------|------------|');
+    for (const dep of mismatched) {
+      lines.push(
+        `| ${dep.name} | ${dep.version} | ${dep.license} | ${dep.licenseFile ?? ''} | ${dep.detectedLicense?.id ?? ''} | ${formatConfidence(dep.detectedLicense?.confidence ?? 0)} |`
+      );
     }
     lines.push('');
   }
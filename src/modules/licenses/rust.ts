@@ -0,0 +1,334 @@
+/**
+ * RepoHygiene - Rust Licenses
+ * Read crates from Cargo.lock and their licenses from the Cargo.toml of the
+ * sources in vendor/ or the Cargo registry
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join, relative } from 'path';
+import {
+  parseToml,
+  tomlStrings,
+  tomlTable,
+  tomlTables,
+  type TomlTable,
+  type TomlValue,
+} from '../../core/toml.js';
+import type { EcosystemAdapter, EcosystemDependency, EcosystemScan } from './ecosystem.js';
+import { parseFile } from './ecosystem.js';
+import { walkGraph, type LockfileGraph, type LockfileNode } from './lockfile.js';
+import { resolvePackageLicense, type PackageLicense } from './license-files.js';
+import { detectLicenseText } from './detect.js';
+
+const CRATES_IO = 'registry+https://github.com/rust-lang/crates.io-index';
+
+const PRODUCTION_SECTIONS = ['dependencies', 'build-dependencies'];
+
+/** A crate manifest of the workspace */
+export interface CrateManifest {
+  readonly name?: string;
+  /** Names, as published, of the crates it depends on */
+  readonly dependencies: Map<string, string>;
+  readonly devDependencies: Map<string, string>;
+}
+
+export const rustAdapter: EcosystemAdapter = {
+  ecosystem: 'rust',
+  label: 'Rust',
+  manifests: ['Cargo.toml'],
+  lockfiles: ['Cargo.lock'],
+  lockfileHint: 'Commit Cargo.lock to audit transitive dependencies',
+
+  async scan({ cwd, homeDir }) {
+    const manifests = await readWorkspaceManifests(cwd);
+    const scan = existsSync(join(cwd, 'Cargo.lock'))
+      ? parseCargoLock(
+          parseFile('Cargo.lock', await readFile(join(cwd, 'Cargo.lock'), 'utf-8'), parseToml),
+          manifests
+        )
+      : directCrates(manifests);
+
+    const cargoHome = process.env.CARGO_HOME ?? join(homeDir, '.cargo');
+    const registries = await listRegistrySources(cargoHome);
+    const dependencies: EcosystemDependency[] = [];
+
+    for (const dependency of scan.dependencies) {
+      const crateDir = findCrate(cwd, registries, dependency.name, dependency.version);
+      const license = crateDir !== undefined ? await readCrateLicense(crateDir) : undefined;
+      dependencies.push({
+        ...dependency,
+        ...license,
+        licenseFile:
+          license?.licenseFile !== undefined && crateDir !== undefined
+            ? relative(cwd, join(crateDir, license.licenseFile))
+            : undefined,
+        packageDir: crateDir !== undefined ? relative(cwd, crateDir) : undefined,
+      });
+    }
+
+    return { ...scan, dependencies };
+  },
+};
+
+/**
+ * Resolve the crates in a parsed Cargo.lock. Crates without a source belong
+ * to the workspace; their dev-dependencies, named in their Cargo.toml, are
+ * walked separately from the rest.
+ */
+export function parseCargoLock(
+  lock: TomlTable,
+  manifests: readonly CrateManifest[] = []
+): EcosystemScan {
+  const packages = tomlTables(lock.package);
+  const nodes = new Map<string, LockfileNode>();
+  const byName = new Map<string, string[]>();
+
+  for (const pkg of packages) {
+    const name = String(pkg.name ?? '');
+    const version = String(pkg.version ?? '');
+    const key = `${name} ${version}`;
+    byName.set(name, [...(byName.get(name) ?? []), key]);
+  }
+
+  // Entries are `name`, `name version` or `name version (source)`
+  const resolveEntry = (entry: string): string | undefined => {
+    const [name = '', version] = entry.split(' ');
+    return version !== undefined ? `${name} ${version}` : byName.get(name)?.[0];
+  };
+
+  const prodRoots: string[] = [];
+  const devRoots: string[] = [];
+
+  for (const pkg of packages) {
+    const name = String(pkg.name ?? '');
+    const version = String(pkg.version ?? '');
+    const source = typeof pkg.source === 'string' ? pkg.source : undefined;
+    const checksum = typeof pkg.checksum === 'string' ? pkg.checksum : undefined;
+    const dependencies = tomlStrings(pkg.dependencies)
+      .map(resolveEntry)
+      .filter((key): key is string => key !== undefined);
+
+    nodes.set(`${name} ${version}`, {
+      name,
+      version,
+      dependencies,
+      local: source === undefined,
+      integrity:
+        checksum !== undefined
+          ? `sha256-${Buffer.from(checksum, 'hex').toString('base64')}`
+          : undefined,
+      resolved:
+        source === CRATES_IO
+          ? `https://crates.io/api/v1/crates/${name}/${version}/download`
+          : undefined,
+    });
+
+    if (source !== undefined) continue;
+    const manifest = manifests.find((crate) => crate.name === name);
+    for (const key of dependencies) {
+      const dependency = key.split(' ')[0] ?? '';
+      const isDev =
+        manifest !== undefined &&
+        !manifest.dependencies.has(dependency) &&
+        manifest.devDependencies.has(dependency);
+      (isDev ? devRoots : prodRoots).push(key);
+    }
+  }
+
+  return {
+    ecosystem: 'rust',
+    lockfile: 'Cargo.lock',
+    directOnly: false,
+    dependencies: walkGraph({ nodes, prodRoots, devRoots } satisfies LockfileGraph).map(
+      (dependency) => ({
+        name: dependency.name,
+        version: dependency.version,
+        license: 'UNKNOWN',
+        integrity: dependency.integrity,
+        resolved: dependency.resolved,
+        dependsOn: dependency.dependsOn,
+        isProduction: dependency.isProduction,
+        dependencyPath: dependency.path,
+      })
+    ),
+  };
+}
+
+/**
+ * The dependencies declared in the workspace's Cargo.toml files, at their
+ * declared version requirements, for projects without a Cargo.lock
+ */
+function directCrates(manifests: readonly CrateManifest[]): EcosystemScan {
+  const local = new Set(manifests.map((crate) => crate.name));
+  const crates = new Map<string, EcosystemDependency>();
+
+  for (const manifest of manifests) {
+    for (const [isProduction, dependencies] of [
+      [true, manifest.dependencies],
+      [false, manifest.devDependencies],
+    ] as const) {
+      for (const [name, version] of dependencies) {
+        if (local.has(name) || crates.get(name)?.isProduction === true) continue;
+        crates.set(name, {
+          name,
+          version,
+          license: 'UNKNOWN',
+          isProduction,
+          dependencyPath: [name],
+        });
+      }
+    }
+  }
+
+  return {
+    ecosystem: 'rust',
+    directOnly: true,
+    dependencies: [...crates.values()],
+  };
+}
+
+// ============================================================================
+// Workspace Manifests
+// ============================================================================
+
+/**
+ * Read the root Cargo.toml and those of its workspace members. Member globs
+ * such as `crates/*` are expanded one level deep.
+ */
+async function readWorkspaceManifests(cwd: string): Promise<CrateManifest[]> {
+  const root = parseFile('Cargo.toml', await readFile(join(cwd, 'Cargo.toml'), 'utf-8'), parseToml);
+  const workspace = tomlTable(root.workspace);
+  const inherited = tomlTable(workspace.dependencies);
+  const manifests = [readCrateManifest(root, inherited)];
+
+  for (const member of tomlStrings(workspace.members)) {
+    const dirs = member.endsWith('/*')
+      ? await listDirectories(join(cwd, member.slice(0, -2)))
+      : [join(cwd, member)];
+
+    for (const dir of dirs) {
+      const path = join(dir, 'Cargo.toml');
+      if (!existsSync(path)) continue;
+      const manifest = parseFile(relative(cwd, path), await readFile(path, 'utf-8'), parseToml);
+      manifests.push(readCrateManifest(manifest, inherited));
+    }
+  }
+
+  return manifests;
+}
+
+/**
+ * The dependencies of a crate manifest, including target-specific ones,
+ * mapped from the name each crate is published under to its version
+ * requirement. Dependencies taken from the workspace use its requirement.
+ */
+export function readCrateManifest(manifest: TomlTable, inherited: TomlTable = {}): CrateManifest {
+  const sections = [manifest, ...Object.values(tomlTable(manifest.target)).map(tomlTable)];
+
+  const collect = (names: readonly string[]): Map<string, string> => {
+    const dependencies = new Map<string, string>();
+    for (const section of sections) {
+      for (const name of names) {
+        for (const [key, spec] of Object.entries(tomlTable(section[name]))) {
+          const declared = dependencySpec(spec);
+          const resolved = declared.workspace === true ? dependencySpec(inherited[key]) : declared;
+          const crate = typeof resolved.package === 'string' ? resolved.package : key;
+          dependencies.set(crate, typeof resolved.version === 'string' ? resolved.version : '*');
+        }
+      }
+    }
+    return dependencies;
+  };
+
+  const name = tomlTable(manifest.package).name;
+  return {
+    name: typeof name === 'string' ? name : undefined,
+    dependencies: collect(PRODUCTION_SECTIONS),
+    devDependencies: collect(['dev-dependencies']),
+  };
+}
+
+/**
+ * A dependency given as `"1.0"` or `{ version = "1.0", ... }`, as a table
+ */
+function dependencySpec(spec: TomlValue | undefined): TomlTable {
+  return typeof spec === 'string' ? { version: spec } : tomlTable(spec);
+}
+
+// ============================================================================
+// Crate Sources
+// ============================================================================
+
+async function listDirectories(dir: string): Promise<string[]> {
+  if (!existsSync(dir)) return [];
+  const entries = await readdir(dir, { withFileTypes: true });
+  return entries
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => join(dir, entry.name))
+    .sort();
+}
+
+/**
+ * The unpacked sources of each registry in `$CARGO_HOME/registry/src`
+ */
+async function listRegistrySources(cargoHome: string): Promise<string[]> {
+  return listDirectories(join(cargoHome, 'registry', 'src'));
+}
+
+/**
+ * The directory holding a crate's source: vendor/, as `cargo vendor` lays it
+ * out, or the registry cache
+ */
+function findCrate(
+  cwd: string,
+  registries: readonly string[],
+  name: string,
+  version: string
+): string | undefined {
+  const candidates = [
+    join(cwd, 'vendor', `${name}-${version}`),
+    join(cwd, 'vendor', name),
+    ...registries.map((registry) => join(registry, `${name}-${version}`)),
+  ];
+  return candidates.find((dir) => existsSync(join(dir, 'Cargo.toml')));
+}
+
+/**
+ * Read the license a crate's Cargo.toml declares. Crates that only give a
+ * `license-file` get the license its text matches.
+ */
+async function readCrateLicense(crateDir: string): Promise<PackageLicense | undefined> {
+  let manifest: TomlTable;
+  try {
+    manifest = parseToml(await readFile(join(crateDir, 'Cargo.toml'), 'utf-8'));
+  } catch {
+    return undefined;
+  }
+
+  const pkg = tomlTable(manifest.package);
+  if (typeof pkg.license === 'string') {
+    return resolvePackageLicense(normalizeCargoLicense(pkg.license), crateDir);
+  }
+
+  const licenseFile = pkg['license-file'];
+  if (typeof licenseFile === 'string' && existsSync(join(crateDir, licenseFile))) {
+    const detectedLicense = detectLicenseText(await readFile(join(crateDir, licenseFile), 'utf-8'));
+    if (detectedLicense !== null) {
+      return { license: detectedLicense.id, licenseFile, detectedLicense, licenseSource: 'file' };
+    }
+    return { license: 'UNKNOWN', licenseFile, licenseSource: 'package' };
+  }
+
+  return resolvePackageLicense('UNKNOWN', crateDir);
+}
+
+/**
+ * Rewrite the `MIT/Apache-2.0` form older crates use as an SPDX expression
+ */
+export function normalizeCargoLicense(license: string): string {
+  return license
+    .split('/')
+    .map((part) => part.trim())
+    .join(' OR ');
+}
@@ -0,0 +1,738 @@
+/**
+ * RepoHygiene - SBOM Export
+ * Write audited dependencies as CycloneDX 1.5 or SPDX 2.3 software bills of materials
+ */
+
+import { randomUUID } from 'crypto';
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { basename, join } from 'path';
+import type { DependencyLicense, LicenseEcosystem } from '../../types/index.js';
+import { formatSpdx, getSpdxLicenses, parseSpdx, type SpdxExpression } from './spdx.js';
+
+export const SBOM_FORMATS = ['cyclonedx', 'spdx'] as const;
+export const SBOM_ENCODINGS = ['json', 'xml', 'tag-value'] as const;
+
+export type SbomFormat = (typeof SBOM_FORMATS)[number];
+export type SbomEncoding = (typeof SBOM_ENCODINGS)[number];
+
+const SUPPORTED_ENCODINGS: Readonly<Record<SbomFormat, readonly SbomEncoding[]>> = {
+  cyclonedx: ['json', 'xml'],
+  spdx: ['json', 'tag-value'],
+};
+
+/** The package the SBOM describes */
+export interface SbomProject {
+  readonly name: string;
+  readonly version?: string;
+  readonly license?: string;
+}
+
+export interface SbomOptions {
+  readonly project: SbomProject;
+  /** Version of repohygiene, recorded as the tool that wrote the SBOM */
+  readonly toolVersion: string;
+  /** Defaults to now */
+  readonly timestamp?: Date;
+  /** UUID identifying this document; a random one by default */
+  readonly serialNumber?: string;
+}
+
+type HashAlgorithm = 'SHA-1' | 'SHA-256' | 'SHA-384' | 'SHA-512';
+
+export interface SbomHash {
+  readonly algorithm: HashAlgorithm;
+  /** Lowercase hex digest */
+  readonly content: string;
+}
+
+const SRI_ALGORITHMS: Readonly<Record<string, HashAlgorithm>> = {
+  sha1: 'SHA-1',
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+/**
+ * Package URL for a dependency, e.g. `pkg:npm/%40scope/name@1.0.0` or
+ * `pkg:maven/org.slf4j/slf4j-api@2.0.9`
+ */
+export function packageUrl(
+  name: string,
+  version?: string,
+  ecosystem: LicenseEcosystem = 'npm'
+): string {
+  const encodePath = (path: string): string => path.split('/').map(encodeURIComponent).join('/');
+  let path: string;
+  switch (ecosystem) {
+    case 'npm':
+      path = `npm/${name.startsWith('@') ? encodePath(name) : encodeURIComponent(name)}`;
+      break;
+    case 'python':
+      path = `pypi/${encodeURIComponent(name.toLowerCase().replace(/[-_.]+/g, '-'))}`;
+      break;
+    case 'go':
+      path = `golang/${encodePath(name)}`;
+      break;
+    case 'rust':
+      path = `cargo/${encodeURIComponent(name)}`;
+      break;
+    case 'maven':
+      path = `maven/${name.split(':').map(encodeURIComponent).join('/')}`;
+      break;
+  }
+  return version !== undefined && version !== ''
+    ? `pkg:${path}@${encodeURIComponent(version)}`
+    : `pkg:${path}`;
+}
+
+/**
+ * Decode a subresource integrity string such as `sha512-<base64>` into hex
+ * digests. Unsupported algorithms are skipped.
+ */
+export function parseIntegrity(integrity: string | undefined): SbomHash[] {
+  const hashes: SbomHash[] = [];
+  for (const token of (integrity ?? '').split(/\s+/)) {
+    const match = /^(sha\d+)-([A-Za-z0-9+/]+={0,2})(?:\?.*)?$/.exec(token);
+    const algorithm = SRI_ALGORITHMS[match?.[1] ?? ''];
+    if (match?.[2] === undefined || algorithm === undefined) continue;
+    if (hashes.some((hash) => hash.algorithm === algorithm)) continue;
+    hashes.push({ algorithm, content: Buffer.from(match[2], 'base64').toString('hex') });
+  }
+  return hashes;
+}
+
+/**
+ * Throw when a format can't be written in an encoding, e.g. SPDX as XML
+ */
+export function checkSbomEncoding(format: SbomFormat, encoding: SbomEncoding): void {
+  const supported = SUPPORTED_ENCODINGS[format];
+  if (!supported.includes(encoding)) {
+    throw new Error(
+      `${format === 'cyclonedx' ? 'CycloneDX' : 'SPDX'} SBOMs can be written as ${supported.join(' or ')}, not ${encoding}`
+    );
+  }
+}
+
+/**
+ * Write an SBOM of the audited dependencies. Licenses are the ones the audit
+ * reported, including those identified from license file text.
+ */
+export function generateSbom(
+  dependencies: readonly DependencyLicense[],
+  format: SbomFormat,
+  encoding: SbomEncoding,
+  options: SbomOptions
+): string {
+  checkSbomEncoding(format, encoding);
+
+  if (format === 'cyclonedx') {
+    const bom = generateCycloneDx(dependencies, options);
+    return encoding === 'xml' ? renderCycloneDxXml(bom) : `${JSON.stringify(bom, null, 2)}\n`;
+  }
+
+  const document = generateSpdx(dependencies, options);
+  return encoding === 'tag-value'
+    ? renderSpdxTagValue(document)
+    : `${JSON.stringify(document, null, 2)}\n`;
+}
+
+/**
+ * Name, version and license of the project in a directory, from its
+ * package.json; the directory name when there is none
+ */
+export async function readProjectInfo(cwd: string): Promise<SbomProject> {
+  const path = join(cwd, 'package.json');
+  if (!existsSync(path)) return { name: basename(cwd) };
+
+  const packageJson = JSON.parse(await readFile(path, 'utf-8')) as {
+    name?: unknown;
+    version?: unknown;
+    license?: unknown;
+  };
+  return {
+    name: typeof packageJson.name === 'string' ? packageJson.name : basename(cwd),
+    version: typeof packageJson.version === 'string' ? packageJson.version : undefined,
+    license: typeof packageJson.license === 'string' ? packageJson.license : undefined,
+  };
+}
+
+// ============================================================================
+// Shared
+// ============================================================================
+
+interface SbomComponent {
+  readonly dependency: DependencyLicense;
+  readonly purl: string;
+  readonly hashes: SbomHash[];
+  /** Canonical SPDX expression, when the license is one */
+  readonly expression?: SpdxExpression;
+  /** Purls of the included packages this one depends on */
+  readonly dependsOn: string[];
+}
+
+interface SbomModel {
+  readonly components: SbomComponent[];
+  /** Purls of the project's direct dependencies */
+  readonly direct: string[];
+  readonly timestamp: string;
+  readonly serialNumber: string;
+}
+
+/**
+ * Parse a license as an SPDX expression of listed ids. LicenseRefs are left
+ * out, since SPDX documents must define the text of each one.
+ */
+function spdxExpression(license: string | undefined): SpdxExpression | undefined {
+  if (license === undefined) return undefined;
+  try {
+    const expression = parseSpdx(license);
+    const ids = getSpdxLicenses(expression);
+    return ids.every((id) => id.known && !id.id.startsWith('LicenseRef-')) ? expression : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function buildModel(dependencies: readonly DependencyLicense[], options: SbomOptions): SbomModel {
+  // dependsOn ids are `name@version` within the dependency's own ecosystem
+  const purls = new Map<string, string>();
+  const purlOf = (dependency: DependencyLicense): string =>
+    packageUrl(dependency.name, dependency.version, dependency.ecosystem);
+  for (const dependency of dependencies) {
+    purls.set(
+      `${dependency.ecosystem ?? 'npm'}:${dependency.name}@${dependency.version}`,
+      purlOf(dependency)
+    );
+  }
+
+  const components = dependencies
+    .map((dependency) => ({
+      dependency,
+      purl: purlOf(dependency),
+      hashes: parseIntegrity(dependency.integrity),
+      expression: spdxExpression(dependency.license),
+      // Packages filtered out of the audit, e.g. dev dependencies, are dropped
+      dependsOn: [
+        ...new Set(
+          (dependency.dependsOn ?? [])
+            .map((id) => purls.get(`${dependency.ecosystem ?? 'npm'}:${id}`))
+            .filter((purl): purl is string => purl !== undefined)
+        ),
+      ].sort(),
+    }))
+    .sort((a, b) => (a.purl < b.purl ? -1 : a.purl > b.purl ? 1 : 0));
+
+  return {
+    components,
+    direct: components.filter((c) => c.dependency.dependencyPath?.length === 1).map((c) => c.purl),
+    timestamp: (options.timestamp ?? new Date()).toISOString().replace(/\.\d{3}Z$/, 'Z'),
+    serialNumber: options.serialNumber ?? randomUUID(),
+  };
+}
+
+// ============================================================================
+// CycloneDX
+// ============================================================================
+
+type CycloneDxLicense =
+  | { readonly license: { readonly id: string } | { readonly name: string } }
+  | { readonly expression: string };
+
+interface CycloneDxComponent {
+  readonly type: 'library' | 'application';
+  readonly 'bom-ref': string;
+  readonly group?: string;
+  readonly name: string;
+  readonly version?: string;
+  readonly scope?: 'required' | 'excluded';
+  readonly hashes?: ReadonlyArray<{ readonly alg: HashAlgorithm; readonly content: string }>;
+  readonly licenses?: readonly CycloneDxLicense[];
+  readonly purl?: string;
+  readonly externalReferences?: ReadonlyArray<{
+    readonly type: 'distribution' | 'vcs';
+    readonly url: string;
+  }>;
+  readonly properties?: ReadonlyArray<{ readonly name: string; readonly value: string }>;
+}
+
+export interface CycloneDxBom {
+  readonly $schema: string;
+  readonly bomFormat: 'CycloneDX';
+  readonly specVersion: '1.5';
+  readonly serialNumber: string;
+  readonly version: 1;
+  readonly metadata: {
+    readonly timestamp: string;
+    readonly tools: {
+      readonly components: ReadonlyArray<{
+        readonly type: 'application';
+        readonly name: string;
+        readonly version: string;
+      }>;
+    };
+    readonly component: CycloneDxComponent;
+  };
+  readonly components: readonly CycloneDxComponent[];
+  readonly dependencies: ReadonlyArray<{ readonly ref: string; readonly dependsOn: string[] }>;
+}
+
+function cycloneDxLicenses(
+  license: string | undefined,
+  expression: SpdxExpression | undefined
+): CycloneDxLicense[] | undefined {
+  if (expression?.type === 'license' && !expression.orLater && expression.exception === undefined) {
+    return [{ license: { id: expression.id } }];
+  }
+  if (expression !== undefined) return [{ expression: formatSpdx(expression) }];
+  if (license === undefined || license === 'UNKNOWN' || license.trim() === '') return undefined;
+  return [{ license: { name: license } }];
+}
+
+/** `@scope/name`, or a Maven `groupId:artifactId`, as CycloneDX group and name */
+function splitName(name: string, ecosystem?: LicenseEcosystem): { group?: string; name: string } {
+  const colon = name.indexOf(':');
+  if (ecosystem === 'maven' && colon !== -1) {
+    return { group: name.slice(0, colon), name: name.slice(colon + 1) };
+  }
+  const slash = name.indexOf('/');
+  return name.startsWith('@') && slash !== -1
+    ? { group: name.slice(0, slash), name: name.slice(slash + 1) }
+    : { name };
+}
+
+/**
+ * Build a CycloneDX 1.5 BOM. Dev dependencies have scope `excluded`, and
+ * each component records its audit status as a `repohygiene:license-status`
+ * property.
+ */
+export function generateCycloneDx(
+  dependencies: readonly DependencyLicense[],
+  options: SbomOptions
+): CycloneDxBom {
+  const model = buildModel(dependencies, options);
+  const { project } = options;
+  const rootRef = packageUrl(project.name, project.version);
+
+  const components = model.components.map((component): CycloneDxComponent => {
+    const { dependency } = component;
+    const references = [
+      ...(dependency.resolved !== undefined
+        ? [{ type: 'distribution' as const, url: dependency.resolved }]
+        : []),
+      ...(dependency.repository !== undefined
+        ? [{ type: 'vcs' as const, url: dependency.repository }]
+        : []),
+    ];
+
+    return {
+      type: 'library',
+      'bom-ref': component.purl,
+      ...splitName(dependency.name, dependency.ecosystem),
+      version: dependency.version,
+      scope: dependency.isProduction ? 'required' : 'excluded',
+      ...(component.hashes.length > 0
+        ? {
+            hashes: component.hashes.map((hash) => ({
+              alg: hash.algorithm,
+              content: hash.content,
+            })),
+          }
+        : {}),
+      licenses: cycloneDxLicenses(dependency.license, component.expression),
+      purl: component.purl,
+      ...(references.length > 0 ? { externalReferences: references } : {}),
+      properties: [{ name: 'repohygiene:license-status', value: dependency.status }],
+    };
+  });
+
+  return {
+    $schema: 'http://cyclonedx.org/schema/bom-1.5.schema.json',
+    bomFormat: 'CycloneDX',
+    specVersion: '1.5',
+    serialNumber: `urn:uuid:${model.serialNumber}`,
+    version: 1,
+    metadata: {
+      timestamp: model.timestamp,
+      tools: {
+        components: [{ type: 'application', name: 'repohygiene', version: options.toolVersion }],
+      },
+      component: {
+        type: 'application',
+        'bom-ref': rootRef,
+        ...splitName(project.name),
+        version: project.version,
+        licenses: cycloneDxLicenses(project.license, spdxExpression(project.license)),
+        purl: rootRef,
+      },
+    },
+    components,
+    dependencies: [
+      { ref: rootRef, dependsOn: model.direct },
+      ...model.components.map((c) => ({ ref: c.purl, dependsOn: c.dependsOn })),
+    ],
+  };
+}
+
+interface XmlElement {
+  readonly name: string;
+  readonly attributes?: Readonly<Record<string, string>>;
+  readonly children?: ReadonlyArray<XmlElement | undefined>;
+  readonly text?: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderXml(element: XmlElement, indent = ''): string[] {
+  const attributes = Object.entries(element.attributes ?? {})
+    .map(([key, value]) => ` ${key}="${escapeXml(value)}"`)
+    .join('');
+  const open = `${indent}<${element.name}${attributes}`;
+
+  if (element.text !== undefined) {
+    return [`${open}>${escapeXml(element.text)}</${element.name}>`];
+  }
+  const children = (element.children ?? []).filter(
+    (child): child is XmlElement => child !== undefined
+  );
+  if (children.length === 0) return [`${open}/>`];
+  return [
+    `${open}>`,
+    ...children.flatMap((child) => renderXml(child, `${indent}  `)),
+    `${indent}</${element.name}>`,
+  ];
+}
+
+function text(name: string, value: string | undefined): XmlElement | undefined {
+  return value === undefined ? undefined : { name, text: value };
+}
+
+function componentXml(component: CycloneDxComponent): XmlElement {
+  return {
+    name: 'component',
+    attributes: { type: component.type, 'bom-ref': component['bom-ref'] },
+    children: [
+      text('group', component.group),
+      text('name', component.name),
+      text('version', component.version),
+      text('scope', component.scope),
+      component.hashes && {
+        name: 'hashes',
+        children: component.hashes.map((hash) => ({
+          name: 'hash',
+          attributes: { alg: hash.alg },
+          text: hash.content,
+        })),
+      },
+      component.licenses && {
+        name: 'licenses',
+        children: component.licenses.map((entry) =>
+          'expression' in entry
+            ? { name: 'expression', text: entry.expression }
+            : {
+                name: 'license',
+                children: [
+                  'id' in entry.license
+                    ? text('id', entry.license.id)
+                    : text('name', entry.license.name),
+                ],
+              }
+        ),
+      },
+      text('purl', component.purl),
+      component.externalReferences && {
+        name: 'externalReferences',
+        children: component.externalReferences.map((reference) => ({
+          name: 'reference',
+          attributes: { type: reference.type },
+          children: [text('url', reference.url)],
+        })),
+      },
+      component.properties && {
+        name: 'properties',
+        children: component.properties.map((property) => ({
+          name: 'property',
+          attributes: { name: property.name },
+          text: property.value,
+        })),
+      },
+    ],
+  };
+}
+
+/**
+ * Render a CycloneDX BOM as XML, following the element order of the 1.5 schema
+ */
+export function renderCycloneDxXml(bom: CycloneDxBom): string {
+  const root: XmlElement = {
+    name: 'bom',
+    attributes: {
+      xmlns: 'http://cyclonedx.org/schema/bom/1.5',
+      serialNumber: bom.serialNumber,
+      version: String(bom.version),
+    },
+    children: [
+      {
+        name: 'metadata',
+        children: [
+          text('timestamp', bom.metadata.timestamp),
+          {
+            name: 'tools',
+            children: [
+              {
+                name: 'components',
+                children: bom.metadata.tools.components.map((tool) => ({
+                  name: 'component',
+                  attributes: { type: tool.type },
+                  children: [text('name', tool.name), text('version', tool.version)],
+                })),
+              },
+            ],
+          },
+          componentXml(bom.metadata.component),
+        ],
+      },
+      { name: 'components', children: bom.components.map(componentXml) },
+      {
+        name: 'dependencies',
+        children: bom.dependencies.map((dependency) => ({
+          name: 'dependency',
+          attributes: { ref: dependency.ref },
+          children: dependency.dependsOn.map((ref) => ({
+            name: 'dependency',
+            attributes: { ref },
+          })),
+        })),
+      },
+    ],
+  };
+
+  return ['<?xml version="1.0" encoding="UTF-8"?>', ...renderXml(root), ''].join('\n');
+}
+
+// ============================================================================
+// SPDX
+// ============================================================================
+
+interface SpdxPackage {
+  readonly name: string;
+  readonly SPDXID: string;
+  readonly versionInfo?: string;
+  readonly downloadLocation: string;
+  readonly filesAnalyzed: false;
+  readonly checksums?: ReadonlyArray<{
+    readonly algorithm: string;
+    readonly checksumValue: string;
+  }>;
+  readonly licenseConcluded: string;
+  readonly licenseDeclared: string;
+  readonly licenseComments?: string;
+  readonly copyrightText: 'NOASSERTION';
+  readonly externalRefs: ReadonlyArray<{
+    readonly referenceCategory: 'PACKAGE-MANAGER';
+    readonly referenceType: 'purl';
+    readonly referenceLocator: string;
+  }>;
+}
+
+interface SpdxRelationship {
+  readonly spdxElementId: string;
+  readonly relationshipType: 'DESCRIBES' | 'DEPENDS_ON' | 'DEV_DEPENDENCY_OF';
+  readonly relatedSpdxElement: string;
+}
+
+export interface SpdxDocument {
+  readonly spdxVersion: 'SPDX-2.3';
+  readonly dataLicense: 'CC0-1.0';
+  readonly SPDXID: 'SPDXRef-DOCUMENT';
+  readonly name: string;
+  readonly documentNamespace: string;
+  readonly creationInfo: { readonly created: string; readonly creators: readonly string[] };
+  readonly packages: readonly SpdxPackage[];
+  readonly relationships: readonly SpdxRelationship[];
+}
+
+/**
+ * Build an SPDX 2.3 document. `licenseConcluded` is the license the audit
+ * settled on and `licenseDeclared` the one package.json gives; licenses that
+ * aren't SPDX expressions are NOASSERTION, with the original in a comment.
+ */
+export function generateSpdx(
+  dependencies: readonly DependencyLicense[],
+  options: SbomOptions
+): SpdxDocument {
+  const model = buildModel(dependencies, options);
+  const { project } = options;
+
+  const usedIds = new Set<string>();
+  const spdxId = (name: string, version?: string): string => {
+    const base =
+      `SPDXRef-Package-${[name.replace(/^@/, ''), version].filter((part) => part !== undefined).join('-')}`
+        .replace(/[^A-Za-z0-9.-]+/g, '-')
+        .replace(/-+$/, '');
+    let id = base;
+    for (let n = 2; usedIds.has(id); n++) id = `${base}-${n}`;
+    usedIds.add(id);
+    return id;
+  };
+
+  const rootId = spdxId(project.name, project.version);
+  const rootExpression = spdxExpression(project.license);
+  const rootPackage: SpdxPackage = {
+    name: project.name,
+    SPDXID: rootId,
+    versionInfo: project.version,
+    downloadLocation: 'NOASSERTION',
+    filesAnalyzed: false,
+    licenseConcluded: 'NOASSERTION',
+    licenseDeclared: rootExpression !== undefined ? formatSpdx(rootExpression) : 'NOASSERTION',
+    copyrightText: 'NOASSERTION',
+    externalRefs: [purlRef(packageUrl(project.name, project.version))],
+  };
+
+  const ids = new Map<string, string>();
+  const packages = model.components.map((component): SpdxPackage => {
+    const { dependency } = component;
+    const id = spdxId(dependency.name, dependency.version);
+    ids.set(component.purl, id);
+
+    const license =
+      component.expression !== undefined ? formatSpdx(component.expression) : 'NOASSERTION';
+    const comment =
+      component.expression === undefined && dependency.license !== 'UNKNOWN'
+        ? `License given as "${dependency.license}", which is not an SPDX expression`
+        : dependency.licenseSource === 'file' && dependency.detectedLicense !== undefined
+          ? `License identified from ${dependency.licenseFile ?? 'the license file'}`
+          : undefined;
+
+    return {
+      name: dependency.name,
+      SPDXID: id,
+      versionInfo: dependency.version,
+      downloadLocation: dependency.resolved ?? 'NOASSERTION',
+      filesAnalyzed: false,
+      ...(component.hashes.length > 0
+        ? {
+            checksums: component.hashes.map((hash) => ({
+              algorithm: hash.algorithm.replace('-', ''),
+              checksumValue: hash.content,
+            })),
+          }
+        : {}),
+      licenseConcluded: license,
+      licenseDeclared: dependency.licenseSource === 'file' ? 'NOASSERTION' : license,
+      ...(comment !== undefined ? { licenseComments: comment } : {}),
+      copyrightText: 'NOASSERTION',
+      externalRefs: [purlRef(component.purl)],
+    };
+  });
+
+  const relationships: SpdxRelationship[] = [
+    {
+      spdxElementId: 'SPDXRef-DOCUMENT',
+      relationshipType: 'DESCRIBES',
+      relatedSpdxElement: rootId,
+    },
+  ];
+  for (const component of model.components) {
+    const id = ids.get(component.purl) ?? '';
+    if (model.direct.includes(component.purl)) {
+      relationships.push(
+        component.dependency.isProduction
+          ? { spdxElementId: rootId, relationshipType: 'DEPENDS_ON', relatedSpdxElement: id }
+          : { spdxElementId: id, relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: rootId }
+      );
+    }
+    for (const purl of component.dependsOn) {
+      const related = ids.get(purl);
+      if (related !== undefined) {
+        relationships.push({
+          spdxElementId: id,
+          relationshipType: 'DEPENDS_ON',
+          relatedSpdxElement: related,
+        });
+      }
+    }
+  }
+
+  const documentName =
+    project.version !== undefined ? `${project.name}-${project.version}` : project.name;
+  return {
+    spdxVersion: 'SPDX-2.3',
+    dataLicense: 'CC0-1.0',
+    SPDXID: 'SPDXRef-DOCUMENT',
+    name: documentName,
+    documentNamespace: `https://spdx.org/spdxdocs/${encodeURIComponent(documentName)}-${model.serialNumber}`,
+    creationInfo: {
+      created: model.timestamp,
+      creators: [`Tool: repohygiene-${options.toolVersion}`],
+    },
+    packages: [rootPackage, ...packages],
+    relationships,
+  };
+}
+
+function purlRef(purl: string): SpdxPackage['externalRefs'][number] {
+  return { referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: purl };
+}
+
+/**
+ * Render an SPDX document in the tag-value format
+ */
+export function renderSpdxTagValue(document: SpdxDocument): string {
+  const lines = [
+    `SPDXVersion: ${document.spdxVersion}`,
+    `DataLicense: ${document.dataLicense}`,
+    `SPDXID: ${document.SPDXID}`,
+    `DocumentName: ${document.name}`,
+    `DocumentNamespace: ${document.documentNamespace}`,
+    ...document.creationInfo.creators.map((creator) => `Creator: ${creator}`),
+    `Created: ${document.creationInfo.created}`,
+  ];
+
+  for (const pkg of document.packages) {
+    lines.push(
+      '',
+      `##### Package: ${pkg.name}`,
+      '',
+      `PackageName: ${pkg.name}`,
+      `SPDXID: ${pkg.SPDXID}`
+    );
+    if (pkg.versionInfo !== undefined) lines.push(`PackageVersion: ${pkg.versionInfo}`);
+    lines.push(
+      `PackageDownloadLocation: ${pkg.downloadLocation}`,
+      `FilesAnalyzed: ${String(pkg.filesAnalyzed)}`
+    );
+    for (const checksum of pkg.checksums ?? []) {
+      lines.push(`PackageChecksum: ${checksum.algorithm}: ${checksum.checksumValue}`);
+    }
+    lines.push(
+      `PackageLicenseConcluded: ${pkg.licenseConcluded}`,
+      `PackageLicenseDeclared: ${pkg.licenseDeclared}`
+    );
+    if (pkg.licenseComments !== undefined) {
+      lines.push(`PackageLicenseComments: <text>${pkg.licenseComments}</text>`);
+    }
+    lines.push(`PackageCopyrightText: ${pkg.copyrightText}`);
+    for (const ref of pkg.externalRefs) {
+      lines.push(
+        `ExternalRef: ${ref.referenceCategory} ${ref.referenceType} ${ref.referenceLocator}`
+      );
+    }
+  }
+
+  lines.push('');
+  for (const relationship of document.relationships) {
+    lines.push(
+      `Relationship: ${relationship.spdxElementId} ${relationship.relationshipType} ${relationship.relatedSpdxElement}`
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
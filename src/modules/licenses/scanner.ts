@@ -3,10 +3,23 @@
  * Scans dependencies for license information
  */
 
-import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
+import { homedir } from 'os';
 import { join } from 'path';
-import type { DependencyLicense } from '../../types/index.js';
+import type { DependencyLicense, LicenseEcosystemSource } from '../../types/index.js';
+import type { EcosystemAdapter } from './ecosystem.js';
+import {
+  evaluateLicense,
+  formatSpdx,
+  getSpdxLicenses,
+  parseSpdx,
+  type LicenseDecision,
+} from './spdx.js';
+import { npmAdapter } from './npm.js';
+import { pythonAdapter } from './python.js';
+import { goAdapter } from './go.js';
+import { rustAdapter } from './rust.js';
+import { mavenAdapter } from './maven.js';
 
 const DEFAULT_ALLOWED = [
   'MIT',
@@ -22,167 +35,106 @@ const DEFAULT_ALLOWED = [
 
 const DEFAULT_DENIED = ['GPL-2.0', 'GPL-3.0', 'AGPL-3.0', 'LGPL-2.1', 'LGPL-3.0'];
 
+export const ECOSYSTEM_ADAPTERS: readonly EcosystemAdapter[] = [
+  npmAdapter,
+  pythonAdapter,
+  goAdapter,
+  rustAdapter,
+  mavenAdapter,
+];
+
 export interface LicenseScanOptions {
   readonly cwd: string;
   readonly allow?: readonly string[];
   readonly deny?: readonly string[];
   readonly production?: boolean;
+  /** Home directory holding package caches; defaults to the user's */
+  readonly homeDir?: string;
+  /** Decides each license instead of the allow and deny lists, e.g. the compatibility matrix */
+  readonly evaluate?: (license: string) => LicenseDecision;
+}
+
+export interface LicenseScanTree {
+  /** The npm lockfile dependencies were resolved from */
+  readonly lockfile?: string;
+  readonly ecosystems: LicenseEcosystemSource[];
+  readonly dependencies: DependencyLicense[];
 }
 
 /**
- * Scan all dependencies for license information
+ * Scan all dependencies, direct and transitive, for license information.
+ * Every ecosystem with a manifest in the project root is scanned: npm,
+ * Python, Go, Rust and Maven. Packages are audited at their locked versions,
+ * falling back to the direct dependencies in the manifest.
  */
 export async function scanLicenses(options: LicenseScanOptions): Promise<DependencyLicense[]> {
-  const { cwd, production = false } = options;
-  const allowList = new Set(options.allow ?? DEFAULT_ALLOWED);
-  const denyList = new Set(options.deny ?? DEFAULT_DENIED);
-
-  // Read package.json
-  const packageJsonPath = join(cwd, 'package.json');
-  if (!existsSync(packageJsonPath)) {
-    throw new Error('package.json not found');
-  }
-
-  const packageJson = JSON.parse(await readFile(packageJsonPath, 'utf-8')) as {
-    dependencies?: Record<string, string>;
-    devDependencies?: Record<string, string>;
-  };
-
-  const dependencies = packageJson.dependencies ?? {};
-  const devDependencies = production ? {} : (packageJson.devDependencies ?? {});
-
-  const results: DependencyLicense[] = [];
-
-  // Scan production dependencies
-  for (const [name, version] of Object.entries(dependencies)) {
-    const license = await getLicenseForPackage(cwd, name);
-    results.push({
-      name,
-      version,
-      license: license.license,
-      licenseFile: license.licenseFile,
-      repository: license.repository,
-      isProduction: true,
-      status: getLicenseStatus(license.license, allowList, denyList),
-    });
-  }
-
-  // Scan dev dependencies
-  for (const [name, version] of Object.entries(devDependencies)) {
-    const license = await getLicenseForPackage(cwd, name);
-    results.push({
-      name,
-      version,
-      license: license.license,
-      licenseFile: license.licenseFile,
-      repository: license.repository,
-      isProduction: false,
-      status: getLicenseStatus(license.license, allowList, denyList),
-    });
-  }
-
-  return results;
-}
-
-interface PackageLicenseInfo {
-  license: string;
-  licenseFile?: string;
-  repository?: string;
+  return (await scanLicenseTree(options)).dependencies;
 }
 
 /**
- * Get license info for a specific package
+ * Scan all dependencies, also returning where each ecosystem's dependencies
+ * were resolved from
  */
-async function getLicenseForPackage(cwd: string, packageName: string): Promise<PackageLicenseInfo> {
-  const packagePath = join(cwd, 'node_modules', packageName, 'package.json');
-
-  if (!existsSync(packagePath)) {
-    return { license: 'UNKNOWN' };
+export async function scanLicenseTree(options: LicenseScanOptions): Promise<LicenseScanTree> {
+  const { cwd, production = false, homeDir = homedir() } = options;
+  const lists = { allow: options.allow ?? DEFAULT_ALLOWED, deny: options.deny ?? DEFAULT_DENIED };
+  const evaluate =
+    options.evaluate ?? ((license: string): LicenseDecision => evaluateLicense(license, lists));
+
+  const adapters = detectEcosystems(cwd);
+  if (adapters.length === 0) {
+    const manifests = ECOSYSTEM_ADAPTERS.flatMap((adapter) => adapter.manifests);
+    throw new Error(`No dependency manifest found (looked for ${manifests.join(', ')})`);
   }
 
-  try {
-    const packageJson = JSON.parse(await readFile(packagePath, 'utf-8')) as {
-      license?: string | { type?: string };
-      licenses?: Array<{ type?: string }>;
-      repository?: string | { url?: string };
-    };
-
-    // Get license from package.json
-    let license = 'UNKNOWN';
-    if (typeof packageJson.license === 'string') {
-      license = packageJson.license;
-    } else if (typeof packageJson.license === 'object' && packageJson.license?.type !== undefined) {
-      license = packageJson.license.type;
-    } else if (Array.isArray(packageJson.licenses) && packageJson.licenses[0]?.type !== undefined) {
-      license = packageJson.licenses[0].type;
-    }
+  let lockfile: string | undefined;
+  const ecosystems: LicenseEcosystemSource[] = [];
+  const results: DependencyLicense[] = [];
 
-    // Get repository
-    let repository: string | undefined;
-    if (typeof packageJson.repository === 'string') {
-      repository = packageJson.repository;
-    } else if (packageJson.repository?.url !== undefined) {
-      repository = packageJson.repository.url;
-    }
+  for (const adapter of adapters) {
+    const scan = await adapter.scan({ cwd, homeDir, production });
+    if (adapter.ecosystem === 'npm') lockfile = scan.lockfile;
+    ecosystems.push({
+      ecosystem: scan.ecosystem,
+      lockfile: scan.lockfile,
+      directOnly: scan.directOnly,
+    });
 
-    // Check for LICENSE file
-    const licenseFiles = ['LICENSE', 'LICENSE.md', 'LICENSE.txt', 'LICENCE', 'license'];
-    let licenseFile: string | undefined;
-    for (const file of licenseFiles) {
-      const licensePath = join(cwd, 'node_modules', packageName, file);
-      if (existsSync(licensePath)) {
-        licenseFile = file;
-        break;
-      }
+    for (const dependency of scan.dependencies) {
+      if (production && !dependency.isProduction) continue;
+
+      const decision = evaluate(dependency.license);
+      results.push({
+        ...dependency,
+        ecosystem: adapter.ecosystem,
+        status: decision.status,
+        policyReason: decision.reason,
+        obligation: decision.obligation,
+      });
     }
-
-    return { license, licenseFile, repository };
-  } catch {
-    return { license: 'UNKNOWN' };
   }
+
+  return { lockfile, ecosystems, dependencies: results };
 }
 
 /**
- * Determine license status based on allow/deny lists
+ * The ecosystems a project uses, judged by the manifests in its root
  */
-function getLicenseStatus(
-  license: string,
-  allowList: Set<string>,
-  denyList: Set<string>
-): 'allowed' | 'denied' | 'unknown' {
-  // Normalize license for comparison
-  const normalized = license.toUpperCase();
-
-  // Check deny list first
-  for (const denied of denyList) {
-    if (normalized.includes(denied.toUpperCase())) {
-      return 'denied';
-    }
-  }
-
-  // Check allow list
-  for (const allowed of allowList) {
-    if (normalized.includes(allowed.toUpperCase())) {
-      return 'allowed';
-    }
-  }
-
-  // Special case: UNKNOWN always returns unknown
-  if (license === 'UNKNOWN') {
-    return 'unknown';
-  }
-
-  return 'unknown';
+export function detectEcosystems(cwd: string): EcosystemAdapter[] {
+  return ECOSYSTEM_ADAPTERS.filter((adapter) =>
+    adapter.manifests.some((manifest) => existsSync(join(cwd, manifest)))
+  );
 }
 
 /**
- * Parse SPDX license expression
+ * Parse an SPDX license expression into the license ids it names. Strings
+ * that aren't valid expressions are returned as they are.
  */
 export function parseSpdxExpression(expression: string): string[] {
-  // Simple SPDX parsing - handles AND, OR, WITH
-  return expression
-    .replace(/\(|\)/g, '')
-    .split(/\s+(?:AND|OR|WITH)\s+/i)
-    .map((s) => s.trim())
-    .filter(Boolean);
+  try {
+    return getSpdxLicenses(parseSpdx(expression)).map((license) => formatSpdx(license));
+  } catch {
+    const trimmed = expression.trim();
+    return trimmed === '' ? [] : [trimmed];
+  }
 }
@@ -0,0 +1,216 @@
+/**
+ * RepoHygiene - Semver Ranges
+ * Matches versions against npm-style ranges for license exceptions
+ */
+
+interface Version {
+  readonly major: number;
+  readonly minor: number;
+  readonly patch: number;
+  readonly prerelease: readonly string[];
+}
+
+interface Comparator {
+  readonly operator: '<' | '<=' | '>' | '>=';
+  readonly version: Version;
+}
+
+const VERSION =
+  /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+const PARTIAL = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?$/;
+
+function parseVersion(text: string): Version | null {
+  const match = VERSION.exec(text.trim());
+  if (!match) return null;
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]?.split('.') ?? [],
+  };
+}
+
+function compareIdentifiers(a: string, b: string): number {
+  const numeric = /^\d+$/;
+  if (numeric.test(a) && numeric.test(b)) return Number(a) - Number(b);
+  if (numeric.test(a)) return -1;
+  if (numeric.test(b)) return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareVersions(a: Version, b: Version): number {
+  const core = a.major - b.major || a.minor - b.minor || a.patch - b.patch;
+  if (core !== 0) return core;
+
+  // A prerelease sorts before its release
+  if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+    return b.prerelease.length - a.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+    const left = a.prerelease[i];
+    const right = b.prerelease[i];
+    if (left === undefined) return -1;
+    if (right === undefined) return 1;
+    const order = compareIdentifiers(left, right);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
+
+function version(major: number, minor: number, patch: number, prerelease: string[] = []): Version {
+  return { major, minor, patch, prerelease };
+}
+
+/**
+ * Expand one comparator such as `^1.2`, `~1.2.3`, `>=2` or `1.x` into
+ * lower and upper bounds
+ */
+function parseComparator(text: string, range: string): Comparator[] {
+  const match = /^(\^|~>?|[<>]=?|=)?(.*)$/.exec(text);
+  const operator = match?.[1] ?? '';
+  const partial = PARTIAL.exec(match?.[2] ?? '');
+  if (!partial) throw new Error(`Invalid version range "${range}": unexpected "${text}"`);
+
+  const isWild = (part: string | undefined): boolean => part === undefined || /^[xX*]$/.test(part);
+  const [, majorText, minorText, patchText, prereleaseText] = partial;
+  if (isWild(majorText)) {
+    // `*` matches everything; `<*` and `>*` match nothing
+    return operator === '<' || operator === '>'
+      ? [{ operator: '<', version: version(0, 0, 0, ['0']) }]
+      : [];
+  }
+
+  const major = Number(majorText);
+  const minor = isWild(minorText) ? undefined : Number(minorText);
+  const patch = minor === undefined || isWild(patchText) ? undefined : Number(patchText);
+  const prerelease =
+    patch !== undefined && prereleaseText !== undefined ? prereleaseText.split('.') : [];
+  const lower = version(major, minor ?? 0, patch ?? 0, prerelease);
+
+  // The first version past a partial, e.g. 1.3.0 for 1.2
+  const nextPartial = minor === undefined ? version(major + 1, 0, 0) : version(major, minor + 1, 0);
+
+  switch (operator) {
+    case '^': {
+      let upper: Version;
+      if (major > 0 || minor === undefined) upper = version(major + 1, 0, 0);
+      else if (minor > 0 || patch === undefined) upper = version(0, minor + 1, 0);
+      else upper = version(0, 0, patch + 1);
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: upper },
+      ];
+    }
+    case '~':
+    case '~>':
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: nextPartial },
+      ];
+    case '>':
+      return [
+        {
+          operator: patch === undefined ? '>=' : '>',
+          version: patch === undefined ? nextPartial : lower,
+        },
+      ];
+    case '>=':
+      return [{ operator: '>=', version: lower }];
+    case '<':
+      return [{ operator: '<', version: lower }];
+    case '<=':
+      return [
+        {
+          operator: patch === undefined ? '<' : '<=',
+          version: patch === undefined ? nextPartial : lower,
+        },
+      ];
+    default:
+      return patch === undefined
+        ? [
+            { operator: '>=', version: lower },
+            { operator: '<', version: nextPartial },
+          ]
+        : [
+            { operator: '>=', version: lower },
+            { operator: '<=', version: lower },
+          ];
+  }
+}
+
+function parseComparatorSet(text: string, range: string): Comparator[] {
+  const trimmed = text.trim();
+  const hyphen = /^(\S+)\s+-\s+(\S+)$/.exec(trimmed);
+  if (hyphen) {
+    return [
+      ...parseComparator(`>=${hyphen[1] ?? ''}`, range),
+      ...parseComparator(`<=${hyphen[2] ?? ''}`, range),
+    ];
+  }
+
+  // Allow whitespace between an operator and its version, e.g. `>= 1.2.0`
+  return trimmed
+    .replace(/([<>]=?|=|\^|~>?)\s+/g, '$1')
+    .split(/\s+/)
+    .filter((part) => part !== '')
+    .flatMap((part) => parseComparator(part, range));
+}
+
+function satisfiesComparator(candidate: Version, comparator: Comparator): boolean {
+  const order = compareVersions(candidate, comparator.version);
+  switch (comparator.operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+  }
+}
+
+/**
+ * Prereleases only match a set that names a prerelease of the same version,
+ * so `^1.0.0` doesn't match `2.0.0-beta.1`
+ */
+function allowsPrerelease(candidate: Version, set: readonly Comparator[]): boolean {
+  if (candidate.prerelease.length === 0) return true;
+  return set.some(
+    ({ version: bound }) =>
+      bound.prerelease.length > 0 &&
+      bound.major === candidate.major &&
+      bound.minor === candidate.minor &&
+      bound.patch === candidate.patch
+  );
+}
+
+function parseRange(range: string): Comparator[][] {
+  return range.split('||').map((set) => parseComparatorSet(set, range));
+}
+
+/**
+ * Check that a range parses, throwing an error that describes it otherwise
+ */
+export function validateRange(range: string): void {
+  parseRange(range);
+}
+
+/**
+ * Whether a version satisfies an npm-style range such as `^1.2.0`,
+ * `>=1.0.0 <2.0.0`, `1.x || 2.x` or `1.0.0 - 1.4.0`. Versions that aren't
+ * valid semver only match `*` or the identical string.
+ */
+export function satisfiesRange(versionText: string, range: string): boolean {
+  const sets = parseRange(range);
+  const candidate = parseVersion(versionText);
+  if (candidate === null) {
+    return sets.some((set) => set.length === 0) || versionText.trim() === range.trim();
+  }
+
+  return sets.some(
+    (set) =>
+      set.every((comparator) => satisfiesComparator(candidate, comparator)) &&
+      allowsPrerelease(candidate, set)
+  );
+}
@@ -0,0 +1,609 @@
+/**
+ * RepoHygiene - SPDX Expressions
+ * Parse, normalize and evaluate SPDX license expressions against a policy
+ */
+
+export type SpdxExpression =
+  | {
+      readonly type: 'license';
+      /** Canonical id, e.g. `GPL-2.0-or-later` or `LicenseRef-acme` */
+      readonly id: string;
+      /** `+` on a license without `-or-later` ids, e.g. `MPL-1.1+` */
+      readonly orLater: boolean;
+      readonly exception?: string;
+      /** The id is on the SPDX license list (or is a LicenseRef) */
+      readonly known: boolean;
+    }
+  | {
+      readonly type: 'and' | 'or';
+      readonly left: SpdxExpression;
+      readonly right: SpdxExpression;
+    };
+
+export type SpdxLicense = Extract<SpdxExpression, { type: 'license' }>;
+
+export type LicenseStatus = 'allowed' | 'denied' | 'unknown';
+
+export interface LicenseDecision {
+  readonly status: LicenseStatus;
+  /** The part of the expression the decision rests on, e.g. `MIT` for `MIT OR GPL-3.0-only` */
+  readonly branch: string;
+  readonly reason: string;
+  /** For a denial under the compatibility matrix, the obligation the project can't meet */
+  readonly obligation?: string;
+}
+
+export interface LicenseLists {
+  readonly allow: readonly string[];
+  readonly deny: readonly string[];
+}
+
+/** GNU licenses, whose bare and `+` ids are deprecated for `-only` / `-or-later` */
+const GNU_LICENSES = [
+  'AGPL-1.0',
+  'AGPL-3.0',
+  'GFDL-1.1',
+  'GFDL-1.2',
+  'GFDL-1.3',
+  'GPL-1.0',
+  'GPL-2.0',
+  'GPL-3.0',
+  'LGPL-2.0',
+  'LGPL-2.1',
+  'LGPL-3.0',
+];
+
+const LICENSE_IDS = [
+  '0BSD',
+  'AFL-1.1',
+  'AFL-1.2',
+  'AFL-2.0',
+  'AFL-2.1',
+  'AFL-3.0',
+  'Apache-1.0',
+  'Apache-1.1',
+  'Apache-2.0',
+  'APSL-2.0',
+  'Artistic-1.0',
+  'Artistic-2.0',
+  'Beerware',
+  'blessing',
+  'BlueOak-1.0.0',
+  'BSD-1-Clause',
+  'BSD-2-Clause',
+  'BSD-2-Clause-Patent',
+  'BSD-3-Clause',
+  'BSD-3-Clause-Clear',
+  'BSD-4-Clause',
+  'BSD-Source-Code',
+  'BSL-1.0',
+  'BUSL-1.1',
+  'bzip2-1.0.6',
+  'CC-BY-3.0',
+  'CC-BY-4.0',
+  'CC-BY-NC-4.0',
+  'CC-BY-SA-3.0',
+  'CC-BY-SA-4.0',
+  'CC-PDDC',
+  'CC0-1.0',
+  'CDDL-1.0',
+  'CDDL-1.1',
+  'CPAL-1.0',
+  'CPL-1.0',
+  'curl',
+  'ECL-2.0',
+  'EPL-1.0',
+  'EPL-2.0',
+  'EUPL-1.1',
+  'EUPL-1.2',
+  'Hippocratic-2.1',
+  'ICU',
+  'ISC',
+  'JSON',
+  'libpng-2.0',
+  'LPPL-1.3c',
+  'MIT',
+  'MIT-0',
+  'MPL-1.0',
+  'MPL-1.1',
+  'MPL-2.0',
+  'MPL-2.0-no-copyleft-exception',
+  'MS-PL',
+  'MS-RL',
+  'MulanPSL-2.0',
+  'NCSA',
+  'Net-SNMP',
+  'ODbL-1.0',
+  'OFL-1.1',
+  'OpenSSL',
+  'OSL-3.0',
+  'PostgreSQL',
+  'PSF-2.0',
+  'Python-2.0',
+  'Ruby',
+  'SMLNJ',
+  'SSPL-1.0',
+  'Unicode-3.0',
+  'Unicode-DFS-2016',
+  'Unlicense',
+  'UPL-1.0',
+  'Vim',
+  'W3C',
+  'WTFPL',
+  'X11',
+  'Zlib',
+  'ZPL-2.1',
+  ...GNU_LICENSES.flatMap((id) => [`${id}-only`, `${id}-or-later`]),
+];
+
+const EXCEPTION_IDS = [
+  'Autoconf-exception-2.0',
+  'Autoconf-exception-3.0',
+  'Bison-exception-2.2',
+  'Classpath-exception-2.0',
+  'eCos-exception-2.0',
+  'FLTK-exception',
+  'Font-exception-2.0',
+  'GCC-exception-2.0',
+  'GCC-exception-3.1',
+  'Linux-syscall-note',
+  'LLVM-exception',
+  'OpenJDK-assembly-exception-1.0',
+  'openvpn-openssl-exception',
+  'Qt-LGPL-exception-1.1',
+  'Swift-exception',
+  'u-boot-exception-2.0',
+  'Universal-FOSS-exception-1.0',
+  'WxWindows-exception-3.1',
+];
+
+/** Deprecated ids that stand for a license with an exception, or were renamed */
+const DEPRECATED_IDS: Readonly<Record<string, string>> = {
+  'BSD-2-Clause-FreeBSD': 'BSD-2-Clause',
+  'BSD-2-Clause-NetBSD': 'BSD-2-Clause',
+  'bzip2-1.0.5': 'bzip2-1.0.6',
+  'eCos-2.0': 'GPL-2.0-or-later WITH eCos-exception-2.0',
+  'GPL-2.0-with-autoconf-exception': 'GPL-2.0-only WITH Autoconf-exception-2.0',
+  'GPL-2.0-with-bison-exception': 'GPL-2.0-or-later WITH Bison-exception-2.2',
+  'GPL-2.0-with-classpath-exception': 'GPL-2.0-only WITH Classpath-exception-2.0',
+  'GPL-2.0-with-font-exception': 'GPL-2.0-only WITH Font-exception-2.0',
+  'GPL-2.0-with-GCC-exception': 'GPL-2.0-or-later WITH GCC-exception-2.0',
+  'GPL-3.0-with-autoconf-exception': 'GPL-3.0-only WITH Autoconf-exception-3.0',
+  'GPL-3.0-with-GCC-exception': 'GPL-3.0-only WITH GCC-exception-3.1',
+  Nunit: 'Zlib',
+  'StandardML-NJ': 'SMLNJ',
+  wxWindows: 'LGPL-2.0-or-later WITH WxWindows-exception-3.1',
+};
+
+const CANONICAL_IDS = new Map(LICENSE_IDS.map((id) => [id.toLowerCase(), id]));
+const CANONICAL_EXCEPTIONS = new Map(EXCEPTION_IDS.map((id) => [id.toLowerCase(), id]));
+const CANONICAL_DEPRECATED = new Map(
+  Object.entries(DEPRECATED_IDS).map(([id, replacement]) => [id.toLowerCase(), replacement])
+);
+const CANONICAL_GNU = new Map(GNU_LICENSES.map((id) => [id.toLowerCase(), id]));
+
+const VERSIONED_ID = /^(.+?)-(\d+(?:\.\d+)*)(?:-(only|or-later))?$/;
+
+const STATUS_RANK: Readonly<Record<LicenseStatus, number>> = { denied: 0, unknown: 1, allowed: 2 };
+
+/**
+ * Parse an SPDX license expression such as `(MIT OR GPL-2.0+) AND Apache-2.0`.
+ * Ids and operators are matched case-insensitively; deprecated ids are
+ * replaced by their current form, so `GPL-2.0+` parses as `GPL-2.0-or-later`.
+ */
+export function parseSpdx(expression: string): SpdxExpression {
+  return new SpdxParser(expression).parse();
+}
+
+/**
+ * Render an expression in canonical form, parenthesizing OR inside AND
+ */
+export function formatSpdx(expression: SpdxExpression): string {
+  if (expression.type === 'license') {
+    const id = expression.orLater ? `${expression.id}+` : expression.id;
+    return expression.exception !== undefined ? `${id} WITH ${expression.exception}` : id;
+  }
+
+  const side = (child: SpdxExpression): string =>
+    expression.type === 'and' && child.type === 'or' ? `(${formatSpdx(child)})` : formatSpdx(child);
+  return `${side(expression.left)} ${expression.type.toUpperCase()} ${side(expression.right)}`;
+}
+
+/**
+ * The licenses of an expression, in order of appearance
+ */
+export function getSpdxLicenses(expression: SpdxExpression): SpdxLicense[] {
+  return expression.type === 'license'
+    ? [expression]
+    : [...getSpdxLicenses(expression.left), ...getSpdxLicenses(expression.right)];
+}
+
+/**
+ * Common license names, as written in PyPI classifiers and Maven POMs. Names
+ * that don't pin down one license, like "BSD License" or "GPL", are left out.
+ */
+const LICENSE_NAME_ALIASES: ReadonlyArray<readonly [RegExp, string]> = [
+  [/^(the )?apache( software)? license,? (version |v)?2(\.0)?$/, 'Apache-2.0'],
+  [/^(asl|apache)[- ]?2(\.0)?$/, 'Apache-2.0'],
+  [/^(the )?mit( license)?$/, 'MIT'],
+  [/^(the )?(new|revised|modified) bsd( license)?$/, 'BSD-3-Clause'],
+  [/^(the )?bsd[- ]3[- ]clause( license)?$/, 'BSD-3-Clause'],
+  [/^(the )?(simplified|freebsd) bsd( license)?$/, 'BSD-2-Clause'],
+  [/^(the )?bsd[- ]2[- ]clause( license)?$/, 'BSD-2-Clause'],
+  [/^isc( license)?( \(iscl\))?$/, 'ISC'],
+  [/^mozilla public license,? (version )?2\.0( \(mpl 2\.0\))?$/, 'MPL-2.0'],
+  [/^eclipse public license,? (- )?(version |v ?)?1\.0$/, 'EPL-1.0'],
+  [/^eclipse public license,? (- )?(version |v ?)?2\.0$/, 'EPL-2.0'],
+  [/^gnu general public license,? v(ersion )?2 \(gplv2\)$/, 'GPL-2.0-only'],
+  [/^gnu general public license,? v(ersion )?2 or later \(gplv2\+\)$/, 'GPL-2.0-or-later'],
+  [/^gnu general public license,? v(ersion )?3 \(gplv3\)$/, 'GPL-3.0-only'],
+  [/^gnu general public license,? v(ersion )?3 or later \(gplv3\+\)$/, 'GPL-3.0-or-later'],
+  [/^gnu lesser general public license,? v(ersion )?2 \(lgplv2\)$/, 'LGPL-2.0-only'],
+  [/^gnu lesser general public license,? v(ersion )?2 or later \(lgplv2\+\)$/, 'LGPL-2.0-or-later'],
+  [/^gnu lesser general public license,? v(ersion )?3 \(lgplv3\)$/, 'LGPL-3.0-only'],
+  [/^gnu lesser general public license,? v(ersion )?3 or later \(lgplv3\+\)$/, 'LGPL-3.0-or-later'],
+  [/^gnu lesser general public license,? v(ersion )?2\.1$/, 'LGPL-2.1-only'],
+  [/^gnu affero general public license,? v(ersion )?3( \(agplv3\))?$/, 'AGPL-3.0-only'],
+  [/^gnu affero general public license,? v(ersion )?3 or later \(agplv3\+\)$/, 'AGPL-3.0-or-later'],
+  [/^common development and distribution license,? (\(cddl\),? )?(version )?1\.0$/, 'CDDL-1.0'],
+  [/^python software foundation license$/, 'PSF-2.0'],
+  [/^(the )?unlicense( \(unlicense\))?$/, 'Unlicense'],
+  [/^cc0 1\.0 universal( \(cc0 1\.0\) public domain dedication)?$/, 'CC0-1.0'],
+  [/^boost software license,? (version )?1\.0( \(bsl-1\.0\))?$/, 'BSL-1.0'],
+];
+
+const LICENSE_URL_ALIASES: ReadonlyArray<readonly [RegExp, string]> = [
+  [/^apache\.org\/licenses\/license-2\.0(\.txt|\.html)?$/, 'Apache-2.0'],
+  [/^opensource\.org\/licenses\/mit(-license)?(\.php|\.html)?$/, 'MIT'],
+  [/^opensource\.org\/licenses\/bsd-3-clause(\.php|\.html)?$/, 'BSD-3-Clause'],
+  [/^opensource\.org\/licenses\/bsd-2-clause(\.php|\.html)?$/, 'BSD-2-Clause'],
+  [/^(eclipse\.org\/legal\/epl-2\.0|eclipse\.org\/legal\/epl-v20\.html)\/?$/, 'EPL-2.0'],
+  [/^eclipse\.org\/legal\/epl-v10\.html$/, 'EPL-1.0'],
+  [/^mozilla\.org\/(en-us\/)?mpl\/2\.0\/?$/, 'MPL-2.0'],
+];
+
+/**
+ * The SPDX expression for a license given by name or URL, as in PyPI
+ * classifiers and Maven POMs, e.g. `Apache-2.0` for "The Apache Software
+ * License, Version 2.0". Undefined when the name isn't recognized.
+ */
+export function licenseFromName(name: string | undefined, url?: string): string | undefined {
+  if (name !== undefined && name.trim() !== '') {
+    try {
+      const expression = parseSpdx(name);
+      if (getSpdxLicenses(expression).every((license) => license.known)) {
+        return formatSpdx(expression);
+      }
+    } catch {
+      // Not an expression; try it as a name
+    }
+
+    const normalized = name.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\.$/, '');
+    const alias = LICENSE_NAME_ALIASES.find(([pattern]) => pattern.test(normalized));
+    if (alias !== undefined) return alias[1];
+  }
+
+  if (url !== undefined) {
+    const normalized = url
+      .trim()
+      .toLowerCase()
+      .replace(/^https?:\/\/(www\.)?/, '');
+    return LICENSE_URL_ALIASES.find(([pattern]) => pattern.test(normalized))?.[1];
+  }
+  return undefined;
+}
+
+/**
+ * Decide whether a license expression is allowed, denied or unknown under
+ * allow and deny lists of SPDX ids, explaining the decision.
+ *
+ * An OR expression takes its best branch and an AND expression its worst.
+ * Deny entries win over allow entries, except for an allow entry naming the
+ * same exception. A bare GNU id like `GPL-2.0` in a list covers both
+ * `GPL-2.0-only` and `GPL-2.0-or-later`, and an `-or-later` license is
+ * allowed when a later version of it is. Strings that aren't valid
+ * expressions only match list entries they equal.
+ */
+export function evaluateLicense(license: string, lists: LicenseLists): LicenseDecision {
+  let expression: SpdxExpression;
+  try {
+    expression = parseSpdx(license);
+  } catch {
+    const raw = license.trim().toLowerCase();
+    if (lists.deny.some((entry) => entry.trim().toLowerCase() === raw)) {
+      return { status: 'denied', branch: license, reason: `${license} is on the deny list` };
+    }
+    if (lists.allow.some((entry) => entry.trim().toLowerCase() === raw)) {
+      return { status: 'allowed', branch: license, reason: `${license} is on the allow list` };
+    }
+    return {
+      status: 'unknown',
+      branch: license,
+      reason: `${license} is not a valid SPDX expression`,
+    };
+  }
+
+  const compiled: CompiledLists = {
+    allow: compileEntries(lists.allow),
+    deny: compileEntries(lists.deny),
+  };
+  return evaluateExpression(expression, (id) => evaluateLicenseId(id, compiled));
+}
+
+interface PolicyEntry {
+  readonly raw: string;
+  readonly license: SpdxLicense;
+  /** A deprecated bare GNU id, covering both `-only` and `-or-later` */
+  readonly anyVariant: boolean;
+}
+
+interface CompiledLists {
+  readonly allow: readonly PolicyEntry[];
+  readonly deny: readonly PolicyEntry[];
+}
+
+function compileEntries(entries: readonly string[]): PolicyEntry[] {
+  const compiled: PolicyEntry[] = [];
+  for (const raw of entries) {
+    let parsed: SpdxExpression;
+    try {
+      parsed = parseSpdx(raw);
+    } catch {
+      continue;
+    }
+    if (parsed.type !== 'license') continue;
+    compiled.push({
+      raw,
+      license: parsed,
+      anyVariant: CANONICAL_GNU.has(raw.trim().toLowerCase()),
+    });
+  }
+  return compiled;
+}
+
+/**
+ * Combine per-license decisions over an expression: an OR expression takes
+ * its best branch and an AND expression its worst
+ */
+export function evaluateExpression(
+  expression: SpdxExpression,
+  decide: (license: SpdxLicense) => LicenseDecision
+): LicenseDecision {
+  if (expression.type === 'license') {
+    return decide(expression);
+  }
+
+  const left = evaluateExpression(expression.left, decide);
+  const right = evaluateExpression(expression.right, decide);
+  const text = formatSpdx(expression);
+
+  if (expression.type === 'or') {
+    const chosen = STATUS_RANK[right.status] > STATUS_RANK[left.status] ? right : left;
+    if (chosen.status === 'denied') {
+      const obligations = [left.obligation, right.obligation].filter(
+        (obligation): obligation is string => obligation !== undefined
+      );
+      return {
+        status: 'denied',
+        branch: text,
+        reason: `every option of ${text} is denied: ${left.reason}; ${right.reason}`,
+        ...(obligations.length > 0 ? { obligation: obligations.join('; ') } : {}),
+      };
+    }
+    return { ...chosen, reason: `${chosen.reason} (chosen from ${text})` };
+  }
+
+  const worst = STATUS_RANK[right.status] < STATUS_RANK[left.status] ? right : left;
+  if (worst.status === 'allowed') {
+    return {
+      status: 'allowed',
+      branch: text,
+      reason: `all of ${text} are allowed: ${left.reason}; ${right.reason}`,
+    };
+  }
+  return { ...worst, reason: `${worst.reason} (required by ${text})` };
+}
+
+function evaluateLicenseId(license: SpdxLicense, lists: CompiledLists): LicenseDecision {
+  const text = formatSpdx(license);
+
+  // An allow entry naming this exact exception is more specific than a deny entry
+  const exceptionAllow = lists.allow.find(
+    (entry) => entry.license.exception !== undefined && matchesEntry(license, entry, false) !== null
+  );
+  if (exceptionAllow !== undefined) {
+    return {
+      status: 'allowed',
+      branch: text,
+      reason: `${text} is allowed by ${exceptionAllow.raw}`,
+    };
+  }
+
+  for (const entry of lists.deny) {
+    if (matchesEntry(license, entry, false) !== null) {
+      return { status: 'denied', branch: text, reason: `${text} is denied by ${entry.raw}` };
+    }
+  }
+
+  for (const entry of lists.allow) {
+    const match = matchesEntry(license, entry, true);
+    if (match === 'later') {
+      return {
+        status: 'allowed',
+        branch: text,
+        reason: `${text} is allowed as ${formatSpdx(entry.license)}`,
+      };
+    }
+    if (match !== null) {
+      return { status: 'allowed', branch: text, reason: `${text} is allowed by ${entry.raw}` };
+    }
+  }
+
+  return {
+    status: 'unknown',
+    branch: text,
+    reason: license.known
+      ? `${text} is on neither the allow nor the deny list`
+      : `${text} is not a known SPDX license id`,
+  };
+}
+
+/**
+ * How a license matches a policy entry: exactly, as an earlier `-or-later`
+ * version of it (only when `later` is set), or not at all
+ */
+function matchesEntry(
+  license: SpdxLicense,
+  entry: PolicyEntry,
+  later: boolean
+): 'exact' | 'later' | null {
+  const target = entry.license;
+  if (target.exception !== undefined && target.exception !== license.exception) {
+    return null;
+  }
+
+  const id = license.id.toLowerCase();
+  const targetId = target.id.toLowerCase();
+  if (id === targetId && license.orLater === target.orLater) {
+    return 'exact';
+  }
+
+  const own = parseVersionedId(license.id);
+  const other = parseVersionedId(target.id);
+  if (own === null || other === null || own.family.toLowerCase() !== other.family.toLowerCase()) {
+    return null;
+  }
+
+  if (entry.anyVariant && own.version === other.version) {
+    return 'exact';
+  }
+
+  // "X or later" can always be taken as X itself, or as any later version
+  const isOrLater = license.orLater || own.suffix === 'or-later';
+  if (later && isOrLater && compareVersions(other.version, own.version) >= 0) {
+    return 'later';
+  }
+
+  return null;
+}
+
+function parseVersionedId(
+  id: string
+): { family: string; version: string; suffix: string | undefined } | null {
+  const match = VERSIONED_ID.exec(id);
+  if (match?.[1] === undefined || match[2] === undefined) return null;
+  return { family: match[1], version: match[2], suffix: match[3] };
+}
+
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+class SpdxParser {
+  private readonly tokens: string[];
+  private pos = 0;
+
+  constructor(private readonly input: string) {
+    this.tokens = input.match(/\(|\)|[^\s()]+/g) ?? [];
+  }
+
+  parse(): SpdxExpression {
+    if (this.tokens.length === 0) this.fail('empty expression');
+    const expression = this.parseOr();
+    if (this.pos < this.tokens.length) this.fail(`unexpected "${this.tokens[this.pos]}"`);
+    return expression;
+  }
+
+  private parseOr(): SpdxExpression {
+    let left = this.parseAnd();
+    while (this.accept('OR')) {
+      left = { type: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): SpdxExpression {
+    let left = this.parseWith();
+    while (this.accept('AND')) {
+      left = { type: 'and', left, right: this.parseWith() };
+    }
+    return left;
+  }
+
+  private parseWith(): SpdxExpression {
+    if (this.accept('(')) {
+      const inner = this.parseOr();
+      if (!this.accept(')')) this.fail('missing ")"');
+      return inner;
+    }
+
+    const license = this.parseLicense(this.next('a license id'));
+    if (!this.accept('WITH')) return license;
+
+    if (license.exception !== undefined) {
+      this.fail(`WITH can't follow ${formatSpdx(license)}`);
+    }
+    const token = this.next('an exception id');
+    const exception = CANONICAL_EXCEPTIONS.get(token.toLowerCase()) ?? token;
+    return { ...license, exception };
+  }
+
+  private parseLicense(token: string): SpdxLicense {
+    if (/^(AND|OR|WITH|\))$/i.test(token)) this.fail(`expected a license id, found "${token}"`);
+    if (!/^[A-Za-z0-9.+:-]+$/.test(token)) this.fail(`invalid license id "${token}"`);
+
+    if (/^(DocumentRef-[A-Za-z0-9.-]+:)?LicenseRef-[A-Za-z0-9.-]+$/i.test(token)) {
+      return { type: 'license', id: token, orLater: false, known: true };
+    }
+
+    const plus = token.endsWith('+');
+    const base = plus ? token.slice(0, -1) : token;
+    const lower = base.toLowerCase();
+
+    const gnu = CANONICAL_GNU.get(lower);
+    if (gnu !== undefined) {
+      return {
+        type: 'license',
+        id: `${gnu}${plus ? '-or-later' : '-only'}`,
+        orLater: false,
+        known: true,
+      };
+    }
+
+    const replacement = CANONICAL_DEPRECATED.get(lower);
+    if (replacement !== undefined) {
+      return parseSpdx(replacement) as SpdxLicense;
+    }
+
+    const id = CANONICAL_IDS.get(lower);
+    if (plus && id?.endsWith('-or-later') === true) {
+      return { type: 'license', id, orLater: false, known: true };
+    }
+    return { type: 'license', id: id ?? base, orLater: plus, known: id !== undefined };
+  }
+
+  private accept(token: string): boolean {
+    if (this.tokens[this.pos]?.toUpperCase() === token) {
+      this.pos++;
+      return true;
+    }
+    return false;
+  }
+
+  private next(expected: string): string {
+    const token = this.tokens[this.pos];
+    if (token === undefined) this.fail(`expected ${expected}`);
+    this.pos++;
+    return token;
+  }
+
+  private fail(message: string): never {
+    throw new Error(`Invalid SPDX expression "${this.input}": ${message}`);
+  }
+}
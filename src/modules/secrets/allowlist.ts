@@ -0,0 +1,195 @@
+/**
+ * RepoHygiene - Secret Allowlists
+ * Accept findings by path, value, stopword or commit
+ */
+
+import { readFile } from 'fs/promises';
+import { isAbsolute, join } from 'path';
+import type {
+  SecretAllowlistDefinition,
+  SecretAllowlistTarget,
+  SecretFinding,
+} from '../../types/index.js';
+import { toRepoPath } from './baseline.js';
+import { VIRTUAL_PATH_SEPARATOR } from './extractors.js';
+
+export interface SecretAllowlist {
+  readonly description: string;
+  /** Rule ids or pattern names; undefined applies to every rule */
+  readonly rules?: ReadonlySet<string>;
+  readonly paths: readonly RegExp[];
+  readonly regexes: readonly RegExp[];
+  readonly regexTarget: SecretAllowlistTarget;
+  /** Lowercased */
+  readonly stopwords: readonly string[];
+  readonly commits: readonly string[];
+  readonly condition: 'or' | 'and';
+}
+
+const TARGETS = new Set(['secret', 'match', 'line']);
+
+/**
+ * Compile an allowlist definition, validating its regexes
+ */
+export function compileAllowlist(
+  definition: SecretAllowlistDefinition,
+  source: string
+): SecretAllowlist {
+  const description = definition.description ?? `allowlist from ${source}`;
+
+  const regexTarget = definition.regexTarget ?? 'secret';
+  if (!TARGETS.has(regexTarget)) {
+    throw new Error(
+      `Invalid allowlist "${description}" in ${source}: regexTarget must be secret, match or line`
+    );
+  }
+
+  const condition = definition.condition ?? 'or';
+  if (condition !== 'or' && condition !== 'and') {
+    throw new Error(`Invalid allowlist "${description}" in ${source}: condition must be or / and`);
+  }
+
+  const compile = (pattern: string | RegExp): RegExp => {
+    try {
+      return pattern instanceof RegExp
+        ? new RegExp(pattern.source, pattern.flags.replace('g', ''))
+        : new RegExp(pattern);
+    } catch (error) {
+      throw new Error(
+        `Invalid allowlist "${description}" in ${source}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  return {
+    description,
+    rules: definition.rules !== undefined ? new Set(definition.rules) : undefined,
+    paths: (definition.paths ?? []).map(compile),
+    regexes: (definition.regexes ?? []).map(compile),
+    regexTarget,
+    stopwords: (definition.stopwords ?? []).map((word) => word.toLowerCase()),
+    commits: definition.commits ?? [],
+    condition,
+  };
+}
+
+/**
+ * Mark findings accepted by an allowlist as suppressed, with the allowlist's
+ * description as the reason. Already suppressed findings are left as they are.
+ */
+export async function applyAllowlists(
+  findings: readonly SecretFinding[],
+  allowlists: readonly SecretAllowlist[],
+  rootDir: string
+): Promise<SecretFinding[]> {
+  if (allowlists.length === 0) {
+    return [...findings];
+  }
+
+  const lines = createLineReader(rootDir);
+  const result: SecretFinding[] = [];
+
+  for (const finding of findings) {
+    let match: SecretAllowlist | undefined;
+    if (finding.suppressed !== true) {
+      for (const allowlist of allowlists) {
+        if (await isAllowlisted(finding, allowlist, rootDir, lines)) {
+          match = allowlist;
+          break;
+        }
+      }
+    }
+
+    result.push(
+      match !== undefined
+        ? { ...finding, suppressed: true, suppressionReason: `allowlisted: ${match.description}` }
+        : finding
+    );
+  }
+
+  return result;
+}
+
+async function isAllowlisted(
+  finding: SecretFinding,
+  allowlist: SecretAllowlist,
+  rootDir: string,
+  lines: LineReader
+): Promise<boolean> {
+  if (
+    allowlist.rules !== undefined &&
+    !allowlist.rules.has(finding.ruleId) &&
+    !allowlist.rules.has(finding.type)
+  ) {
+    return false;
+  }
+
+  const secret = finding.secret ?? finding.match;
+  const checks: Array<() => Promise<boolean> | boolean> = [];
+
+  if (allowlist.paths.length > 0) {
+    const path = toRepoPath(rootDir, finding.file);
+    checks.push(() => allowlist.paths.some((re) => re.test(path)));
+  }
+  if (allowlist.regexes.length > 0) {
+    checks.push(async () => {
+      const target =
+        allowlist.regexTarget === 'secret'
+          ? secret
+          : allowlist.regexTarget === 'match'
+            ? finding.match
+            : ((await lines.read(finding)) ?? finding.match);
+      return allowlist.regexes.some((re) => re.test(target));
+    });
+  }
+  if (allowlist.stopwords.length > 0) {
+    const lower = secret.toLowerCase();
+    checks.push(() => allowlist.stopwords.some((word) => lower.includes(word)));
+  }
+  if (allowlist.commits.length > 0) {
+    const commit = finding.commit;
+    checks.push(
+      () => commit !== undefined && allowlist.commits.some((sha) => commit.startsWith(sha))
+    );
+  }
+
+  if (checks.length === 0) {
+    return false;
+  }
+
+  for (const check of checks) {
+    const matched = await check();
+    if (allowlist.condition === 'or' && matched) return true;
+    if (allowlist.condition === 'and' && !matched) return false;
+  }
+  return allowlist.condition === 'and';
+}
+
+interface LineReader {
+  /** The finding's line from the working tree, or undefined when it isn't on disk */
+  read(finding: SecretFinding): Promise<string | undefined>;
+}
+
+function createLineReader(rootDir: string): LineReader {
+  const files = new Map<string, Promise<string[] | undefined>>();
+
+  return {
+    async read(finding): Promise<string | undefined> {
+      // History findings and archive members have no working-tree line to read
+      if (finding.commit !== undefined || finding.file.includes(VIRTUAL_PATH_SEPARATOR)) {
+        return undefined;
+      }
+
+      const path = isAbsolute(finding.file) ? finding.file : join(rootDir, finding.file);
+      let content = files.get(path);
+      if (content === undefined) {
+        content = readFile(path, 'utf-8').then(
+          (text) => text.split(/\r?\n/),
+          () => undefined
+        );
+        files.set(path, content);
+      }
+      return (await content)?.[finding.line - 1];
+    },
+  };
+}
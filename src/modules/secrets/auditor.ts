@@ -3,17 +3,83 @@
  * Main scanner class for secret detection
  */
 
+import { join, resolve } from 'path';
 import { BaseScanner } from '../../core/scanner.js';
-import type { GitContext } from '../../core/git.js';
-import type { SecretsOptions, SecretsData, RepoHygieneConfig } from '../../types/index.js';
-import { scanFilesForSecrets } from './scanner.js';
+import { applySuppressions, suppressionMatches } from '../../core/suppressions.js';
+import { listChangedFiles, type GitContext } from '../../core/git.js';
+import type {
+  Issue,
+  SecretsOptions,
+  SecretsData,
+  SecretFinding,
+  SecretBaselineEntry,
+  SkippedFile,
+  SkippedFileReason,
+  RepoHygieneConfig,
+  PiiFamily,
+  SensitiveFilesReport,
+} from '../../types/index.js';
+import { scanFilesForSecrets, type FileScanResult } from './scanner.js';
+import { scanGitHistory, scanGitDiff } from './history.js';
+import { resolveSecretPatterns } from './loader.js';
+import { applyAllowlists } from './allowlist.js';
+import { sortByVerification, verifyFindings } from './verify.js';
+import { isPiiFinding, resolvePiiFamilies } from './pii.js';
+import { checkSensitiveFiles } from './sensitive-files.js';
+import type { SecretPattern } from './patterns.js';
+import {
+  applySeverityOverrides,
+  isSecretSeverity,
+  meetsMinSeverity,
+  toIssueSeverity,
+} from './severity.js';
+import {
+  applyBaseline,
+  fingerprintFinding,
+  getBaselinePath,
+  loadBaseline,
+  DEFAULT_BASELINE_PATH,
+  toRepoPath,
+  writeBaseline,
+  type SecretBaseline,
+} from './baseline.js';
+
+interface CollectedFindings {
+  readonly findings: SecretFinding[];
+  readonly scannedFiles: number;
+  readonly scannedCommits?: number;
+  readonly unusedSuppressions?: FileScanResult['unusedSuppressions'];
+  readonly skipped?: SkippedFile[];
+  /** Files the staged changes, diff range or commits touched, in diff mode */
+  readonly changedFiles?: readonly string[];
+}
+
+const SKIP_REASON_LABELS: Record<SkippedFileReason, string> = {
+  binary: 'binary',
+  'too-large': 'too large',
+  unreadable: 'unreadable',
+};
 
 export class SecretsAuditor extends BaseScanner<SecretsOptions, SecretsData> {
+  /** Rules of the findings of the last scan, which are matched to suppressions while scanning */
+  private findingRules = new Set<string>();
+  /** Suppressions for secrets that matched no finding in the last scan */
+  private unusedSuppressions: FileScanResult['unusedSuppressions'] = [];
+
   constructor(gitContext: GitContext, config: RepoHygieneConfig, options: SecretsOptions = {}) {
     const mergedOptions: SecretsOptions = {
       scanHistory: config.secrets?.scanHistory ?? false,
       entropyThreshold: config.secrets?.entropyThreshold ?? 4.5,
       exclude: config.secrets?.exclude ?? [],
+      baseline: config.secrets?.baseline,
+      minSeverity: config.secrets?.minSeverity,
+      severityOverrides: config.secrets?.severityOverrides,
+      concurrency: config.secrets?.concurrency,
+      maxFileSize: config.secrets?.maxFileSize,
+      decodeBase64: config.secrets?.decodeBase64,
+      pii: config.secrets?.pii,
+      sensitiveFiles: config.secrets?.sensitiveFiles,
+      verify: config.secrets?.verify,
       ...options,
     };
 
@@ -23,45 +89,453 @@ export class SecretsAuditor extends BaseScanner<SecretsOptions, SecretsData> {
   async scan(): Promise<SecretsData> {
     this.log('Starting secret scan...');
 
-    // Scan files
-    const { findings, scannedFiles } = await scanFilesForSecrets({
-      cwd: this.gitContext.rootDir,
-      exclude: [...(this.config.exclude ?? []), ...(this.options.exclude ?? [])],
-      include: this.options.include,
-      entropyThreshold: this.options.entropyThreshold,
-    });
+    const { patterns, allowlists, warnings } = await resolveSecretPatterns(
+      this.gitContext.rootDir,
+      this.config
+    );
+    const pii = resolvePiiFamilies(this.options.pii);
+    for (const warning of [...warnings, ...pii.warnings]) {
+      this.addIssue({ severity: 'warning', message: warning, rule: 'secret-pattern-config' });
+    }
+
+    this.log(`Using ${patterns.length} secret patterns`);
 
-    this.log(`Scanned ${scannedFiles} files, found ${findings.length} potential secrets`);
+    const collected = this.isDiffMode()
+      ? await this.scanChanges(patterns, pii.families)
+      : await this.scanWorkingTree(patterns, pii.families);
+    const { scannedFiles, scannedCommits, skipped, changedFiles } = collected;
+
+    const overrides = this.options.severityOverrides ?? {};
+    for (const [key, value] of Object.entries(overrides)) {
+      if (!isSecretSeverity(value)) {
+        throw new Error(`Invalid severity "${String(value)}" for secret pattern "${key}"`);
+      }
+    }
+
+    let findings: SecretFinding[] = applySeverityOverrides(collected.findings, overrides).map(
+      (finding) => ({
+        ...finding,
+        fingerprint: fingerprintFinding(finding, this.gitContext.rootDir),
+      })
+    );
+    findings = await applyAllowlists(findings, allowlists, this.gitContext.rootDir);
+
+    const minSeverity = this.options.minSeverity;
+    if (minSeverity !== undefined) {
+      if (!isSecretSeverity(minSeverity)) {
+        throw new Error(`Invalid minimum severity "${String(minSeverity)}"`);
+      }
+      findings = findings.filter((f) => meetsMinSeverity(f, minSeverity));
+    }
 
-    // Report findings as issues
-    for (const finding of findings) {
-      const severity = finding.entropy !== undefined && finding.entropy > 0 ? 'warning' : 'error';
+    // Accepted findings from the baseline don't fail the scan
+    let staleBaselineEntries: SecretBaselineEntry[] | undefined;
+    const baseline = await loadBaseline(this.getBaselinePath());
+    if (baseline !== null) {
+      const comparison = applyBaseline(findings, baseline);
+      findings = comparison.findings;
+      this.log(`${comparison.baselined} findings accepted by baseline`);
 
+      if (this.options.auditBaseline === true) {
+        staleBaselineEntries = comparison.stale;
+        for (const entry of comparison.stale) {
+          this.addIssue({
+            severity: 'warning',
+            message: `Stale baseline entry: ${entry.rule} ${entry.masked} no longer found`,
+            file: entry.file,
+            line: entry.line,
+            rule: 'stale-baseline-entry',
+            suggestion: 'Run `repohygiene secrets --update-baseline` to prune it',
+          });
+        }
+      }
+    } else if (this.options.auditBaseline === true) {
       this.addIssue({
-        severity,
-        message: `${finding.type}: ${finding.masked}`,
+        severity: 'warning',
+        message: `No baseline file found at ${this.options.baseline ?? DEFAULT_BASELINE_PATH}`,
+        rule: 'missing-baseline',
+        suggestion: 'Run `repohygiene secrets --update-baseline` to create one',
+      });
+    }
+
+    if (this.options.verify === true) {
+      findings = await this.verifyFindings(findings);
+    }
+
+    const newFindings = findings.filter((f) => f.baselined !== true && f.suppressed !== true);
+
+    // Report findings as issues; suppressed ones are kept for auditing
+    for (const finding of findings.filter((f) => f.baselined !== true)) {
+      const origin =
+        finding.commit !== undefined
+          ? ` (introduced in ${finding.commit.slice(0, 7)}${finding.author !== undefined ? ` by ${finding.author}` : ''})`
+          : '';
+
+      const encoding = finding.encoding !== undefined ? ` (${finding.encoding}-encoded)` : '';
+      const verification = finding.verification !== undefined ? ` [${finding.verification}]` : '';
+
+      this.addIssue({
+        // A secret confirmed live is always an error, whatever its pattern severity
+        severity: finding.verification === 'verified' ? 'error' : toIssueSeverity(finding.severity),
+        message: `${finding.type}: ${finding.masked}${encoding}${origin}${verification}`,
         file: finding.file,
         line: finding.line,
         column: finding.column,
-        rule: 'no-secrets',
-        suggestion: 'Remove this secret and rotate it immediately',
+        rule: finding.ruleId,
+        suggestion: isPiiFinding(finding)
+          ? 'Replace personal data with synthetic values and purge it from history'
+          : 'Remove this secret and rotate it immediately',
+        suppressed: finding.suppressed,
+        suppressionReason: finding.suppressionReason,
       });
     }
 
-    // Summary warning if secrets found
-    if (findings.length > 0) {
+    this.findingRules = new Set(findings.map((finding) => finding.ruleId));
+    this.unusedSuppressions = collected.unusedSuppressions ?? [];
+
+    // Summary graded by the most severe new finding
+    if (newFindings.length > 0) {
+      const worst = newFindings.some((f) => f.severity === 'high')
+        ? 'high'
+        : newFindings.some((f) => f.severity === 'medium')
+          ? 'medium'
+          : 'low';
+
+      const verifiedCount = newFindings.filter((f) => f.verification === 'verified').length;
+      const verifiedNote = verifiedCount > 0 ? ` (${verifiedCount} verified live)` : '';
+
       this.addIssue({
-        severity: 'error',
-        message: `Found ${findings.length} potential secrets in ${scannedFiles} files`,
+        severity: verifiedCount > 0 ? 'error' : toIssueSeverity(worst),
+        message: `Found ${newFindings.length} potential secrets in ${scannedFiles} files${verifiedNote}`,
         rule: 'secrets-summary',
         suggestion: 'Review findings and rotate any exposed credentials',
       });
     }
 
+    if (skipped !== undefined && skipped.length > 0) {
+      this.addIssue({
+        severity: 'info',
+        message: `Skipped ${skipped.length} files (${this.describeSkipped(skipped)})`,
+        rule: 'secrets-skipped-files',
+        suggestion: 'See `skipped` in the JSON output for the full list',
+      });
+    }
+
+    const sensitiveFiles =
+      this.options.sensitiveFiles !== false
+        ? await this.checkSensitiveFiles(changedFiles)
+        : undefined;
+
+    const baselinedCount = findings.filter((f) => f.baselined === true).length;
+    if (baselinedCount > 0) {
+      this.addIssue({
+        severity: 'info',
+        message: `${baselinedCount} known findings accepted by the baseline`,
+        rule: 'secrets-baseline',
+      });
+    }
+
     return {
       findings,
       scannedFiles,
+      scannedCommits,
+      staleBaselineEntries,
+      skipped,
+      sensitiveFiles,
+    };
+  }
+
+  /**
+   * Findings are matched to suppressions while scanning file content, where the
+   * comments are already at hand. Other issues, such as stale baseline entries,
+   * go through the generic file-based pass, and a suppression is unused when
+   * neither matched it.
+   */
+  protected override async applyInlineSuppressions(): Promise<void> {
+    const rootDir = this.gitContext.rootDir;
+    const isFinding = (issue: Issue): boolean => this.findingRules.has(issue.rule ?? '');
+
+    const others = this.issues.filter((issue) => !isFinding(issue));
+    const { issues } = await applySuppressions(this.name, others, rootDir);
+    const matched = issues.filter(
+      (issue, i) => issue.suppressed === true && others[i]?.suppressed !== true
+    );
+    let next = 0;
+    this.issues = this.issues.map((issue) =>
+      isFinding(issue) ? issue : (issues[next++] ?? issue)
+    );
+
+    for (const { file, suppression } of this.unusedSuppressions) {
+      const used = matched.some(
+        (issue) =>
+          issue.file !== undefined &&
+          issue.line === suppression.targetLine &&
+          resolve(rootDir, issue.file) === resolve(rootDir, file) &&
+          suppressionMatches(suppression, this.name, issue.rule)
+      );
+      if (!used) this.addUnusedSuppression(file, suppression);
+    }
+  }
+
+  /**
+   * Write all findings of a scan to the baseline file
+   */
+  async updateBaseline(data: SecretsData): Promise<SecretBaseline> {
+    const path = this.getBaselinePath();
+    const baseline = await writeBaseline(path, data.findings, this.gitContext.rootDir);
+
+    this.log(`Wrote ${baseline.entries.length} entries to ${path}`);
+
+    return baseline;
+  }
+
+  /**
+   * Check new findings against their service endpoints and sort live secrets
+   * first. Baselined and suppressed findings are not sent anywhere.
+   */
+  private async verifyFindings(findings: readonly SecretFinding[]): Promise<SecretFinding[]> {
+    const candidates = findings.filter((f) => f.baselined !== true && f.suppressed !== true);
+    this.log(`Verifying ${candidates.length} findings...`);
+
+    const verification = this.config.secrets?.verification;
+    const verified = await verifyFindings(candidates, {
+      baseUrls: verification?.baseUrls,
+      timeout: verification?.timeout,
+    });
+
+    const results = new Map(candidates.map((finding, i) => [finding, verified[i] ?? finding]));
+    return sortByVerification(findings.map((finding) => results.get(finding) ?? finding));
+  }
+
+  /**
+   * Report secret-bearing files that are tracked or not gitignored, and
+   * `.env.example` files that have drifted from `.env`. In diff mode only the
+   * changed files are checked, so unrelated commits aren't blocked.
+   */
+  private async checkSensitiveFiles(
+    paths: readonly string[] | undefined
+  ): Promise<SensitiveFilesReport> {
+    const report = await checkSensitiveFiles(this.gitContext, {
+      exclude: this.getExcludes(),
+      paths,
+    });
+    const rootDir = this.gitContext.rootDir;
+
+    for (const { file, kind } of report.tracked) {
+      this.addIssue({
+        severity: 'error',
+        message: `Sensitive file is tracked by git (${kind}): ${file}`,
+        file: join(rootDir, file),
+        rule: 'sensitive-file-tracked',
+        suggestion: 'Run `git rm --cached` on it, add it to .gitignore and rotate what it holds',
+      });
+    }
+
+    for (const { file, kind } of report.unignored) {
+      this.addIssue({
+        severity: 'warning',
+        message: `Sensitive file is not gitignored (${kind}): ${file}`,
+        file: join(rootDir, file),
+        rule: 'sensitive-file-unignored',
+        suggestion: 'Add it to .gitignore before it is committed',
+      });
+    }
+
+    for (const drift of report.envDrift) {
+      if (drift.missingFromExample.length > 0) {
+        this.addIssue({
+          severity: 'warning',
+          message: `${drift.example} is missing keys set in ${drift.env}: ${drift.missingFromExample.join(', ')}`,
+          file: join(rootDir, drift.example),
+          rule: 'env-example-drift',
+          suggestion: 'Add the keys to the example with placeholder values',
+        });
+      }
+      if (drift.missingFromEnv.length > 0) {
+        this.addIssue({
+          severity: 'info',
+          message: `${drift.env} does not set keys listed in ${drift.example}: ${drift.missingFromEnv.join(', ')}`,
+          file: join(rootDir, drift.env),
+          rule: 'env-example-drift',
+        });
+      }
+    }
+
+    return report;
+  }
+
+  private getBaselinePath(): string {
+    return getBaselinePath(this.gitContext.rootDir, this.options.baseline);
+  }
+
+  /**
+   * Whether only changed lines should be scanned (pre-commit / CI mode)
+   */
+  private isDiffMode(): boolean {
+    return (
+      this.options.staged === true ||
+      this.options.diff !== undefined ||
+      this.options.sinceCommit !== undefined
+    );
+  }
+
+  /**
+   * Summarise skipped files by reason, e.g. `3 binary, 1 too large`
+   */
+  private describeSkipped(skipped: readonly SkippedFile[]): string {
+    const counts = new Map<SkippedFileReason, number>();
+    for (const file of skipped) {
+      counts.set(file.reason, (counts.get(file.reason) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([reason, count]) => `${count} ${SKIP_REASON_LABELS[reason]}`)
+      .join(', ');
+  }
+
+  private getExcludes(): string[] {
+    return [...(this.config.exclude ?? []), ...(this.options.exclude ?? [])];
+  }
+
+  private getMaxFileSize(): number | undefined {
+    const maxFileSize = this.options.maxFileSize;
+    if (maxFileSize !== undefined && (!Number.isFinite(maxFileSize) || maxFileSize <= 0)) {
+      throw new Error(`Invalid maxFileSize "${String(maxFileSize)}", expected a positive number`);
+    }
+    return maxFileSize;
+  }
+
+  /**
+   * Scan the working tree, plus history when enabled
+   */
+  private async scanWorkingTree(
+    patterns: readonly SecretPattern[],
+    pii: readonly PiiFamily[]
+  ): Promise<CollectedFindings> {
+    const exclude = this.getExcludes();
+
+    const fileScan = await scanFilesForSecrets({
+      cwd: this.gitContext.rootDir,
+      exclude,
+      include: this.options.include,
+      entropyThreshold: this.options.entropyThreshold,
+      patterns,
+      concurrency: this.options.concurrency,
+      maxFileSize: this.getMaxFileSize(),
+      decodeBase64: this.options.decodeBase64,
+      pii,
+    });
+
+    this.log(
+      `Scanned ${fileScan.scannedFiles} files, found ${fileScan.findings.length} potential secrets`
+    );
+
+    if (this.options.scanHistory !== true || !this.gitContext.isGitRepo) {
+      return fileScan;
+    }
+
+    this.log('Scanning git history...');
+
+    const history = await scanGitHistory(this.gitContext, {
+      exclude,
+      entropyThreshold: this.options.entropyThreshold,
+      patterns,
+      decodeBase64: this.options.decodeBase64,
+      pii,
+    });
+
+    this.log(
+      `Scanned ${history.scannedCommits} commits, found ${history.findings.length} secrets in history`
+    );
+
+    return {
+      findings: this.mergeHistoryFindings(fileScan.findings, history.findings),
+      scannedFiles: fileScan.scannedFiles,
+      scannedCommits: history.scannedCommits,
+      unusedSuppressions: fileScan.unusedSuppressions,
+      skipped: fileScan.skipped,
+    };
+  }
+
+  /**
+   * Scan only the lines added in the index, a diff range or recent commits
+   */
+  private async scanChanges(
+    patterns: readonly SecretPattern[],
+    pii: readonly PiiFamily[]
+  ): Promise<CollectedFindings> {
+    if (!this.gitContext.isGitRepo) {
+      throw new Error('Scanning staged or changed lines requires a git repository');
+    }
+
+    const scanOptions = {
+      exclude: this.getExcludes(),
+      entropyThreshold: this.options.entropyThreshold,
+      patterns,
+      decodeBase64: this.options.decodeBase64,
+      pii,
     };
+
+    if (this.options.sinceCommit !== undefined) {
+      if (this.options.sinceCommit.startsWith('-')) {
+        throw new Error(`Invalid commit "${this.options.sinceCommit}"`);
+      }
+      this.log(`Scanning commits since ${this.options.sinceCommit}...`);
+      const range = `${this.options.sinceCommit}..HEAD`;
+      const history = await scanGitHistory(this.gitContext, {
+        ...scanOptions,
+        revisions: [range],
+      });
+      return { ...history, changedFiles: await listChangedFiles(this.gitContext, [range]) };
+    }
+
+    let diffArgs = ['--cached'];
+    if (this.options.diff !== undefined) {
+      // A leading dash would be read by git as an option rather than a range
+      if (!this.options.diff.includes('..') || this.options.diff.startsWith('-')) {
+        throw new Error(`Invalid diff range "${this.options.diff}", expected <base>..<head>`);
+      }
+      this.log(`Scanning lines added in ${this.options.diff}...`);
+      diffArgs = [this.options.diff];
+    } else {
+      this.log('Scanning staged changes...');
+    }
+
+    const diff = await scanGitDiff(this.gitContext, diffArgs, scanOptions);
+    return { ...diff, changedFiles: await listChangedFiles(this.gitContext, diffArgs) };
+  }
+
+  /**
+   * Attach commit metadata to working-tree findings that also appear in history,
+   * and append secrets that only survive in history (e.g. deleted later on)
+   */
+  private mergeHistoryFindings(
+    current: readonly SecretFinding[],
+    history: readonly SecretFinding[]
+  ): SecretFinding[] {
+    const rootDir = this.gitContext.rootDir;
+    const keyOf = (f: SecretFinding, file: string): string =>
+      `${f.type}\u0000${file}\u0000${f.match}`;
+
+    const introduced = new Map(history.map((f) => [keyOf(f, f.file), f]));
+    const merged: SecretFinding[] = [];
+
+    for (const finding of current) {
+      const key = keyOf(finding, toRepoPath(rootDir, finding.file));
+      const origin = introduced.get(key);
+      if (origin) {
+        introduced.delete(key);
+        merged.push({
+          ...finding,
+          commit: origin.commit,
+          author: origin.author,
+          date: origin.date,
+        });
+      } else {
+        merged.push(finding);
+      }
+    }
+
+    return [...merged, ...introduced.values()];
   }
 }
 
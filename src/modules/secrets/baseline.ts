@@ -0,0 +1,149 @@
+/**
+ * RepoHygiene - Secrets Baseline
+ * Fingerprint accepted findings so scans only fail on new secrets
+ */
+
+import { createHash } from 'crypto';
+import { readFile, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { isAbsolute, join, relative } from 'path';
+import type { SecretBaselineEntry, SecretFinding } from '../../types/index.js';
+
+export const DEFAULT_BASELINE_PATH = '.repohygiene-baseline.json';
+
+const BASELINE_VERSION = 1;
+
+export interface SecretBaseline {
+  readonly version: number;
+  readonly generatedAt: string;
+  readonly entries: readonly SecretBaselineEntry[];
+}
+
+export interface BaselineComparison {
+  readonly findings: SecretFinding[];
+  readonly baselined: number;
+  readonly stale: SecretBaselineEntry[];
+}
+
+/**
+ * Repository-relative, forward-slash path for a finding
+ */
+export function toRepoPath(rootDir: string, file: string): string {
+  const repoPath = isAbsolute(file) ? relative(rootDir, file) : file;
+  return repoPath.split('\\').join('/');
+}
+
+/**
+ * Stable fingerprint of a finding: rule, repository path and matched value.
+ * Line numbers are left out so unrelated edits don't invalidate the baseline.
+ */
+export function fingerprintFinding(finding: SecretFinding, rootDir: string): string {
+  return createHash('sha256')
+    .update(`${finding.type}\u0000${toRepoPath(rootDir, finding.file)}\u0000${finding.match}`)
+    .digest('hex');
+}
+
+/**
+ * Resolve the baseline path relative to the repository root
+ */
+export function getBaselinePath(rootDir: string, path: string = DEFAULT_BASELINE_PATH): string {
+  return isAbsolute(path) ? path : join(rootDir, path);
+}
+
+/**
+ * Load a baseline file, or null if it doesn't exist
+ */
+export async function loadBaseline(path: string): Promise<SecretBaseline | null> {
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  let baseline: Partial<SecretBaseline>;
+  try {
+    baseline = JSON.parse(await readFile(path, 'utf-8')) as Partial<SecretBaseline>;
+  } catch (error) {
+    throw new Error(
+      `Invalid baseline file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (!Array.isArray(baseline.entries)) {
+    throw new Error(`Invalid baseline file ${path}: missing "entries" array`);
+  }
+
+  return {
+    version: baseline.version ?? BASELINE_VERSION,
+    generatedAt: baseline.generatedAt ?? '',
+    entries: baseline.entries,
+  };
+}
+
+/**
+ * Build a baseline from the given findings
+ */
+export function createBaseline(
+  findings: readonly SecretFinding[],
+  rootDir: string
+): SecretBaseline {
+  const entries = new Map<string, SecretBaselineEntry>();
+
+  for (const finding of findings) {
+    const fingerprint = finding.fingerprint ?? fingerprintFinding(finding, rootDir);
+    if (!entries.has(fingerprint)) {
+      entries.set(fingerprint, {
+        fingerprint,
+        rule: finding.type,
+        file: toRepoPath(rootDir, finding.file),
+        line: finding.line,
+        masked: finding.masked,
+      });
+    }
+  }
+
+  return {
+    version: BASELINE_VERSION,
+    generatedAt: new Date().toISOString(),
+    entries: [...entries.values()].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line),
+  };
+}
+
+/**
+ * Write findings to a baseline file, replacing any previous content
+ */
+export async function writeBaseline(
+  path: string,
+  findings: readonly SecretFinding[],
+  rootDir: string
+): Promise<SecretBaseline> {
+  const baseline = createBaseline(findings, rootDir);
+  await writeFile(path, `${JSON.stringify(baseline, null, 2)}\n`, 'utf-8');
+  return baseline;
+}
+
+/**
+ * Mark findings that are in the baseline and collect baseline entries that no
+ * longer match anything
+ */
+export function applyBaseline(
+  findings: readonly SecretFinding[],
+  baseline: SecretBaseline
+): BaselineComparison {
+  const known = new Set(baseline.entries.map((e) => e.fingerprint));
+  const matched = new Set<string>();
+  let baselined = 0;
+
+  const marked = findings.map((finding) => {
+    if (finding.fingerprint !== undefined && known.has(finding.fingerprint)) {
+      matched.add(finding.fingerprint);
+      baselined++;
+      return { ...finding, baselined: true };
+    }
+    return finding;
+  });
+
+  return {
+    findings: marked,
+    baselined,
+    stale: baseline.entries.filter((e) => !matched.has(e.fingerprint)),
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * RepoHygiene - Unified Diff Parsing
+ * Extract added lines from `git log -p` / `git diff` output
+ */
+
+export interface DiffCommitHeader {
+  readonly hash: string;
+  readonly author: string;
+  readonly email: string;
+  readonly date: Date;
+}
+
+export interface AddedLine {
+  /** Line number in the new version of the file */
+  readonly line: number;
+  readonly content: string;
+}
+
+export interface DiffFile {
+  readonly path: string;
+  readonly addedLines: readonly AddedLine[];
+  readonly commit?: DiffCommitHeader;
+}
+
+export interface DiffReader {
+  push(line: string): void;
+  end(): void;
+}
+
+/**
+ * Marker emitted by the `--format` string of history scans so commit headers can
+ * be told apart from diff content
+ */
+export const COMMIT_MARKER = '\u0000RH-COMMIT\u0000';
+
+/**
+ * `git log` format string matching {@link COMMIT_MARKER}
+ */
+export const COMMIT_FORMAT = `--format=%x00RH-COMMIT%x00%H%x00%an%x00%ae%x00%aI`;
+
+const HUNK_HEADER = /^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+/**
+ * Create a line-driven diff reader. `onFile` is called once per changed file that
+ * has at least one added line. Works on streamed output so large histories never
+ * need to be held in memory.
+ */
+export function createDiffReader(onFile: (file: DiffFile) => void): DiffReader {
+  let commit: DiffCommitHeader | undefined;
+  let path: string | null = null;
+  let addedLines: AddedLine[] = [];
+  let nextLine = 0;
+  let inHunk = false;
+
+  const flushFile = (): void => {
+    if (path !== null && addedLines.length > 0) {
+      onFile({ path, addedLines, commit });
+    }
+    path = null;
+    addedLines = [];
+    inHunk = false;
+  };
+
+  return {
+    push(line: string): void {
+      if (line.startsWith(COMMIT_MARKER)) {
+        flushFile();
+        const [hash = '', author = '', email = '', date = ''] = line
+          .slice(COMMIT_MARKER.length)
+          .split('\u0000');
+        commit = { hash, author, email, date: new Date(date) };
+        return;
+      }
+
+      if (line.startsWith('diff --git ')) {
+        flushFile();
+        return;
+      }
+
+      if (!inHunk) {
+        if (line.startsWith('+++ ')) {
+          const target = parseDiffPath(line.slice(4));
+          // Deleted files have no new-side content to scan
+          path = target === '/dev/null' ? null : target.replace(/^b\//, '');
+        }
+      }
+
+      const hunk = HUNK_HEADER.exec(line);
+      if (hunk) {
+        inHunk = true;
+        nextLine = Number(hunk[1]);
+        return;
+      }
+
+      if (!inHunk || path === null) {
+        return;
+      }
+
+      if (line.startsWith('+')) {
+        addedLines.push({ line: nextLine, content: line.slice(1) });
+        nextLine++;
+      } else if (line.startsWith(' ')) {
+        nextLine++;
+      }
+      // '-' lines and "\ No newline at end of file" do not advance the new file
+    },
+
+    end(): void {
+      flushFile();
+    },
+  };
+}
+
+const C_ESCAPES: Readonly<Record<string, number>> = {
+  a: 7,
+  b: 8,
+  t: 9,
+  n: 10,
+  v: 11,
+  f: 12,
+  r: 13,
+  '"': 34,
+  '\\': 92,
+};
+
+/**
+ * The path of a `---`/`+++` line. Git ends paths containing spaces with a tab,
+ * and C-quotes paths with control characters (or, unless core.quotePath is
+ * off, non-ASCII ones) as `"b/\303\251.txt"`.
+ */
+function parseDiffPath(target: string): string {
+  const path = target.endsWith('\t') ? target.slice(0, -1) : target;
+  if (path.length < 2 || !path.startsWith('"') || !path.endsWith('"')) {
+    return path;
+  }
+
+  const bytes: number[] = [];
+  const body = path.slice(1, -1);
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i] ?? '';
+    if (char !== '\\') {
+      bytes.push(...Buffer.from(char, 'utf-8'));
+      continue;
+    }
+    const octal = /^[0-7]{3}/.exec(body.slice(i + 1));
+    if (octal !== null) {
+      bytes.push(parseInt(octal[0], 8));
+      i += 3;
+    } else {
+      const next = body[i + 1] ?? '';
+      bytes.push(C_ESCAPES[next] ?? next.charCodeAt(0));
+      i++;
+    }
+  }
+  return Buffer.from(bytes).toString('utf-8');
+}
+
+/**
+ * Parse a complete unified diff into files with added lines
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const files: DiffFile[] = [];
+  const reader = createDiffReader((file) => files.push(file));
+
+  for (const line of diff.split('\n')) {
+    reader.push(line);
+  }
+  reader.end();
+
+  return files;
+}
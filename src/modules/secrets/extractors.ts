@@ -0,0 +1,481 @@
+/**
+ * RepoHygiene - Secrets Content Extractors
+ * Pull scannable text out of archives, notebooks and encoded payloads
+ */
+
+import { gunzipSync, inflateRawSync } from 'zlib';
+import type { SkippedFile } from '../../types/index.js';
+import { DEFAULT_MAX_FILE_SIZE, decodeText } from './files.js';
+
+/** Text pulled out of a container, addressed by a virtual path like `app.zip!config/a.env` */
+export interface ExtractedContent {
+  readonly path: string;
+  readonly content: string;
+}
+
+export interface ExtractionResult {
+  readonly entries: ExtractedContent[];
+  /** Oversized or unreadable members; binary members are dropped silently */
+  readonly skipped: SkippedFile[];
+}
+
+export interface ExtractOptions {
+  /** Per-member limit on uncompressed size */
+  readonly maxFileSize?: number;
+  /** Limit on the uncompressed size of all members, nested archives included */
+  readonly maxTotalSize?: number;
+  /** Limit on the number of members, nested archives included */
+  readonly maxEntries?: number;
+}
+
+/** Base64 blob decoded to text, with its position in the original content */
+export interface EncodedPayload {
+  readonly value: string;
+  readonly decoded: string;
+  readonly position: number;
+}
+
+/** Separator between a container path and a member path */
+export const VIRTUAL_PATH_SEPARATOR = '!';
+
+/** Archives inside archives are followed this many levels deep */
+const MAX_ARCHIVE_DEPTH = 3;
+
+const DEFAULT_MAX_ARCHIVE_SIZE = 100 * 1024 * 1024;
+const DEFAULT_MAX_ARCHIVE_ENTRIES = 10_000;
+
+const ZIP_EXTENSIONS = ['.zip', '.jar', '.war', '.ear', '.apk', '.aar', '.nupkg', '.whl'];
+const TAR_GZ_EXTENSIONS = ['.tar.gz', '.tgz'];
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+
+const TAR_BLOCK = 512;
+
+const MIN_BASE64_LENGTH = 24;
+const BASE64_PATTERN = /(?<![A-Za-z0-9+/=_-])[A-Za-z0-9+/]{24,}={0,2}(?![A-Za-z0-9+/=_-])/g;
+
+/**
+ * Check whether a path names an archive the scanner can open
+ */
+export function isArchivePath(path: string): boolean {
+  const lower = path.toLowerCase();
+  return (
+    lower.endsWith('.tar') ||
+    ZIP_EXTENSIONS.some((ext) => lower.endsWith(ext)) ||
+    TAR_GZ_EXTENSIONS.some((ext) => lower.endsWith(ext))
+  );
+}
+
+/**
+ * Check whether a path is a Jupyter notebook
+ */
+export function isNotebookPath(path: string): boolean {
+  return path.toLowerCase().endsWith('.ipynb');
+}
+
+/**
+ * Extract text members from a zip, jar or tar(.gz) archive, following nested
+ * archives and notebooks. Member paths are reported as `archive!member`. An
+ * archive whose members add up to more than the total size or entry limit is
+ * skipped as a whole.
+ */
+export function extractArchive(
+  buffer: Buffer,
+  archivePath: string,
+  options: ExtractOptions = {}
+): ExtractionResult {
+  const budget: ArchiveBudget = {
+    maxTotalSize: options.maxTotalSize ?? DEFAULT_MAX_ARCHIVE_SIZE,
+    maxEntries: options.maxEntries ?? DEFAULT_MAX_ARCHIVE_ENTRIES,
+    totalSize: 0,
+    entries: 0,
+  };
+  const result = extractArchiveAt(
+    buffer,
+    archivePath,
+    options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE,
+    1,
+    budget
+  );
+
+  if (budget.exceeded !== undefined) {
+    return {
+      entries: [],
+      skipped: [{ file: archivePath, reason: 'too-large', detail: budget.exceeded }],
+    };
+  }
+  return result;
+}
+
+/**
+ * Extract cell sources and text outputs from a notebook. Returns null if the
+ * content isn't a notebook, so it can be scanned as plain JSON instead.
+ */
+export function extractNotebook(content: string, notebookPath: string): ExtractedContent[] | null {
+  let notebook: unknown;
+  try {
+    notebook = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  const cells = (notebook as { cells?: unknown } | null)?.cells;
+  if (!Array.isArray(cells)) {
+    return null;
+  }
+
+  const entries: ExtractedContent[] = [];
+  cells.forEach((cell: NotebookCell, index) => {
+    const cellPath = `${notebookPath}${VIRTUAL_PATH_SEPARATOR}cells/${index}`;
+
+    const source = joinNotebookText(cell.source);
+    if (source !== '') {
+      entries.push({ path: `${cellPath}/source`, content: source });
+    }
+
+    (Array.isArray(cell.outputs) ? cell.outputs : []).forEach((output, outputIndex) => {
+      const text = [
+        joinNotebookText(output.text),
+        ...Object.entries(output.data ?? {})
+          .filter(([mime]) => mime.startsWith('text/') || mime === 'application/json')
+          .map(([, value]) =>
+            typeof value === 'object' && value !== null && !Array.isArray(value)
+              ? JSON.stringify(value, null, 2)
+              : joinNotebookText(value)
+          ),
+        joinNotebookText(output.traceback),
+      ]
+        .filter((part) => part !== '')
+        .join('\n');
+
+      if (text !== '') {
+        entries.push({ path: `${cellPath}/outputs/${outputIndex}`, content: text });
+      }
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Find long base64 blobs that decode to printable text
+ */
+export function findEncodedPayloads(content: string): EncodedPayload[] {
+  const payloads: EncodedPayload[] = [];
+
+  BASE64_PATTERN.lastIndex = 0;
+  let match;
+  while ((match = BASE64_PATTERN.exec(content)) !== null) {
+    const value = match[0];
+    const unpadded = value.replace(/=+$/, '');
+    if (unpadded.length < MIN_BASE64_LENGTH || unpadded.length % 4 === 1) {
+      continue;
+    }
+
+    const decoded = decodeText(Buffer.from(value, 'base64'));
+    if (decoded === null || !isPrintable(decoded.content)) {
+      continue;
+    }
+
+    payloads.push({ value, decoded: decoded.content, position: match.index });
+  }
+
+  return payloads;
+}
+
+interface NotebookOutput {
+  readonly text?: unknown;
+  readonly data?: Record<string, unknown>;
+  readonly traceback?: unknown;
+}
+
+interface NotebookCell {
+  readonly source?: unknown;
+  readonly outputs?: NotebookOutput[];
+}
+
+/**
+ * Notebook text fields are either a string or an array of lines
+ */
+function joinNotebookText(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    return value.filter((line): line is string => typeof line === 'string').join('');
+  }
+  return '';
+}
+
+function isPrintable(text: string): boolean {
+  // eslint-disable-next-line no-control-regex
+  return !/[\u0000-\u0008\u000e-\u001f\u007f\ufffd]/.test(text);
+}
+
+/** Members read so far from one top-level archive, shared by the archives nested in it */
+interface ArchiveBudget {
+  readonly maxTotalSize: number;
+  readonly maxEntries: number;
+  totalSize: number;
+  entries: number;
+  /** Why reading stopped, once a limit is passed */
+  exceeded?: string;
+}
+
+/**
+ * Count members against the budget, returning false once a limit is passed
+ */
+function charge(budget: ArchiveBudget, size: number, entries = 1): boolean {
+  budget.totalSize += size;
+  budget.entries += entries;
+  if (budget.entries > budget.maxEntries) {
+    budget.exceeded = `More than ${budget.maxEntries} archive members`;
+  } else if (budget.totalSize > budget.maxTotalSize) {
+    budget.exceeded = `Members exceed the ${budget.maxTotalSize} byte archive limit`;
+  }
+  return budget.exceeded === undefined;
+}
+
+function extractArchiveAt(
+  buffer: Buffer,
+  archivePath: string,
+  maxFileSize: number,
+  depth: number,
+  budget: ArchiveBudget
+): ExtractionResult {
+  const lower = archivePath.toLowerCase();
+  const result: { entries: ExtractedContent[]; skipped: SkippedFile[] } = {
+    entries: [],
+    skipped: [],
+  };
+
+  let members: ArchiveMember[];
+  try {
+    if (ZIP_EXTENSIONS.some((ext) => lower.endsWith(ext))) {
+      members = readZip(buffer, maxFileSize, budget);
+    } else if (TAR_GZ_EXTENSIONS.some((ext) => lower.endsWith(ext))) {
+      members = readTar(
+        gunzipSync(buffer, { maxOutputLength: maxFileSize * 4 }),
+        maxFileSize,
+        budget
+      );
+    } else {
+      members = readTar(buffer, maxFileSize, budget);
+    }
+  } catch (error) {
+    result.skipped.push({
+      file: archivePath,
+      reason: 'unreadable',
+      detail: error instanceof Error ? error.message : String(error),
+    });
+    return result;
+  }
+  if (budget.exceeded !== undefined) {
+    return result;
+  }
+
+  for (const member of members) {
+    const memberPath = `${archivePath}${VIRTUAL_PATH_SEPARATOR}${member.name}`;
+
+    if ('error' in member) {
+      result.skipped.push({ file: memberPath, reason: member.reason, detail: member.error });
+      continue;
+    }
+
+    if (isArchivePath(member.name)) {
+      if (depth >= MAX_ARCHIVE_DEPTH) {
+        result.skipped.push({
+          file: memberPath,
+          reason: 'unreadable',
+          detail: `Archives nested more than ${MAX_ARCHIVE_DEPTH} levels deep are not opened`,
+        });
+        continue;
+      }
+      const nested = extractArchiveAt(member.data, memberPath, maxFileSize, depth + 1, budget);
+      if (budget.exceeded !== undefined) {
+        return result;
+      }
+      result.entries.push(...nested.entries);
+      result.skipped.push(...nested.skipped);
+      continue;
+    }
+
+    const decoded = decodeText(member.data);
+    if (decoded === null) {
+      continue;
+    }
+
+    const cells = isNotebookPath(member.name) ? extractNotebook(decoded.content, memberPath) : null;
+    if (cells !== null) {
+      result.entries.push(...cells);
+    } else {
+      result.entries.push({ path: memberPath, content: decoded.content });
+    }
+  }
+
+  return result;
+}
+
+type ArchiveMember =
+  | { readonly name: string; readonly data: Buffer }
+  | { readonly name: string; readonly reason: SkippedFile['reason']; readonly error: string };
+
+/**
+ * Read the members of a zip archive through its central directory.
+ * Stored and deflated members are supported; encrypted and zip64 ones are reported.
+ * Reading stops once the budget is spent.
+ */
+function readZip(buffer: Buffer, maxFileSize: number, budget: ArchiveBudget): ArchiveMember[] {
+  // The end-of-central-directory record sits within the last 64 KiB + 22 bytes
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new Error('Not a zip archive: end of central directory not found');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const members: ArchiveMember[] = [];
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new Error('Corrupt zip archive: bad central directory entry');
+    }
+
+    const flags = buffer.readUInt16LE(offset + 8);
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const size = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) {
+      continue;
+    }
+    if (!charge(budget, size <= maxFileSize ? size : 0)) {
+      break;
+    }
+    if ((flags & 0x1) !== 0) {
+      members.push({ name, reason: 'unreadable', error: 'Encrypted zip member' });
+      continue;
+    }
+    if (compressedSize === 0xffffffff || size === 0xffffffff) {
+      members.push({ name, reason: 'unreadable', error: 'Zip64 members are not supported' });
+      continue;
+    }
+    if (size > maxFileSize) {
+      members.push({
+        name,
+        reason: 'too-large',
+        error: `${size} bytes exceeds the ${maxFileSize} byte limit`,
+      });
+      continue;
+    }
+
+    if (buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) {
+      members.push({ name, reason: 'unreadable', error: 'Bad local file header' });
+      continue;
+    }
+    const dataStart =
+      localOffset +
+      30 +
+      buffer.readUInt16LE(localOffset + 26) +
+      buffer.readUInt16LE(localOffset + 28);
+    const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    try {
+      if (method === 0) {
+        members.push({ name, data: raw });
+      } else if (method === 8) {
+        // Cap output so a lying size header can't inflate a zip bomb
+        const data = inflateRawSync(raw, { maxOutputLength: maxFileSize + 1 });
+        if (!charge(budget, Math.max(0, data.length - size), 0)) {
+          break;
+        }
+        members.push({ name, data });
+      } else {
+        members.push({ name, reason: 'unreadable', error: `Compression method ${method}` });
+      }
+    } catch (error) {
+      members.push({
+        name,
+        reason: 'unreadable',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return members;
+}
+
+/**
+ * Read regular files from a tar stream, with GNU long names and pax paths.
+ * Reading stops once the budget is spent.
+ */
+function readTar(buffer: Buffer, maxFileSize: number, budget: ArchiveBudget): ArchiveMember[] {
+  const members: ArchiveMember[] = [];
+  let offset = 0;
+  let longName: string | undefined;
+
+  while (offset + TAR_BLOCK <= buffer.length) {
+    const header = buffer.subarray(offset, offset + TAR_BLOCK);
+    if (header.every((byte) => byte === 0)) {
+      break;
+    }
+
+    const size = parseInt(readTarString(header, 124, 12).trim() || '0', 8);
+    if (Number.isNaN(size)) {
+      throw new Error('Corrupt tar archive: bad size field');
+    }
+    const type = String.fromCharCode(header[156] ?? 0);
+    const prefix = readTarString(header, 345, 155);
+    const headerName = readTarString(header, 0, 100);
+    const data = buffer.subarray(offset + TAR_BLOCK, offset + TAR_BLOCK + size);
+    offset += TAR_BLOCK + Math.ceil(size / TAR_BLOCK) * TAR_BLOCK;
+
+    if (type === 'L') {
+      longName = data.toString('utf-8').replace(/\0+$/, '');
+      continue;
+    }
+    if (type === 'x') {
+      longName = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf-8'))?.[1] ?? longName;
+      continue;
+    }
+
+    const name = longName ?? (prefix !== '' ? `${prefix}/${headerName}` : headerName);
+    longName = undefined;
+
+    if (type !== '0' && type !== '\0') {
+      continue;
+    }
+    if (!charge(budget, size <= maxFileSize ? size : 0)) {
+      break;
+    }
+    if (size > maxFileSize) {
+      members.push({
+        name,
+        reason: 'too-large',
+        error: `${size} bytes exceeds the ${maxFileSize} byte limit`,
+      });
+    } else {
+      members.push({ name, data });
+    }
+  }
+
+  return members;
+}
+
+function readTarString(header: Buffer, start: number, length: number): string {
+  const field = header.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString('utf-8', 0, end === -1 ? length : end);
+}
@@ -0,0 +1,108 @@
+/**
+ * RepoHygiene - Secrets File Reader
+ * Read files as text, skipping binaries and oversized files
+ */
+
+import { readFile, stat } from 'fs/promises';
+import type { SkippedFile } from '../../types/index.js';
+
+/** Files larger than this are skipped unless configured otherwise */
+export const DEFAULT_MAX_FILE_SIZE = 5 * 1024 * 1024;
+
+/** Bytes inspected when sniffing for binary content, as git does */
+const SNIFF_LENGTH = 8000;
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be';
+
+export type TextFileResult =
+  | { readonly content: string; readonly encoding: TextEncoding }
+  | { readonly skipped: SkippedFile };
+
+/**
+ * Check whether a buffer looks binary: a NUL byte within the first 8000 bytes
+ */
+export function isBinaryContent(buffer: Uint8Array): boolean {
+  const length = Math.min(buffer.length, SNIFF_LENGTH);
+  for (let i = 0; i < length; i++) {
+    if (buffer[i] === 0) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Decode file bytes, honouring UTF-8 and UTF-16 byte order marks.
+ * Returns null for binary content.
+ */
+export function decodeText(buffer: Buffer): { content: string; encoding: TextEncoding } | null {
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) {
+    return { content: buffer.toString('utf16le', 2), encoding: 'utf-16le' };
+  }
+
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) {
+    // Node has no UTF-16BE decoder; swap to little-endian first
+    const swapped = Buffer.from(buffer.subarray(2, buffer.length - (buffer.length % 2)));
+    swapped.swap16();
+    return { content: swapped.toString('utf16le'), encoding: 'utf-16be' };
+  }
+
+  const hasUtf8Bom = buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf;
+  const body = hasUtf8Bom ? buffer.subarray(3) : buffer;
+
+  if (isBinaryContent(body)) {
+    return null;
+  }
+
+  return { content: body.toString('utf-8'), encoding: 'utf-8' };
+}
+
+/**
+ * Read a file's bytes, or report why it was skipped
+ */
+export async function readFileBuffer(
+  filePath: string,
+  maxFileSize: number = DEFAULT_MAX_FILE_SIZE
+): Promise<{ readonly buffer: Buffer } | { readonly skipped: SkippedFile }> {
+  try {
+    const { size } = await stat(filePath);
+    if (size > maxFileSize) {
+      return {
+        skipped: {
+          file: filePath,
+          reason: 'too-large',
+          detail: `${size} bytes exceeds the ${maxFileSize} byte limit`,
+        },
+      };
+    }
+    return { buffer: await readFile(filePath) };
+  } catch (error) {
+    return {
+      skipped: {
+        file: filePath,
+        reason: 'unreadable',
+        detail: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+}
+
+/**
+ * Read a file for scanning, or report why it was skipped
+ */
+export async function readTextFile(
+  filePath: string,
+  maxFileSize: number = DEFAULT_MAX_FILE_SIZE
+): Promise<TextFileResult> {
+  const file = await readFileBuffer(filePath, maxFileSize);
+  if ('skipped' in file) {
+    return file;
+  }
+
+  const decoded = decodeText(file.buffer);
+  if (decoded === null) {
+    return { skipped: { file: filePath, reason: 'binary' } };
+  }
+
+  return decoded;
+}
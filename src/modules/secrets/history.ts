@@ -0,0 +1,188 @@
+/**
+ * RepoHygiene - Git History Scanner
+ * Streams `git log -p` and `git diff` output through the secret detection pipeline
+ */
+
+import { spawn } from 'child_process';
+import { createInterface } from 'readline';
+import ignore from 'ignore';
+import type { GitContext } from '../../core/git.js';
+import type { PiiFamily, SecretFinding } from '../../types/index.js';
+import { SECRET_PATTERNS, type SecretPattern } from './patterns.js';
+import { createDiffReader, COMMIT_FORMAT, COMMIT_MARKER } from './diff.js';
+import { scanAddedLines } from './scanner.js';
+
+export interface HistoryScanOptions {
+  readonly exclude?: readonly string[];
+  readonly entropyThreshold?: number;
+  readonly patterns?: readonly SecretPattern[];
+  /** Decode long base64 blobs in added lines and scan the result */
+  readonly decodeBase64?: boolean;
+  /** PII detector families to run on added lines */
+  readonly pii?: readonly PiiFamily[];
+  /** Revision range to walk. Defaults to all refs. */
+  readonly revisions?: readonly string[];
+  readonly since?: string;
+  readonly maxCount?: number;
+}
+
+export interface HistoryScanResult {
+  readonly findings: SecretFinding[];
+  readonly scannedCommits: number;
+  readonly scannedFiles: number;
+}
+
+export interface DiffScanResult {
+  readonly findings: SecretFinding[];
+  readonly scannedFiles: number;
+}
+
+/**
+ * Scan every commit reachable from the given revisions for secrets.
+ *
+ * Only added lines are scanned, so each secret is attributed to the commit that
+ * introduced it. A secret that is later deleted is still reported because it
+ * remains retrievable from history. Repeated introductions of the same secret in
+ * the same file are collapsed into the earliest one.
+ */
+export async function scanGitHistory(
+  ctx: GitContext,
+  options: HistoryScanOptions = {}
+): Promise<HistoryScanResult> {
+  const {
+    exclude = [],
+    entropyThreshold = 4.5,
+    patterns = SECRET_PATTERNS,
+    revisions = ['--all'],
+    decodeBase64 = false,
+    pii = [],
+  } = options;
+
+  const args = [
+    'log',
+    '-p',
+    '--reverse',
+    '--no-color',
+    '--no-renames',
+    '--unified=0',
+    COMMIT_FORMAT,
+  ];
+  if (options.since !== undefined) {
+    args.push(`--since=${options.since}`);
+  }
+  if (options.maxCount !== undefined) {
+    args.push(`--max-count=${options.maxCount}`);
+  }
+  args.push(...revisions);
+
+  const excluded = ignore().add([...exclude]);
+  const seen = new Map<string, SecretFinding>();
+  const commits = new Set<string>();
+  const files = new Set<string>();
+
+  const reader = createDiffReader((file) => {
+    if (excluded.ignores(file.path)) {
+      return;
+    }
+
+    files.add(file.path);
+    for (const finding of scanAddedLines(file, patterns, entropyThreshold, { decodeBase64, pii })) {
+      const key = `${finding.type}\u0000${finding.file}\u0000${finding.match}`;
+      // --reverse walks oldest first, so the first sighting is the introduction
+      if (!seen.has(key)) {
+        seen.set(key, finding);
+      }
+    }
+  });
+
+  await streamGitLines(ctx.rootDir, args, (line) => {
+    if (line.startsWith(COMMIT_MARKER)) {
+      commits.add(line.slice(COMMIT_MARKER.length).split('\u0000')[0] ?? '');
+    }
+    reader.push(line);
+  });
+  reader.end();
+
+  return { findings: [...seen.values()], scannedCommits: commits.size, scannedFiles: files.size };
+}
+
+/**
+ * Scan only the lines added by a `git diff`. Pass `['--cached']` for the index
+ * (staged blob content, not the working tree) or `['base..head']` for a range.
+ */
+export async function scanGitDiff(
+  ctx: GitContext,
+  diffArgs: readonly string[],
+  options: Omit<HistoryScanOptions, 'revisions' | 'since' | 'maxCount'> = {}
+): Promise<DiffScanResult> {
+  const {
+    exclude = [],
+    entropyThreshold = 4.5,
+    patterns = SECRET_PATTERNS,
+    decodeBase64 = false,
+    pii = [],
+  } = options;
+
+  const args = [
+    'diff',
+    '--no-color',
+    '--no-renames',
+    '--no-ext-diff',
+    '--unified=0',
+    '--diff-filter=ACMR',
+    ...diffArgs,
+  ];
+
+  const excluded = ignore().add([...exclude]);
+  const findings: SecretFinding[] = [];
+  let scannedFiles = 0;
+
+  const reader = createDiffReader((file) => {
+    if (excluded.ignores(file.path)) {
+      return;
+    }
+
+    scannedFiles++;
+    findings.push(...scanAddedLines(file, patterns, entropyThreshold, { decodeBase64, pii }));
+  });
+
+  await streamGitLines(ctx.rootDir, args, (line) => reader.push(line));
+  reader.end();
+
+  return { findings, scannedFiles };
+}
+
+/**
+ * Run a git command and feed its stdout to `onLine` one line at a time
+ */
+async function streamGitLines(
+  cwd: string,
+  args: readonly string[],
+  onLine: (line: string) => void
+): Promise<void> {
+  // Print non-ASCII paths as they are rather than C-quoting them
+  const child = spawn('git', ['-c', 'core.quotePath=false', ...args], {
+    cwd,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+
+  let stderr = '';
+  child.stderr.on('data', (chunk: Buffer) => {
+    stderr += chunk.toString();
+  });
+
+  const exitCode = new Promise<number | null>((resolve, reject) => {
+    child.on('error', reject);
+    child.on('close', resolve);
+  });
+
+  const lines = createInterface({ input: child.stdout, crlfDelay: Infinity });
+  for await (const line of lines) {
+    onLine(line);
+  }
+
+  const code = await exitCode;
+  if (code !== 0) {
+    throw new Error(`git ${args[0] ?? ''} failed: ${stderr.trim() || `exit code ${code}`}`);
+  }
+}
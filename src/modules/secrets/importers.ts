@@ -0,0 +1,441 @@
+/**
+ * RepoHygiene - Rule Importers
+ * Convert gitleaks TOML and trufflehog custom detector configs into patterns and allowlists
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { extname, isAbsolute, join } from 'path';
+import { defaultLoaders } from 'cosmiconfig';
+import type { SecretAllowlistDefinition } from '../../types/index.js';
+import { matchesEmptyString, toRuleId, type SecretPattern } from './patterns.js';
+import { compileAllowlist, type SecretAllowlist } from './allowlist.js';
+import { parseToml, type TomlTable, type TomlValue } from '../../core/toml.js';
+
+export interface ImportedRules {
+  readonly patterns: SecretPattern[];
+  readonly allowlists: SecretAllowlist[];
+  /** Unsupported features, each naming the file and rule it came from */
+  readonly warnings: string[];
+}
+
+interface ConvertedRegex {
+  readonly source: string;
+  readonly flags: string;
+}
+
+const GITLEAKS_RULE_KEYS = new Set([
+  'id',
+  'description',
+  'regex',
+  'secretGroup',
+  'entropy',
+  'keywords',
+  'path',
+  'tags',
+  'allowlist',
+  'allowlists',
+]);
+
+const GITLEAKS_ALLOWLIST_KEYS = new Set([
+  'description',
+  'condition',
+  'paths',
+  'regexes',
+  'regexTarget',
+  'stopwords',
+  'commits',
+  'targetRules',
+]);
+
+const TRUFFLEHOG_DETECTOR_KEYS = new Set([
+  'name',
+  'keywords',
+  'regex',
+  'entropy',
+  'exclude_words',
+  'exclude_regexes_match',
+  'exclude_regexes_capture',
+  'primary_regex_name',
+  'verify',
+]);
+
+const POSIX_CLASSES: Readonly<Record<string, string>> = {
+  alnum: 'a-zA-Z0-9',
+  alpha: 'a-zA-Z',
+  ascii: '\\x00-\\x7F',
+  blank: ' \\t',
+  cntrl: '\\x00-\\x1F\\x7F',
+  digit: '0-9',
+  graph: '!-~',
+  lower: 'a-z',
+  print: ' -~',
+  punct: '!-\\/:-@\\[-`{-~',
+  space: '\\s',
+  upper: 'A-Z',
+  word: '\\w',
+  xdigit: '0-9A-Fa-f',
+};
+
+/**
+ * Translate a Go RE2 regex to JavaScript. Leading flag groups become flags,
+ * `(?P<name>` becomes `(?<name>` and POSIX classes are expanded; anything
+ * without a JavaScript equivalent throws.
+ */
+export function convertGoRegex(pattern: string): ConvertedRegex {
+  let source = pattern;
+  let flags = '';
+
+  const leading = /^\(\?([imsU]+)\)/.exec(source);
+  if (leading?.[1] !== undefined) {
+    if (leading[1].includes('U')) throw new Error('the U (ungreedy) flag is not supported');
+    flags = leading[1];
+    source = source.slice(leading[0].length);
+  }
+
+  if (/\(\?[-imsU]+[:)]/.test(source)) {
+    throw new Error('inline flag groups such as (?i) or (?-i:...) are only supported at the start');
+  }
+  if (/\\[QE]/.test(source)) throw new Error('\\Q...\\E literal quoting is not supported');
+  if (/\\[pP]/.test(source)) throw new Error('Unicode classes (\\p{...}) are not supported');
+
+  source = source
+    .replace(/\(\?P</g, '(?<')
+    .replace(/\[:(\^?)([a-z]+):\]/g, (whole, negated: string, name: string) => {
+      const expanded = POSIX_CLASSES[name];
+      if (expanded === undefined || negated !== '') {
+        throw new Error(`POSIX class ${whole} is not supported`);
+      }
+      return expanded;
+    })
+    .replace(/\\A/g, '^')
+    .replace(/\\z/g, flags.includes('m') ? '(?![\\s\\S])' : '$');
+
+  new RegExp(source, flags);
+  return { source, flags };
+}
+
+/**
+ * Name capture group `group` (1-based) `secret`, so the scanner reports it as
+ * the credential. Returns the source unchanged when there is no such group.
+ */
+export function markSecretGroup(source: string, group: number): string {
+  if (/\(\?<secret>/.test(source)) return source;
+
+  let index = 0;
+  let inClass = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      if (char === ']') inClass = false;
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      const rest = source.slice(i + 1);
+      const named = /^\?<([A-Za-z_][A-Za-z0-9_]*)>/.exec(rest);
+      if (rest.startsWith('?') && named === null) continue;
+
+      if (++index === group) {
+        const end = i + 1 + (named?.[0].length ?? 0);
+        return `${source.slice(0, i + 1)}?<secret>${source.slice(end)}`;
+      }
+    }
+  }
+  return source;
+}
+
+/**
+ * Whether the source has a capture group, ignoring escapes, classes and non-capturing groups
+ */
+function hasCaptureGroup(source: string): boolean {
+  return markSecretGroup(source, 1) !== source;
+}
+
+/**
+ * Convert a gitleaks config. Rules keep their gitleaks id as both rule id and
+ * name; the capture group gitleaks would report becomes the `secret` group.
+ */
+export function importGitleaksConfig(content: string, source: string): ImportedRules {
+  const config = parseToml(content);
+  const patterns: SecretPattern[] = [];
+  const allowlists: SecretAllowlist[] = [];
+  const warnings: string[] = [];
+
+  if (isTable(config.extend)) {
+    warnings.push(
+      `${source}: [extend] is not supported; gitleaks default rules are not imported (repohygiene's built-in patterns stay active)`
+    );
+  }
+
+  for (const [index, value] of asArray(config.rules).entries()) {
+    if (!isTable(value)) continue;
+    const id = typeof value.id === 'string' ? value.id : `rule-${index + 1}`;
+    const where = `${source}: rule "${id}"`;
+
+    for (const key of Object.keys(value)) {
+      if (!GITLEAKS_RULE_KEYS.has(key)) warnings.push(`${where}: "${key}" is not supported`);
+    }
+
+    for (const list of [...asArray(value.allowlist), ...asArray(value.allowlists)]) {
+      if (!isTable(list)) continue;
+      const converted = convertGitleaksAllowlist(list, `${where} allowlist`, warnings);
+      if (converted !== null) {
+        allowlists.push(compileAllowlist({ ...converted, rules: [id] }, source));
+      }
+    }
+
+    if (typeof value.regex !== 'string') {
+      warnings.push(`${where}: path-only rules are not supported; skipped`);
+      continue;
+    }
+    if (value.path !== undefined) {
+      warnings.push(`${where}: "path" is not supported; the rule applies to every file`);
+    }
+
+    const pattern = buildPattern(value.regex, where, warnings, {
+      id: toRuleId(id),
+      name: id,
+      description: typeof value.description === 'string' ? value.description : id,
+      secretGroup: typeof value.secretGroup === 'number' ? value.secretGroup : undefined,
+      entropy: typeof value.entropy === 'number' ? value.entropy : undefined,
+      keywords: asStrings(value.keywords),
+    });
+    if (pattern !== null) patterns.push(pattern);
+  }
+
+  for (const list of [...asArray(config.allowlist), ...asArray(config.allowlists)]) {
+    if (!isTable(list)) continue;
+    const converted = convertGitleaksAllowlist(list, `${source}: allowlist`, warnings);
+    if (converted !== null) {
+      const targetRules = asStrings(list.targetRules);
+      allowlists.push(
+        compileAllowlist(
+          targetRules !== undefined ? { ...converted, rules: targetRules } : converted,
+          source
+        )
+      );
+    }
+  }
+
+  return { patterns, allowlists, warnings };
+}
+
+/**
+ * Convert trufflehog custom detectors (the `detectors` list of its YAML config).
+ * Trufflehog requires every regex of a detector to match; here each regex
+ * becomes a pattern of its own.
+ */
+export function importTrufflehogConfig(config: unknown, source: string): ImportedRules {
+  const patterns: SecretPattern[] = [];
+  const allowlists: SecretAllowlist[] = [];
+  const warnings: string[] = [];
+
+  const detectors =
+    typeof config === 'object' && config !== null && 'detectors' in config
+      ? (config as { detectors: unknown }).detectors
+      : undefined;
+  if (!Array.isArray(detectors)) {
+    throw new Error(`${source} has no trufflehog "detectors" list`);
+  }
+
+  for (const [index, detector] of (detectors as unknown[]).entries()) {
+    if (typeof detector !== 'object' || detector === null) continue;
+    const value = detector as Record<string, unknown>;
+    const name = typeof value.name === 'string' ? value.name : `detector-${index + 1}`;
+    const where = `${source}: detector "${name}"`;
+
+    for (const key of Object.keys(value)) {
+      if (!TRUFFLEHOG_DETECTOR_KEYS.has(key)) warnings.push(`${where}: "${key}" is not supported`);
+    }
+    if (value.verify !== undefined) {
+      warnings.push(`${where}: "verify" webhooks are not supported; use secrets verifiers`);
+    }
+
+    const regexes = Object.entries(
+      typeof value.regex === 'object' && value.regex !== null ? value.regex : {}
+    ).filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+    if (regexes.length === 0) {
+      warnings.push(`${where}: no regex; skipped`);
+      continue;
+    }
+    if (regexes.length > 1) {
+      warnings.push(
+        `${where}: trufflehog requires all ${regexes.length} regexes to match together; each is imported as a separate pattern`
+      );
+    }
+
+    const ids: string[] = [];
+    for (const [key, regex] of regexes) {
+      const patternName = regexes.length > 1 ? `${name} ${key}` : name;
+      const pattern = buildPattern(regex, `${where} regex "${key}"`, warnings, {
+        id: toRuleId(patternName),
+        name: patternName,
+        description: `${name} (imported from trufflehog)`,
+        entropy: typeof value.entropy === 'number' ? value.entropy : undefined,
+        keywords: asStrings(value.keywords),
+      });
+      if (pattern !== null) {
+        patterns.push(pattern);
+        ids.push(pattern.id);
+      }
+    }
+
+    const exclusions: SecretAllowlistDefinition[] = [
+      { stopwords: asStrings(value.exclude_words) },
+      { regexes: asStrings(value.exclude_regexes_match), regexTarget: 'match' },
+      { regexes: asStrings(value.exclude_regexes_capture), regexTarget: 'secret' },
+    ];
+    for (const exclusion of exclusions) {
+      if ((exclusion.stopwords ?? exclusion.regexes) === undefined || ids.length === 0) continue;
+      allowlists.push(
+        compileAllowlist({ ...exclusion, description: `${name} exclusions`, rules: ids }, source)
+      );
+    }
+  }
+
+  return { patterns, allowlists, warnings };
+}
+
+/**
+ * Load a gitleaks `.toml` or trufflehog `.yaml` / `.yml` / `.json` file
+ */
+export async function loadRuleImport(cwd: string, specifier: string): Promise<ImportedRules> {
+  const filepath = isAbsolute(specifier) ? specifier : join(cwd, specifier);
+  if (!existsSync(filepath)) {
+    throw new Error(`Rule import not found: ${specifier}`);
+  }
+
+  const content = await readFile(filepath, 'utf-8');
+  const extension = extname(filepath).toLowerCase();
+
+  if (extension === '.toml') {
+    return importGitleaksConfig(content, specifier);
+  }
+
+  const loader = defaultLoaders[extension as keyof typeof defaultLoaders];
+  if (loader === undefined || extension === '.js' || extension === '.cjs' || extension === '.mjs') {
+    throw new Error(
+      `Unsupported rule import format: ${specifier} (expected .toml, .yaml or .json)`
+    );
+  }
+  return importTrufflehogConfig(await loader(filepath, content), specifier);
+}
+
+function buildPattern(
+  regex: string,
+  where: string,
+  warnings: string[],
+  rule: {
+    id: string;
+    name: string;
+    description: string;
+    secretGroup?: number;
+    entropy?: number;
+    keywords?: readonly string[];
+  }
+): SecretPattern | null {
+  let converted: ConvertedRegex;
+  try {
+    converted = convertGoRegex(regex);
+  } catch (error) {
+    warnings.push(
+      `${where}: regex not imported, ${error instanceof Error ? error.message : String(error)}`
+    );
+    return null;
+  }
+
+  // Like gitleaks, report the requested group, or else the first group when there is one
+  let source = converted.source;
+  if (rule.secretGroup !== undefined && rule.secretGroup > 0) {
+    source = markSecretGroup(source, rule.secretGroup);
+  } else if (hasCaptureGroup(source)) {
+    source = markSecretGroup(source, 1);
+  }
+
+  const pattern = new RegExp(source, `${converted.flags}g`);
+  if (matchesEmptyString(pattern)) {
+    warnings.push(`${where}: regex matches the empty string; skipped`);
+    return null;
+  }
+
+  return {
+    id: rule.id,
+    name: rule.name,
+    pattern,
+    severity: 'high',
+    description: rule.description,
+    keywords: rule.keywords,
+    minEntropy: rule.entropy,
+  };
+}
+
+function convertGitleaksAllowlist(
+  list: TomlTable,
+  where: string,
+  warnings: string[]
+): SecretAllowlistDefinition | null {
+  for (const key of Object.keys(list)) {
+    if (!GITLEAKS_ALLOWLIST_KEYS.has(key)) warnings.push(`${where}: "${key}" is not supported`);
+  }
+
+  const regexes: RegExp[] = [];
+  for (const regex of asStrings(list.regexes) ?? []) {
+    try {
+      const converted = convertGoRegex(regex);
+      regexes.push(new RegExp(converted.source, converted.flags));
+    } catch (error) {
+      warnings.push(
+        `${where}: regex ${JSON.stringify(regex)} not imported, ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  const paths: RegExp[] = [];
+  for (const path of asStrings(list.paths) ?? []) {
+    try {
+      const converted = convertGoRegex(path);
+      paths.push(new RegExp(converted.source, converted.flags));
+    } catch (error) {
+      warnings.push(
+        `${where}: path ${JSON.stringify(path)} not imported, ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  const condition = typeof list.condition === 'string' ? list.condition.toLowerCase() : 'or';
+  const regexTarget = typeof list.regexTarget === 'string' ? list.regexTarget : 'secret';
+  if (
+    (condition !== 'or' && condition !== 'and') ||
+    !['secret', 'match', 'line'].includes(regexTarget)
+  ) {
+    warnings.push(`${where}: unknown condition or regexTarget; allowlist skipped`);
+    return null;
+  }
+
+  return {
+    description: typeof list.description === 'string' ? list.description : undefined,
+    paths,
+    regexes,
+    regexTarget: regexTarget as SecretAllowlistDefinition['regexTarget'],
+    stopwords: asStrings(list.stopwords),
+    commits: asStrings(list.commits),
+    condition,
+  };
+}
+
+function isTable(value: TomlValue | undefined): value is TomlTable {
+  return typeof value === 'object' && !Array.isArray(value);
+}
+
+function asArray(value: TomlValue | undefined): TomlValue[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function asStrings(value: unknown): string[] | undefined {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string')
+    : undefined;
+}
@@ -2,7 +2,137 @@
  * RepoHygiene - Secrets Module Exports
  */
 
-export { SECRET_PATTERNS, getPatternsBySeverity, type SecretPattern } from './patterns.js';
+export {
+  SECRET_PATTERNS,
+  getPatternsBySeverity,
+  toRuleId,
+  type SecretPattern,
+} from './patterns.js';
 export { calculateEntropy, isHighEntropy, findHighEntropyStrings, maskSecret } from './entropy.js';
-export { scanFilesForSecrets, type FileScanOptions } from './scanner.js';
+export {
+  scanFilesForSecrets,
+  scanContent,
+  scanAddedLines,
+  scanFile,
+  mergeFileScanResults,
+  type FileScanOptions,
+  type FileScanResult,
+  type ScanFileOptions,
+  type ContentScanOptions,
+} from './scanner.js';
+export { createLineIndex, type LineIndex } from './lines.js';
+export {
+  DEFAULT_MAX_FILE_SIZE,
+  isBinaryContent,
+  decodeText,
+  readFileBuffer,
+  readTextFile,
+  type TextEncoding,
+  type TextFileResult,
+} from './files.js';
+export {
+  createDiffReader,
+  parseUnifiedDiff,
+  type DiffFile,
+  type AddedLine,
+  type DiffCommitHeader,
+} from './diff.js';
+export {
+  scanGitHistory,
+  scanGitDiff,
+  type HistoryScanOptions,
+  type HistoryScanResult,
+  type DiffScanResult,
+} from './history.js';
+export {
+  VIRTUAL_PATH_SEPARATOR,
+  isArchivePath,
+  isNotebookPath,
+  extractArchive,
+  extractNotebook,
+  findEncodedPayloads,
+  type ExtractedContent,
+  type ExtractionResult,
+  type ExtractOptions,
+  type EncodedPayload,
+} from './extractors.js';
+export {
+  PII_FAMILIES,
+  PII_DETECTORS,
+  resolvePiiFamilies,
+  isPiiFinding,
+  detectPii,
+  passesLuhn,
+  isIban,
+  type PiiDetector,
+} from './pii.js';
+export {
+  checkSensitiveFiles,
+  getSensitiveKind,
+  parseEnvKeys,
+  compareEnvKeys,
+  type SensitiveFilesOptions,
+} from './sensitive-files.js';
+export {
+  createKeywordMatcher,
+  getPatternPrefilter,
+  type KeywordMatcher,
+  type PatternPrefilter,
+} from './keywords.js';
+export { resolveConcurrency, scanFilesInWorkers, type WorkerPoolOptions } from './pool.js';
+export {
+  resolveSecretPatterns,
+  loadPatternPack,
+  compilePattern,
+  type ResolvedPatterns,
+} from './loader.js';
+export {
+  DEFAULT_BASELINE_PATH,
+  fingerprintFinding,
+  loadBaseline,
+  createBaseline,
+  writeBaseline,
+  applyBaseline,
+  type SecretBaseline,
+  type BaselineComparison,
+} from './baseline.js';
+export {
+  SECRET_SEVERITIES,
+  isSecretSeverity,
+  applySeverityOverrides,
+  meetsMinSeverity,
+  toIssueSeverity,
+} from './severity.js';
+export {
+  BUILT_IN_VERIFIERS,
+  createVerifierRegistry,
+  verifyFindings,
+  sortByVerification,
+  type SecretVerifier,
+  type VerifierRegistry,
+  type VerifierContext,
+  type VerificationResult,
+  type VerifyOptions,
+} from './verify.js';
+export {
+  createRemediationPlan,
+  formatReplacements,
+  writeReplacementsFile,
+  rewriteHistory,
+  rewriteFastExportStream,
+  type RemediationPlan,
+  type RemediationSecret,
+  type RemediationLocation,
+  type RewriteResult,
+} from './remediate.js';
+export { compileAllowlist, applyAllowlists, type SecretAllowlist } from './allowlist.js';
+export {
+  importGitleaksConfig,
+  importTrufflehogConfig,
+  loadRuleImport,
+  convertGoRegex,
+  markSecretGroup,
+  type ImportedRules,
+} from './importers.js';
+export { parseToml, type TomlTable, type TomlValue } from '../../core/toml.js';
 export { SecretsAuditor, createSecretsAuditor } from './auditor.js';
@@ -0,0 +1,128 @@
+/**
+ * RepoHygiene - Keyword Prefilter
+ * Aho-Corasick matcher that picks the patterns worth running on a file
+ */
+
+import type { SecretPattern } from './patterns.js';
+
+interface AutomatonNode {
+  readonly next: Map<string, number>;
+  fail: number;
+  /** Keyword indexes that end at this node, including via failure links */
+  output: number[];
+}
+
+export interface KeywordMatcher {
+  /** Indexes of the keywords found in the text */
+  readonly findKeywords: (text: string) => Set<number>;
+}
+
+export interface PatternPrefilter {
+  /** Patterns that could match the content, in their original order */
+  readonly select: (content: string) => readonly SecretPattern[];
+}
+
+const prefilterCache = new WeakMap<readonly SecretPattern[], PatternPrefilter>();
+
+/**
+ * Build an Aho-Corasick automaton over case-insensitive keywords.
+ * Text passed to `findKeywords` must already be lowercased.
+ */
+export function createKeywordMatcher(keywords: readonly string[]): KeywordMatcher {
+  const nodes: AutomatonNode[] = [{ next: new Map(), fail: 0, output: [] }];
+
+  keywords.forEach((keyword, index) => {
+    let state = 0;
+    for (const char of keyword.toLowerCase()) {
+      let target = nodes[state]?.next.get(char);
+      if (target === undefined) {
+        target = nodes.length;
+        nodes.push({ next: new Map(), fail: 0, output: [] });
+        nodes[state]?.next.set(char, target);
+      }
+      state = target;
+    }
+    nodes[state]?.output.push(index);
+  });
+
+  // Breadth-first pass to wire failure links
+  const queue: number[] = [...(nodes[0]?.next.values() ?? [])];
+  for (let head = 0; head < queue.length; head++) {
+    const state = queue[head] ?? 0;
+    const node = nodes[state];
+    if (node === undefined) continue;
+
+    for (const [char, child] of node.next) {
+      let fail = node.fail;
+      while (fail !== 0 && nodes[fail]?.next.has(char) !== true) {
+        fail = nodes[fail]?.fail ?? 0;
+      }
+      const failTarget = nodes[fail]?.next.get(char);
+      const childNode = nodes[child];
+      if (childNode !== undefined) {
+        childNode.fail = failTarget !== undefined && failTarget !== child ? failTarget : 0;
+        childNode.output = [...childNode.output, ...(nodes[childNode.fail]?.output ?? [])];
+      }
+      queue.push(child);
+    }
+  }
+
+  return {
+    findKeywords(text: string): Set<number> {
+      const found = new Set<number>();
+      let state = 0;
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text.charAt(i);
+        while (state !== 0 && nodes[state]?.next.has(char) !== true) {
+          state = nodes[state]?.fail ?? 0;
+        }
+        state = nodes[state]?.next.get(char) ?? 0;
+
+        const output = nodes[state]?.output;
+        if (output !== undefined && output.length > 0) {
+          for (const index of output) found.add(index);
+          // Every keyword seen, nothing left to learn from the rest of the text
+          if (found.size === keywords.length) break;
+        }
+      }
+
+      return found;
+    },
+  };
+}
+
+/**
+ * Create a prefilter for a pattern set. Patterns without keywords always run;
+ * the rest only run when one of their keywords appears in the content.
+ * Prefilters are cached per pattern array.
+ */
+export function getPatternPrefilter(patterns: readonly SecretPattern[]): PatternPrefilter {
+  const cached = prefilterCache.get(patterns);
+  if (cached) {
+    return cached;
+  }
+
+  const keywords: string[] = [];
+  const keywordIndexes = patterns.map((pattern) =>
+    (pattern.keywords ?? []).map((keyword) => keywords.push(keyword.toLowerCase()) - 1)
+  );
+  const matcher = createKeywordMatcher(keywords);
+
+  const prefilter: PatternPrefilter = {
+    select(content: string): readonly SecretPattern[] {
+      if (keywords.length === 0) {
+        return patterns;
+      }
+
+      const found = matcher.findKeywords(content.toLowerCase());
+      return patterns.filter((_, i) => {
+        const indexes = keywordIndexes[i] ?? [];
+        return indexes.length === 0 || indexes.some((index) => found.has(index));
+      });
+    },
+  };
+
+  prefilterCache.set(patterns, prefilter);
+  return prefilter;
+}
@@ -0,0 +1,43 @@
+/**
+ * RepoHygiene - Line Index
+ * Map string offsets in scanned content to lines and columns
+ */
+
+export interface LineIndex {
+  /** 1-based line and column of a string offset */
+  readonly locate: (position: number) => { line: number; column: number };
+  /** Content of a 1-based line, without its newline */
+  readonly lineAt: (content: string, line: number) => string;
+}
+
+/**
+ * Precompute line start offsets so positions resolve by binary search
+ */
+export function createLineIndex(content: string): LineIndex {
+  const starts = [0];
+  for (let i = content.indexOf('\n'); i !== -1; i = content.indexOf('\n', i + 1)) {
+    starts.push(i + 1);
+  }
+
+  return {
+    locate(position: number): { line: number; column: number } {
+      let low = 0;
+      let high = starts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if ((starts[mid] ?? 0) <= position) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return { line: low + 1, column: position - (starts[low] ?? 0) + 1 };
+    },
+    lineAt(text: string, line: number): string {
+      const start = starts[line - 1];
+      if (start === undefined) return '';
+      const next = starts[line];
+      return text.slice(start, next === undefined ? text.length : next - 1);
+    },
+  };
+}
@@ -0,0 +1,177 @@
+/**
+ * RepoHygiene - Secret Pattern Loader
+ * Resolve the active pattern set from built-ins, config and pattern packs
+ */
+
+import { readFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { createRequire } from 'module';
+import { extname, isAbsolute, join } from 'path';
+import { defaultLoaders } from 'cosmiconfig';
+import type { RepoHygieneConfig, SecretPatternDefinition } from '../../types/index.js';
+import { matchesEmptyString, SECRET_PATTERNS, toRuleId, type SecretPattern } from './patterns.js';
+import { compileAllowlist, type SecretAllowlist } from './allowlist.js';
+import { loadRuleImport } from './importers.js';
+
+export interface ResolvedPatterns {
+  readonly patterns: SecretPattern[];
+  /** From `secrets.allowlists` and imported gitleaks / trufflehog configs */
+  readonly allowlists: SecretAllowlist[];
+  readonly warnings: string[];
+}
+
+const SEVERITIES = new Set(['high', 'medium', 'low']);
+
+/**
+ * Compile a user-defined pattern into a global regex-backed SecretPattern
+ */
+export function compilePattern(definition: SecretPatternDefinition, source: string): SecretPattern {
+  if (typeof definition.name !== 'string' || definition.name.trim() === '') {
+    throw new Error(`Invalid secret pattern in ${source}: "name" is required`);
+  }
+
+  const severity = definition.severity ?? 'high';
+  if (!SEVERITIES.has(severity)) {
+    throw new Error(
+      `Invalid secret pattern "${definition.name}" in ${source}: severity must be high, medium or low`
+    );
+  }
+
+  let pattern: RegExp;
+  try {
+    if (definition.pattern instanceof RegExp) {
+      const flags = definition.pattern.flags.includes('g')
+        ? definition.pattern.flags
+        : `${definition.pattern.flags}g`;
+      pattern = new RegExp(definition.pattern.source, flags);
+    } else if (typeof definition.pattern === 'string') {
+      const flags = definition.flags ?? '';
+      pattern = new RegExp(definition.pattern, flags.includes('g') ? flags : `${flags}g`);
+    } else {
+      throw new Error('"pattern" must be a string or RegExp');
+    }
+  } catch (error) {
+    throw new Error(
+      `Invalid secret pattern "${definition.name}" in ${source}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (matchesEmptyString(pattern)) {
+    throw new Error(
+      `Invalid secret pattern "${definition.name}" in ${source}: pattern matches the empty string`
+    );
+  }
+
+  return {
+    id: definition.id ?? toRuleId(definition.name),
+    name: definition.name,
+    pattern,
+    severity,
+    description: definition.description ?? definition.name,
+    keywords: definition.keywords,
+    minEntropy: definition.minEntropy,
+  };
+}
+
+/**
+ * Load a pattern pack from a local JSON/YAML/JS file or an installed npm package.
+ * A pack is either an array of definitions or an object with a `patterns` array.
+ */
+export async function loadPatternPack(cwd: string, specifier: string): Promise<SecretPattern[]> {
+  const filepath = resolvePackPath(cwd, specifier);
+  const extension = extname(filepath).toLowerCase();
+  const loader = defaultLoaders[extension as keyof typeof defaultLoaders];
+
+  if (loader === undefined) {
+    throw new Error(`Unsupported pattern pack format: ${specifier}`);
+  }
+
+  const content = await readFile(filepath, 'utf-8');
+  const loaded = (await loader(filepath, content)) as
+    | SecretPatternDefinition[]
+    | { default?: unknown; patterns?: SecretPatternDefinition[] }
+    | null;
+
+  const pack =
+    loaded !== null && !Array.isArray(loaded) && loaded.default !== undefined
+      ? (loaded.default as typeof loaded)
+      : loaded;
+  const definitions = Array.isArray(pack) ? pack : pack?.patterns;
+
+  if (!Array.isArray(definitions)) {
+    throw new Error(`Pattern pack ${specifier} must export an array of patterns`);
+  }
+
+  return definitions.map((definition) => compilePattern(definition, specifier));
+}
+
+/**
+ * Resolve the active pattern set for a repository.
+ *
+ * Built-ins come first, minus any listed by name or id in `disabledPatterns`. Patterns from
+ * packs, from imported gitleaks / trufflehog configs and from `secrets.patterns` are
+ * added after, and replace a built-in with the same name. Features of imported
+ * configs that can't be converted are reported as warnings.
+ */
+export async function resolveSecretPatterns(
+  cwd: string,
+  config: RepoHygieneConfig
+): Promise<ResolvedPatterns> {
+  const secrets = config.secrets ?? {};
+  const warnings: string[] = [];
+
+  const disabled = new Set(secrets.disabledPatterns ?? []);
+  for (const name of disabled) {
+    if (!SECRET_PATTERNS.some((p) => p.name === name || p.id === name)) {
+      warnings.push(`Unknown built-in secret pattern in disabledPatterns: "${name}"`);
+    }
+  }
+
+  const extra: SecretPattern[] = [];
+  for (const specifier of secrets.patternPacks ?? []) {
+    extra.push(...(await loadPatternPack(cwd, specifier)));
+  }
+  const allowlists: SecretAllowlist[] = [];
+  for (const specifier of secrets.ruleImports ?? []) {
+    const imported = await loadRuleImport(cwd, specifier);
+    extra.push(...imported.patterns);
+    allowlists.push(...imported.allowlists);
+    warnings.push(...imported.warnings);
+  }
+  for (const definition of secrets.patterns ?? []) {
+    extra.push(compilePattern(definition, 'secrets.patterns'));
+  }
+
+  const byName = new Map<string, SecretPattern>();
+  for (const pattern of SECRET_PATTERNS) {
+    if (!disabled.has(pattern.name) && !disabled.has(pattern.id)) {
+      byName.set(pattern.name, pattern);
+    }
+  }
+  for (const pattern of extra) {
+    byName.set(pattern.name, pattern);
+  }
+
+  for (const definition of secrets.allowlists ?? []) {
+    allowlists.push(compileAllowlist(definition, 'secrets.allowlists'));
+  }
+
+  return { patterns: [...byName.values()], allowlists, warnings };
+}
+
+/**
+ * Resolve a pack specifier to a file path: relative/absolute paths first, then
+ * node module resolution from the repository root
+ */
+function resolvePackPath(cwd: string, specifier: string): string {
+  const local = isAbsolute(specifier) ? specifier : join(cwd, specifier);
+  if (existsSync(local)) {
+    return local;
+  }
+
+  try {
+    return createRequire(join(cwd, 'package.json')).resolve(specifier);
+  } catch {
+    throw new Error(`Pattern pack not found: ${specifier}`);
+  }
+}
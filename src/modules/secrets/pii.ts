@@ -0,0 +1,299 @@
+/**
+ * RepoHygiene - PII Detectors
+ * Checksum-validated detectors for payment data, national IDs and bulk contact lists
+ */
+
+import type { PiiFamily, PiiSetting, SecretFinding, SecretSeverity } from '../../types/index.js';
+import { maskSecret } from './entropy.js';
+import { createLineIndex } from './lines.js';
+
+export interface PiiDetector {
+  /** Stable rule id used in issues, suppressions and severity overrides */
+  readonly id: string;
+  readonly name: string;
+  readonly family: PiiFamily;
+  /** Candidate matches; each must also pass `validate` */
+  readonly pattern: RegExp;
+  readonly severity: SecretSeverity;
+  readonly description: string;
+  readonly validate: (match: string) => boolean;
+  /** Report one finding per file once this many distinct values appear in a fixture or seed file */
+  readonly bulkThreshold?: number;
+}
+
+export const PII_FAMILIES: readonly PiiFamily[] = [
+  'credit-card',
+  'iban',
+  'national-id',
+  'email-list',
+  'phone-list',
+];
+
+/** Published test card numbers that are safe to commit */
+const TEST_CARD_NUMBERS = new Set([
+  '4111111111111111',
+  '4242424242424242',
+  '4012888888881881',
+  '4000056655665556',
+  '5555555555554444',
+  '5105105105105100',
+  '5200828282828210',
+  '378282246310005',
+  '371449635398431',
+  '6011111111111117',
+  '3566002020360505',
+]);
+
+/** IBAN length per country, from the SWIFT IBAN registry */
+// prettier-ignore
+const IBAN_LENGTHS: Readonly<Record<string, number>> = {
+  AD: 24, AE: 23, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29, CH: 21, CR: 22,
+  CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, ES: 24, FI: 18, FO: 18, FR: 27, GB: 22,
+  GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21, HU: 28, IE: 22, IL: 23, IS: 26, IT: 27,
+  JO: 30, KW: 30, KZ: 20, LB: 28, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22,
+  MK: 19, MR: 27, MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29,
+  RO: 24, RS: 22, SA: 24, SE: 24, SI: 19, SK: 24, SM: 27, TN: 24, TR: 26, UA: 29, VG: 24,
+  XK: 20,
+};
+
+/** Domains reserved for documentation and testing (RFC 2606 / RFC 6761) */
+const RESERVED_EMAIL_DOMAIN = /(^|\.)(example\.(com|org|net)|example|test|invalid|localhost)$/i;
+
+/** Paths that hold fixture, seed or dump data */
+const FIXTURE_PATH =
+  /(^|[\\/!])(fixtures?|__fixtures__|seeds?|seeders?|testdata|test-data|mocks?|__mocks__|dumps?)([\\/]|$)|(seed|fixture|dump)[^\\/]*$/i;
+
+/**
+ * Built-in PII detectors
+ */
+export const PII_DETECTORS: readonly PiiDetector[] = [
+  {
+    id: 'pii-credit-card',
+    name: 'Credit Card Number',
+    family: 'credit-card',
+    pattern: /(?<!\d|\d[.-])\d(?:[ -]?\d){12,18}(?!\d|[.-]\d)/g,
+    severity: 'high',
+    description: 'Payment card number with a valid Luhn checksum',
+    validate: isCardNumber,
+  },
+  {
+    id: 'pii-iban',
+    name: 'IBAN',
+    family: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    severity: 'medium',
+    description: 'International bank account number with a valid checksum',
+    validate: isIban,
+  },
+  {
+    id: 'pii-us-ssn',
+    name: 'US Social Security Number',
+    family: 'national-id',
+    pattern: /(?<![\d-])(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}(?![\d-])/g,
+    severity: 'high',
+    description: 'United States Social Security number',
+    // Never issued: the Woolworth wallet card and the SSA's own example
+    validate: (match) => match !== '078-05-1120' && match !== '123-45-6789',
+  },
+  {
+    id: 'pii-uk-nino',
+    name: 'UK National Insurance Number',
+    family: 'national-id',
+    pattern:
+      /(?<![A-Za-z0-9])(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D](?![A-Za-z0-9])/g,
+    severity: 'high',
+    description: 'United Kingdom National Insurance number',
+    validate: () => true,
+  },
+  {
+    id: 'pii-ca-sin',
+    name: 'Canadian Social Insurance Number',
+    family: 'national-id',
+    pattern: /(?<![\d-])[1-79]\d{2}([ -])\d{3}\1\d{3}(?![\d-])/g,
+    severity: 'high',
+    description: 'Canadian Social Insurance number with a valid Luhn checksum',
+    validate: (match) => passesLuhn(match.replace(/\D/g, '')),
+  },
+  {
+    id: 'pii-email-list',
+    name: 'Email Address List',
+    family: 'email-list',
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    severity: 'medium',
+    description: 'Many distinct email addresses in a fixture or seed file',
+    validate: (match) => !RESERVED_EMAIL_DOMAIN.test(match.slice(match.indexOf('@') + 1)),
+    bulkThreshold: 10,
+  },
+  {
+    id: 'pii-phone-list',
+    name: 'Phone Number List',
+    family: 'phone-list',
+    pattern:
+      /(?<![\w+])(?:(?:\+1[ .-]?)?(?:\([2-9]\d{2}\) ?|[2-9]\d{2}[ .-])[2-9]\d{2}[ .-]\d{4}|\+[1-9]\d{7,14}|\+[1-9]\d{0,2}(?:[ .-]\d{2,4}){2,5})(?!\d)/g,
+    severity: 'low',
+    description: 'Many distinct phone numbers in a fixture or seed file',
+    validate: isPhoneNumber,
+    bulkThreshold: 10,
+  },
+];
+
+const PII_RULE_IDS = new Set(PII_DETECTORS.map((d) => d.id));
+
+/**
+ * Resolve the enabled PII families. PII detection is off unless asked for:
+ * `true` turns on every family, and an object turns on every family it
+ * doesn't switch off. Unknown family names are reported as warnings.
+ */
+export function resolvePiiFamilies(setting: PiiSetting | undefined): {
+  families: PiiFamily[];
+  warnings: string[];
+} {
+  if (setting === undefined || setting === false) {
+    return { families: [], warnings: [] };
+  }
+  if (setting === true) {
+    return { families: [...PII_FAMILIES], warnings: [] };
+  }
+
+  const warnings = Object.keys(setting)
+    .filter((family) => !PII_FAMILIES.includes(family as PiiFamily))
+    .map((family) => `Unknown PII family in secrets.pii: "${family}"`);
+
+  return { families: PII_FAMILIES.filter((family) => setting[family] !== false), warnings };
+}
+
+/**
+ * Whether a finding came from a PII detector rather than a secret pattern
+ */
+export function isPiiFinding(finding: Pick<SecretFinding, 'ruleId'>): boolean {
+  return PII_RULE_IDS.has(finding.ruleId);
+}
+
+/**
+ * Run the detectors of the enabled families over content. Bulk list detectors
+ * only run on fixture and seed files, and report one finding per file.
+ */
+export function detectPii(
+  content: string,
+  filePath: string,
+  families: readonly PiiFamily[]
+): SecretFinding[] {
+  const findings: SecretFinding[] = [];
+  const lineIndex = createLineIndex(content);
+  const isFixture = FIXTURE_PATH.test(filePath);
+
+  for (const detector of PII_DETECTORS) {
+    if (!families.includes(detector.family)) continue;
+    if (detector.bulkThreshold !== undefined && !isFixture) continue;
+
+    const seen = new Map<string, number>();
+    detector.pattern.lastIndex = 0;
+
+    let match;
+    while ((match = detector.pattern.exec(content)) !== null) {
+      const value = match[0];
+      if (!detector.validate(value)) continue;
+
+      if (detector.bulkThreshold !== undefined) {
+        if (!seen.has(value)) seen.set(value, match.index);
+        continue;
+      }
+
+      const { line, column } = lineIndex.locate(match.index);
+      findings.push({
+        type: detector.name,
+        ruleId: detector.id,
+        severity: detector.severity,
+        file: filePath,
+        line,
+        column,
+        match: value,
+        masked: maskSecret(value),
+      });
+    }
+
+    if (detector.bulkThreshold !== undefined && seen.size >= detector.bulkThreshold) {
+      const [first, position] = [...seen][0] ?? ['', 0];
+      const { line, column } = lineIndex.locate(position);
+      findings.push({
+        type: detector.name,
+        ruleId: detector.id,
+        severity: detector.severity,
+        file: filePath,
+        line,
+        column,
+        match: first,
+        masked: `${maskSecret(first)} and ${seen.size - 1} more`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Luhn (mod 10) checksum over a string of digits
+ */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+/**
+ * ISO 13616 check: known country length and mod-97 remainder of 1
+ */
+export function isIban(value: string): boolean {
+  const iban = value.replace(/ /g, '');
+  if (IBAN_LENGTHS[iban.slice(0, 2)] !== iban.length) {
+    return false;
+  }
+
+  let remainder = 0;
+  for (const char of iban.slice(4) + iban.slice(0, 4)) {
+    const code = char >= 'A' ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of code) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+function isCardNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (TEST_CARD_NUMBERS.has(digits) || !passesLuhn(digits)) {
+    return false;
+  }
+
+  const length = digits.length;
+  const prefix = (n: number): number => Number(digits.slice(0, n));
+
+  // Visa, Mastercard, Amex, Discover, JCB and Diners Club issuer ranges
+  return (
+    (digits.startsWith('4') && [13, 16, 19].includes(length)) ||
+    (((prefix(2) >= 51 && prefix(2) <= 55) || (prefix(4) >= 2221 && prefix(4) <= 2720)) &&
+      length === 16) ||
+    ((prefix(2) === 34 || prefix(2) === 37) && length === 15) ||
+    ((prefix(4) === 6011 || prefix(2) === 65 || (prefix(3) >= 644 && prefix(3) <= 649)) &&
+      length >= 16) ||
+    (prefix(4) >= 3528 && prefix(4) <= 3589 && length >= 16) ||
+    (((prefix(3) >= 300 && prefix(3) <= 305) || [36, 38, 39].includes(prefix(2))) && length >= 14)
+  );
+}
+
+function isPhoneNumber(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 8 || digits.length > 15) {
+    return false;
+  }
+  // 555 exchanges are reserved for fiction in the North American plan
+  const national = value.startsWith('+1') || !value.startsWith('+') ? digits.slice(-7) : '';
+  return !national.startsWith('555');
+}
@@ -0,0 +1,191 @@
+/**
+ * RepoHygiene - Secrets Worker Pool
+ * Spread file scanning across worker threads
+ */
+
+import { Worker } from 'worker_threads';
+import { existsSync } from 'fs';
+import { fileURLToPath } from 'url';
+import * as os from 'os';
+import type { PiiFamily, SecretSeverity } from '../../types/index.js';
+import type { SecretPattern } from './patterns.js';
+import { mergeFileScanResults, type FileScanResult } from './scanner.js';
+
+/** Pattern in a form that can be posted to a worker */
+export interface SerializedPattern {
+  readonly id: string;
+  readonly name: string;
+  readonly source: string;
+  readonly flags: string;
+  readonly severity: SecretSeverity;
+  readonly description: string;
+  readonly keywords?: readonly string[];
+  readonly minEntropy?: number;
+}
+
+export interface SecretsWorkerData {
+  readonly patterns: readonly SerializedPattern[];
+  readonly entropyThreshold: number;
+  readonly maxFileSize: number;
+  readonly decodeBase64: boolean;
+  readonly pii: readonly PiiFamily[];
+}
+
+export interface WorkerScanRequest {
+  readonly id: number;
+  readonly files: readonly string[];
+}
+
+export interface WorkerScanResponse {
+  readonly id: number;
+  readonly result?: FileScanResult;
+  readonly error?: string;
+}
+
+export interface WorkerPoolOptions {
+  readonly patterns: readonly SecretPattern[];
+  readonly entropyThreshold: number;
+  readonly maxFileSize: number;
+  readonly decodeBase64: boolean;
+  readonly pii: readonly PiiFamily[];
+  readonly concurrency: number;
+}
+
+/** Files handed to a worker per message */
+const CHUNK_SIZE = 64;
+
+/** Bundled worker location, relative to the library and CLI entry points */
+const WORKER_SCRIPTS = ['./secrets-worker.js', '../secrets-worker.js'];
+
+/**
+ * Validate a concurrency setting, defaulting to the available cores minus one
+ */
+export function resolveConcurrency(concurrency?: number): number {
+  if (concurrency !== undefined) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid concurrency "${String(concurrency)}", expected a positive integer`);
+    }
+    return concurrency;
+  }
+
+  const cores =
+    typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
+  return Math.max(1, cores - 1);
+}
+
+/**
+ * Convert patterns to plain objects for posting to workers
+ */
+export function serializePatterns(patterns: readonly SecretPattern[]): SerializedPattern[] {
+  return patterns.map((p) => ({
+    id: p.id,
+    name: p.name,
+    source: p.pattern.source,
+    flags: p.pattern.flags,
+    severity: p.severity,
+    description: p.description,
+    keywords: p.keywords,
+    minEntropy: p.minEntropy,
+  }));
+}
+
+/**
+ * Rebuild patterns posted by the main thread
+ */
+export function deserializePatterns(patterns: readonly SerializedPattern[]): SecretPattern[] {
+  return patterns.map((p) => ({
+    id: p.id,
+    name: p.name,
+    pattern: new RegExp(p.source, p.flags),
+    severity: p.severity,
+    description: p.description,
+    keywords: p.keywords,
+    minEntropy: p.minEntropy,
+  }));
+}
+
+/**
+ * Scan files on a pool of worker threads. Results keep the order of `files`.
+ * Returns null when the worker script isn't available (e.g. running from source),
+ * so the caller can scan in-process instead.
+ */
+export async function scanFilesInWorkers(
+  files: readonly string[],
+  options: WorkerPoolOptions
+): Promise<FileScanResult | null> {
+  const script = resolveWorkerScript();
+  if (script === null || files.length === 0) {
+    return null;
+  }
+
+  const chunks: string[][] = [];
+  for (let i = 0; i < files.length; i += CHUNK_SIZE) {
+    chunks.push(files.slice(i, i + CHUNK_SIZE));
+  }
+
+  const workerData: SecretsWorkerData = {
+    patterns: serializePatterns(options.patterns),
+    entropyThreshold: options.entropyThreshold,
+    maxFileSize: options.maxFileSize,
+    decodeBase64: options.decodeBase64,
+    pii: options.pii,
+  };
+  const results: Array<FileScanResult | undefined> = [];
+  const workers: Worker[] = [];
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let next = 0;
+      let done = 0;
+
+      const dispatch = (worker: Worker): void => {
+        if (next < chunks.length) {
+          const request: WorkerScanRequest = { id: next, files: chunks[next] ?? [] };
+          next++;
+          worker.postMessage(request);
+        }
+      };
+
+      for (let i = 0; i < Math.min(options.concurrency, chunks.length); i++) {
+        const worker = new Worker(script, { workerData });
+        workers.push(worker);
+
+        worker.on('message', (response: WorkerScanResponse) => {
+          if (response.error !== undefined) {
+            reject(new Error(`Secrets worker failed: ${response.error}`));
+            return;
+          }
+          results[response.id] = response.result;
+          done++;
+          if (done === chunks.length) {
+            resolve();
+          } else {
+            dispatch(worker);
+          }
+        });
+        worker.on('error', reject);
+        worker.on('exit', (code) => {
+          if (code !== 0 && done < chunks.length) {
+            reject(new Error(`Secrets worker exited with code ${code}`));
+          }
+        });
+
+        dispatch(worker);
+      }
+    });
+  } finally {
+    await Promise.all(workers.map((worker) => worker.terminate()));
+  }
+
+  return mergeFileScanResults(results.filter((r): r is FileScanResult => r !== undefined));
+}
+
+function resolveWorkerScript(): URL | null {
+  for (const candidate of WORKER_SCRIPTS) {
+    const url = new URL(candidate, import.meta.url);
+    if (existsSync(fileURLToPath(url))) {
+      return url;
+    }
+  }
+  return null;
+}
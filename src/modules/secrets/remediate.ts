@@ -0,0 +1,382 @@
+/**
+ * RepoHygiene - Secrets Remediation
+ * Plan and apply the removal of leaked secrets from the working tree and history
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, readFileSync } from 'fs';
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { isAbsolute, join } from 'path';
+import { simpleGit } from 'simple-git';
+import type { GitContext } from '../../core/git.js';
+import type { SecretFinding } from '../../types/index.js';
+import { toRepoPath } from './baseline.js';
+import { VIRTUAL_PATH_SEPARATOR } from './extractors.js';
+import { isPiiFinding } from './pii.js';
+
+export interface RemediationLocation {
+  readonly file: string;
+  readonly line: number;
+  readonly commit?: string;
+}
+
+export interface RemediationSecret {
+  readonly type: string;
+  readonly ruleId: string;
+  readonly masked: string;
+  /** The raw credential as it appears in files, encoded if it was found encoded; never print this */
+  readonly value: string;
+  /** Text the credential is replaced with when rewriting */
+  readonly replacement: string;
+  readonly locations: readonly RemediationLocation[];
+  /** Commits that introduced the secret */
+  readonly commits: readonly string[];
+  /** Working-tree files that still contain the secret */
+  readonly workingTreeFiles: readonly string[];
+}
+
+export interface RemediationPlan {
+  readonly secrets: readonly RemediationSecret[];
+  /** Private keys whose full block couldn't be read, to be removed by hand */
+  readonly manual: readonly RemediationLocation[];
+  /** Refs whose history contains at least one of the secrets */
+  readonly refs: readonly string[];
+}
+
+export interface RewriteResult {
+  /** Mirror clone holding the rewritten history */
+  readonly cloneDir: string;
+  /** Refs in the clone after rewriting */
+  readonly refs: readonly string[];
+}
+
+/** Rules that match only the BEGIN line of a private key */
+const PRIVATE_KEY_RULES = new Set(['rsa-private-key', 'ssh-private-key', 'pgp-private-key']);
+
+const KEY_BLOCK = /-----BEGIN ([A-Z0-9 ]+)-----[\s\S]*?-----END \1-----/g;
+
+/**
+ * Group findings by secret into a remediation plan. Suppressed and baselined
+ * findings are left alone, as is personal data, which has no credential to
+ * rotate. Secrets found by decoding are rewritten as the encoded text that
+ * appears in files, and private keys as their whole BEGIN...END block; keys
+ * whose block can't be read are listed for removal by hand. Affected refs are
+ * every ref containing an introducing commit.
+ */
+export async function createRemediationPlan(
+  ctx: GitContext,
+  findings: readonly SecretFinding[]
+): Promise<RemediationPlan> {
+  const bySecret = new Map<
+    string,
+    { finding: SecretFinding; value: string; locations: RemediationLocation[] }
+  >();
+  const manual: RemediationLocation[] = [];
+
+  for (const finding of findings) {
+    if (finding.suppressed === true || finding.baselined === true || isPiiFinding(finding)) {
+      continue;
+    }
+
+    const location = {
+      file: toRepoPath(ctx.rootDir, finding.file),
+      line: finding.line,
+      commit: finding.commit,
+    };
+    let secret = finding.secret ?? finding.match;
+    if (PRIVATE_KEY_RULES.has(finding.ruleId)) {
+      // Replacing only the header would leave the key material behind
+      const block = await readKeyBlock(ctx, location);
+      if (block === undefined) {
+        manual.push(location);
+        continue;
+      }
+      secret = block;
+    }
+
+    const value = finding.encoded ?? secret;
+    // One blob can encode several secrets, each to be rotated
+    const key = `${value}\u0000${secret}`;
+    const entry = bySecret.get(key) ?? { finding, value, locations: [] };
+    entry.locations.push(location);
+    bySecret.set(key, entry);
+  }
+
+  const secrets: RemediationSecret[] = [];
+  for (const { finding, value, locations } of bySecret.values()) {
+    const files = [...new Set(locations.map((l) => l.file))];
+    secrets.push({
+      type: finding.type,
+      ruleId: finding.ruleId,
+      masked: finding.masked,
+      value,
+      replacement: `***REMOVED:${finding.ruleId}***`,
+      locations,
+      commits: [
+        ...new Set(locations.map((l) => l.commit).filter((c): c is string => c !== undefined)),
+      ],
+      workingTreeFiles: files.filter((file) => fileContains(ctx.rootDir, file, value)),
+    });
+  }
+
+  const refs = new Set<string>();
+  if (ctx.isGitRepo) {
+    for (const commit of new Set(secrets.flatMap((s) => s.commits))) {
+      const output = await ctx.git
+        .raw(['for-each-ref', '--contains', commit, '--format=%(refname)'])
+        .catch(() => '');
+      for (const ref of output.split('\n')) {
+        if (ref.trim() !== '') refs.add(ref.trim());
+      }
+    }
+  }
+
+  return { secrets, manual, refs: [...refs].sort() };
+}
+
+/**
+ * The private key block starting on a finding's line, read from the commit
+ * that introduced it or else from the working tree
+ */
+async function readKeyBlock(
+  ctx: GitContext,
+  location: RemediationLocation
+): Promise<string | undefined> {
+  if (location.file.includes(VIRTUAL_PATH_SEPARATOR)) {
+    return undefined;
+  }
+
+  let content: string | undefined;
+  if (location.commit !== undefined && ctx.isGitRepo) {
+    content = await ctx.git.show([`${location.commit}:${location.file}`]).catch(() => undefined);
+  }
+  if (content === undefined) {
+    try {
+      content = readFileSync(join(ctx.rootDir, location.file), 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  const lines = content.split('\n');
+  const header = lines[location.line - 1];
+  if (header === undefined) {
+    return undefined;
+  }
+  const lineStart = lines.slice(0, location.line - 1).reduce((n, l) => n + l.length + 1, 0);
+
+  KEY_BLOCK.lastIndex = lineStart;
+  const match = KEY_BLOCK.exec(content);
+  if (match === null || match.index > lineStart + header.length) {
+    return undefined;
+  }
+  return match[0];
+}
+
+/**
+ * Render the plan as a `git filter-repo --replace-text` file. Values spanning
+ * several lines, such as private keys, can't be written as literals and are
+ * matched by an escaped regex instead.
+ */
+export function formatReplacements(plan: RemediationPlan): string {
+  const values = new Map(plan.secrets.map((s) => [s.value, s.replacement]));
+  return [...values]
+    .map(([value, replacement]) =>
+      /[\r\n]/.test(value)
+        ? `regex:${escapeMultilineValue(value)}==>${replacement}\n`
+        : `literal:${value}==>${replacement}\n`
+    )
+    .join('');
+}
+
+function escapeMultilineValue(value: string): string {
+  return value
+    .replace(/[^A-Za-z0-9\r\n]/g, '\\$&')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n');
+}
+
+/**
+ * Write the replacements file, readable by the owner only. Defaults to a fresh
+ * temporary directory so the raw secrets never land inside the repository.
+ */
+export async function writeReplacementsFile(plan: RemediationPlan, path?: string): Promise<string> {
+  const target = path ?? join(await mkdtemp(join(tmpdir(), 'repohygiene-')), 'replacements.txt');
+  await writeFile(target, formatReplacements(plan), { encoding: 'utf-8', mode: 0o600 });
+  return target;
+}
+
+/**
+ * Rewrite history on a throwaway mirror clone, replacing every secret in all
+ * blobs and commit messages. The original repository is not touched; the
+ * clone can be reviewed and force-pushed by hand.
+ */
+export async function rewriteHistory(
+  ctx: GitContext,
+  plan: RemediationPlan,
+  cloneDir?: string
+): Promise<RewriteResult> {
+  if (!ctx.isGitRepo) {
+    throw new Error('Rewriting history requires a git repository');
+  }
+
+  const target =
+    cloneDir ?? join(await mkdtemp(join(tmpdir(), 'repohygiene-rewrite-')), 'repo.git');
+  if (existsSync(target) && cloneDir !== undefined) {
+    throw new Error(`Clone directory already exists: ${target}`);
+  }
+
+  await ctx.git.clone(ctx.rootDir, target, ['--mirror', '--no-local']);
+
+  const replacements = plan.secrets.map(
+    (s) => [Buffer.from(s.value), Buffer.from(s.replacement)] as const
+  );
+  await pipeFastExport(target, replacements);
+
+  const clone = simpleGit(target);
+  await clone.raw(['reflog', 'expire', '--expire=now', '--all']);
+  await clone.raw(['gc', '--prune=now', '--quiet']);
+
+  const refs = await clone.raw(['for-each-ref', '--format=%(refname)']);
+  return {
+    cloneDir: target,
+    refs: refs
+      .split('\n')
+      .map((r) => r.trim())
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Rewrite a `git fast-export` stream, replacing literals inside every `data`
+ * block and fixing up its byte count
+ */
+export async function* rewriteFastExportStream(
+  source: AsyncIterable<Buffer>,
+  replacements: ReadonlyArray<readonly [Buffer, Buffer]>
+): AsyncGenerator<Buffer> {
+  let line = Buffer.alloc(0);
+  let dataLength: number | null = null;
+  const parts: Buffer[] = [];
+  let partsLength = 0;
+
+  for await (const chunk of source) {
+    let input = chunk;
+
+    while (input.length > 0) {
+      if (dataLength !== null) {
+        const take = input.subarray(0, dataLength - partsLength);
+        parts.push(take);
+        partsLength += take.length;
+        input = input.subarray(take.length);
+
+        if (partsLength === dataLength) {
+          const data = replaceAll(Buffer.concat(parts), replacements);
+          yield Buffer.from(`data ${data.length}\n`);
+          yield data;
+          parts.length = 0;
+          partsLength = 0;
+          dataLength = null;
+        }
+        continue;
+      }
+
+      const newline = input.indexOf(0x0a);
+      if (newline === -1) {
+        line = Buffer.concat([line, input]);
+        break;
+      }
+
+      const full = Buffer.concat([line, input.subarray(0, newline + 1)]);
+      line = Buffer.alloc(0);
+      input = input.subarray(newline + 1);
+
+      const header = /^data (\d+)\n$/.exec(full.toString('latin1'));
+      if (header && Number(header[1]) > 0) {
+        dataLength = Number(header[1]);
+      } else {
+        yield full;
+      }
+    }
+  }
+
+  if (line.length > 0) {
+    yield line;
+  }
+}
+
+function replaceAll(data: Buffer, replacements: ReadonlyArray<readonly [Buffer, Buffer]>): Buffer {
+  let result = data;
+  for (const [from, to] of replacements) {
+    if (from.length === 0 || result.indexOf(from) === -1) continue;
+
+    const pieces: Buffer[] = [];
+    let start = 0;
+    for (let i = result.indexOf(from); i !== -1; i = result.indexOf(from, start)) {
+      pieces.push(result.subarray(start, i), to);
+      start = i + from.length;
+    }
+    pieces.push(result.subarray(start));
+    result = Buffer.concat(pieces);
+  }
+  return result;
+}
+
+/**
+ * Stream `git fast-export` through the rewriter into `git fast-import`
+ */
+async function pipeFastExport(
+  repoDir: string,
+  replacements: ReadonlyArray<readonly [Buffer, Buffer]>
+): Promise<void> {
+  const exporter = spawn('git', ['fast-export', '--all', '--signed-tags=strip'], {
+    cwd: repoDir,
+    stdio: ['ignore', 'pipe', 'pipe'],
+  });
+  const importer = spawn('git', ['fast-import', '--force', '--quiet'], {
+    cwd: repoDir,
+    stdio: ['pipe', 'ignore', 'pipe'],
+  });
+
+  const exited = (child: ReturnType<typeof spawn>, name: string): Promise<void> => {
+    let stderr = '';
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    return new Promise((resolve, reject) => {
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) resolve();
+        else reject(new Error(`git ${name} failed (exit ${code}): ${stderr.trim()}`));
+      });
+    });
+  };
+
+  const exportDone = exited(exporter, 'fast-export');
+  const importDone = exited(importer, 'fast-import');
+
+  for await (const chunk of rewriteFastExportStream(
+    exporter.stdout as AsyncIterable<Buffer>,
+    replacements
+  )) {
+    if (!importer.stdin.write(chunk)) {
+      await new Promise<void>((resolve) => importer.stdin.once('drain', resolve));
+    }
+  }
+  importer.stdin.end();
+
+  await Promise.all([exportDone, importDone]);
+}
+
+function fileContains(rootDir: string, file: string, value: string): boolean {
+  if (file.includes(VIRTUAL_PATH_SEPARATOR)) {
+    return false;
+  }
+  const path = isAbsolute(file) ? file : join(rootDir, file);
+  try {
+    return existsSync(path) && readFileSync(path, 'utf-8').includes(value);
+  } catch {
+    return false;
+  }
+}
@@ -3,11 +3,30 @@
  * Scans files for secrets using patterns and entropy
  */
 
-import { readFile } from 'fs/promises';
 import { globby } from 'globby';
-import type { SecretFinding } from '../../types/index.js';
+import type { PiiFamily, SecretFinding, SkippedFile } from '../../types/index.js';
+import {
+  parseSuppressions,
+  findSuppression,
+  suppressionTargetsModule,
+  type Suppression,
+} from '../../core/suppressions.js';
 import { SECRET_PATTERNS, type SecretPattern } from './patterns.js';
-import { findHighEntropyStrings, maskSecret } from './entropy.js';
+import { calculateEntropy, findHighEntropyStrings, maskSecret } from './entropy.js';
+import { getPatternPrefilter } from './keywords.js';
+import { DEFAULT_MAX_FILE_SIZE, readFileBuffer, readTextFile } from './files.js';
+import {
+  extractArchive,
+  extractNotebook,
+  findEncodedPayloads,
+  isArchivePath,
+  isNotebookPath,
+  type ExtractedContent,
+} from './extractors.js';
+import { detectPii } from './pii.js';
+import { createLineIndex } from './lines.js';
+import { resolveConcurrency, scanFilesInWorkers } from './pool.js';
+import type { DiffFile } from './diff.js';
 
 export interface FileScanOptions {
   readonly cwd: string;
@@ -15,6 +34,29 @@ export interface FileScanOptions {
   readonly exclude?: readonly string[];
   readonly entropyThreshold?: number;
   readonly patterns?: readonly SecretPattern[];
+  /** Worker threads to spread files across; defaults to the available cores minus one */
+  readonly concurrency?: number;
+  /** Files larger than this many bytes are skipped */
+  readonly maxFileSize?: number;
+  /** Decode long base64 blobs and scan the result */
+  readonly decodeBase64?: boolean;
+  /** PII detector families to run */
+  readonly pii?: readonly PiiFamily[];
+}
+
+export interface ScanFileOptions {
+  readonly patterns: readonly SecretPattern[];
+  readonly entropyThreshold: number;
+  readonly maxFileSize?: number;
+  readonly decodeBase64?: boolean;
+  readonly pii?: readonly PiiFamily[];
+}
+
+export interface ContentScanOptions {
+  /** Decode long base64 blobs and scan the result */
+  readonly decodeBase64?: boolean;
+  /** PII detector families to run */
+  readonly pii?: readonly PiiFamily[];
 }
 
 const DEFAULT_EXCLUDES = [
@@ -42,98 +84,284 @@ const DEFAULT_EXCLUDES = [
   '*.eot',
 ];
 
-const DEFAULT_INCLUDES = [
-  '**/*.js',
-  '**/*.ts',
-  '**/*.jsx',
-  '**/*.tsx',
-  '**/*.json',
-  '**/*.yaml',
-  '**/*.yml',
-  '**/*.env*',
-  '**/*.config.*',
-  '**/*.toml',
-  '**/*.ini',
-  '**/*.conf',
-  '**/*.sh',
-  '**/*.bash',
-  '**/*.py',
-  '**/*.rb',
-  '**/*.go',
-  '**/*.java',
-  '**/*.properties',
-  '**/*.xml',
-];
+/** Every file is a candidate; binaries are skipped by content sniffing */
+const DEFAULT_INCLUDES = ['**/*'];
+
+/** Git's own object store and logs, never scanned whatever the excludes say */
+const ALWAYS_EXCLUDED = ['**/.git/**'];
+
+/** Below this many files, worker startup costs more than it saves */
+const WORKER_MIN_FILES = 200;
+
+export interface FileScanResult {
+  readonly findings: SecretFinding[];
+  readonly scannedFiles: number;
+  /** Suppression comments for secrets that matched no finding */
+  readonly unusedSuppressions: Array<{ file: string; suppression: Suppression }>;
+  /** Binary, oversized and unreadable files, or archive members, that were not scanned */
+  readonly skipped: SkippedFile[];
+}
 
 /**
  * Scan files for secrets
  */
-export async function scanFilesForSecrets(
-  options: FileScanOptions
-): Promise<{ findings: SecretFinding[]; scannedFiles: number }> {
+export async function scanFilesForSecrets(options: FileScanOptions): Promise<FileScanResult> {
   const {
     cwd,
     include = DEFAULT_INCLUDES,
     exclude = DEFAULT_EXCLUDES,
     entropyThreshold = 4.5,
     patterns = SECRET_PATTERNS,
+    concurrency,
+    maxFileSize = DEFAULT_MAX_FILE_SIZE,
+    decodeBase64 = false,
+    pii = [],
   } = options;
 
-  // Find files to scan
+  // Find files to scan, including dotfiles such as `.env.production`
   const files = await globby(include as string[], {
     cwd,
-    ignore: exclude as string[],
+    ignore: [...exclude, ...ALWAYS_EXCLUDED],
     absolute: true,
+    dot: true,
   });
 
-  const findings: SecretFinding[] = [];
+  const workers = resolveConcurrency(concurrency);
+  if (workers > 1 && files.length >= WORKER_MIN_FILES) {
+    const pooled = await scanFilesInWorkers(files, {
+      patterns,
+      entropyThreshold,
+      maxFileSize,
+      decodeBase64,
+      pii,
+      concurrency: workers,
+    });
+    if (pooled !== null) {
+      return pooled;
+    }
+  }
 
+  const results: FileScanResult[] = [];
   for (const filePath of files) {
-    try {
-      const content = await readFile(filePath, 'utf-8');
-      const fileFindings = scanContent(content, filePath, patterns, entropyThreshold);
-      findings.push(...fileFindings);
-    } catch {
-      // Skip unreadable files (binary, permissions, etc.)
+    results.push(
+      await scanFile(filePath, { patterns, entropyThreshold, maxFileSize, decodeBase64, pii })
+    );
+  }
+
+  return mergeFileScanResults(results);
+}
+
+/**
+ * Combine per-file or per-batch scan results, keeping their order
+ */
+export function mergeFileScanResults(results: readonly FileScanResult[]): FileScanResult {
+  return {
+    findings: results.flatMap((r) => r.findings),
+    scannedFiles: results.reduce((total, r) => total + r.scannedFiles, 0),
+    unusedSuppressions: results.flatMap((r) => r.unusedSuppressions),
+    skipped: results.flatMap((r) => r.skipped),
+  };
+}
+
+/**
+ * Read and scan a single file. Archives and notebooks are scanned member by
+ * member under virtual paths; binary, oversized and unreadable files are
+ * reported as skipped instead.
+ */
+export async function scanFile(
+  filePath: string,
+  options: ScanFileOptions
+): Promise<FileScanResult> {
+  const maxFileSize = options.maxFileSize ?? DEFAULT_MAX_FILE_SIZE;
+
+  if (isArchivePath(filePath)) {
+    const file = await readFileBuffer(filePath, maxFileSize);
+    if ('skipped' in file) {
+      return { findings: [], scannedFiles: 0, unusedSuppressions: [], skipped: [file.skipped] };
+    }
+
+    const archive = extractArchive(file.buffer, filePath, { maxFileSize });
+    const isUnreadable = archive.skipped.some((s) => s.file === filePath);
+    return {
+      ...scanExtracted(archive.entries, options),
+      scannedFiles: isUnreadable ? 0 : 1,
+      skipped: archive.skipped,
+    };
+  }
+
+  const file = await readTextFile(filePath, maxFileSize);
+  if ('skipped' in file) {
+    return { findings: [], scannedFiles: 0, unusedSuppressions: [], skipped: [file.skipped] };
+  }
+
+  const cells = isNotebookPath(filePath) ? extractNotebook(file.content, filePath) : null;
+  const entries = cells ?? [{ path: filePath, content: file.content }];
+
+  return { ...scanExtracted(entries, options), scannedFiles: 1, skipped: [] };
+}
+
+/**
+ * Scan extracted text, collecting suppressions for secrets that matched nothing
+ */
+function scanExtracted(
+  entries: readonly ExtractedContent[],
+  options: ScanFileOptions
+): Pick<FileScanResult, 'findings' | 'unusedSuppressions'> {
+  const findings: SecretFinding[] = [];
+  const unusedSuppressions: FileScanResult['unusedSuppressions'] = [];
+
+  for (const { path, content } of entries) {
+    const entryFindings = scanContent(content, path, options.patterns, options.entropyThreshold, {
+      decodeBase64: options.decodeBase64,
+      pii: options.pii,
+    });
+    findings.push(...entryFindings);
+
+    for (const suppression of parseSuppressions(content)) {
+      const isUsed = entryFindings.some(
+        (f) => f.suppressed === true && f.line === suppression.targetLine
+      );
+      // A suppression without rules may be there for another module's issue
+      if (!isUsed && suppressionTargetsModule(suppression, 'secrets')) {
+        unusedSuppressions.push({ file: path, suppression });
+      }
     }
   }
 
-  return { findings, scannedFiles: files.length };
+  return { findings, unusedSuppressions };
 }
 
 /**
- * Scan content for secrets
+ * Scan the added lines of a diff, reporting line numbers in the new file
  */
-function scanContent(
+export function scanAddedLines(
+  file: DiffFile,
+  patterns: readonly SecretPattern[] = SECRET_PATTERNS,
+  entropyThreshold: number = 4.5,
+  options: ContentScanOptions = {}
+): SecretFinding[] {
+  const content = file.addedLines.map((l) => l.content).join('\n');
+
+  return scanContent(content, file.path, patterns, entropyThreshold, options).map((finding) => ({
+    ...finding,
+    line: file.addedLines[finding.line - 1]?.line ?? finding.line,
+    commit: file.commit?.hash,
+    author: file.commit?.author,
+    date: file.commit?.date,
+  }));
+}
+
+/**
+ * Scan content for secrets. Findings on lines covered by a
+ * `repohygiene-ignore` comment are kept but marked as suppressed.
+ */
+export function scanContent(
+  content: string,
+  filePath: string,
+  patterns: readonly SecretPattern[],
+  entropyThreshold: number,
+  options: ContentScanOptions = {}
+): SecretFinding[] {
+  const findings = detectSecrets(content, filePath, patterns, entropyThreshold);
+  if (options.decodeBase64 === true) {
+    findings.push(...detectEncodedSecrets(content, filePath, patterns));
+  }
+  if (options.pii !== undefined && options.pii.length > 0) {
+    findings.push(...detectPii(content, filePath, options.pii));
+  }
+
+  const suppressions = parseSuppressions(content);
+  if (suppressions.length === 0) {
+    return findings;
+  }
+
+  return findings.map((finding) => {
+    const suppression = findSuppression(suppressions, 'secrets', finding.ruleId, finding.line);
+    return suppression
+      ? { ...finding, suppressed: true, suppressionReason: suppression.reason }
+      : finding;
+  });
+}
+
+/**
+ * Run pattern detection over decoded base64 blobs. Findings point at the blob
+ * in the original content.
+ */
+function detectEncodedSecrets(
+  content: string,
+  filePath: string,
+  patterns: readonly SecretPattern[]
+): SecretFinding[] {
+  const payloads = findEncodedPayloads(content);
+  if (payloads.length === 0) {
+    return [];
+  }
+
+  const lineIndex = createLineIndex(content);
+  return payloads.flatMap((payload) => {
+    const { line, column } = lineIndex.locate(payload.position);
+    // Entropy is meaningless on decoded text, so only patterns run
+    return detectSecrets(payload.decoded, filePath, patterns, Number.POSITIVE_INFINITY).map(
+      (finding) => ({
+        ...finding,
+        line,
+        column,
+        encoding: 'base64' as const,
+        encoded: payload.value,
+      })
+    );
+  });
+}
+
+/**
+ * Run pattern and entropy detection over content
+ */
+function detectSecrets(
   content: string,
   filePath: string,
   patterns: readonly SecretPattern[],
   entropyThreshold: number
 ): SecretFinding[] {
   const findings: SecretFinding[] = [];
-  const lines = content.split('\n');
+  const lineIndex = createLineIndex(content);
 
-  // Pattern-based detection
-  for (const pattern of patterns) {
+  // Pattern-based detection, limited to patterns whose keywords occur in the file
+  for (const pattern of getPatternPrefilter(patterns).select(content)) {
     // Reset regex state
     pattern.pattern.lastIndex = 0;
 
     let match;
     while ((match = pattern.pattern.exec(content)) !== null) {
-      const { line, column } = getLineAndColumn(content, match.index);
+      // Step past empty matches, which would otherwise never advance
+      if (match[0] === '') {
+        pattern.pattern.lastIndex++;
+        continue;
+      }
+      const secret = match.groups?.secret;
+      if (
+        pattern.minEntropy !== undefined &&
+        calculateEntropy(secret ?? match[0]) < pattern.minEntropy
+      ) {
+        continue;
+      }
+
+      const { line, column } = lineIndex.locate(match.index);
 
       // Skip if it looks like a test/example
-      const lineContent = lines[line - 1] ?? '';
+      const lineContent = lineIndex.lineAt(content, line);
       if (isLikelyFalsePositive(lineContent, match[0])) {
         continue;
       }
 
       findings.push({
         type: pattern.name,
+        ruleId: pattern.id,
+        severity: pattern.severity,
         file: filePath,
         line,
         column,
         match: match[0],
+        secret,
         masked: maskSecret(match[0]),
       });
     }
@@ -142,9 +370,9 @@ function scanContent(
   // Entropy-based detection
   const highEntropyStrings = findHighEntropyStrings(content, entropyThreshold);
   for (const { value, entropy, position } of highEntropyStrings) {
-    const { line, column } = getLineAndColumn(content, position);
+    const { line, column } = lineIndex.locate(position);
 
-    const lineContent = lines[line - 1] ?? '';
+    const lineContent = lineIndex.lineAt(content, line);
     if (isLikelyFalsePositive(lineContent, value)) {
       continue;
     }
@@ -155,6 +383,8 @@ function scanContent(
 
     findings.push({
       type: 'High Entropy String',
+      ruleId: 'high-entropy-string',
+      severity: 'medium',
       file: filePath,
       line,
       column,
@@ -167,16 +397,6 @@ function scanContent(
   return findings;
 }
 
-/**
- * Get line and column from string position
- */
-function getLineAndColumn(content: string, position: number): { line: number; column: number } {
-  const lines = content.slice(0, position).split('\n');
-  const line = lines.length;
-  const column = (lines[lines.length - 1]?.length ?? 0) + 1;
-  return { line, column };
-}
-
 /**
  * Check if a match is likely a false positive
  */
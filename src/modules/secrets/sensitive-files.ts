@@ -0,0 +1,192 @@
+/**
+ * RepoHygiene - Sensitive File Check
+ * Find secret-bearing files that are tracked or not gitignored, and `.env.example` drift
+ */
+
+import { readFile } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import { globby } from 'globby';
+import ignore from 'ignore';
+import { listTrackedFiles, type GitContext } from '../../core/git.js';
+import type { EnvExampleDrift, SensitiveFile, SensitiveFilesReport } from '../../types/index.js';
+
+export interface SensitiveFilesOptions {
+  readonly exclude?: readonly string[];
+  /** Only check these repository-relative paths, such as the files a diff changed */
+  readonly paths?: readonly string[];
+}
+
+/** Candidate names; `.npmrc` only counts when it holds a literal auth token */
+const SENSITIVE_FILE_GLOBS = [
+  '**/.env',
+  '**/.env.*',
+  '**/*.pem',
+  '**/*.p12',
+  '**/*.pfx',
+  '**/id_rsa',
+  '**/id_dsa',
+  '**/id_ecdsa',
+  '**/id_ed25519',
+  '**/credentials.json',
+  '**/.npmrc',
+];
+
+const DEFAULT_EXCLUDES = ['node_modules/**', '.git/**', 'dist/**', 'build/**', 'coverage/**'];
+
+/** `.env` variants meant to be committed, with placeholder values */
+const ENV_TEMPLATE_SUFFIXES = new Set(['example', 'sample', 'template', 'dist', 'defaults', 'tpl']);
+
+/** A token value that isn't an environment variable reference */
+const NPMRC_LITERAL_TOKEN = /_authToken\s*=\s*(?!\$\{)\S+/;
+
+const ENV_KEY = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=/;
+
+/**
+ * Classify a path by name, returning what kind of sensitive file it is, or
+ * null. Environment templates such as `.env.example` are not sensitive.
+ */
+export function getSensitiveKind(path: string): string | null {
+  const name = basename(path);
+
+  if (name === '.env' || name.startsWith('.env.')) {
+    const suffix = name.slice('.env.'.length).toLowerCase();
+    return ENV_TEMPLATE_SUFFIXES.has(suffix) ? null : 'environment file';
+  }
+  if (name.endsWith('.pem')) return 'PEM certificate or key';
+  if (name.endsWith('.p12') || name.endsWith('.pfx')) return 'PKCS#12 keystore';
+  if (/^id_(rsa|dsa|ecdsa|ed25519)$/.test(name)) return 'SSH private key';
+  if (name === 'credentials.json') return 'credentials file';
+  if (name === '.npmrc') return 'npm auth token';
+
+  return null;
+}
+
+/**
+ * Keys assigned in a dotenv file, in order of first appearance
+ */
+export function parseEnvKeys(content: string): string[] {
+  const keys = new Set<string>();
+  for (const line of content.split(/\r?\n/)) {
+    const key = ENV_KEY.exec(line)?.[1];
+    if (key !== undefined) keys.add(key);
+  }
+  return [...keys];
+}
+
+/**
+ * Compare the keys of an `.env` file with its example
+ */
+export function compareEnvKeys(
+  envContent: string,
+  exampleContent: string
+): Pick<EnvExampleDrift, 'missingFromExample' | 'missingFromEnv'> {
+  const envKeys = parseEnvKeys(envContent);
+  const exampleKeys = parseEnvKeys(exampleContent);
+
+  return {
+    missingFromExample: envKeys.filter((key) => !exampleKeys.includes(key)),
+    missingFromEnv: exampleKeys.filter((key) => !envKeys.includes(key)),
+  };
+}
+
+/**
+ * Compare sensitive files on disk and in the index with `git ls-files` and
+ * `.gitignore`, and check every `.env.example` against the `.env` next to it.
+ * Tracking checks need a git repository; the `.env.example` check does not.
+ */
+export async function checkSensitiveFiles(
+  ctx: GitContext,
+  options: SensitiveFilesOptions = {}
+): Promise<SensitiveFilesReport> {
+  const excludes = [...DEFAULT_EXCLUDES, ...(options.exclude ?? [])];
+  const onDisk = await globby(SENSITIVE_FILE_GLOBS, {
+    cwd: ctx.rootDir,
+    ignore: excludes,
+    dot: true,
+  });
+  onDisk.sort();
+
+  // A tracked file deleted from the working tree is still in the index
+  const excluded = ignore().add(excludes);
+  const trackedFiles = new Set(
+    ctx.isGitRepo ? await listTrackedFiles(ctx).catch(() => [] as string[]) : []
+  );
+  const only = options.paths !== undefined ? new Set(options.paths) : undefined;
+  const candidates = [
+    ...new Set([...onDisk, ...[...trackedFiles].filter((file) => getSensitiveKind(file) !== null)]),
+  ]
+    .filter((file) => !excluded.ignores(file) && (only === undefined || only.has(file)))
+    .sort();
+
+  const sensitive: SensitiveFile[] = [];
+  for (const file of candidates) {
+    const kind = getSensitiveKind(file);
+    if (kind === null) continue;
+    if (basename(file) === '.npmrc' && !(await hasLiteralNpmToken(ctx, file))) {
+      continue;
+    }
+    sensitive.push({ file, kind });
+  }
+
+  const tracked: SensitiveFile[] = [];
+  const unignored: SensitiveFile[] = [];
+
+  if (ctx.isGitRepo) {
+    const untracked: SensitiveFile[] = [];
+    for (const entry of sensitive) {
+      if (trackedFiles.has(entry.file)) {
+        tracked.push(entry);
+      } else {
+        untracked.push(entry);
+      }
+    }
+
+    const ignored =
+      untracked.length > 0
+        ? new Set(await ctx.git.checkIgnore(untracked.map((e) => e.file)).catch(() => []))
+        : new Set<string>();
+    unignored.push(...untracked.filter((e) => !ignored.has(e.file)));
+  }
+
+  const envDrift = (await findEnvDrift(ctx.rootDir, onDisk)).filter(
+    (drift) => only === undefined || only.has(drift.env) || only.has(drift.example)
+  );
+  return { tracked, unignored, envDrift };
+}
+
+/**
+ * Pair each `.env.example` (or `.sample` / `.template`) with the `.env` beside it
+ */
+async function findEnvDrift(rootDir: string, paths: readonly string[]): Promise<EnvExampleDrift[]> {
+  const drift: EnvExampleDrift[] = [];
+
+  for (const example of paths) {
+    if (!/^\.env\.(example|sample|template)$/i.test(basename(example))) continue;
+
+    const env = join(dirname(example), '.env').split('\\').join('/');
+    if (!paths.includes(env)) continue;
+
+    const [envContent, exampleContent] = await Promise.all([
+      readFile(join(rootDir, env), 'utf-8'),
+      readFile(join(rootDir, example), 'utf-8'),
+    ]);
+    const comparison = compareEnvKeys(envContent, exampleContent);
+
+    if (comparison.missingFromExample.length > 0 || comparison.missingFromEnv.length > 0) {
+      drift.push({ example, env, ...comparison });
+    }
+  }
+
+  return drift;
+}
+
+/** Reads the working tree copy, or the staged one when it was deleted */
+async function hasLiteralNpmToken(ctx: GitContext, file: string): Promise<boolean> {
+  try {
+    return NPMRC_LITERAL_TOKEN.test(await readFile(join(ctx.rootDir, file), 'utf-8'));
+  } catch {
+    if (!ctx.isGitRepo) return false;
+    const staged = await ctx.git.show([`:${file}`]).catch(() => '');
+    return NPMRC_LITERAL_TOKEN.test(staged);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * RepoHygiene - Secret Severity
+ * Remap, filter and grade findings by pattern severity
+ */
+
+import type { SecretFinding, SecretSeverity, SeverityLevel } from '../../types/index.js';
+
+export const SECRET_SEVERITIES: readonly SecretSeverity[] = ['low', 'medium', 'high'];
+
+const SEVERITY_RANK: Record<SecretSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+/**
+ * Check whether a value is a valid secret severity
+ */
+export function isSecretSeverity(value: unknown): value is SecretSeverity {
+  return typeof value === 'string' && Object.hasOwn(SEVERITY_RANK, value);
+}
+
+/**
+ * Apply configured severity overrides, keyed by rule id or pattern name
+ */
+export function applySeverityOverrides(
+  findings: readonly SecretFinding[],
+  overrides: Readonly<Record<string, SecretSeverity>>
+): SecretFinding[] {
+  return findings.map((finding) => {
+    const severity = overrides[finding.ruleId] ?? overrides[finding.type];
+    return severity !== undefined && severity !== finding.severity
+      ? { ...finding, severity }
+      : finding;
+  });
+}
+
+/**
+ * Check whether a finding is at or above the minimum severity
+ */
+export function meetsMinSeverity(finding: SecretFinding, minSeverity: SecretSeverity): boolean {
+  return SEVERITY_RANK[finding.severity] >= SEVERITY_RANK[minSeverity];
+}
+
+/**
+ * Map a secret severity to the issue severity used for reporting
+ */
+export function toIssueSeverity(severity: SecretSeverity): SeverityLevel {
+  switch (severity) {
+    case 'high':
+      return 'error';
+    case 'medium':
+      return 'warning';
+    case 'low':
+      return 'info';
+  }
+}
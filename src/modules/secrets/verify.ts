@@ -0,0 +1,292 @@
+/**
+ * RepoHygiene - Secret Verification
+ * Check whether detected secrets are live against their service endpoints
+ */
+
+import type { SecretFinding, SecretVerificationStatus } from '../../types/index.js';
+
+export interface VerificationResult {
+  readonly status: SecretVerificationStatus;
+  readonly detail?: string;
+}
+
+export interface VerifierContext {
+  /** Endpoint base URL, from config or the verifier's default */
+  readonly baseUrl: string | undefined;
+  /** Request timeout in milliseconds */
+  readonly timeout: number;
+}
+
+export interface SecretVerifier {
+  /** Names of the patterns this verifier handles */
+  readonly patterns: readonly string[];
+  /** Public endpoint used when no base URL is configured */
+  readonly baseUrl?: string;
+  readonly verify: (secret: string, context: VerifierContext) => Promise<VerificationResult>;
+}
+
+/** Verifiers keyed by pattern name */
+export type VerifierRegistry = ReadonlyMap<string, SecretVerifier>;
+
+export interface VerifyOptions {
+  readonly registry?: VerifierRegistry;
+  /** Base URL per verifier, keyed by pattern name or rule id */
+  readonly baseUrls?: Readonly<Record<string, string>>;
+  readonly timeout?: number;
+  /** Requests in flight at once */
+  readonly concurrency?: number;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+const DEFAULT_CONCURRENCY = 4;
+
+const VERIFICATION_RANK: Record<SecretVerificationStatus, number> = {
+  verified: 0,
+  unverifiable: 1,
+  invalid: 2,
+};
+
+/**
+ * Built-in verifiers for services with a cheap "who am I" endpoint
+ */
+export const BUILT_IN_VERIFIERS: readonly SecretVerifier[] = [
+  {
+    patterns: ['GitHub Token', 'GitHub OAuth Token'],
+    baseUrl: 'https://api.github.com',
+    verify: (secret, context) =>
+      checkEndpoint(joinUrl(context.baseUrl, '/user'), context.timeout, {
+        Authorization: `token ${secret}`,
+        Accept: 'application/vnd.github+json',
+        'User-Agent': 'repohygiene',
+      }),
+  },
+  {
+    patterns: ['GitLab Token'],
+    baseUrl: 'https://gitlab.com',
+    verify: (secret, context) =>
+      checkEndpoint(joinUrl(context.baseUrl, '/api/v4/user'), context.timeout, {
+        'PRIVATE-TOKEN': secret,
+      }),
+  },
+  {
+    patterns: ['Slack Token'],
+    baseUrl: 'https://slack.com',
+    verify: async (secret, context): Promise<VerificationResult> => {
+      const response = await request(joinUrl(context.baseUrl, '/api/auth.test'), context.timeout, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${secret}` },
+      });
+      if ('error' in response) {
+        return { status: 'unverifiable', detail: response.error };
+      }
+      // Slack answers 200 either way and reports the outcome in the body
+      const body = (await response.json().catch(() => ({}))) as { ok?: boolean; error?: string };
+      if (body.ok === true) return { status: 'verified' };
+      if (body.error === 'invalid_auth' || body.error === 'token_revoked') {
+        return { status: 'invalid', detail: body.error };
+      }
+      return { status: 'unverifiable', detail: body.error ?? `HTTP ${response.status}` };
+    },
+  },
+  {
+    patterns: ['Stripe API Key'],
+    baseUrl: 'https://api.stripe.com',
+    verify: (secret, context) =>
+      checkEndpoint(joinUrl(context.baseUrl, '/v1/balance'), context.timeout, {
+        Authorization: basicAuth(secret, ''),
+      }),
+  },
+  {
+    patterns: ['SendGrid API Key'],
+    baseUrl: 'https://api.sendgrid.com',
+    verify: (secret, context) =>
+      checkEndpoint(joinUrl(context.baseUrl, '/v3/scopes'), context.timeout, {
+        Authorization: `Bearer ${secret}`,
+      }),
+  },
+  {
+    patterns: ['NPM Token'],
+    baseUrl: 'https://registry.npmjs.org',
+    verify: (secret, context) =>
+      checkEndpoint(joinUrl(context.baseUrl, '/-/whoami'), context.timeout, {
+        Authorization: `Bearer ${secret}`,
+      }),
+  },
+  {
+    // Databases don't speak HTTP, so credentials are checked against a
+    // configured HTTP endpoint (e.g. an internal credential checker) with basic auth
+    patterns: [
+      'PostgreSQL Connection String',
+      'MySQL Connection String',
+      'MongoDB Connection String',
+    ],
+    verify: (secret, context): Promise<VerificationResult> => {
+      let url: URL;
+      try {
+        url = new URL(secret);
+      } catch {
+        return Promise.resolve({ status: 'unverifiable', detail: 'Unparseable connection string' });
+      }
+      if (url.password === '') {
+        return Promise.resolve({ status: 'unverifiable', detail: 'No password in URL' });
+      }
+
+      const endpoint = joinUrl(context.baseUrl, `?host=${encodeURIComponent(url.host)}`);
+      return checkEndpoint(endpoint, context.timeout, {
+        Authorization: basicAuth(
+          decodeURIComponent(url.username),
+          decodeURIComponent(url.password)
+        ),
+      });
+    },
+  },
+];
+
+/**
+ * Build a registry keyed by pattern name. Later verifiers replace earlier ones
+ * for the same pattern, so custom verifiers can override built-ins.
+ */
+export function createVerifierRegistry(
+  verifiers: readonly SecretVerifier[] = []
+): VerifierRegistry {
+  const registry = new Map<string, SecretVerifier>();
+  for (const verifier of [...BUILT_IN_VERIFIERS, ...verifiers]) {
+    for (const pattern of verifier.patterns) {
+      registry.set(pattern, verifier);
+    }
+  }
+  return registry;
+}
+
+/**
+ * Verify findings and tag each with `verified`, `invalid` or `unverifiable`.
+ * Each distinct secret is checked once; the result is shared by all its findings.
+ */
+export async function verifyFindings(
+  findings: readonly SecretFinding[],
+  options: VerifyOptions = {}
+): Promise<SecretFinding[]> {
+  const registry = options.registry ?? createVerifierRegistry();
+  const baseUrls = options.baseUrls ?? {};
+  const timeout = options.timeout ?? DEFAULT_TIMEOUT;
+
+  const checks = new Map<string, () => Promise<VerificationResult>>();
+  for (const finding of findings) {
+    const key = `${finding.type}\u0000${finding.match}`;
+    if (checks.has(key)) continue;
+
+    const verifier = registry.get(finding.type);
+    const baseUrl = baseUrls[finding.type] ?? baseUrls[finding.ruleId] ?? verifier?.baseUrl;
+
+    checks.set(key, () => {
+      if (verifier === undefined) {
+        return Promise.resolve({
+          status: 'unverifiable',
+          detail: `No verifier for ${finding.type}`,
+        });
+      }
+      if (baseUrl === undefined) {
+        return Promise.resolve({
+          status: 'unverifiable',
+          detail: `No endpoint configured for ${finding.type}`,
+        });
+      }
+      return verifier.verify(finding.match, { baseUrl, timeout });
+    });
+  }
+
+  const results = await runLimited([...checks], options.concurrency ?? DEFAULT_CONCURRENCY);
+
+  return findings.map((finding) => {
+    const result = results.get(`${finding.type}\u0000${finding.match}`);
+    return result
+      ? { ...finding, verification: result.status, verificationDetail: result.detail }
+      : finding;
+  });
+}
+
+/**
+ * Order findings so live secrets come first and known-invalid ones last.
+ * The sort is stable, so findings keep their scan order within each group.
+ */
+export function sortByVerification(findings: readonly SecretFinding[]): SecretFinding[] {
+  const rank = (f: SecretFinding): number =>
+    f.verification !== undefined
+      ? VERIFICATION_RANK[f.verification]
+      : VERIFICATION_RANK.unverifiable;
+  return [...findings].sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Run checks with at most `limit` in flight; a throwing check counts as unverifiable
+ */
+async function runLimited(
+  checks: ReadonlyArray<[string, () => Promise<VerificationResult>]>,
+  limit: number
+): Promise<Map<string, VerificationResult>> {
+  const results = new Map<string, VerificationResult>();
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < checks.length) {
+      const entry = checks[next++];
+      if (entry === undefined) return;
+      const [key, check] = entry;
+      try {
+        results.set(key, await check());
+      } catch (error) {
+        results.set(key, {
+          status: 'unverifiable',
+          detail: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, limit) }, worker));
+  return results;
+}
+
+async function request(
+  url: string,
+  timeout: number,
+  init: { method?: string; headers: Record<string, string> }
+): Promise<Response | { error: string }> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(timeout) });
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * 2xx means the credential works, 401/403 means it was rejected
+ */
+async function checkEndpoint(
+  url: string,
+  timeout: number,
+  headers: Record<string, string>
+): Promise<VerificationResult> {
+  const response = await request(url, timeout, { headers });
+  if ('error' in response) {
+    return { status: 'unverifiable', detail: response.error };
+  }
+
+  await response.body?.cancel();
+
+  if (response.ok) {
+    return { status: 'verified', detail: `HTTP ${response.status}` };
+  }
+  if (response.status === 401 || response.status === 403) {
+    return { status: 'invalid', detail: `HTTP ${response.status}` };
+  }
+  return { status: 'unverifiable', detail: `Unexpected HTTP ${response.status}` };
+}
+
+function joinUrl(baseUrl: string | undefined, path: string): string {
+  return `${(baseUrl ?? '').replace(/\/+$/, '')}${path}`;
+}
+
+function basicAuth(username: string, password: string): string {
+  return `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`;
+}
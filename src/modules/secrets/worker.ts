@@ -0,0 +1,45 @@
+/**
+ * RepoHygiene - Secrets Worker
+ * Worker thread entry that scans batches of files
+ */
+
+import { parentPort, workerData } from 'worker_threads';
+import {
+  deserializePatterns,
+  type SecretsWorkerData,
+  type WorkerScanRequest,
+  type WorkerScanResponse,
+} from './pool.js';
+import { mergeFileScanResults, scanFile, type FileScanResult } from './scanner.js';
+
+const data = workerData as SecretsWorkerData;
+const patterns = deserializePatterns(data.patterns);
+
+parentPort?.on('message', (request: WorkerScanRequest) => {
+  void scanBatch(request).then((response) => parentPort?.postMessage(response));
+});
+
+/**
+ * Scan one batch of files and report the combined result
+ */
+async function scanBatch(request: WorkerScanRequest): Promise<WorkerScanResponse> {
+  const results: FileScanResult[] = [];
+
+  try {
+    for (const filePath of request.files) {
+      results.push(
+        await scanFile(filePath, {
+          patterns,
+          entropyThreshold: data.entropyThreshold,
+          maxFileSize: data.maxFileSize,
+          decodeBase64: data.decodeBase64,
+          pii: data.pii,
+        })
+      );
+    }
+  } catch (error) {
+    return { id: request.id, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  return { id: request.id, result: mergeFileScanResults(results) };
+}
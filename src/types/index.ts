@@ -18,6 +18,9 @@ export interface Issue {
   readonly column?: number;
   readonly rule?: string;
   readonly suggestion?: string;
+  /** Silenced by an inline `repohygiene-ignore` comment */
+  readonly suppressed?: boolean;
+  readonly suppressionReason?: string;
 }
 
 export interface ScanResult<T = unknown> {
@@ -86,21 +89,137 @@ export interface LicenseOptions extends BaseModuleOptions {
   readonly deny?: readonly string[];
   readonly failOn?: 'unknown' | 'restricted' | 'any';
   readonly production?: boolean;
+  readonly exceptions?: readonly LicenseExceptionDefinition[];
+  /** How the project reaches its users; setting it checks licenses for compatibility */
+  readonly distribution?: LicenseDistribution;
+  /** SPDX expression of the project's own license, instead of reading package.json or LICENSE */
+  readonly projectLicense?: string;
+  /** Git ref to compare dependencies with; only violations introduced since then fail */
+  readonly compare?: string;
 }
 
+/**
+ * How a project is distributed: run as a hosted service, shipped as a
+ * binary or application, or published as a library for others to build on
+ */
+export type LicenseDistribution = 'saas' | 'binary' | 'library';
+
+/** Package ecosystems the license audit reads */
+export type LicenseEcosystem = 'npm' | 'python' | 'go' | 'rust' | 'maven';
+
 export interface DependencyLicense {
+  /** Package name; `groupId:artifactId` for Maven and the module path for Go */
   readonly name: string;
   readonly version: string;
   readonly license: string;
+  /** License file; relative to `packageDir` for npm packages, otherwise to the project root */
   readonly licenseFile?: string;
+  /** Directory the package is installed in, relative to the project root */
+  readonly packageDir?: string;
+  /** License identified from the text of the license file */
+  readonly detectedLicense?: DetectedLicense;
+  /** Where the license came from: package.json, the lockfile or the license file text */
+  readonly licenseSource?: 'package' | 'lockfile' | 'file';
+  /** The license file text matches a license that package.json doesn't declare */
+  readonly licenseMismatch?: boolean;
   readonly repository?: string;
+  /** Subresource integrity of the package tarball, from the lockfile */
+  readonly integrity?: string;
+  /** URL the package tarball was downloaded from, from the lockfile */
+  readonly resolved?: string;
+  /** `name@version` of each package this one depends on, from the lockfile */
+  readonly dependsOn?: readonly string[];
   readonly isProduction: boolean;
-  readonly status: 'allowed' | 'denied' | 'unknown';
+  /** Package names from a direct dependency down to this package */
+  readonly dependencyPath?: readonly string[];
+  readonly status: 'allowed' | 'denied' | 'unknown' | 'allowed-by-exception';
+  /** Why the policy gave this status, naming the branch of the expression it rests on */
+  readonly policyReason?: string;
+  /** The `licenses.exceptions` entry covering this package, including expired ones */
+  readonly licenseException?: AppliedLicenseException;
+  /** Ecosystem the package comes from; npm when unset */
+  readonly ecosystem?: LicenseEcosystem;
+  /** For a license incompatible with the project, the obligation it would impose */
+  readonly obligation?: string;
+}
+
+export interface LicenseExceptionDefinition {
+  /** Package name */
+  readonly package: string;
+  /** Semver range of the versions covered; every version when omitted */
+  readonly version?: string;
+  /** License expression approved for the package, as the audit reports it */
+  readonly license: string;
+  readonly reason: string;
+  /** Who approved the exception */
+  readonly approver: string;
+  /** Last day the exception applies, as YYYY-MM-DD */
+  readonly expires: string | Date;
+}
+
+export interface AppliedLicenseException {
+  readonly reason: string;
+  readonly approver: string;
+  /** Last day the exception applies, as YYYY-MM-DD */
+  readonly expires: string;
+  readonly expired: boolean;
+}
+
+export interface DetectedLicense {
+  /** SPDX id of the closest canonical license text */
+  readonly id: string;
+  /** Similarity to that text, from 0 to 1 */
+  readonly confidence: number;
 }
 
 export interface LicenseData {
   readonly dependencies: readonly DependencyLicense[];
   readonly summary: LicenseSummary;
+  /** Lockfile the npm dependency tree was resolved from */
+  readonly lockfile?: string;
+  /** Each ecosystem found in the project, and where its versions came from */
+  readonly ecosystems?: readonly LicenseEcosystemSource[];
+  /** The project license and distribution model licenses were checked against */
+  readonly compatibility?: LicenseCompatibilityTarget;
+  /** How dependencies changed since the compared ref */
+  readonly drift?: LicenseDrift;
+}
+
+export interface LicenseDrift {
+  /** The ref as given, e.g. `origin/main` */
+  readonly ref: string;
+  /** The commit the ref resolved to */
+  readonly commit: string;
+  /** Packages that weren't dependencies at the ref */
+  readonly added: readonly DependencyLicense[];
+  /** Packages whose license differs from every version at the ref */
+  readonly changed: readonly LicenseChange[];
+  /** Dependencies at the ref that are gone, with their license there */
+  readonly removed: readonly DependencyLicense[];
+  /** Ecosystems without a lockfile at the ref, whose direct dependencies only were compared */
+  readonly directOnly: readonly LicenseEcosystem[];
+}
+
+export interface LicenseChange {
+  readonly dependency: DependencyLicense;
+  readonly previousVersion: string;
+  readonly previousLicense: string;
+}
+
+export interface LicenseCompatibilityTarget {
+  /** SPDX expression of the project's license; `UNLICENSED` for proprietary projects */
+  readonly projectLicense: string;
+  /** Where the project license came from; `none` when nothing declares one */
+  readonly projectLicenseSource: 'config' | 'package.json' | 'license-file' | 'none';
+  readonly distribution: LicenseDistribution;
+}
+
+export interface LicenseEcosystemSource {
+  readonly ecosystem: LicenseEcosystem;
+  /** File or directory the installed versions were read from, e.g. `Cargo.lock` */
+  readonly lockfile?: string;
+  /** Only direct dependencies were found, at their declared versions */
+  readonly directOnly: boolean;
 }
 
 export interface LicenseSummary {
@@ -108,14 +227,51 @@ export interface LicenseSummary {
   readonly allowed: number;
   readonly denied: number;
   readonly unknown: number;
+  /** Allowed by a `licenses.exceptions` entry despite the policy */
+  readonly excepted: number;
 }
 
 // ============================================================================
 // Secrets Module
 // ============================================================================
 
+export type SecretSeverity = 'high' | 'medium' | 'low';
+
+export type SecretVerificationStatus = 'verified' | 'invalid' | 'unverifiable';
+
+export type PiiFamily = 'credit-card' | 'iban' | 'national-id' | 'email-list' | 'phone-list';
+
+/** `false` disables every PII family; a record switches families individually */
+export type PiiSetting = boolean | Readonly<Partial<Record<PiiFamily, boolean>>>;
+
 export interface SecretsOptions extends BaseModuleOptions {
   readonly scanHistory?: boolean;
+  /** Scan only lines added in the index */
+  readonly staged?: boolean;
+  /** Scan only lines added in a `<base>..<head>` range */
+  readonly diff?: string;
+  /** Scan only commits after the given commit, up to HEAD */
+  readonly sinceCommit?: string;
+  /** Path of the baseline file, relative to the repository root */
+  readonly baseline?: string;
+  /** Report baseline entries that no longer match any finding */
+  readonly auditBaseline?: boolean;
+  /** Drop findings below this severity */
+  readonly minSeverity?: SecretSeverity;
+  /** Severity per pattern, keyed by rule id or pattern name */
+  readonly severityOverrides?: Readonly<Record<string, SecretSeverity>>;
+  /** Number of worker threads for file scanning; 1 scans in-process */
+  readonly concurrency?: number;
+  /** Files larger than this many bytes are skipped */
+  readonly maxFileSize?: number;
+  /** Decode long base64 blobs and scan the result */
+  readonly decodeBase64?: boolean;
+  /** Check detected secrets against their service endpoints */
+  readonly verify?: boolean;
+  /** PII detector families to run; off unless set */
+  readonly pii?: PiiSetting;
+  /** Check that secret-bearing files are gitignored and `.env.example` is in sync */
+  readonly sensitiveFiles?: boolean;
   readonly entropyThreshold?: number;
   readonly include?: readonly string[];
   readonly exclude?: readonly string[];
@@ -123,19 +279,123 @@ export interface SecretsOptions extends BaseModuleOptions {
 
 export interface SecretFinding {
   readonly type: string;
+  readonly ruleId: string;
+  readonly severity: SecretSeverity;
   readonly file: string;
   readonly line: number;
   readonly column: number;
   readonly match: string;
+  /** The credential itself, when the pattern captures it apart from its context */
+  readonly secret?: string;
   readonly masked: string;
   readonly entropy?: number;
+  /** Set when the secret was found by decoding the matched blob */
+  readonly encoding?: 'base64';
+  /** The encoded blob as it appears in the file, for decoded findings */
+  readonly encoded?: string;
   readonly commit?: string;
+  readonly author?: string;
+  readonly date?: Date;
+  readonly fingerprint?: string;
+  /** Accepted in the baseline file; does not fail the scan */
+  readonly baselined?: boolean;
+  readonly suppressed?: boolean;
+  readonly suppressionReason?: string;
+  /** Outcome of `--verify`: whether the secret is live */
+  readonly verification?: SecretVerificationStatus;
+  readonly verificationDetail?: string;
+}
+
+export interface SecretBaselineEntry {
+  readonly fingerprint: string;
+  readonly rule: string;
+  readonly file: string;
+  readonly line: number;
+  readonly masked: string;
+}
+
+/**
+ * A user-defined secret pattern, as written in config or a pattern pack
+ */
+export interface SecretPatternDefinition {
+  /** Defaults to a slug of the name */
+  readonly id?: string;
+  readonly name: string;
+  readonly pattern: string | RegExp;
+  readonly flags?: string;
+  readonly severity?: SecretSeverity;
+  readonly description?: string;
+  readonly keywords?: readonly string[];
+  readonly minEntropy?: number;
+}
+
+/** What an allowlist's `regexes` are matched against */
+export type SecretAllowlistTarget = 'secret' | 'match' | 'line';
+
+/**
+ * Findings an allowlist entry accepts, as written in config or imported from
+ * gitleaks and trufflehog. Allowlisted findings are kept but marked suppressed.
+ */
+export interface SecretAllowlistDefinition {
+  readonly description?: string;
+  /** Rule ids or pattern names the entry applies to; every rule when omitted */
+  readonly rules?: readonly string[];
+  /** Regexes matched against the repository-relative path */
+  readonly paths?: readonly (string | RegExp)[];
+  /** Regexes matched against `regexTarget` */
+  readonly regexes?: readonly (string | RegExp)[];
+  /** Defaults to `secret` */
+  readonly regexTarget?: SecretAllowlistTarget;
+  /** Case-insensitive substrings of the secret */
+  readonly stopwords?: readonly string[];
+  /** Commit SHAs, or prefixes of them */
+  readonly commits?: readonly string[];
+  /** `or` (the default) allows a finding when any criterion matches, `and` when all do */
+  readonly condition?: 'or' | 'and';
+}
+
+export type SkippedFileReason = 'binary' | 'too-large' | 'unreadable';
+
+export interface SkippedFile {
+  readonly file: string;
+  readonly reason: SkippedFileReason;
+  readonly detail?: string;
+}
+
+export interface SensitiveFile {
+  /** Path relative to the repository root */
+  readonly file: string;
+  /** What makes the file sensitive, e.g. "environment file" */
+  readonly kind: string;
+}
+
+export interface EnvExampleDrift {
+  /** The `.env.example` file, relative to the repository root */
+  readonly example: string;
+  /** The `.env` file it documents */
+  readonly env: string;
+  /** Keys set in `.env` but not listed in the example */
+  readonly missingFromExample: readonly string[];
+  /** Keys listed in the example but not set in `.env` */
+  readonly missingFromEnv: readonly string[];
+}
+
+export interface SensitiveFilesReport {
+  /** Sensitive files committed to, or staged in, the repository */
+  readonly tracked: readonly SensitiveFile[];
+  /** Sensitive files that are untracked and not covered by `.gitignore` */
+  readonly unignored: readonly SensitiveFile[];
+  readonly envDrift: readonly EnvExampleDrift[];
 }
 
 export interface SecretsData {
   readonly findings: readonly SecretFinding[];
   readonly scannedFiles: number;
   readonly scannedCommits?: number;
+  readonly staleBaselineEntries?: readonly SecretBaselineEntry[];
+  /** Files that matched the include globs but were not scanned */
+  readonly skipped?: readonly SkippedFile[];
+  readonly sensitiveFiles?: SensitiveFilesReport;
 }
 
 // ============================================================================
@@ -192,10 +452,28 @@ export interface DependencyInfo {
 export interface DepsData {
   readonly dependencies: readonly DependencyInfo[];
   readonly duplicates: readonly DuplicateDependency[];
+  /** Files of each import cycle, in cycle order and ending where it started */
   readonly circularDeps: readonly string[][];
+  readonly importCycles?: readonly ImportCycle[];
   readonly outdatedCount: number;
 }
 
+export interface ImportEdge {
+  /** Importing file, relative to the repository root */
+  readonly from: string;
+  /** Imported file, relative to the repository root */
+  readonly to: string;
+  readonly line: number;
+  readonly specifier: string;
+}
+
+export interface ImportCycle {
+  /** Every file in the strongly connected component, sorted */
+  readonly files: readonly string[];
+  /** Shortest cycle through the component, one import per edge */
+  readonly cycle: readonly ImportEdge[];
+}
+
 export interface DuplicateDependency {
   readonly name: string;
   readonly versions: readonly string[];
@@ -217,11 +495,37 @@ export interface RepoHygieneConfig {
     deny?: string[];
     failOn?: 'unknown' | 'restricted' | 'any';
     production?: boolean;
+    /** Packages approved despite the policy, each with a justification and expiry */
+    exceptions?: LicenseExceptionDefinition[];
+    /** Check licenses against the project license for this distribution model */
+    distribution?: LicenseDistribution;
+    projectLicense?: string;
   };
   secrets?: {
     scanHistory?: boolean;
     entropyThreshold?: number;
     exclude?: string[];
+    patterns?: SecretPatternDefinition[];
+    disabledPatterns?: string[];
+    patternPacks?: string[];
+    /** gitleaks TOML or trufflehog YAML files to import rules and allowlists from */
+    ruleImports?: string[];
+    allowlists?: SecretAllowlistDefinition[];
+    baseline?: string;
+    minSeverity?: SecretSeverity;
+    severityOverrides?: Record<string, SecretSeverity>;
+    concurrency?: number;
+    maxFileSize?: number;
+    decodeBase64?: boolean;
+    pii?: PiiSetting;
+    sensitiveFiles?: boolean;
+    verify?: boolean;
+    verification?: {
+      /** Endpoint base URL per verifier, keyed by pattern name or rule id */
+      baseUrls?: Record<string, string>;
+      /** Request timeout in milliseconds */
+      timeout?: number;
+    };
   };
   branches?: {
     staleDays?: number;
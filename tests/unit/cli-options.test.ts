@@ -0,0 +1,170 @@
+/**
+ * CLI Option Tests
+ * Tests for flag coercion, validation and the flag > config > default layering
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { InvalidArgumentError } from 'commander';
+import {
+    BRANCHES_SCHEMA,
+    LICENSE_SCHEMA,
+    SECRETS_SCHEMA,
+    boolean,
+    choice,
+    exceedsFailLevel,
+    flagParser,
+    integer,
+    list,
+    mergeOptions,
+    number,
+    resolveOptions,
+} from '../../src/cli/options.js';
+import { loadConfig } from '../../src/core/config.js';
+
+function result(status: string, issues: Array<Record<string, unknown>> = []) {
+    return { module: 'secrets', status, issues, duration: 0 } as never;
+}
+
+describe('CLI Options', () => {
+    // ============================================================================
+    // Coercion Tests
+    // ============================================================================
+    describe('coercers', () => {
+        it('parses bounded integers and numbers', () => {
+            expect(integer({ min: 1 })('30')).toBe(30);
+            expect(() => integer({ min: 1 })('0')).toThrow('Expected an integer of at least 1');
+            expect(() => integer()('2.5')).toThrow('Expected an integer');
+            expect(() => integer()('')).toThrow('Expected an integer');
+            expect(number({ min: 0, max: 8 })('4.2')).toBe(4.2);
+            expect(() => number({ min: 0, max: 8 })('abc')).toThrow(
+                'Expected a number between 0 and 8'
+            );
+        });
+
+        it('parses choices, booleans and lists', () => {
+            expect(choice(['low', 'high'])('high')).toBe('high');
+            expect(() => choice(['low', 'high'])('medium')).toThrow('Expected one of: low, high');
+            expect(boolean('yes')).toBe(true);
+            expect(boolean(false)).toBe(false);
+            expect(() => boolean('maybe')).toThrow('Expected true or false');
+            expect(list('MIT, ISC,,Apache-2.0')).toEqual(['MIT', 'ISC', 'Apache-2.0']);
+            expect(list(['MIT'])).toEqual(['MIT']);
+        });
+
+        it('reports invalid flags through commander', () => {
+            expect(() => flagParser(integer({ min: 1 }))('-3')).toThrow(InvalidArgumentError);
+        });
+    });
+
+    // ============================================================================
+    // Merging Tests
+    // ============================================================================
+    describe('mergeOptions', () => {
+        it('lets later layers override earlier ones, except with undefined', () => {
+            expect(
+                mergeOptions<{ a?: number; b?: number; c?: number }>(
+                    { a: 1, b: 1, c: 1 },
+                    { b: 2, c: undefined },
+                    undefined,
+                    { c: 3 }
+                )
+            ).toEqual({ a: 1, b: 2, c: 3 });
+        });
+    });
+
+    describe('resolveOptions', () => {
+        it('layers flags over config over defaults', () => {
+            const options = resolveOptions('licenses', LICENSE_SCHEMA, {
+                licenses: { deny: ['AGPL-3.0'], failOn: 'unknown' },
+            }, { failOn: 'any', production: false, allow: undefined });
+
+            expect(options.failOn).toBe('any');
+            expect(options.deny).toEqual(['AGPL-3.0']);
+            expect(options.allow).toContain('MIT');
+            expect(options.production).toBe(false);
+        });
+
+        it('coerces string values from the config and flags', () => {
+            const options = resolveOptions('branches', BRANCHES_SCHEMA, {
+                branches: { staleDays: '30' as never, exclude: 'main,release/*' as never },
+            }, { remote: false });
+
+            expect(options).toMatchObject({
+                staleDays: 30,
+                exclude: ['main', 'release/*'],
+                remote: false,
+            });
+        });
+
+        it('adds --exclude patterns to the configured or default secrets excludes', () => {
+            const defaults = resolveOptions('secrets', SECRETS_SCHEMA, {}, { exclude: ['foo/**'] });
+            expect(defaults.exclude).toContain('node_modules/**');
+            expect(defaults.exclude).toContain('tests/**');
+            expect(defaults.exclude?.at(-1)).toBe('foo/**');
+
+            const configured = resolveOptions('secrets', SECRETS_SCHEMA, {
+                secrets: { exclude: ['vendor/**'] },
+            }, { exclude: 'foo/**,bar/**' });
+            expect(configured.exclude).toEqual(['vendor/**', 'foo/**', 'bar/**']);
+
+            // Other list flags still replace
+            const branches = resolveOptions('branches', BRANCHES_SCHEMA, {}, { exclude: ['trunk'] });
+            expect(branches.exclude).toEqual(['trunk']);
+        });
+
+        it('names the source of an invalid value', () => {
+            expect(() =>
+                resolveOptions('secrets', SECRETS_SCHEMA, {
+                    secrets: { entropyThreshold: 12 },
+                })
+            ).toThrow('Invalid value for config secrets.entropyThreshold: Expected a number between 0 and 8');
+            expect(() =>
+                resolveOptions('secrets', SECRETS_SCHEMA, {}, { maxFileSize: 'big' })
+            ).toThrow('Invalid value for --max-file-size: Expected an integer of at least 1');
+        });
+    });
+
+    // ============================================================================
+    // Fail Level Tests
+    // ============================================================================
+    describe('exceedsFailLevel', () => {
+        it('fails at or above the requested level', () => {
+            const warning = [result('passed'), result('warning', [{ suppressed: false }])];
+            const info = [result('passed', [{ severity: 'info' }])];
+
+            expect(exceedsFailLevel(warning, 'error')).toBe(false);
+            expect(exceedsFailLevel(warning, 'warning')).toBe(true);
+            expect(exceedsFailLevel(info, 'warning')).toBe(false);
+            expect(exceedsFailLevel(info, 'any')).toBe(true);
+            expect(exceedsFailLevel([result('failed')], 'none')).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // Config Path Tests
+    // ============================================================================
+    describe('loadConfig', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'rh-options-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('loads a config file given by --config, relative to the working directory', async () => {
+            writeFileSync(join(dir, 'hygiene.json'), JSON.stringify({ branches: { staleDays: 14 } }));
+
+            const { config, filepath } = await loadConfig(dir, 'hygiene.json');
+
+            expect(filepath).toBe(join(dir, 'hygiene.json'));
+            expect(config.branches?.staleDays).toBe(14);
+            expect(config.branches?.exclude).toContain('main');
+        });
+    });
+});
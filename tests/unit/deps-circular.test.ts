@@ -0,0 +1,195 @@
+/**
+ * Circular Import Tests
+ * Tests for extracting imports, resolving them and finding import cycles
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { extractImports } from '../../src/modules/deps/imports.js';
+import { findCircularImports, findCycles, formatCycle } from '../../src/modules/deps/circular.js';
+import type { ImportEdge } from '../../src/types/index.js';
+
+function edge(from: string, to: string, line = 1): ImportEdge {
+    return { from, to, line, specifier: `./${to}` };
+}
+
+describe('Circular Imports', () => {
+    // ============================================================================
+    // Extraction Tests
+    // ============================================================================
+    describe('extractImports', () => {
+        it('finds static imports, re-exports and requires with their lines', () => {
+            const source = [
+                "import { a } from './a.js';",
+                "import './side-effect';",
+                'import {',
+                '    b,',
+                "} from './b';",
+                "export * from './c';",
+                "const d = require('./d');",
+                "// import { e } from './e';",
+                "/* import f from './f'; */",
+                "const text = \"import g from './g'\";",
+                "const lazy = () => import('./lazy');",
+            ].join('\n');
+
+            expect(extractImports(source)).toEqual([
+                { specifier: './a.js', line: 1 },
+                { specifier: './side-effect', line: 2 },
+                { specifier: './b', line: 3 },
+                { specifier: './c', line: 6 },
+                { specifier: './d', line: 7 },
+            ]);
+        });
+
+        it('skips type-only imports, which are erased at runtime', () => {
+            const source = [
+                "import type { A } from './a';",
+                "import { type B, type C } from './b';",
+                "export type { D } from './d';",
+                "import { type E, e } from './e';",
+            ].join('\n');
+
+            expect(extractImports(source).map((i) => i.specifier)).toEqual(['./e']);
+        });
+
+        it('keeps statements apart in code without semicolons', () => {
+            expect(
+                extractImports("export type Props = { a: number }\nexport { default } from './y'\n")
+            ).toEqual([{ specifier: './y', line: 2 }]);
+            expect(extractImports("export const a = 1\nimport b from './b'")).toEqual([
+                { specifier: './b', line: 2 },
+            ]);
+
+            const source = [
+                'const x = 1',
+                "import a, { b,\n    c } from './a'",
+                "import * as ns from './ns'",
+                "export * as all from './all'",
+                "export function f() { return 'from' }",
+            ].join('\n');
+
+            expect(extractImports(source)).toEqual([
+                { specifier: './a', line: 2 },
+                { specifier: './ns', line: 4 },
+                { specifier: './all', line: 5 },
+            ]);
+        });
+    });
+
+    // ============================================================================
+    // Cycle Tests
+    // ============================================================================
+    describe('findCycles', () => {
+        it('reports each strongly connected component once with its shortest cycle', () => {
+            const cycles = findCycles([
+                edge('a.ts', 'b.ts', 2),
+                edge('b.ts', 'c.ts', 3),
+                edge('c.ts', 'd.ts', 4),
+                edge('d.ts', 'a.ts', 5),
+                edge('c.ts', 'b.ts', 9),
+                edge('c.ts', 'b.ts', 6),
+                edge('d.ts', 'e.ts'),
+                edge('self.ts', 'self.ts', 7),
+            ]);
+
+            expect(cycles.map((cycle) => cycle.files)).toEqual([
+                ['a.ts', 'b.ts', 'c.ts', 'd.ts'],
+                ['self.ts'],
+            ]);
+            expect(formatCycle(cycles[0]!)).toBe('b.ts:3 → c.ts:6 → b.ts');
+            expect(formatCycle(cycles[1]!)).toBe('self.ts:7 → self.ts');
+        });
+
+        it('finds nothing in an acyclic graph', () => {
+            expect(findCycles([edge('a.ts', 'b.ts'), edge('b.ts', 'c.ts'), edge('a.ts', 'c.ts')])).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // Resolution Tests
+    // ============================================================================
+    describe('findCircularImports', () => {
+        let dir: string;
+
+        function write(files: Record<string, string>) {
+            for (const [file, content] of Object.entries(files)) {
+                mkdirSync(dirname(join(dir, file)), { recursive: true });
+                writeFileSync(join(dir, file), content);
+            }
+        }
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'repohygiene-circular-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('resolves relative imports, .js specifiers of TS files and index files', async () => {
+            write({
+                'src/a.ts': "import { b } from './b.js';\n",
+                'src/b.ts': "\nimport { c } from './lib';\n",
+                'src/lib/index.ts': "\n\nexport { a } from '../a';\n",
+            });
+
+            const [cycle] = await findCircularImports(dir);
+
+            expect(cycle?.cycle).toEqual([
+                { from: 'src/a.ts', to: 'src/b.ts', line: 1, specifier: './b.js' },
+                { from: 'src/b.ts', to: 'src/lib/index.ts', line: 2, specifier: './lib' },
+                { from: 'src/lib/index.ts', to: 'src/a.ts', line: 3, specifier: '../a' },
+            ]);
+        });
+
+        it('resolves tsconfig path aliases, following extends', async () => {
+            write({
+                'tsconfig.base.json': JSON.stringify({
+                    compilerOptions: { baseUrl: '.', paths: { '@app/*': ['src/*'] } },
+                }),
+                'tsconfig.json': '{\n  // shared settings\n  "extends": "./tsconfig.base.json",\n}\n',
+                'src/a.ts': "import { b } from '@app/b';\n",
+                'src/b.ts': "import { a } from '@app/a';\n",
+            });
+
+            expect((await findCircularImports(dir)).map((cycle) => formatCycle(cycle))).toEqual([
+                'src/a.ts:1 → src/b.ts:1 → src/a.ts',
+            ]);
+        });
+
+        it('resolves workspace packages through their exports', async () => {
+            write({
+                'packages/core/package.json': JSON.stringify({
+                    name: '@acme/core',
+                    exports: { '.': { import: './src/index.ts' }, './utils/*': './src/utils/*.ts' },
+                }),
+                'packages/core/src/index.ts': "export * from '@acme/ui';\n",
+                'packages/core/src/utils/strings.ts': 'export const x = 1;\n',
+                'packages/ui/package.json': JSON.stringify({ name: '@acme/ui', main: 'src/index.ts' }),
+                'packages/ui/src/index.ts': "import '@acme/core/utils/strings';\nimport '@acme/core';\n",
+            });
+
+            const cycles = await findCircularImports(dir);
+
+            expect(cycles.map((cycle) => cycle.files)).toEqual([
+                ['packages/core/src/index.ts', 'packages/ui/src/index.ts'],
+            ]);
+            expect(cycles[0]?.cycle[1]).toMatchObject({ specifier: '@acme/core', line: 2 });
+        });
+
+        it('leaves out excluded files and node_modules', async () => {
+            write({
+                'src/a.ts': "import '../generated/b';\nimport 'dep';\n",
+                'generated/b.ts': "import '../src/a';\n",
+                'node_modules/dep/package.json': JSON.stringify({ name: 'dep', main: 'index.js' }),
+                'node_modules/dep/index.js': "require('../../src/a');\n",
+            });
+
+            expect(await findCircularImports(dir)).toHaveLength(1);
+            expect(await findCircularImports(dir, { exclude: ['generated'] })).toEqual([]);
+        });
+    });
+});
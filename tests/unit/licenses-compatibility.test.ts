@@ -0,0 +1,205 @@
+/**
+ * License Compatibility Tests
+ * Tests for checking dependency licenses against the project license and distribution model
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    createCompatibilityPolicy,
+    licenseCategory,
+    readProjectLicense,
+} from '../../src/modules/licenses/compatibility.js';
+import { parseSpdx } from '../../src/modules/licenses/spdx.js';
+import { createLicenseAuditor } from '../../src/modules/licenses/auditor.js';
+import { LICENSE_CORPUS } from '../../src/modules/licenses/corpus.js';
+import type { GitContext } from '../../src/core/git.js';
+
+function status(projectLicense: string, distribution: 'saas' | 'binary' | 'library', license: string) {
+    return createCompatibilityPolicy({ projectLicense, distribution })(license).status;
+}
+
+describe('License Compatibility', () => {
+    // ============================================================================
+    // Matrix Tests
+    // ============================================================================
+    describe('createCompatibilityPolicy', () => {
+        it('categorizes licenses, treating linking exceptions as weak copyleft', () => {
+            const category = (expression: string) => licenseCategory(parseSpdx(expression) as never);
+
+            expect(category('MIT')).toBe('permissive');
+            expect(category('LGPL-2.1-only')).toBe('weak-copyleft');
+            expect(category('GPL-2.0+')).toBe('strong-copyleft');
+            expect(category('GPL-2.0-only WITH Classpath-exception-2.0')).toBe('weak-copyleft');
+            expect(category('AGPL-3.0-or-later')).toBe('network-copyleft');
+            expect(category('BUSL-1.1')).toBe('restricted');
+            expect(category('Beerware')).toBeUndefined();
+        });
+
+        it('allows GPL in a hosted service but not in a distributed proprietary binary', () => {
+            expect(status('UNLICENSED', 'saas', 'GPL-3.0-only')).toBe('allowed');
+            expect(status('UNLICENSED', 'binary', 'GPL-3.0-only')).toBe('denied');
+            expect(status('MIT', 'library', 'GPL-2.0-or-later')).toBe('denied');
+            expect(status('UNLICENSED', 'binary', 'LGPL-3.0-only')).toBe('allowed');
+            expect(status('UNLICENSED', 'binary', 'MPL-2.0')).toBe('allowed');
+        });
+
+        it('denies AGPL in a proprietary service, explaining the obligation', () => {
+            const decision = createCompatibilityPolicy({
+                projectLicense: 'UNLICENSED',
+                distribution: 'saas',
+            })('AGPL-3.0-only');
+
+            expect(decision).toEqual({
+                status: 'denied',
+                branch: 'AGPL-3.0-only',
+                reason: 'AGPL-3.0-only is network copyleft, incompatible with the project (proprietary, run as a service)',
+                obligation:
+                    'Users interacting with AGPL-3.0-only code over a network must be offered the complete source of the service under AGPL-3.0-only',
+            });
+        });
+
+        it('allows copyleft under a compatible project license', () => {
+            expect(status('GPL-3.0-only', 'binary', 'GPL-2.0-or-later')).toBe('allowed');
+            expect(status('GPL-3.0-only', 'binary', 'GPL-2.0-only')).toBe('denied');
+            expect(status('GPL-3.0-or-later', 'saas', 'AGPL-3.0-only')).toBe('allowed');
+            expect(status('AGPL-3.0-only', 'library', 'GPL-3.0-only')).toBe('allowed');
+            expect(status('GPL-2.0-only', 'binary', 'GPL-2.0-only')).toBe('allowed');
+        });
+
+        it('denies Apache-2.0 in a distributed GPL-2.0-only project', () => {
+            expect(status('GPL-2.0-only', 'binary', 'Apache-2.0')).toBe('denied');
+            expect(status('GPL-2.0-or-later', 'binary', 'Apache-2.0')).toBe('allowed');
+            expect(status('GPL-2.0-only', 'saas', 'Apache-2.0')).toBe('allowed');
+        });
+
+        it('denies source-available licenses under every model', () => {
+            for (const distribution of ['saas', 'binary', 'library'] as const) {
+                expect(status('Apache-2.0', distribution, 'Elastic-2.0')).toBe('denied');
+            }
+        });
+
+        it('evaluates expressions, choosing the best OR branch', () => {
+            const evaluate = createCompatibilityPolicy({
+                projectLicense: 'Apache-2.0',
+                distribution: 'binary',
+            });
+
+            expect(evaluate('MIT OR GPL-3.0-only')).toMatchObject({ status: 'allowed', branch: 'MIT' });
+            expect(evaluate('MIT AND GPL-3.0-only')).toMatchObject({
+                status: 'denied',
+                branch: 'GPL-3.0-only',
+            });
+            expect(evaluate('Beerware')).toMatchObject({ status: 'unknown' });
+            expect(evaluate('SEE LICENSE IN LICENSE')).toMatchObject({ status: 'unknown' });
+        });
+    });
+
+    // ============================================================================
+    // Project License Tests
+    // ============================================================================
+    describe('readProjectLicense', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'repohygiene-compat-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('prefers the configured license, then package.json, then the LICENSE file', async () => {
+            writeFileSync(join(dir, 'package.json'), JSON.stringify({ license: 'SEE LICENSE IN LICENSE' }));
+            writeFileSync(join(dir, 'LICENSE'), LICENSE_CORPUS.find((t) => t.id === 'MIT')?.text ?? '');
+
+            expect(await readProjectLicense(dir)).toEqual({
+                projectLicense: 'MIT',
+                projectLicenseSource: 'license-file',
+            });
+            expect(await readProjectLicense(dir, 'Apache-2.0')).toEqual({
+                projectLicense: 'Apache-2.0',
+                projectLicenseSource: 'config',
+            });
+
+            writeFileSync(join(dir, 'package.json'), JSON.stringify({ license: 'UNLICENSED' }));
+            expect(await readProjectLicense(dir)).toEqual({
+                projectLicense: 'UNLICENSED',
+                projectLicenseSource: 'package.json',
+            });
+        });
+
+        it('treats projects without a license as proprietary', async () => {
+            expect(await readProjectLicense(dir)).toEqual({
+                projectLicense: 'UNLICENSED',
+                projectLicenseSource: 'none',
+            });
+            await expect(readProjectLicense(dir, 'My License')).rejects.toThrow(
+                'Invalid licenses.projectLicense "My License": expected an SPDX expression or UNLICENSED'
+            );
+        });
+    });
+
+    // ============================================================================
+    // Auditor Tests
+    // ============================================================================
+    describe('LicenseAuditor', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'repohygiene-compat-'));
+            writeFileSync(
+                join(dir, 'package.json'),
+                JSON.stringify({
+                    name: 'app',
+                    license: 'MIT',
+                    dependencies: { 'gpl-lib': '^1.0.0', 'lgpl-lib': '^1.0.0' },
+                })
+            );
+            for (const [name, license] of [
+                ['gpl-lib', 'GPL-3.0-only'],
+                ['lgpl-lib', 'LGPL-2.1-only'],
+            ]) {
+                mkdirSync(join(dir, 'node_modules', name), { recursive: true });
+                writeFileSync(
+                    join(dir, 'node_modules', name, 'package.json'),
+                    JSON.stringify({ name, version: '1.0.0', license })
+                );
+            }
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('keeps the allow and deny lists when no distribution model is set', async () => {
+            const ctx = { rootDir: dir, isGitRepo: false } as GitContext;
+            const result = await createLicenseAuditor(ctx, {}).execute();
+
+            expect(result.data?.compatibility).toBeUndefined();
+            expect(result.data?.dependencies.map((d) => d.status)).toEqual(['denied', 'unknown']);
+        });
+
+        it('checks licenses against the project license for the distribution model', async () => {
+            const ctx = { rootDir: dir, isGitRepo: false } as GitContext;
+            const binary = await createLicenseAuditor(ctx, { licenses: { distribution: 'binary' } }).execute();
+
+            expect(binary.status).toBe('failed');
+            expect(binary.data?.compatibility).toEqual({
+                projectLicense: 'MIT',
+                projectLicenseSource: 'package.json',
+                distribution: 'binary',
+            });
+            expect(binary.data?.dependencies.map((d) => d.status)).toEqual(['denied', 'allowed']);
+            expect(binary.issues.map((i) => i.message)).toContain(
+                'Denied license: gpl-lib@^1.0.0 uses GPL-3.0-only: Distributing a binary that includes GPL-3.0-only code requires releasing the source of the whole program under GPL-3.0-only'
+            );
+
+            const saas = await createLicenseAuditor(ctx, {}, { distribution: 'saas' }).execute();
+            expect(saas.status).toBe('passed');
+            expect(saas.data?.summary.denied).toBe(0);
+        });
+    });
+});
@@ -0,0 +1,163 @@
+/**
+ * License Text Detection Tests
+ * Tests for identifying LICENSE files against the canonical text corpus
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    declaresDetectedLicense,
+    detectLicenseText,
+    normalizeLicenseText,
+} from '../../src/modules/licenses/detect.js';
+import { LICENSE_CORPUS } from '../../src/modules/licenses/corpus.js';
+import { scanLicenses } from '../../src/modules/licenses/scanner.js';
+import { createLicenseAuditor } from '../../src/modules/licenses/auditor.js';
+import { generateMarkdownReport } from '../../src/modules/licenses/reporter.js';
+import type { GitContext } from '../../src/core/git.js';
+
+function corpusText(id: string): string {
+    const template = LICENSE_CORPUS.find((t) => t.id === id);
+    if (template === undefined) throw new Error(`No template for ${id}`);
+    return template.text;
+}
+
+function withHeader(title: string, body: string): string {
+    return `${title}\n\nCopyright (c) 2021-present Jane Doe <jane@example.com>\n\n${body}\n`;
+}
+
+describe('License Text Detection', () => {
+    // ============================================================================
+    // Matching Tests
+    // ============================================================================
+    describe('detectLicenseText', () => {
+        it('identifies short licenses despite titles and copyright lines', () => {
+            expect(detectLicenseText(withHeader('MIT License', corpusText('MIT')))).toEqual({
+                id: 'MIT',
+                confidence: 0.99,
+            });
+            expect(detectLicenseText(withHeader('The ISC License', corpusText('ISC')))?.id).toBe('ISC');
+        });
+
+        it('tells apart licenses that differ by a clause', () => {
+            expect(detectLicenseText(corpusText('MIT-0'))?.id).toBe('MIT-0');
+            expect(detectLicenseText(corpusText('0BSD'))?.id).toBe('0BSD');
+            expect(detectLicenseText(corpusText('BSD-2-Clause'))?.id).toBe('BSD-2-Clause');
+            expect(detectLicenseText(corpusText('BSD-3-Clause'))?.id).toBe('BSD-3-Clause');
+        });
+
+        it('ignores layout, case, quote style and British spelling', () => {
+            const reflowed = corpusText('MIT')
+                .replace(/\s+/g, ' ')
+                .replace(/"/g, '“')
+                .toUpperCase()
+                .replace(/LICENSE/g, 'LICENCE');
+
+            expect(detectLicenseText(reflowed)).toEqual({ id: 'MIT', confidence: 1 });
+            expect(normalizeLicenseText('Copyright 2020 X\r\n“Licence”, non-infringement')).toEqual([
+                'license',
+                'noninfringement',
+            ]);
+        });
+
+        it('identifies long licenses from their opening text', () => {
+            const gpl = `${corpusText('GPL-3.0-only')}\n\n  TERMS AND CONDITIONS\n\n  0. Definitions.\n`;
+
+            expect(detectLicenseText(gpl)).toEqual({ id: 'GPL-3.0-only', confidence: 1 });
+            expect(detectLicenseText(corpusText('AGPL-3.0-only'))?.id).toBe('AGPL-3.0-only');
+            expect(detectLicenseText(corpusText('LGPL-2.1-only'))?.id).toBe('LGPL-2.1-only');
+        });
+
+        it('does not report licenses quoted in bundled dependency notices', () => {
+            const notices = [
+                withHeader('MIT License', corpusText('MIT')),
+                '# Licenses of bundled dependencies',
+                ...Array.from({ length: 3 }, () => corpusText('Apache-2.0')),
+            ].join('\n\n');
+
+            expect(detectLicenseText(notices)?.id).not.toBe('Apache-2.0');
+        });
+
+        it('returns null for text that is not a known license', () => {
+            expect(detectLicenseText('All rights reserved. Do not redistribute.')).toBeNull();
+            expect(detectLicenseText('')).toBeNull();
+        });
+
+        it('compares detected licenses against declared expressions', () => {
+            expect(declaresDetectedLicense('MIT OR Apache-2.0', 'Apache-2.0')).toBe(true);
+            expect(declaresDetectedLicense('GPL-2.0+', 'GPL-2.0-only')).toBe(true);
+            expect(declaresDetectedLicense('MIT', 'GPL-3.0-only')).toBe(false);
+            expect(declaresDetectedLicense('SEE LICENSE IN LICENSE', 'MIT')).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // Scanner Integration Tests
+    // ============================================================================
+    describe('scanner integration', () => {
+        let dir: string;
+
+        function installPackage(name: string, license: string | undefined, licenseText: string): void {
+            const packageDir = join(dir, 'node_modules', name);
+            mkdirSync(packageDir, { recursive: true });
+            writeFileSync(
+                join(packageDir, 'package.json'),
+                JSON.stringify({ name, version: '1.0.0', ...(license !== undefined && { license }) })
+            );
+            writeFileSync(join(packageDir, 'LICENSE'), licenseText);
+        }
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'rh-detect-'));
+            writeFileSync(
+                join(dir, 'package.json'),
+                JSON.stringify({
+                    name: 'app',
+                    dependencies: { undeclared: '1.0.0', relabelled: '1.0.0', honest: '1.0.0' },
+                })
+            );
+            installPackage('undeclared', undefined, withHeader('ISC License', corpusText('ISC')));
+            installPackage('relabelled', 'MIT', corpusText('GPL-3.0-only'));
+            installPackage('honest', 'MIT', withHeader('MIT License', corpusText('MIT')));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('uses the license file when package.json declares none', async () => {
+            const [undeclared, relabelled, honest] = await scanLicenses({ cwd: dir });
+
+            expect(undeclared).toMatchObject({
+                license: 'ISC',
+                licenseSource: 'file',
+                detectedLicense: { id: 'ISC' },
+                status: 'allowed',
+            });
+            expect(relabelled).toMatchObject({
+                license: 'MIT',
+                licenseSource: 'package',
+                licenseMismatch: true,
+                detectedLicense: { id: 'GPL-3.0-only', confidence: 1 },
+            });
+            expect(honest?.licenseMismatch).toBe(false);
+        });
+
+        it('reports license files that contradict package.json', async () => {
+            const auditor = createLicenseAuditor({ rootDir: dir, isGitRepo: false } as GitContext, {});
+            const result = await auditor.execute();
+
+            const mismatches = result.issues.filter((i) => i.rule === 'license-mismatch');
+            expect(mismatches.map((i) => i.message)).toEqual([
+                'License mismatch: relabelled@1.0.0 declares MIT but LICENSE matches GPL-3.0-only (100% confidence)',
+            ]);
+
+            const data = result.data;
+            expect(generateMarkdownReport(data.dependencies, data.summary)).toContain(
+                '| relabelled | 1.0.0 | MIT | LICENSE | GPL-3.0-only | 100% |'
+            );
+        });
+    });
+});
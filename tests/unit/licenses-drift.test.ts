@@ -0,0 +1,190 @@
+/**
+ * License Drift Tests
+ * Tests for comparing dependency licenses with another git ref
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initGitContext } from '../../src/core/git.js';
+import { diffLicenses } from '../../src/modules/licenses/drift.js';
+import { createLicenseAuditor } from '../../src/modules/licenses/auditor.js';
+import type { DependencyLicense } from '../../src/types/index.js';
+
+function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', args, { cwd, encoding: 'utf-8' });
+}
+
+function dependency(name: string, version: string, license: string, status: DependencyLicense['status'] = 'allowed'): DependencyLicense {
+    return { name, version, license, status, isProduction: true };
+}
+
+/** Write package.json and a v3 package-lock.json for `name -> [version, license]` */
+function writeProject(dir: string, packages: Record<string, [string, string]>) {
+    const dependencies = Object.fromEntries(Object.entries(packages).map(([name, [version]]) => [name, version]));
+    writeFileSync(join(dir, 'package.json'), JSON.stringify({ name: 'app', version: '1.0.0', dependencies }));
+    writeFileSync(
+        join(dir, 'package-lock.json'),
+        JSON.stringify({
+            name: 'app',
+            lockfileVersion: 3,
+            packages: {
+                '': { name: 'app', version: '1.0.0', dependencies },
+                ...Object.fromEntries(
+                    Object.entries(packages).map(([name, [version, license]]) => [
+                        `node_modules/${name}`,
+                        { version, license },
+                    ])
+                ),
+            },
+        })
+    );
+}
+
+describe('License Drift', () => {
+    // ============================================================================
+    // Diff Tests
+    // ============================================================================
+    describe('diffLicenses', () => {
+        it('lists added and removed packages, and license changes across versions', () => {
+            const drift = diffLicenses(
+                [
+                    dependency('kept', '1.0.0', 'MIT'),
+                    dependency('upgraded', '1.0.0', 'MIT'),
+                    dependency('relicensed', '1.0.0', 'MIT'),
+                    dependency('dropped', '1.0.0', 'ISC'),
+                ],
+                [
+                    dependency('kept', '1.0.0', 'MIT'),
+                    dependency('upgraded', '2.0.0', 'MIT'),
+                    dependency('relicensed', '2.0.0', 'BUSL-1.1', 'unknown'),
+                    dependency('added', '1.0.0', 'Apache-2.0'),
+                ]
+            );
+
+            expect(drift.added.map((d) => d.name)).toEqual(['added']);
+            expect(drift.removed.map((d) => d.name)).toEqual(['dropped']);
+            expect(drift.changed).toEqual([
+                {
+                    dependency: dependency('relicensed', '2.0.0', 'BUSL-1.1', 'unknown'),
+                    previousVersion: '1.0.0',
+                    previousLicense: 'MIT',
+                },
+            ]);
+        });
+
+        it('keeps packages apart by ecosystem', () => {
+            const drift = diffLicenses(
+                [{ ...dependency('requests', '2.31.0', 'Apache-2.0'), ecosystem: 'python' }],
+                [dependency('requests', '2.31.0', 'Apache-2.0')]
+            );
+
+            expect(drift.added).toHaveLength(1);
+            expect(drift.removed).toHaveLength(1);
+        });
+
+        it('only compares a license unread at the base when the package fails now', () => {
+            const drift = diffLicenses(
+                [dependency('quiet', '1.0.0', 'UNKNOWN', 'unknown'), dependency('loud', '1.0.0', 'UNKNOWN', 'unknown')],
+                [dependency('quiet', '2.0.0', 'MIT'), dependency('loud', '2.0.0', 'GPL-3.0-only', 'denied')]
+            );
+
+            expect(drift.changed.map((change) => change.dependency.name)).toEqual(['loud']);
+        });
+    });
+
+    // ============================================================================
+    // Auditor Tests
+    // ============================================================================
+    describe('LicenseAuditor with compare', () => {
+        let dir: string;
+
+        function install(packages: Record<string, [string, string]>) {
+            for (const [name, [version, license]] of Object.entries(packages)) {
+                mkdirSync(join(dir, 'node_modules', name), { recursive: true });
+                writeFileSync(
+                    join(dir, 'node_modules', name, 'package.json'),
+                    JSON.stringify({ name, version, license })
+                );
+            }
+        }
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'repohygiene-drift-'));
+            git(dir, 'init', '-q', '-b', 'main');
+            git(dir, 'config', 'user.email', 'test@example.com');
+            git(dir, 'config', 'user.name', 'Test');
+            writeFileSync(join(dir, '.gitignore'), 'node_modules/\n');
+            writeProject(dir, {
+                kept: ['1.0.0', 'MIT'],
+                relicensed: ['1.0.0', 'MIT'],
+                'legacy-gpl': ['1.0.0', 'GPL-3.0-only'],
+                dropped: ['1.0.0', 'ISC'],
+            });
+            git(dir, 'add', '.');
+            git(dir, 'commit', '-q', '-m', 'initial dependencies');
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('fails only on violations introduced since the ref', async () => {
+            const packages: Record<string, [string, string]> = {
+                kept: ['1.0.0', 'MIT'],
+                relicensed: ['2.0.0', 'BUSL-1.1'],
+                'legacy-gpl': ['1.0.0', 'GPL-3.0-only'],
+                'new-gpl': ['1.0.0', 'GPL-2.0-only'],
+                'new-mit': ['1.0.0', 'MIT'],
+            };
+            writeProject(dir, packages);
+            install(packages);
+
+            const ctx = await initGitContext(dir);
+            const result = await createLicenseAuditor(ctx, {}, { compare: 'main' }).execute();
+            const drift = result.data?.drift;
+
+            expect(result.status).toBe('failed');
+            expect(drift?.commit).toBe(git(dir, 'rev-parse', 'main').trim());
+            expect(drift?.added.map((d) => d.name)).toEqual(['new-gpl', 'new-mit']);
+            expect(drift?.changed.map((c) => [c.dependency.name, c.previousLicense])).toEqual([
+                ['relicensed', 'MIT'],
+            ]);
+            expect(drift?.removed.map((d) => [d.name, d.license])).toEqual([['dropped', 'ISC']]);
+            expect(drift?.directOnly).toEqual([]);
+
+            const messages = result.issues.map((i) => i.message);
+            expect(messages).toContain('Denied license: new-gpl@1.0.0 uses GPL-2.0-only (new since main)');
+            expect(messages).toContain('Unknown license: relicensed@2.0.0 (BUSL-1.1) (was MIT at 1.0.0 in main)');
+            expect(messages).toContain('1 denied or unknown licenses unchanged since main were not reported');
+            expect(messages).toContain('License policy violation since main: 1 denied, 1 unknown introduced');
+            expect(messages.some((m) => m.includes('legacy-gpl'))).toBe(false);
+            expect(result.data?.summary.denied).toBe(2);
+        });
+
+        it('passes when the violations were already there', async () => {
+            install({
+                kept: ['1.0.0', 'MIT'],
+                relicensed: ['1.0.0', 'MIT'],
+                'legacy-gpl': ['1.0.0', 'GPL-3.0-only'],
+                dropped: ['1.0.0', 'ISC'],
+            });
+
+            const ctx = await initGitContext(dir);
+            const result = await createLicenseAuditor(ctx, {}, { compare: 'HEAD' }).execute();
+
+            expect(result.status).toBe('passed');
+            expect(result.data?.drift).toMatchObject({ added: [], changed: [], removed: [] });
+        });
+
+        it('rejects unknown refs', async () => {
+            const ctx = await initGitContext(dir);
+            const result = await createLicenseAuditor(ctx, {}, { compare: 'no-such-branch' }).execute();
+
+            expect(result.status).toBe('failed');
+            expect(result.issues[0]?.message).toBe('Unknown git ref "no-such-branch"');
+        });
+    });
+});
@@ -0,0 +1,533 @@
+/**
+ * License Ecosystem Tests
+ * Tests for auditing Python, Go, Rust and Maven dependencies alongside npm
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join, relative } from 'path';
+import { scanLicenseTree, detectEcosystems } from '../../src/modules/licenses/scanner.js';
+import {
+    declaredPythonLicense,
+    parseMetadata,
+    parseRequirement,
+} from '../../src/modules/licenses/python.js';
+import { escapeGoPath, parseGoMod } from '../../src/modules/licenses/go.js';
+import { normalizeCargoLicense } from '../../src/modules/licenses/rust.js';
+import { interpolate, parseXml } from '../../src/modules/licenses/maven.js';
+import { packageUrl } from '../../src/modules/licenses/sbom.js';
+import { createLicenseAuditor } from '../../src/modules/licenses/auditor.js';
+import { LICENSE_CORPUS } from '../../src/modules/licenses/corpus.js';
+import type { GitContext } from '../../src/core/git.js';
+
+const MIT_TEXT = `MIT License\n\nCopyright (c) 2020 Jane Doe\n\n${
+    LICENSE_CORPUS.find((t) => t.id === 'MIT')?.text ?? ''
+}\n`;
+
+function write(path: string, content: string): void {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, content);
+}
+
+type Row = [string, string, string, boolean];
+
+function rows(
+    dependencies: ReadonlyArray<{ name: string; version: string; license: string; isProduction: boolean }>
+): Row[] {
+    return dependencies.map((d) => [d.name, d.version, d.license, d.isProduction]);
+}
+
+describe('License Ecosystems', () => {
+    let dir: string;
+    let home: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'repohygiene-ecosystems-'));
+        home = mkdtempSync(join(tmpdir(), 'repohygiene-home-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+        rmSync(home, { recursive: true, force: true });
+    });
+
+    // ============================================================================
+    // Detection Tests
+    // ============================================================================
+    describe('detectEcosystems', () => {
+        it('finds every ecosystem with a manifest in the project root', () => {
+            write(join(dir, 'package.json'), '{}');
+            write(join(dir, 'requirements.txt'), '');
+            write(join(dir, 'go.mod'), 'module example.com/app\n');
+
+            expect(detectEcosystems(dir).map((adapter) => adapter.ecosystem)).toEqual([
+                'npm',
+                'python',
+                'go',
+            ]);
+        });
+
+        it('fails when no ecosystem is found', async () => {
+            await expect(scanLicenseTree({ cwd: dir, homeDir: home })).rejects.toThrow(
+                /^No dependency manifest found \(looked for package\.json, poetry\.lock/
+            );
+        });
+    });
+
+    // ============================================================================
+    // Python Tests
+    // ============================================================================
+    describe('Python', () => {
+        it('parses requirements, ignoring extras, markers and hashes', () => {
+            expect(parseRequirement('requests[socks]==2.31.0 ; python_version > "3.7"')).toEqual({
+                name: 'requests',
+                specifier: '==2.31.0',
+                pinned: '2.31.0',
+                isProduction: true,
+            });
+            expect(parseRequirement('Django>=4,<5 --hash=sha256:abc')).toMatchObject({
+                name: 'Django',
+                specifier: '>=4,<5',
+                pinned: undefined,
+            });
+        });
+
+        it('reads licenses from METADATA fields and classifiers', () => {
+            const license = (content: string): string => declaredPythonLicense(parseMetadata(content));
+
+            expect(license('Name: a\nLicense-Expression: MIT OR Apache-2.0\nLicense: BSD\n')).toBe(
+                'MIT OR Apache-2.0'
+            );
+            expect(license('Name: a\nLicense: Apache License 2.0\n')).toBe('Apache-2.0');
+            expect(
+                license(
+                    'Name: a\nClassifier: License :: OSI Approved :: MIT License\n' +
+                        'Classifier: License :: OSI Approved :: ISC License (ISCL)\n' +
+                        'Classifier: License :: OSI Approved :: BSD License\n'
+                )
+            ).toBe('MIT OR ISC');
+            expect(license(`Name: a\nLicense: ${MIT_TEXT.split('\n').join('\n        ')}\n`)).toBe(
+                'MIT'
+            );
+            expect(license('Name: a\n')).toBe('UNKNOWN');
+        });
+
+        it('walks poetry.lock from the groups in pyproject.toml', async () => {
+            write(
+                join(dir, 'pyproject.toml'),
+                [
+                    '[tool.poetry.dependencies]',
+                    'python = "^3.11"',
+                    'Flask = "^3.0"',
+                    '',
+                    '[tool.poetry.group.dev.dependencies]',
+                    'pytest = "^8.0"',
+                ].join('\n')
+            );
+            write(
+                join(dir, 'poetry.lock'),
+                [
+                    '[[package]]',
+                    'name = "flask"',
+                    'version = "3.0.2"',
+                    '',
+                    '[package.dependencies]',
+                    'Werkzeug = ">=3.0.0"',
+                    '',
+                    '[[package]]',
+                    'name = "werkzeug"',
+                    'version = "3.0.1"',
+                    '',
+                    '[[package]]',
+                    'name = "pytest"',
+                    'version = "8.0.0"',
+                ].join('\n')
+            );
+            const sitePackages = join(dir, '.venv', 'lib', 'python3.11', 'site-packages');
+            write(
+                join(sitePackages, 'flask-3.0.2.dist-info', 'METADATA'),
+                'Metadata-Version: 2.1\nName: Flask\nVersion: 3.0.2\nLicense: BSD-3-Clause\n'
+            );
+            write(
+                join(sitePackages, 'werkzeug-3.0.1.dist-info', 'METADATA'),
+                'Metadata-Version: 2.1\nName: Werkzeug\nVersion: 3.0.1\n'
+            );
+            write(join(sitePackages, 'werkzeug-3.0.1.dist-info', 'licenses', 'LICENSE.txt'), MIT_TEXT);
+
+            const tree = await scanLicenseTree({ cwd: dir, homeDir: home });
+
+            expect(tree.ecosystems).toEqual([
+                { ecosystem: 'python', lockfile: 'poetry.lock', directOnly: false },
+            ]);
+            expect(rows(tree.dependencies)).toEqual([
+                ['flask', '3.0.2', 'BSD-3-Clause', true],
+                ['werkzeug', '3.0.1', 'MIT', true],
+                ['pytest', '8.0.0', 'UNKNOWN', false],
+            ]);
+            expect(tree.dependencies[1]).toMatchObject({
+                ecosystem: 'python',
+                licenseSource: 'file',
+                licenseFile: join(
+                    '.venv',
+                    'lib',
+                    'python3.11',
+                    'site-packages',
+                    'werkzeug-3.0.1.dist-info',
+                    'licenses',
+                    'LICENSE.txt'
+                ),
+                dependencyPath: ['flask', 'werkzeug'],
+            });
+        });
+
+        it('audits only direct requirements when they are not pinned', async () => {
+            write(join(dir, 'requirements.txt'), 'requests>=2\n-r base.txt\n');
+            write(join(dir, 'base.txt'), 'click==8.1.7 \\\n    --hash=sha256:abc\n');
+            write(join(dir, 'requirements-dev.txt'), 'pytest==8.0.0\n');
+
+            const tree = await scanLicenseTree({ cwd: dir, homeDir: home });
+
+            expect(tree.ecosystems).toEqual([
+                { ecosystem: 'python', lockfile: undefined, directOnly: true },
+            ]);
+            expect(rows(tree.dependencies)).toEqual([
+                ['requests', '>=2', 'UNKNOWN', true],
+                ['click', '8.1.7', 'UNKNOWN', true],
+                ['pytest', '8.0.0', 'UNKNOWN', false],
+            ]);
+        });
+
+        it('follows Requires-Dist through an installed virtualenv', async () => {
+            write(join(dir, 'requirements.txt'), 'requests\n');
+            const sitePackages = join(dir, 'venv', 'lib', 'python3.12', 'site-packages');
+            write(
+                join(sitePackages, 'requests-2.31.0.dist-info', 'METADATA'),
+                [
+                    'Name: requests',
+                    'Version: 2.31.0',
+                    'License: Apache 2.0',
+                    'Requires-Dist: urllib3 (<3,>=1.21.1)',
+                    'Requires-Dist: PySocks (!=1.5.7,>=1.5.6) ; extra == "socks"',
+                ].join('\n')
+            );
+            write(
+                join(sitePackages, 'urllib3-2.2.1.dist-info', 'METADATA'),
+                'Name: urllib3\nVersion: 2.2.1\nLicense-Expression: MIT\n'
+            );
+
+            const tree = await scanLicenseTree({ cwd: dir, homeDir: home });
+
+            expect(tree.ecosystems[0]?.directOnly).toBe(false);
+            expect(rows(tree.dependencies)).toEqual([
+                ['requests', '2.31.0', 'Apache-2.0', true],
+                ['urllib3', '2.2.1', 'MIT', true],
+            ]);
+        });
+    });
+
+    // ============================================================================
+    // Go Tests
+    // ============================================================================
+    describe('Go', () => {
+        const GO_MOD = [
+            'module example.com/app',
+            '',
+            'go 1.21',
+            '',
+            'require (',
+            '\tgithub.com/BurntSushi/toml v1.3.2',
+            '\tgolang.org/x/text v0.14.0 // indirect',
+            ')',
+            '',
+            'require github.com/pkg/errors v0.9.1',
+            '',
+            'replace github.com/pkg/errors => ./third_party/errors',
+        ].join('\n');
+
+        it('parses require blocks, indirect markers and replacements', () => {
+            const goMod = parseGoMod(GO_MOD);
+
+            expect(goMod.module).toBe('example.com/app');
+            expect(goMod.goVersion).toBe('1.21');
+            expect(goMod.requires).toEqual([
+                { path: 'github.com/BurntSushi/toml', version: 'v1.3.2', indirect: false },
+                { path: 'golang.org/x/text', version: 'v0.14.0', indirect: true },
+                { path: 'github.com/pkg/errors', version: 'v0.9.1', indirect: false },
+            ]);
+            expect(goMod.replaces).toEqual([
+                {
+                    path: 'github.com/pkg/errors',
+                    version: undefined,
+                    newPath: './third_party/errors',
+                    newVersion: undefined,
+                },
+            ]);
+            expect(() => parseGoMod('require (\n\tfoo v1.0.0\n')).toThrow('Unterminated require block');
+            expect(escapeGoPath('github.com/BurntSushi/toml')).toBe('github.com/!burnt!sushi/toml');
+        });
+
+        it('detects licenses in vendor/, the module cache and local replacements', async () => {
+            write(join(dir, 'go.mod'), GO_MOD);
+            write(join(dir, 'vendor', 'golang.org', 'x', 'text', 'LICENSE'), MIT_TEXT);
+            write(join(dir, 'third_party', 'errors', 'LICENSE'), MIT_TEXT);
+            write(
+                join(home, 'go', 'pkg', 'mod', 'github.com', '!burnt!sushi', 'toml@v1.3.2', 'COPYING'),
+                'All rights reserved.'
+            );
+
+            const previous = { GOMODCACHE: process.env.GOMODCACHE, GOPATH: process.env.GOPATH };
+            delete process.env.GOMODCACHE;
+            delete process.env.GOPATH;
+            try {
+                const tree = await scanLicenseTree({ cwd: dir, homeDir: home });
+
+                expect(tree.ecosystems).toEqual([
+                    { ecosystem: 'go', lockfile: 'go.mod', directOnly: false },
+                ]);
+                expect(rows(tree.dependencies)).toEqual([
+                    ['github.com/BurntSushi/toml', 'v1.3.2', 'UNKNOWN', true],
+                    ['golang.org/x/text', 'v0.14.0', 'MIT', true],
+                    ['github.com/pkg/errors', 'v0.9.1', 'MIT', true],
+                ]);
+                expect(tree.dependencies[0]?.licenseFile).toBe(
+                    relative(dir, join(home, 'go', 'pkg', 'mod', 'github.com', '!burnt!sushi', 'toml@v1.3.2', 'COPYING'))
+                );
+                expect(tree.dependencies[1]).toMatchObject({
+                    licenseFile: join('vendor', 'golang.org', 'x', 'text', 'LICENSE'),
+                    dependencyPath: undefined,
+                });
+            } finally {
+                Object.assign(process.env, previous);
+            }
+        });
+
+        it('audits only direct requirements before Go 1.17', async () => {
+            write(join(dir, 'go.mod'), GO_MOD.replace('go 1.21', 'go 1.16'));
+
+            const tree = await scanLicenseTree({ cwd: dir, homeDir: home });
+
+            expect(tree.ecosystems[0]).toMatchObject({ lockfile: undefined, directOnly: true });
+            expect(tree.dependencies.map((d) => d.name)).toEqual([
+                'github.com/BurntSushi/toml',
+                'github.com/pkg/errors',
+            ]);
+        });
+    });
+
+    // ============================================================================
+    // Rust Tests
+    // ============================================================================
+    describe('Rust', () => {
+        const CHECKSUM = 'a'.repeat(64);
+
+        beforeEach(() => {
+            write(
+                join(dir, 'Cargo.toml'),
+                [
+                    '[package]',
+                    'name = "app"',
+                    'version = "0.1.0"',
+                    '',
+                    '[dependencies]',
+                    'serde = "1"',
+                    '',
+                    "[target.'cfg(unix)'.dependencies]",
+                    'libc = "0.2"',
+                    '',
+                    '[dev-dependencies]',
+                    'insta = "1"',
+                ].join('\n')
+            );
+        });
+
+        it('walks Cargo.lock and reads licenses from the registry sources', async () => {
+            write(
+                join(dir, 'Cargo.lock'),
+                [
+                    'version = 3',
+                    '',
+                    '[[package]]',
+                    'name = "app"',
+                    'version = "0.1.0"',
+                    'dependencies = ["insta", "libc", "serde"]',
+                    '',
+                    '[[package]]',
+                    'name = "insta"',
+                    'version = "1.34.0"',
+                    'source = "registry+https://github.com/rust-lang/crates.io-index"',
+                    '',
+                    '[[package]]',
+                    'name = "libc"',
+                    'version = "0.2.153"',
+                    'source = "registry+https://github.com/rust-lang/crates.io-index"',
+                    '',
+                    '[[package]]',
+                    'name = "serde"',
+                    'version = "1.0.197"',
+                    'source = "registry+https://github.com/rust-lang/crates.io-index"',
+                    `checksum = "${CHECKSUM}"`,
+                    'dependencies = ["serde_derive 1.0.197"]',
+                    '',
+                    '[[package]]',
+                    'name = "serde_derive"',
+                    'version = "1.0.197"',
+                    'source = "registry+https://github.com/rust-lang/crates.io-index"',
+                ].join('\n')
+            );
+            const registry = join(home, '.cargo', 'registry', 'src', 'index.crates.io-6f17d22bba15001f');
+            write(
+                join(registry, 'serde-1.0.197', 'Cargo.toml'),
+                '[package]\nname = "serde"\nlicense = "MIT/Apache-2.0"\n'
+            );
+            write(
+                join(registry, 'libc-0.2.153', 'Cargo.toml'),
+                '[package]\nname = "libc"\nlicense-file = "LICENSE-MIT"\n'
+            );
+            write(join(registry, 'libc-0.2.153', 'LICENSE-MIT'), MIT_TEXT);
+
+            const previous = process.env.CARGO_HOME;
+            delete process.env.CARGO_HOME;
+            try {
+                const tree = await scanLicenseTree({ cwd: dir, homeDir: home });
+
+                expect(tree.ecosystems).toEqual([
+                    { ecosystem: 'rust', lockfile: 'Cargo.lock', directOnly: false },
+                ]);
+                expect(rows(tree.dependencies)).toEqual([
+                    ['libc', '0.2.153', 'MIT', true],
+                    ['serde', '1.0.197', 'MIT OR Apache-2.0', true],
+                    ['serde_derive', '1.0.197', 'UNKNOWN', true],
+                    ['insta', '1.34.0', 'UNKNOWN', false],
+                ]);
+                expect(tree.dependencies[0]?.licenseSource).toBe('file');
+                expect(tree.dependencies[1]).toMatchObject({
+                    integrity: `sha256-${Buffer.from(CHECKSUM, 'hex').toString('base64')}`,
+                    resolved: 'https://crates.io/api/v1/crates/serde/1.0.197/download',
+                    dependsOn: ['serde_derive@1.0.197'],
+                });
+            } finally {
+                if (previous !== undefined) process.env.CARGO_HOME = previous;
+            }
+        });
+
+        it('audits the declared dependencies without a Cargo.lock', async () => {
+            const tree = await scanLicenseTree({ cwd: dir, homeDir: home, production: true });
+
+            expect(tree.ecosystems).toEqual([{ ecosystem: 'rust', directOnly: true }]);
+            expect(rows(tree.dependencies)).toEqual([
+                ['serde', '1', 'UNKNOWN', true],
+                ['libc', '0.2', 'UNKNOWN', true],
+            ]);
+            expect(normalizeCargoLicense('MIT / Apache-2.0')).toBe('MIT OR Apache-2.0');
+        });
+    });
+
+    // ============================================================================
+    // Maven Tests
+    // ============================================================================
+    describe('Maven', () => {
+        function writePom(path: string, body: string): void {
+            write(path, `<?xml version="1.0" encoding="UTF-8"?>\n<!-- generated -->\n<project>\n${body}\n</project>\n`);
+        }
+
+        it('parses XML elements, entities and CDATA', () => {
+            const root = parseXml(
+                '<?xml version="1.0"?><a x="1"><b>Tom &amp; Jerry</b><c/><d><![CDATA[<raw>]]></d></a>'
+            );
+
+            expect(root.name).toBe('a');
+            expect(root.children.map((c) => [c.name, c.text])).toEqual([
+                ['b', 'Tom & Jerry'],
+                ['c', ''],
+                ['d', '<raw>'],
+            ]);
+            expect(() => parseXml('<a><b></a>')).toThrow('Unexpected </a> at line 1');
+            expect(interpolate('${a}-${b}', new Map([['a', '${b}'], ['b', '2']]))).toBe('2-2');
+        });
+
+        it('reads dependencies of the pom and its modules, with licenses from ~/.m2', async () => {
+            writePom(
+                join(dir, 'pom.xml'),
+                `<groupId>com.example</groupId>
+                <artifactId>parent</artifactId>
+                <version>1.0.0</version>
+                <properties><slf4j.version>2.0.9</slf4j.version></properties>
+                <modules><module>core</module></modules>
+                <dependencyManagement><dependencies>
+                    <dependency><groupId>junit</groupId><artifactId>junit</artifactId><version>4.13.2</version></dependency>
+                </dependencies></dependencyManagement>
+                <dependencies>
+                    <dependency><groupId>org.slf4j</groupId><artifactId>slf4j-api</artifactId><version>\${slf4j.version}</version></dependency>
+                </dependencies>`
+            );
+            writePom(
+                join(dir, 'core', 'pom.xml'),
+                `<parent><groupId>com.example</groupId><artifactId>parent</artifactId><version>1.0.0</version></parent>
+                <artifactId>core</artifactId>
+                <dependencies>
+                    <dependency><groupId>com.example</groupId><artifactId>parent</artifactId><version>\${project.version}</version></dependency>
+                    <dependency><groupId>junit</groupId><artifactId>junit</artifactId><scope>test</scope></dependency>
+                </dependencies>`
+            );
+
+            const repository = join(home, '.m2', 'repository');
+            const slf4j = join(repository, 'org', 'slf4j', 'slf4j-api', '2.0.9');
+            writePom(
+                join(slf4j, 'slf4j-api-2.0.9.pom'),
+                `<parent><groupId>org.slf4j</groupId><artifactId>slf4j-parent</artifactId><version>2.0.9</version></parent>`
+            );
+            writePom(
+                join(repository, 'org', 'slf4j', 'slf4j-parent', '2.0.9', 'slf4j-parent-2.0.9.pom'),
+                `<licenses><license><name>MIT License</name><url>http://www.opensource.org/licenses/mit-license.php</url></license></licenses>`
+            );
+            write(join(slf4j, 'slf4j-api-2.0.9.jar.sha1'), `${'ab'.repeat(20)}  slf4j-api-2.0.9.jar\n`);
+            writePom(
+                join(repository, 'junit', 'junit', '4.13.2', 'junit-4.13.2.pom'),
+                `<licenses><license><name>Eclipse Public License 1.0</name><url>http://www.eclipse.org/legal/epl-v10.html</url></license></licenses>`
+            );
+
+            const tree = await scanLicenseTree({ cwd: dir, homeDir: home });
+
+            expect(tree.ecosystems).toEqual([{ ecosystem: 'maven', directOnly: true }]);
+            expect(rows(tree.dependencies)).toEqual([
+                ['org.slf4j:slf4j-api', '2.0.9', 'MIT', true],
+                ['junit:junit', '4.13.2', 'EPL-1.0', false],
+            ]);
+            expect(tree.dependencies[0]).toMatchObject({
+                integrity: `sha1-${Buffer.from('ab'.repeat(20), 'hex').toString('base64')}`,
+                resolved: 'https://repo.maven.apache.org/maven2/org/slf4j/slf4j-api/2.0.9/slf4j-api-2.0.9.jar',
+            });
+            expect(packageUrl('org.slf4j:slf4j-api', '2.0.9', 'maven')).toBe(
+                'pkg:maven/org.slf4j/slf4j-api@2.0.9'
+            );
+        });
+    });
+
+    // ============================================================================
+    // Auditor Tests
+    // ============================================================================
+    describe('LicenseAuditor', () => {
+        it('notes each ecosystem audited without a lockfile', async () => {
+            write(join(dir, 'package.json'), JSON.stringify({ name: 'app', dependencies: {} }));
+            write(join(dir, 'package-lock.json'), JSON.stringify({ lockfileVersion: 3, packages: { '': {} } }));
+            write(join(dir, 'requirements.txt'), 'requests>=2\n');
+
+            const ctx = { rootDir: dir, isGitRepo: false } as GitContext;
+            const result = await createLicenseAuditor(ctx, {}).execute();
+
+            expect(result.data?.ecosystems?.map((e) => e.ecosystem)).toEqual(['npm', 'python']);
+            expect(result.issues.filter((i) => i.rule === 'no-lockfile')).toEqual([
+                expect.objectContaining({
+                    message:
+                        'No Python lockfile found: only direct dependencies were audited, at their declared ranges',
+                }),
+            ]);
+            expect(result.data?.dependencies[0]).toMatchObject({
+                name: 'requests',
+                ecosystem: 'python',
+                status: 'unknown',
+            });
+        });
+    });
+});
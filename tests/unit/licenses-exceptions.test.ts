@@ -0,0 +1,241 @@
+/**
+ * License Exception Tests
+ * Tests for per-package license exceptions, their expiry and semver ranges
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    applyLicenseExceptions,
+    compileLicenseException,
+} from '../../src/modules/licenses/exceptions.js';
+import { satisfiesRange } from '../../src/modules/licenses/semver.js';
+import { createLicenseAuditor } from '../../src/modules/licenses/auditor.js';
+import { generateMarkdownReport } from '../../src/modules/licenses/reporter.js';
+import type { GitContext } from '../../src/core/git.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** YYYY-MM-DD for a day relative to today, in UTC */
+function dayFromNow(days: number): string {
+    return new Date(Date.now() + days * DAY).toISOString().slice(0, 10);
+}
+
+function exception(overrides: Record<string, unknown> = {}) {
+    return {
+        package: 'gpl-lib',
+        version: '^1.0.0',
+        license: 'GPL-3.0',
+        reason: 'Build-time only',
+        approver: 'legal@example.com',
+        expires: dayFromNow(90),
+        ...overrides,
+    };
+}
+
+function dependency(overrides: Record<string, unknown> = {}) {
+    return {
+        name: 'gpl-lib',
+        version: '1.2.0',
+        license: 'GPL-3.0-only',
+        isProduction: true,
+        status: 'denied' as const,
+        ...overrides,
+    };
+}
+
+describe('License Exceptions', () => {
+    // ============================================================================
+    // Semver Range Tests
+    // ============================================================================
+    describe('satisfiesRange', () => {
+        it('matches caret, tilde and x-ranges', () => {
+            expect(satisfiesRange('1.9.0', '^1.2.0')).toBe(true);
+            expect(satisfiesRange('2.0.0', '^1.2.0')).toBe(false);
+            expect(satisfiesRange('0.2.5', '^0.2.1')).toBe(true);
+            expect(satisfiesRange('0.3.0', '^0.2.1')).toBe(false);
+            expect(satisfiesRange('1.2.9', '~1.2.3')).toBe(true);
+            expect(satisfiesRange('1.3.0', '~1.2.3')).toBe(false);
+            expect(satisfiesRange('1.4.0', '1.x')).toBe(true);
+            expect(satisfiesRange('3.0.0', '*')).toBe(true);
+        });
+
+        it('matches comparator sets, hyphen ranges and unions', () => {
+            expect(satisfiesRange('1.5.0', '>= 1.0.0 <2.0.0')).toBe(true);
+            expect(satisfiesRange('2.0.0', '>=1.0.0 <2.0.0')).toBe(false);
+            expect(satisfiesRange('1.4.9', '1.0.0 - 1.4')).toBe(true);
+            expect(satisfiesRange('1.5.0', '1.0.0 - 1.4')).toBe(false);
+            expect(satisfiesRange('3.1.0', '1.x || >=3')).toBe(true);
+            expect(satisfiesRange('2.1.0', '1.x || >=3')).toBe(false);
+        });
+
+        it('only matches prereleases named by the range', () => {
+            expect(satisfiesRange('2.0.0-beta.1', '^1.0.0')).toBe(false);
+            expect(satisfiesRange('1.2.3-beta.2', '>=1.2.3-beta.1')).toBe(true);
+        });
+
+        it('rejects invalid ranges', () => {
+            expect(() => satisfiesRange('1.0.0', 'latest')).toThrow(
+                'Invalid version range "latest": unexpected "latest"'
+            );
+        });
+    });
+
+    // ============================================================================
+    // Validation Tests
+    // ============================================================================
+    describe('compileLicenseException', () => {
+        it('requires a justification, approver and expiry', () => {
+            expect(() => compileLicenseException(exception({ reason: '' }) as never)).toThrow(
+                'Invalid license exception for gpl-lib: "reason" is required'
+            );
+            expect(() => compileLicenseException(exception({ approver: undefined }) as never)).toThrow(
+                /"approver" is required/
+            );
+            expect(() => compileLicenseException(exception({ expires: 'next year' }) as never)).toThrow(
+                /"expires" must be a date written as YYYY-MM-DD/
+            );
+            expect(() => compileLicenseException(exception({ expires: '2026-02-30' }) as never)).toThrow(
+                /"expires"/
+            );
+            expect(() => compileLicenseException(exception({ version: 'latest' }) as never)).toThrow(
+                /Invalid version range "latest"/
+            );
+        });
+
+        it('accepts dates parsed from YAML', () => {
+            const compiled = compileLicenseException(
+                exception({ expires: new Date('2027-06-30T00:00:00Z') }) as never
+            );
+
+            expect(compiled.expires).toBe('2027-06-30');
+            expect(compiled.expiresAt.toISOString()).toBe('2027-07-01T00:00:00.000Z');
+        });
+    });
+
+    // ============================================================================
+    // Application Tests
+    // ============================================================================
+    describe('applyLicenseExceptions', () => {
+        const now = new Date('2026-06-01T12:00:00Z');
+
+        it('allows a matching package until the end of its expiry day', () => {
+            const exceptions = [compileLicenseException(exception({ expires: '2026-06-01' }) as never)];
+
+            const result = applyLicenseExceptions([dependency()], exceptions, now);
+
+            expect(result.dependencies[0]).toMatchObject({
+                status: 'allowed-by-exception',
+                licenseException: {
+                    approver: 'legal@example.com',
+                    expires: '2026-06-01',
+                    expired: false,
+                },
+            });
+            expect(result.applied[0]?.daysLeft).toBe(0);
+        });
+
+        it('keeps the policy status once the exception has expired', () => {
+            const exceptions = [compileLicenseException(exception({ expires: '2026-05-31' }) as never)];
+
+            const result = applyLicenseExceptions([dependency()], exceptions, now);
+
+            expect(result.dependencies[0]).toMatchObject({
+                status: 'denied',
+                licenseException: { expired: true },
+            });
+            expect(result.expired).toHaveLength(1);
+        });
+
+        it('matches the package, version range and license exactly', () => {
+            const exceptions = [compileLicenseException(exception() as never)];
+
+            const result = applyLicenseExceptions(
+                [
+                    dependency({ name: 'other-lib' }),
+                    dependency({ version: '2.0.0' }),
+                    dependency({ license: 'AGPL-3.0-only' }),
+                ],
+                exceptions,
+                now
+            );
+
+            expect(result.dependencies.map((d) => d.status)).toEqual(['denied', 'denied', 'denied']);
+            expect(result.unused).toHaveLength(1);
+        });
+    });
+
+    // ============================================================================
+    // Auditor Tests
+    // ============================================================================
+    describe('LicenseAuditor', () => {
+        let dir: string;
+
+        function audit(exceptions: unknown[]) {
+            return createLicenseAuditor({ rootDir: dir, isGitRepo: false } as GitContext, {
+                licenses: { exceptions: exceptions as never },
+            }).execute();
+        }
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'rh-exceptions-'));
+            writeFileSync(
+                join(dir, 'package.json'),
+                JSON.stringify({ name: 'app', dependencies: { 'gpl-lib': '1.2.0' } })
+            );
+            mkdirSync(join(dir, 'node_modules', 'gpl-lib'), { recursive: true });
+            writeFileSync(
+                join(dir, 'node_modules', 'gpl-lib', 'package.json'),
+                JSON.stringify({ name: 'gpl-lib', version: '1.2.0', license: 'GPL-3.0' })
+            );
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('passes packages allowed by an exception', async () => {
+            const result = await audit([exception()]);
+
+            expect(result.status).toBe('passed');
+            expect(result.data?.summary).toMatchObject({ denied: 0, excepted: 1 });
+            expect(
+                generateMarkdownReport(result.data?.dependencies ?? [], result.data!.summary)
+            ).toContain(`| gpl-lib | 1.2.0 | GPL-3.0 | legal@example.com | ${dayFromNow(90)} | Build-time only |`);
+        });
+
+        it('warns when an exception expires within 30 days', async () => {
+            const result = await audit([exception({ expires: dayFromNow(10) })]);
+
+            expect(result.status).toBe('warning');
+            const issue = result.issues.find((i) => i.rule === 'license-exception-expiring');
+            expect(issue?.message).toBe(
+                `License exception for gpl-lib@1.2.0 (GPL-3.0) expires in 10 days, on ${dayFromNow(10)} (approved by legal@example.com)`
+            );
+        });
+
+        it('fails once an exception has expired', async () => {
+            const result = await audit([exception({ expires: dayFromNow(-1) })]);
+
+            expect(result.status).toBe('failed');
+            expect(result.issues.map((i) => i.rule)).toEqual(
+                expect.arrayContaining(['license-exception-expired', 'denied-license'])
+            );
+        });
+
+        it('reports exceptions that match nothing and rejects invalid ones', async () => {
+            const unused = await audit([exception({ package: 'left-pad' })]);
+            expect(unused.issues.find((i) => i.rule === 'unused-license-exception')?.message).toBe(
+                'License exception for left-pad@^1.0.0 (GPL-3.0) matches no denied or unknown dependency'
+            );
+
+            const invalid = await audit([exception({ approver: '' })]);
+            expect(invalid.status).toBe('failed');
+            expect(invalid.issues[0]?.message).toBe(
+                'Invalid license exception for gpl-lib: "approver" is required'
+            );
+        });
+    });
+});
@@ -0,0 +1,475 @@
+/**
+ * Lockfile Resolver Tests
+ * Tests for transitive dependency resolution from npm, yarn and pnpm lockfiles
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    parseYarnClassic,
+    resolveDependencyTree,
+} from '../../src/modules/licenses/lockfile.js';
+import { scanLicenses } from '../../src/modules/licenses/scanner.js';
+import { createLicenseAuditor } from '../../src/modules/licenses/auditor.js';
+import type { GitContext } from '../../src/core/git.js';
+
+const PACKAGE_JSON = {
+    name: 'app',
+    dependencies: { express: '^4.18.0' },
+    devDependencies: { vitest: '^1.0.0' },
+};
+
+const NPM_V3_LOCK = {
+    lockfileVersion: 3,
+    packages: {
+        '': PACKAGE_JSON,
+        'node_modules/express': {
+            version: '4.18.2',
+            license: 'MIT',
+            dependencies: { 'body-parser': '1.20.1', debug: '2.6.9' },
+        },
+        'node_modules/body-parser': {
+            version: '1.20.1',
+            license: 'MIT',
+            dependencies: { debug: '2.6.9', 'gpl-lib': '^1.0.0' },
+        },
+        'node_modules/debug': { version: '2.6.9', license: 'MIT' },
+        'node_modules/gpl-lib': { version: '1.0.3', license: 'GPL-3.0' },
+        'node_modules/vitest': {
+            version: '1.6.1',
+            dev: true,
+            license: 'MIT',
+            dependencies: { debug: '^4.3.4' },
+        },
+        'node_modules/vitest/node_modules/debug': { version: '4.3.4', dev: true, license: 'MIT' },
+    },
+};
+
+type Summary = Array<[string, string, boolean, string]>;
+
+function summarize(
+    dependencies: ReadonlyArray<{ name: string; version: string; isProduction: boolean; path: readonly string[] }>
+): Summary {
+    return dependencies.map((d) => [d.name, d.version, d.isProduction, d.path.join(' > ')]);
+}
+
+const EXPECTED: Summary = [
+    ['express', '4.18.2', true, 'express'],
+    ['body-parser', '1.20.1', true, 'express > body-parser'],
+    ['debug', '2.6.9', true, 'express > debug'],
+    ['gpl-lib', '1.0.3', true, 'express > body-parser > gpl-lib'],
+    ['vitest', '1.6.1', false, 'vitest'],
+    ['debug', '4.3.4', false, 'vitest > debug'],
+];
+
+describe('Lockfile Resolver', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'rh-lockfile-'));
+        writeFileSync(join(dir, 'package.json'), JSON.stringify(PACKAGE_JSON));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    // ============================================================================
+    // npm Tests
+    // ============================================================================
+    describe('package-lock.json', () => {
+        it('resolves nested installs from lockfile v2/v3 packages', async () => {
+            writeFileSync(join(dir, 'package-lock.json'), JSON.stringify(NPM_V3_LOCK));
+
+            const tree = await resolveDependencyTree(dir);
+
+            expect(tree.lockfile).toBe('package-lock.json');
+            expect(tree.type).toBe('npm');
+            expect(summarize(tree.dependencies)).toEqual(EXPECTED);
+            expect(tree.dependencies[5]?.installPath).toBe('node_modules/vitest/node_modules/debug');
+            expect(tree.dependencies[3]?.license).toBe('GPL-3.0');
+        });
+
+        it('follows peer dependencies npm installed', async () => {
+            writeFileSync(
+                join(dir, 'package-lock.json'),
+                JSON.stringify({
+                    lockfileVersion: 3,
+                    packages: {
+                        '': { dependencies: { 'react-widget': '^1.0.0' } },
+                        'node_modules/react-widget': {
+                            version: '1.0.0',
+                            license: 'MIT',
+                            peerDependencies: { 'gpl-peer': '^2.0.0', 'optional-peer': '*' },
+                            peerDependenciesMeta: { 'optional-peer': { optional: true } },
+                        },
+                        'node_modules/gpl-peer': { version: '2.1.0', license: 'GPL-3.0', peer: true },
+                    },
+                })
+            );
+
+            expect(summarize((await resolveDependencyTree(dir)).dependencies)).toEqual([
+                ['react-widget', '1.0.0', true, 'react-widget'],
+                ['gpl-peer', '2.1.0', true, 'react-widget > gpl-peer'],
+            ]);
+
+            const ctx = { rootDir: dir, isGitRepo: false } as GitContext;
+            const result = await createLicenseAuditor(ctx, {}).execute();
+            expect(result.status).toBe('failed');
+            expect(result.issues.map((i) => i.message)).toContain(
+                'Denied license: gpl-peer@2.1.0 uses GPL-3.0 (via react-widget > gpl-peer)'
+            );
+        });
+
+        it('resolves the nested dependencies tree of lockfile v1', async () => {
+            writeFileSync(
+                join(dir, 'package-lock.json'),
+                JSON.stringify({
+                    lockfileVersion: 1,
+                    dependencies: {
+                        express: {
+                            version: '4.18.2',
+                            requires: { 'body-parser': '1.20.1', debug: '2.6.9' },
+                        },
+                        'body-parser': {
+                            version: '1.20.1',
+                            requires: { debug: '2.6.9', 'gpl-lib': '^1.0.0' },
+                        },
+                        debug: { version: '2.6.9' },
+                        'gpl-lib': { version: '1.0.3' },
+                        vitest: {
+                            version: '1.6.1',
+                            dev: true,
+                            requires: { debug: '^4.3.4' },
+                            dependencies: { debug: { version: '4.3.4', dev: true } },
+                        },
+                    },
+                })
+            );
+
+            expect(summarize((await resolveDependencyTree(dir)).dependencies)).toEqual(EXPECTED);
+        });
+
+        it('walks through workspace links without reporting them', async () => {
+            writeFileSync(
+                join(dir, 'package-lock.json'),
+                JSON.stringify({
+                    lockfileVersion: 3,
+                    packages: {
+                        '': { dependencies: { '@app/core': '*' } },
+                        'node_modules/@app/core': { resolved: 'packages/core', link: true },
+                        'packages/core': { name: '@app/core', dependencies: { debug: '^2.6.9' } },
+                        'node_modules/debug': { version: '2.6.9' },
+                    },
+                })
+            );
+
+            expect(summarize((await resolveDependencyTree(dir)).dependencies)).toEqual([
+                ['debug', '2.6.9', true, '@app/core > debug'],
+            ]);
+        });
+    });
+
+    // ============================================================================
+    // yarn Tests
+    // ============================================================================
+    describe('yarn.lock', () => {
+        it('parses the classic v1 format', () => {
+            const entries = parseYarnClassic(
+                [
+                    '# THIS IS AN AUTOGENERATED FILE.',
+                    '# yarn lockfile v1',
+                    '',
+                    '"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.10.4":',
+                    '  version "7.12.13"',
+                    '  resolved "https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.12.13.tgz"',
+                    '  dependencies:',
+                    '    "@babel/highlight" "^7.12.13"',
+                    '',
+                ].join('\n')
+            );
+
+            expect(entries).toEqual({
+                '"@babel/code-frame@^7.0.0", "@babel/code-frame@^7.10.4"': {
+                    version: '7.12.13',
+                    resolved: 'https://registry.yarnpkg.com/@babel/code-frame/-/code-frame-7.12.13.tgz',
+                    dependencies: { '@babel/highlight': '^7.12.13' },
+                },
+            });
+        });
+
+        it('resolves yarn classic descriptors', async () => {
+            writeFileSync(
+                join(dir, 'yarn.lock'),
+                [
+                    '# yarn lockfile v1',
+                    '',
+                    'body-parser@1.20.1:',
+                    '  version "1.20.1"',
+                    '  dependencies:',
+                    '    debug "2.6.9"',
+                    '    gpl-lib "^1.0.0"',
+                    '',
+                    'debug@2.6.9:',
+                    '  version "2.6.9"',
+                    '',
+                    'debug@^4.3.4:',
+                    '  version "4.3.4"',
+                    '',
+                    'express@^4.18.0:',
+                    '  version "4.18.2"',
+                    '  dependencies:',
+                    '    body-parser "1.20.1"',
+                    '    debug "2.6.9"',
+                    '',
+                    'gpl-lib@^1.0.0:',
+                    '  version "1.0.3"',
+                    '',
+                    'vitest@^1.0.0:',
+                    '  version "1.6.1"',
+                    '  dependencies:',
+                    '    debug "^4.3.4"',
+                ].join('\n')
+            );
+
+            const tree = await resolveDependencyTree(dir);
+
+            expect(tree.type).toBe('yarn-classic');
+            expect(summarize(tree.dependencies)).toEqual(EXPECTED);
+        });
+
+        it('resolves yarn berry lockfiles', async () => {
+            writeFileSync(
+                join(dir, 'yarn.lock'),
+                [
+                    '__metadata:',
+                    '  version: 8',
+                    '',
+                    '"app@workspace:.":',
+                    '  version: 0.0.0-use.local',
+                    '  resolution: "app@workspace:."',
+                    '  dependencies:',
+                    '    express: "npm:^4.18.0"',
+                    '  linkType: soft',
+                    '',
+                    '"body-parser@npm:1.20.1":',
+                    '  version: 1.20.1',
+                    '  resolution: "body-parser@npm:1.20.1"',
+                    '  dependencies:',
+                    '    debug: "npm:2.6.9"',
+                    '    gpl-lib: "npm:^1.0.0"',
+                    '',
+                    '"debug@npm:2.6.9":',
+                    '  version: 2.6.9',
+                    '  resolution: "debug@npm:2.6.9"',
+                    '',
+                    '"debug@npm:^4.3.4":',
+                    '  version: 4.3.4',
+                    '  resolution: "debug@npm:4.3.4"',
+                    '',
+                    '"express@npm:^4.18.0":',
+                    '  version: 4.18.2',
+                    '  resolution: "express@npm:4.18.2"',
+                    '  dependencies:',
+                    '    body-parser: "npm:1.20.1"',
+                    '    debug: "npm:2.6.9"',
+                    '',
+                    '"gpl-lib@npm:^1.0.0":',
+                    '  version: 1.0.3',
+                    '  resolution: "gpl-lib@npm:1.0.3"',
+                    '',
+                    '"vitest@npm:^1.0.0":',
+                    '  version: 1.6.1',
+                    '  resolution: "vitest@npm:1.6.1"',
+                    '  dependencies:',
+                    '    debug: "npm:^4.3.4"',
+                ].join('\n')
+            );
+
+            const tree = await resolveDependencyTree(dir);
+
+            expect(tree.type).toBe('yarn-berry');
+            expect(summarize(tree.dependencies)).toEqual(EXPECTED);
+        });
+    });
+
+    // ============================================================================
+    // pnpm Tests
+    // ============================================================================
+    describe('pnpm-lock.yaml', () => {
+        it('resolves lockfile v9 importers and snapshots', async () => {
+            writeFileSync(
+                join(dir, 'pnpm-lock.yaml'),
+                [
+                    "lockfileVersion: '9.0'",
+                    'importers:',
+                    '  .:',
+                    '    dependencies:',
+                    '      express:',
+                    '        specifier: ^4.18.0',
+                    '        version: 4.18.2',
+                    '    devDependencies:',
+                    '      vitest:',
+                    '        specifier: ^1.0.0',
+                    '        version: 1.6.1(@types/node@20.0.0)',
+                    'packages:',
+                    '  express@4.18.2:',
+                    '    resolution: {integrity: sha512-AAAA}',
+                    'snapshots:',
+                    '  body-parser@1.20.1:',
+                    '    dependencies:',
+                    '      debug: 2.6.9',
+                    '      gpl-lib: 1.0.3',
+                    '  debug@2.6.9: {}',
+                    '  debug@4.3.4: {}',
+                    '  express@4.18.2:',
+                    '    dependencies:',
+                    '      body-parser: 1.20.1',
+                    '      debug: 2.6.9',
+                    '  gpl-lib@1.0.3: {}',
+                    '  vitest@1.6.1(@types/node@20.0.0):',
+                    '    dependencies:',
+                    '      debug: 4.3.4',
+                ].join('\n')
+            );
+
+            const tree = await resolveDependencyTree(dir);
+
+            expect(tree.type).toBe('pnpm');
+            expect(summarize(tree.dependencies)).toEqual(EXPECTED);
+            expect(tree.dependencies[0]?.installPath).toBe(
+                'node_modules/.pnpm/express@4.18.2/node_modules/express'
+            );
+            expect(tree.dependencies[0]).toMatchObject({
+                integrity: 'sha512-AAAA',
+                dependsOn: ['body-parser@1.20.1', 'debug@2.6.9'],
+            });
+        });
+
+        it('resolves lockfile v5 and v6 package keys', async () => {
+            writeFileSync(
+                join(dir, 'pnpm-lock.yaml'),
+                [
+                    'lockfileVersion: 5.4',
+                    'dependencies:',
+                    '  express: 4.18.2_peer@1.0.0',
+                    'packages:',
+                    '  /express/4.18.2_peer@1.0.0:',
+                    '    dependencies:',
+                    '      debug: 2.6.9',
+                    '  /debug/2.6.9: {}',
+                ].join('\n')
+            );
+            expect(summarize((await resolveDependencyTree(dir)).dependencies)).toEqual([
+                ['express', '4.18.2', true, 'express'],
+                ['debug', '2.6.9', true, 'express > debug'],
+            ]);
+
+            writeFileSync(
+                join(dir, 'pnpm-lock.yaml'),
+                [
+                    "lockfileVersion: '6.0'",
+                    'dependencies:',
+                    '  express:',
+                    '    specifier: ^4.18.0',
+                    '    version: 4.18.2',
+                    'packages:',
+                    '  /express@4.18.2:',
+                    '    dependencies:',
+                    '      "@scope/debug": 2.6.9',
+                    '  /@scope/debug@2.6.9: {}',
+                ].join('\n')
+            );
+            expect(summarize((await resolveDependencyTree(dir)).dependencies)).toEqual([
+                ['express', '4.18.2', true, 'express'],
+                ['@scope/debug', '2.6.9', true, 'express > @scope/debug'],
+            ]);
+        });
+    });
+
+    // ============================================================================
+    // Fallback and Error Tests
+    // ============================================================================
+    describe('without a lockfile', () => {
+        it('falls back to the direct dependencies in package.json', async () => {
+            const tree = await resolveDependencyTree(dir);
+
+            expect(tree.lockfile).toBeUndefined();
+            expect(summarize(tree.dependencies)).toEqual([
+                ['express', '^4.18.0', true, 'express'],
+                ['vitest', '^1.0.0', false, 'vitest'],
+            ]);
+        });
+
+        it('names the lockfile that failed to parse', async () => {
+            writeFileSync(join(dir, 'package-lock.json'), '{ not json');
+
+            await expect(resolveDependencyTree(dir)).rejects.toThrow(
+                /^Failed to parse package-lock\.json/
+            );
+        });
+    });
+
+    // ============================================================================
+    // License Scan Tests
+    // ============================================================================
+    describe('license scan', () => {
+        beforeEach(() => {
+            writeFileSync(join(dir, 'package-lock.json'), JSON.stringify(NPM_V3_LOCK));
+        });
+
+        it('audits transitive packages at their installed version', async () => {
+            mkdirSync(join(dir, 'node_modules', 'vitest', 'node_modules', 'debug'), { recursive: true });
+            mkdirSync(join(dir, 'node_modules', 'debug'), { recursive: true });
+            writeFileSync(
+                join(dir, 'node_modules', 'debug', 'package.json'),
+                JSON.stringify({ version: '2.6.9', license: 'MIT' })
+            );
+            writeFileSync(
+                join(dir, 'node_modules', 'vitest', 'node_modules', 'debug', 'package.json'),
+                JSON.stringify({ version: '4.3.4', license: 'Apache-2.0' })
+            );
+
+            const results = await scanLicenses({ cwd: dir });
+            const debug = results.filter((d) => d.name === 'debug');
+
+            expect(results).toHaveLength(6);
+            expect(debug.map((d) => [d.version, d.license])).toEqual([
+                ['2.6.9', 'MIT'],
+                ['4.3.4', 'Apache-2.0'],
+            ]);
+            expect(results.find((d) => d.name === 'gpl-lib')).toMatchObject({
+                license: 'GPL-3.0',
+                status: 'denied',
+                dependencyPath: ['express', 'body-parser', 'gpl-lib'],
+            });
+        });
+
+        it('skips dev-only packages in production mode', async () => {
+            const results = await scanLicenses({ cwd: dir, production: true });
+
+            expect(results.map((d) => d.name)).toEqual(['express', 'body-parser', 'debug', 'gpl-lib']);
+        });
+
+        it('reports the path to a denied transitive package', async () => {
+            const ctx = { rootDir: dir, isGitRepo: false } as GitContext;
+            const result = await createLicenseAuditor(ctx, {}).execute();
+
+            expect(result.status).toBe('failed');
+            expect(result.data?.lockfile).toBe('package-lock.json');
+            expect(result.issues.map((i) => i.message)).toContain(
+                'Denied license: gpl-lib@1.0.3 uses GPL-3.0 (via express > body-parser > gpl-lib)'
+            );
+        });
+
+        it('notes when no lockfile was found', async () => {
+            rmSync(join(dir, 'package-lock.json'));
+            const ctx = { rootDir: dir, isGitRepo: false } as GitContext;
+            const result = await createLicenseAuditor(ctx, {}).execute();
+
+            expect(result.issues.map((i) => i.rule)).toContain('no-lockfile');
+        });
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * Third-Party Notice Tests
+ * Tests for collecting license texts, copyrights and NOTICE files into attribution bundles
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    collectAttributions,
+    extractCopyrights,
+    renderNotices,
+} from '../../src/modules/licenses/notice.js';
+import { scanLicenseTree } from '../../src/modules/licenses/scanner.js';
+
+const MIT_BODY = `Permission is hereby granted, free of charge, to any person obtaining a copy
+of this software, to deal in the Software without restriction.
+
+THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND. IN NO EVENT SHALL THE AUTHORS OR
+COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM.`;
+
+describe('Third-Party Notices', () => {
+    // ============================================================================
+    // Copyright Tests
+    // ============================================================================
+    describe('extractCopyrights', () => {
+        it('extracts copyright lines, skipping license template wording', () => {
+            const text = [
+                'MIT License',
+                '',
+                'Copyright (c) 2015 Jane Doe',
+                ' - Copyright © 2018 Acme, Inc.',
+                '(c) 2020 John Roe',
+                'Copyright (c) 2015 Jane Doe',
+                '',
+                MIT_BODY,
+                'Copyright (C) 2007 Free Software Foundation, Inc. <https://fsf.org/>',
+                'Copyright [yyyy] [name of copyright owner]',
+                'Copyright (c) <year> <copyright holders>',
+                'copyright notice and this permission notice shall be included',
+            ].join('\n');
+
+            expect(extractCopyrights(text)).toEqual([
+                'Copyright (c) 2015 Jane Doe',
+                'Copyright © 2018 Acme, Inc.',
+                '(c) 2020 John Roe',
+            ]);
+        });
+    });
+
+    // ============================================================================
+    // Collection Tests
+    // ============================================================================
+    describe('collectAttributions', () => {
+        let dir: string;
+
+        function addPackage(name: string, files: Record<string, string>) {
+            const packageDir = join(dir, 'node_modules', name);
+            mkdirSync(packageDir, { recursive: true });
+            writeFileSync(
+                join(packageDir, 'package.json'),
+                JSON.stringify({ name, version: '1.0.0', license: files.license ?? 'MIT' })
+            );
+            for (const [file, text] of Object.entries(files)) {
+                if (file === 'license') continue;
+                writeFileSync(join(packageDir, file), text);
+            }
+        }
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'repohygiene-notice-'));
+            writeFileSync(
+                join(dir, 'package.json'),
+                JSON.stringify({
+                    name: 'app',
+                    dependencies: { alpha: '1.0.0', beta: '1.0.0', gamma: '1.0.0', delta: '1.0.0' },
+                    devDependencies: { tooling: '1.0.0' },
+                })
+            );
+            addPackage('alpha', { LICENSE: `Copyright (c) 2015 Jane Doe\n\n${MIT_BODY}\n` });
+            addPackage('beta', { 'LICENSE.md': `Copyright (c) 2015 Jane Doe\r\n\r\n${MIT_BODY.replace(/\n/g, '\r\n')}  \r\n` });
+            addPackage('gamma', {
+                license: 'Apache-2.0',
+                LICENSE: 'Apache License\nVersion 2.0, January 2004\n',
+                NOTICE: 'Gamma\nCopyright 2019 The Gamma Authors\n',
+                'license.js': 'module.exports = "MIT";\n',
+            });
+            addPackage('delta', { 'README.md': '# delta\n' });
+            addPackage('tooling', { LICENSE: `Copyright (c) 2021 Tool Smith\n\n${MIT_BODY}\n` });
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('collects license texts and notices of production packages, once per distinct text', async () => {
+            const tree = await scanLicenseTree({ cwd: dir });
+            const bundle = await collectAttributions(dir, 'app', tree.dependencies);
+
+            expect(bundle.packages.map((pkg) => pkg.name)).toEqual(['alpha', 'beta', 'delta', 'gamma']);
+            expect(bundle.licenseTexts).toEqual([
+                { text: `Copyright (c) 2015 Jane Doe\n\n${MIT_BODY}`, packages: ['alpha@1.0.0', 'beta@1.0.0'] },
+                { text: 'Apache License\nVersion 2.0, January 2004', packages: ['gamma@1.0.0'] },
+            ]);
+            expect(bundle.notices).toEqual([
+                { text: 'Gamma\nCopyright 2019 The Gamma Authors', packages: ['gamma@1.0.0'] },
+            ]);
+            expect(bundle.packages[3]).toMatchObject({
+                license: 'Apache-2.0',
+                copyrights: ['Copyright 2019 The Gamma Authors'],
+                licenseTexts: [1],
+                notices: [0],
+            });
+            expect(bundle.packages[2]).toMatchObject({ name: 'delta', licenseTexts: [], notices: [] });
+        });
+
+        it('reads license files from a licenses subdirectory', async () => {
+            const distInfo = join(dir, 'site', 'pkg-1.0.dist-info');
+            mkdirSync(join(distInfo, 'licenses'), { recursive: true });
+            writeFileSync(join(distInfo, 'licenses', 'LICENSE.txt'), 'Copyright (c) 2022 Py Dev\n');
+            writeFileSync(join(distInfo, 'licenses', 'NOTICE'), 'Py notice\n');
+
+            const bundle = await collectAttributions(dir, 'app', [
+                {
+                    name: 'pkg',
+                    version: '1.0',
+                    license: 'MIT',
+                    ecosystem: 'python',
+                    packageDir: join('site', 'pkg-1.0.dist-info'),
+                    isProduction: true,
+                    status: 'allowed',
+                },
+            ]);
+
+            expect(bundle.packages[0]?.copyrights).toEqual(['Copyright (c) 2022 Py Dev']);
+            expect(bundle.licenseTexts.map((entry) => entry.text)).toEqual(['Copyright (c) 2022 Py Dev']);
+            expect(bundle.notices.map((entry) => entry.text)).toEqual(['Py notice']);
+        });
+    });
+
+    // ============================================================================
+    // Rendering Tests
+    // ============================================================================
+    describe('renderNotices', () => {
+        const bundle = {
+            project: 'app',
+            packages: [
+                {
+                    name: 'alpha',
+                    version: '1.0.0',
+                    license: 'MIT',
+                    ecosystem: 'npm' as const,
+                    copyrights: ['Copyright (c) 2015 Jane <jane@example.com>'],
+                    licenseTexts: [0],
+                    notices: [],
+                },
+                {
+                    name: 'delta',
+                    version: '2.0.0',
+                    license: 'ISC',
+                    ecosystem: 'npm' as const,
+                    copyrights: [],
+                    licenseTexts: [],
+                    notices: [],
+                },
+            ],
+            licenseTexts: [{ text: 'Use ```freely``` <here>', packages: ['alpha@1.0.0'] }],
+            notices: [],
+        };
+
+        it('renders plain text with every license text in full', () => {
+            const text = renderNotices(bundle, 'txt');
+
+            expect(text).toContain('alpha@1.0.0 (MIT)\n  Copyright (c) 2015 Jane <jane@example.com>\n  License text: 1');
+            expect(text).toContain('delta@2.0.0 (ISC)\n  License text: not found');
+            expect(text).toContain('LICENSE TEXT 1\nUsed by: alpha@1.0.0');
+            expect(text).toContain('Use ```freely``` <here>');
+        });
+
+        it('fences markdown license texts longer than any backtick run in them', () => {
+            const markdown = renderNotices(bundle, 'md');
+
+            expect(markdown).toContain('- **alpha@1.0.0** (MIT): [license 1](#license-1)');
+            expect(markdown).toContain('- **delta@2.0.0** (ISC): license text not found');
+            expect(markdown).toContain('````text\nUse ```freely``` <here>\n````');
+        });
+
+        it('escapes HTML and links packages to their license texts', () => {
+            const html = renderNotices(bundle, 'html');
+
+            expect(html).toContain('<a href="#license-1">license 1</a>');
+            expect(html).toContain('<li>Copyright (c) 2015 Jane &lt;jane@example.com&gt;</li>');
+            expect(html).toContain('<h3 id="license-1">License text 1</h3>');
+            expect(html).toContain('<pre>Use ```freely``` &lt;here&gt;</pre>');
+        });
+    });
+});
@@ -0,0 +1,309 @@
+/**
+ * SBOM Export Tests
+ * Tests for CycloneDX and SPDX documents built from the license audit
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    generateCycloneDx,
+    generateSbom,
+    generateSpdx,
+    packageUrl,
+    parseIntegrity,
+    readProjectInfo,
+} from '../../src/modules/licenses/sbom.js';
+import { createLicenseAuditor } from '../../src/modules/licenses/auditor.js';
+import type { GitContext } from '../../src/core/git.js';
+
+// sha512 of the empty string, and sha1 of "abc"
+const SHA512 =
+    'cf83e1357eefb8bdf1542850d66d8007d620e4050b5715dc83f4a921d36ce9ce47d0d13c5d85f2b0ff8318d2877eec2f63b931bd47417a81a538327af927da3e';
+const SHA512_SRI = `sha512-${Buffer.from(SHA512, 'hex').toString('base64')}`;
+const SHA1_SRI = `sha1-${Buffer.from('a9993e364706816aba3e25717850c26c9cd0d89d', 'hex').toString('base64')}`;
+
+const OPTIONS = {
+    project: { name: 'app', version: '2.0.0', license: 'Apache-2.0' },
+    toolVersion: '0.1.0',
+    timestamp: new Date('2026-03-01T10:00:00.123Z'),
+    serialNumber: '3e671687-395b-41f5-a30f-a58921a69b79',
+};
+
+function dependency(overrides: Record<string, unknown> = {}) {
+    return {
+        name: 'express',
+        version: '4.18.2',
+        license: 'MIT',
+        isProduction: true,
+        dependencyPath: ['express'],
+        status: 'allowed' as const,
+        ...overrides,
+    };
+}
+
+const DEPENDENCIES = [
+    dependency({
+        integrity: SHA512_SRI,
+        resolved: 'https://registry.npmjs.org/express/-/express-4.18.2.tgz',
+        dependsOn: ['@types/qs@6.9.7', 'vitest@1.6.1'],
+    }),
+    dependency({
+        name: '@types/qs',
+        version: '6.9.7',
+        license: 'MIT OR Apache-2.0',
+        dependencyPath: ['express', '@types/qs'],
+    }),
+    dependency({
+        name: 'vitest',
+        version: '1.6.1',
+        license: 'SEE LICENSE IN LICENSE',
+        isProduction: false,
+        dependencyPath: ['vitest'],
+        status: 'unknown' as const,
+    }),
+];
+
+describe('SBOM Export', () => {
+    // ============================================================================
+    // Identifier Tests
+    // ============================================================================
+    describe('identifiers', () => {
+        it('builds npm package URLs', () => {
+            expect(packageUrl('express', '4.18.2')).toBe('pkg:npm/express@4.18.2');
+            expect(packageUrl('@types/qs', '6.9.7')).toBe('pkg:npm/%40types/qs@6.9.7');
+            expect(packageUrl('app')).toBe('pkg:npm/app');
+        });
+
+        it('builds package URLs for other ecosystems', () => {
+            expect(packageUrl('Flask_Login', '0.6.3', 'python')).toBe('pkg:pypi/flask-login@0.6.3');
+            expect(packageUrl('github.com/pkg/errors', 'v0.9.1', 'go')).toBe(
+                'pkg:golang/github.com/pkg/errors@v0.9.1'
+            );
+            expect(packageUrl('serde', '1.0.197', 'rust')).toBe('pkg:cargo/serde@1.0.197');
+            expect(packageUrl('junit:junit', '4.13.2', 'maven')).toBe('pkg:maven/junit/junit@4.13.2');
+        });
+
+        it('decodes lockfile integrity into hex digests', () => {
+            expect(parseIntegrity(`${SHA512_SRI} ${SHA1_SRI}`)).toEqual([
+                { algorithm: 'SHA-512', content: SHA512 },
+                { algorithm: 'SHA-1', content: 'a9993e364706816aba3e25717850c26c9cd0d89d' },
+            ]);
+            expect(parseIntegrity('md5-AAAA')).toEqual([]);
+            expect(parseIntegrity(undefined)).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // CycloneDX Tests
+    // ============================================================================
+    describe('CycloneDX', () => {
+        it('describes components with purls, hashes, licenses and scope', () => {
+            const bom = generateCycloneDx(DEPENDENCIES, OPTIONS);
+
+            expect(bom).toMatchObject({
+                bomFormat: 'CycloneDX',
+                specVersion: '1.5',
+                serialNumber: `urn:uuid:${OPTIONS.serialNumber}`,
+                metadata: {
+                    timestamp: '2026-03-01T10:00:00Z',
+                    component: { 'bom-ref': 'pkg:npm/app@2.0.0', licenses: [{ license: { id: 'Apache-2.0' } }] },
+                },
+            });
+            expect(bom.components.map((c) => c.purl)).toEqual([
+                'pkg:npm/%40types/qs@6.9.7',
+                'pkg:npm/express@4.18.2',
+                'pkg:npm/vitest@1.6.1',
+            ]);
+
+            const [types, express, vitest] = bom.components;
+            expect(types).toMatchObject({ group: '@types', name: 'qs', licenses: [{ expression: 'MIT OR Apache-2.0' }] });
+            expect(express).toMatchObject({
+                scope: 'required',
+                hashes: [{ alg: 'SHA-512', content: SHA512 }],
+                licenses: [{ license: { id: 'MIT' } }],
+                externalReferences: [{ type: 'distribution', url: 'https://registry.npmjs.org/express/-/express-4.18.2.tgz' }],
+            });
+            expect(vitest).toMatchObject({
+                scope: 'excluded',
+                licenses: [{ license: { name: 'SEE LICENSE IN LICENSE' } }],
+                properties: [{ name: 'repohygiene:license-status', value: 'unknown' }],
+            });
+        });
+
+        it('records the dependency graph from the project root', () => {
+            const bom = generateCycloneDx(DEPENDENCIES, OPTIONS);
+
+            expect(bom.dependencies).toEqual([
+                { ref: 'pkg:npm/app@2.0.0', dependsOn: ['pkg:npm/express@4.18.2', 'pkg:npm/vitest@1.6.1'] },
+                { ref: 'pkg:npm/%40types/qs@6.9.7', dependsOn: [] },
+                { ref: 'pkg:npm/express@4.18.2', dependsOn: ['pkg:npm/%40types/qs@6.9.7', 'pkg:npm/vitest@1.6.1'] },
+                { ref: 'pkg:npm/vitest@1.6.1', dependsOn: [] },
+            ]);
+        });
+
+        it('drops edges to packages left out of the audit', () => {
+            const bom = generateCycloneDx(DEPENDENCIES.slice(0, 2), OPTIONS);
+
+            expect(bom.dependencies[2]?.dependsOn).toEqual(['pkg:npm/%40types/qs@6.9.7']);
+        });
+
+        it('writes XML in schema order', () => {
+            const xml = generateSbom(DEPENDENCIES, 'cyclonedx', 'xml', OPTIONS);
+
+            expect(xml).toContain(
+                `<bom xmlns="http://cyclonedx.org/schema/bom/1.5" serialNumber="urn:uuid:${OPTIONS.serialNumber}" version="1">`
+            );
+            expect(xml).toContain(
+                [
+                    '    <component type="library" bom-ref="pkg:npm/%40types/qs@6.9.7">',
+                    '      <group>@types</group>',
+                    '      <name>qs</name>',
+                    '      <version>6.9.7</version>',
+                    '      <scope>required</scope>',
+                    '      <licenses>',
+                    '        <expression>MIT OR Apache-2.0</expression>',
+                    '      </licenses>',
+                    '      <purl>pkg:npm/%40types/qs@6.9.7</purl>',
+                ].join('\n')
+            );
+            expect(xml).toContain(`<hash alg="SHA-512">${SHA512}</hash>`);
+            expect(xml).toContain('<dependency ref="pkg:npm/express@4.18.2">\n      <dependency ref="pkg:npm/%40types/qs@6.9.7"/>');
+        });
+    });
+
+    // ============================================================================
+    // SPDX Tests
+    // ============================================================================
+    describe('SPDX', () => {
+        it('describes packages with checksums, licenses and purls', () => {
+            const document = generateSpdx(DEPENDENCIES, OPTIONS);
+
+            expect(document).toMatchObject({
+                spdxVersion: 'SPDX-2.3',
+                dataLicense: 'CC0-1.0',
+                name: 'app-2.0.0',
+                documentNamespace: `https://spdx.org/spdxdocs/app-2.0.0-${OPTIONS.serialNumber}`,
+                creationInfo: { created: '2026-03-01T10:00:00Z', creators: ['Tool: repohygiene-0.1.0'] },
+            });
+            expect(document.packages.map((p) => p.SPDXID)).toEqual([
+                'SPDXRef-Package-app-2.0.0',
+                'SPDXRef-Package-types-qs-6.9.7',
+                'SPDXRef-Package-express-4.18.2',
+                'SPDXRef-Package-vitest-1.6.1',
+            ]);
+            expect(document.packages[2]).toMatchObject({
+                downloadLocation: 'https://registry.npmjs.org/express/-/express-4.18.2.tgz',
+                checksums: [{ algorithm: 'SHA512', checksumValue: SHA512 }],
+                licenseConcluded: 'MIT',
+                licenseDeclared: 'MIT',
+                externalRefs: [{ referenceCategory: 'PACKAGE-MANAGER', referenceType: 'purl', referenceLocator: 'pkg:npm/express@4.18.2' }],
+            });
+            expect(document.packages[3]).toMatchObject({
+                downloadLocation: 'NOASSERTION',
+                licenseConcluded: 'NOASSERTION',
+                licenseComments: 'License given as "SEE LICENSE IN LICENSE", which is not an SPDX expression',
+            });
+        });
+
+        it('marks licenses identified from license files as concluded, not declared', () => {
+            const document = generateSpdx(
+                [dependency({ license: 'ISC', licenseSource: 'file', licenseFile: 'LICENSE', detectedLicense: { id: 'ISC', confidence: 1 } })],
+                OPTIONS
+            );
+
+            expect(document.packages[1]).toMatchObject({
+                licenseConcluded: 'ISC',
+                licenseDeclared: 'NOASSERTION',
+                licenseComments: 'License identified from LICENSE',
+            });
+        });
+
+        it('relates dev dependencies to the project separately', () => {
+            const document = generateSpdx(DEPENDENCIES, OPTIONS);
+
+            expect(document.relationships).toEqual([
+                { spdxElementId: 'SPDXRef-DOCUMENT', relationshipType: 'DESCRIBES', relatedSpdxElement: 'SPDXRef-Package-app-2.0.0' },
+                { spdxElementId: 'SPDXRef-Package-app-2.0.0', relationshipType: 'DEPENDS_ON', relatedSpdxElement: 'SPDXRef-Package-express-4.18.2' },
+                { spdxElementId: 'SPDXRef-Package-express-4.18.2', relationshipType: 'DEPENDS_ON', relatedSpdxElement: 'SPDXRef-Package-types-qs-6.9.7' },
+                { spdxElementId: 'SPDXRef-Package-express-4.18.2', relationshipType: 'DEPENDS_ON', relatedSpdxElement: 'SPDXRef-Package-vitest-1.6.1' },
+                { spdxElementId: 'SPDXRef-Package-vitest-1.6.1', relationshipType: 'DEV_DEPENDENCY_OF', relatedSpdxElement: 'SPDXRef-Package-app-2.0.0' },
+            ]);
+        });
+
+        it('writes tag-value documents', () => {
+            const tagValue = generateSbom(DEPENDENCIES, 'spdx', 'tag-value', OPTIONS);
+
+            expect(tagValue).toContain('SPDXVersion: SPDX-2.3\nDataLicense: CC0-1.0\nSPDXID: SPDXRef-DOCUMENT\nDocumentName: app-2.0.0\n');
+            expect(tagValue).toContain(`PackageChecksum: SHA512: ${SHA512}`);
+            expect(tagValue).toContain('PackageLicenseConcluded: MIT OR Apache-2.0');
+            expect(tagValue).toContain('ExternalRef: PACKAGE-MANAGER purl pkg:npm/%40types/qs@6.9.7');
+            expect(tagValue).toContain('Relationship: SPDXRef-Package-vitest-1.6.1 DEV_DEPENDENCY_OF SPDXRef-Package-app-2.0.0');
+        });
+
+        it('rejects encodings the format does not have', () => {
+            expect(() => generateSbom(DEPENDENCIES, 'spdx', 'xml', OPTIONS)).toThrow(
+                'SPDX SBOMs can be written as json or tag-value, not xml'
+            );
+            expect(() => generateSbom(DEPENDENCIES, 'cyclonedx', 'tag-value', OPTIONS)).toThrow(
+                'CycloneDX SBOMs can be written as json or xml, not tag-value'
+            );
+        });
+    });
+
+    // ============================================================================
+    // Audit Integration Tests
+    // ============================================================================
+    describe('from a license audit', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'rh-sbom-'));
+            writeFileSync(
+                join(dir, 'package.json'),
+                JSON.stringify({ name: 'app', version: '2.0.0', license: 'MIT', dependencies: { express: '^4.18.0' } })
+            );
+            writeFileSync(
+                join(dir, 'package-lock.json'),
+                JSON.stringify({
+                    lockfileVersion: 3,
+                    packages: {
+                        '': { name: 'app', dependencies: { express: '^4.18.0' } },
+                        'node_modules/express': {
+                            version: '4.18.2',
+                            license: 'MIT',
+                            resolved: 'https://registry.npmjs.org/express/-/express-4.18.2.tgz',
+                            integrity: SHA512_SRI,
+                            dependencies: { debug: '2.6.9' },
+                        },
+                        'node_modules/debug': { version: '2.6.9', license: 'MIT', integrity: SHA1_SRI },
+                    },
+                })
+            );
+            mkdirSync(join(dir, 'node_modules'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('carries lockfile hashes and edges through the audit', async () => {
+            const result = await createLicenseAuditor({ rootDir: dir, isGitRepo: false } as GitContext, {}).execute();
+            const bom = generateCycloneDx(result.data?.dependencies ?? [], {
+                ...OPTIONS,
+                project: await readProjectInfo(dir),
+            });
+
+            expect(bom.metadata.component).toMatchObject({ name: 'app', version: '2.0.0' });
+            expect(bom.components.map((c) => [c.purl, c.hashes?.[0]?.alg])).toEqual([
+                ['pkg:npm/debug@2.6.9', 'SHA-1'],
+                ['pkg:npm/express@4.18.2', 'SHA-512'],
+            ]);
+            expect(bom.dependencies).toContainEqual({
+                ref: 'pkg:npm/express@4.18.2',
+                dependsOn: ['pkg:npm/debug@2.6.9'],
+            });
+        });
+    });
+});
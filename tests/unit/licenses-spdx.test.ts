@@ -0,0 +1,211 @@
+/**
+ * SPDX Expression Tests
+ * Tests for SPDX parsing, id normalization and policy evaluation
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    evaluateLicense,
+    formatSpdx,
+    getSpdxLicenses,
+    parseSpdx,
+} from '../../src/modules/licenses/spdx.js';
+import { parseSpdxExpression } from '../../src/modules/licenses/scanner.js';
+import {
+    DEFAULT_POLICY,
+    explainLicenseDecision,
+    isLicenseAllowed,
+    isLicenseDenied,
+} from '../../src/modules/licenses/policy.js';
+
+function normalize(expression: string): string {
+    return formatSpdx(parseSpdx(expression));
+}
+
+describe('SPDX Expressions', () => {
+    // ============================================================================
+    // Parser Tests
+    // ============================================================================
+    describe('parseSpdx', () => {
+        it('parses operators with AND binding tighter than OR', () => {
+            expect(parseSpdx('MIT OR Apache-2.0 AND BSD-3-Clause')).toEqual({
+                type: 'or',
+                left: { type: 'license', id: 'MIT', orLater: false, known: true },
+                right: {
+                    type: 'and',
+                    left: { type: 'license', id: 'Apache-2.0', orLater: false, known: true },
+                    right: { type: 'license', id: 'BSD-3-Clause', orLater: false, known: true },
+                },
+            });
+            expect(normalize('(MIT OR Apache-2.0) AND BSD-3-Clause')).toBe(
+                '(MIT OR Apache-2.0) AND BSD-3-Clause'
+            );
+        });
+
+        it('canonicalizes case and WITH exceptions', () => {
+            expect(normalize('mit or apache-2.0')).toBe('MIT OR Apache-2.0');
+            expect(normalize('GPL-2.0-only WITH classpath-exception-2.0')).toBe(
+                'GPL-2.0-only WITH Classpath-exception-2.0'
+            );
+        });
+
+        it('replaces deprecated ids', () => {
+            expect(normalize('GPL-2.0')).toBe('GPL-2.0-only');
+            expect(normalize('GPL-2.0+')).toBe('GPL-2.0-or-later');
+            expect(normalize('LGPL-2.1+')).toBe('LGPL-2.1-or-later');
+            expect(normalize('GPL-2.0-or-later+')).toBe('GPL-2.0-or-later');
+            expect(normalize('GPL-2.0-with-classpath-exception')).toBe(
+                'GPL-2.0-only WITH Classpath-exception-2.0'
+            );
+            expect(normalize('StandardML-NJ')).toBe('SMLNJ');
+        });
+
+        it('keeps + on licenses without -or-later ids, and LicenseRefs as written', () => {
+            expect(parseSpdx('MPL-1.1+')).toMatchObject({ id: 'MPL-1.1', orLater: true });
+            expect(parseSpdx('LicenseRef-Acme-Proprietary')).toMatchObject({
+                id: 'LicenseRef-Acme-Proprietary',
+                known: true,
+            });
+            expect(parseSpdx('DocumentRef-spdx:LicenseRef-x')).toMatchObject({ known: true });
+            expect(parseSpdx('Custom-1.0')).toMatchObject({ id: 'Custom-1.0', known: false });
+        });
+
+        it('rejects invalid expressions', () => {
+            expect(() => parseSpdx('')).toThrow(/empty expression/);
+            expect(() => parseSpdx('MIT OR')).toThrow(/expected a license id/);
+            expect(() => parseSpdx('(MIT OR ISC')).toThrow(/missing "\)"/);
+            expect(() => parseSpdx('Apache 2.0')).toThrow(/unexpected "2.0"/);
+            expect(() => parseSpdx('MIT WITH')).toThrow(/expected an exception id/);
+            expect(() => parseSpdx('GPL-2.0-with-classpath-exception WITH LLVM-exception')).toThrow(
+                /WITH can't follow/
+            );
+        });
+
+        it('lists the licenses of an expression', () => {
+            const ids = getSpdxLicenses(parseSpdx('(MIT OR GPL-3.0) AND Zlib')).map((l) => l.id);
+            expect(ids).toEqual(['MIT', 'GPL-3.0-only', 'Zlib']);
+            expect(parseSpdxExpression('(MIT OR GPL-2.0+)')).toEqual(['MIT', 'GPL-2.0-or-later']);
+            expect(parseSpdxExpression('SEE LICENSE IN LICENSE.md')).toEqual([
+                'SEE LICENSE IN LICENSE.md',
+            ]);
+        });
+    });
+
+    // ============================================================================
+    // Evaluation Tests
+    // ============================================================================
+    describe('evaluateLicense', () => {
+        const lists = { allow: ['MIT', 'Apache-2.0', 'ISC'], deny: ['GPL-2.0', 'GPL-3.0'] };
+
+        it('does not match ids by substring', () => {
+            expect(evaluateLicense('LGPL-2.1', lists).status).toBe('unknown');
+            expect(evaluateLicense('MIT-0', lists).status).toBe('unknown');
+            expect(isLicenseDenied('LGPL-2.1-only', DEFAULT_POLICY)).toBe(false);
+            expect(isLicenseDenied('AGPL-3.0-or-later', DEFAULT_POLICY)).toBe(true);
+        });
+
+        it('picks the allowed branch of an OR', () => {
+            const decision = evaluateLicense('(MIT OR GPL-3.0)', lists);
+
+            expect(decision.status).toBe('allowed');
+            expect(decision.branch).toBe('MIT');
+            expect(decision.reason).toBe('MIT is allowed by MIT (chosen from MIT OR GPL-3.0-only)');
+        });
+
+        it('denies an OR only when every branch is denied', () => {
+            const decision = evaluateLicense('GPL-2.0 OR GPL-3.0', lists);
+
+            expect(decision.status).toBe('denied');
+            expect(decision.reason).toBe(
+                'every option of GPL-2.0-only OR GPL-3.0-only is denied: GPL-2.0-only is denied by GPL-2.0; GPL-3.0-only is denied by GPL-3.0'
+            );
+        });
+
+        it('requires every part of an AND', () => {
+            expect(evaluateLicense('MIT AND ISC', lists)).toMatchObject({
+                status: 'allowed',
+                branch: 'MIT AND ISC',
+            });
+            expect(evaluateLicense('MIT AND GPL-3.0+', lists)).toMatchObject({
+                status: 'denied',
+                branch: 'GPL-3.0-or-later',
+                reason: 'GPL-3.0-or-later is denied by GPL-3.0 (required by MIT AND GPL-3.0-or-later)',
+            });
+            expect(evaluateLicense('MIT AND Zlib', lists).status).toBe('unknown');
+        });
+
+        it('treats bare GNU policy entries as covering -only and -or-later', () => {
+            expect(evaluateLicense('GPL-2.0-only', lists).status).toBe('denied');
+            expect(evaluateLicense('GPL-2.0-or-later', lists).status).toBe('denied');
+            expect(evaluateLicense('GPL-2.0-or-later', { allow: [], deny: ['GPL-2.0-only'] }).status).toBe(
+                'unknown'
+            );
+        });
+
+        it('allows an -or-later license when a later version is allowed', () => {
+            expect(evaluateLicense('LGPL-2.1+', { allow: ['LGPL-3.0-only'], deny: [] })).toMatchObject({
+                status: 'allowed',
+                reason: 'LGPL-2.1-or-later is allowed as LGPL-3.0-only',
+            });
+            expect(evaluateLicense('MPL-1.1+', { allow: ['MPL-2.0'], deny: [] }).status).toBe(
+                'allowed'
+            );
+        });
+
+        it('allows an -or-later license when the same version is allowed', () => {
+            expect(evaluateLicense('MPL-2.0+', { allow: ['MPL-2.0'], deny: [] })).toMatchObject({
+                status: 'allowed',
+                reason: 'MPL-2.0+ is allowed as MPL-2.0',
+            });
+            for (const license of ['GPL-2.0-or-later', 'GPL-2.0+']) {
+                expect(evaluateLicense(license, { allow: ['GPL-2.0-only'], deny: [] }).status).toBe(
+                    'allowed'
+                );
+            }
+            expect(evaluateLicense('GPL-3.0-or-later', { allow: ['GPL-2.0-only'], deny: [] }).status).toBe(
+                'unknown'
+            );
+            expect(evaluateLicense('LGPL-3.0-only', { allow: ['LGPL-2.1-only'], deny: [] }).status).toBe(
+                'unknown'
+            );
+        });
+
+        it('lets an allow entry with the same exception override a deny entry', () => {
+            const withException = {
+                allow: ['GPL-2.0-only WITH Classpath-exception-2.0'],
+                deny: ['GPL-2.0'],
+            };
+
+            expect(
+                evaluateLicense('GPL-2.0-with-classpath-exception', withException).status
+            ).toBe('allowed');
+            expect(
+                evaluateLicense('GPL-2.0-only WITH LLVM-exception', withException).status
+            ).toBe('denied');
+            expect(evaluateLicense('GPL-2.0-only', withException).status).toBe('denied');
+        });
+
+        it('matches LicenseRefs and invalid strings only by equality', () => {
+            expect(
+                evaluateLicense('LicenseRef-Acme', { allow: ['LicenseRef-Acme'], deny: [] }).status
+            ).toBe('allowed');
+            expect(
+                evaluateLicense('Public Domain', { allow: ['public domain'], deny: [] }).status
+            ).toBe('allowed');
+            expect(evaluateLicense('SEE LICENSE IN LICENSE', lists)).toMatchObject({
+                status: 'unknown',
+                reason: 'SEE LICENSE IN LICENSE is not a valid SPDX expression',
+            });
+            expect(evaluateLicense('UNKNOWN', lists).reason).toBe(
+                'UNKNOWN is not a known SPDX license id'
+            );
+        });
+
+        it('explains policy decisions', () => {
+            expect(isLicenseAllowed('(MIT OR GPL-3.0)', DEFAULT_POLICY)).toBe(true);
+            expect(explainLicenseDecision('Apache-2.0 OR GPL-2.0', DEFAULT_POLICY).branch).toBe(
+                'Apache-2.0'
+            );
+        });
+    });
+});
@@ -0,0 +1,134 @@
+/**
+ * Secrets Baseline Tests
+ * Tests for fingerprinting and baseline comparison
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    applyBaseline,
+    createBaseline,
+    fingerprintFinding,
+    loadBaseline,
+    writeBaseline,
+} from '../../src/modules/secrets/baseline.js';
+import type { SecretFinding } from '../../src/types/index.js';
+
+const ROOT = '/repo';
+
+function finding(overrides: Partial<SecretFinding> = {}): SecretFinding {
+    return {
+        type: 'Generic Secret',
+        ruleId: 'generic-secret',
+        severity: 'medium',
+        file: '/repo/src/db.ts',
+        line: 10,
+        column: 5,
+        match: 'password = "hunter2hunter2"',
+        masked: 'pass****ter2',
+        ...overrides,
+    };
+}
+
+describe('Secrets Baseline', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'rh-baseline-'));
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    // ============================================================================
+    // fingerprintFinding Tests
+    // ============================================================================
+    describe('fingerprintFinding', () => {
+        it('ignores line and column changes', () => {
+            expect(fingerprintFinding(finding(), ROOT)).toBe(
+                fingerprintFinding(finding({ line: 99, column: 1 }), ROOT)
+            );
+        });
+
+        it('treats absolute and relative paths alike', () => {
+            expect(fingerprintFinding(finding(), ROOT)).toBe(
+                fingerprintFinding(finding({ file: 'src/db.ts' }), ROOT)
+            );
+        });
+
+        it('changes with the file, rule or match', () => {
+            const base = fingerprintFinding(finding(), ROOT);
+            expect(fingerprintFinding(finding({ file: 'src/other.ts' }), ROOT)).not.toBe(base);
+            expect(fingerprintFinding(finding({ type: 'JWT Token' }), ROOT)).not.toBe(base);
+            expect(fingerprintFinding(finding({ match: 'password = "x1y2z3w4"' }), ROOT)).not.toBe(base);
+        });
+    });
+
+    // ============================================================================
+    // createBaseline Tests
+    // ============================================================================
+    describe('createBaseline', () => {
+        it('stores repo-relative paths and de-duplicates fingerprints', () => {
+            const baseline = createBaseline([finding(), finding({ line: 20 })], ROOT);
+            expect(baseline.entries).toHaveLength(1);
+            expect(baseline.entries[0]?.file).toBe('src/db.ts');
+            expect(baseline.entries[0]?.masked).toBe('pass****ter2');
+        });
+
+        it('never stores the raw secret', () => {
+            const baseline = createBaseline([finding()], ROOT);
+            expect(JSON.stringify(baseline)).not.toContain('hunter2hunter2');
+        });
+    });
+
+    // ============================================================================
+    // applyBaseline Tests
+    // ============================================================================
+    describe('applyBaseline', () => {
+        const known = { ...finding(), fingerprint: fingerprintFinding(finding(), ROOT) };
+        const fresh = {
+            ...finding({ file: '/repo/src/new.ts' }),
+            fingerprint: fingerprintFinding(finding({ file: '/repo/src/new.ts' }), ROOT),
+        };
+
+        it('marks known findings as baselined', () => {
+            const baseline = createBaseline([known], ROOT);
+            const result = applyBaseline([known, fresh], baseline);
+
+            expect(result.baselined).toBe(1);
+            expect(result.findings[0]?.baselined).toBe(true);
+            expect(result.findings[1]?.baselined).toBeUndefined();
+        });
+
+        it('reports stale entries', () => {
+            const baseline = createBaseline([known, fresh], ROOT);
+            const result = applyBaseline([fresh], baseline);
+
+            expect(result.stale).toHaveLength(1);
+            expect(result.stale[0]?.file).toBe('src/db.ts');
+        });
+    });
+
+    // ============================================================================
+    // loadBaseline / writeBaseline Tests
+    // ============================================================================
+    describe('loadBaseline', () => {
+        it('round-trips a written baseline', async () => {
+            const path = join(dir, 'baseline.json');
+            await writeBaseline(path, [finding()], ROOT);
+
+            const loaded = await loadBaseline(path);
+            expect(loaded?.entries).toHaveLength(1);
+            expect(loaded?.version).toBe(1);
+        });
+
+        it('returns null when the file is missing', async () => {
+            expect(await loadBaseline(join(dir, 'missing.json'))).toBeNull();
+        });
+
+        it('rejects malformed files', async () => {
+            const path = join(dir, 'broken.json');
+            writeFileSync(path, '{"entries": 5}');
+            await expect(loadBaseline(path)).rejects.toThrow(/entries/);
+        });
+    });
+});
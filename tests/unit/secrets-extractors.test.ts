@@ -0,0 +1,334 @@
+/**
+ * Secrets Extractor Tests
+ * Tests for archive, notebook and base64 content extraction
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { deflateRawSync, gzipSync } from 'zlib';
+import {
+    extractArchive,
+    extractNotebook,
+    findEncodedPayloads,
+    isArchivePath,
+    isNotebookPath,
+} from '../../src/modules/secrets/extractors.js';
+import { scanContent, scanFilesForSecrets } from '../../src/modules/secrets/scanner.js';
+import { SECRET_PATTERNS } from '../../src/modules/secrets/patterns.js';
+
+const AWS_KEY = 'AKIA' + 'Q3ZR7T2LMN4PW8XY';
+
+/**
+ * Build a zip archive; CRCs are left at zero since the reader doesn't check them
+ */
+function zip(files: Record<string, string | Buffer>, deflate = true): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const [name, content] of Object.entries(files)) {
+        const raw = Buffer.isBuffer(content) ? content : Buffer.from(content);
+        const data = deflate ? deflateRawSync(raw) : raw;
+        const nameBuffer = Buffer.from(name);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(deflate ? 8 : 0, 8);
+        local.writeUInt32LE(data.length, 18);
+        local.writeUInt32LE(raw.length, 22);
+        local.writeUInt16LE(nameBuffer.length, 26);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(deflate ? 8 : 0, 10);
+        central.writeUInt32LE(data.length, 20);
+        central.writeUInt32LE(raw.length, 24);
+        central.writeUInt16LE(nameBuffer.length, 28);
+        central.writeUInt32LE(offset, 42);
+
+        locals.push(local, nameBuffer, data);
+        centrals.push(central, nameBuffer);
+        offset += local.length + nameBuffer.length + data.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * Build an uncompressed tar archive of regular files
+ */
+function tar(files: Record<string, string>): Buffer {
+    const blocks: Buffer[] = [];
+    for (const [name, content] of Object.entries(files)) {
+        const data = Buffer.from(content);
+        const header = Buffer.alloc(512);
+        header.write(name, 0);
+        header.write(data.length.toString(8).padStart(11, '0'), 124);
+        header.write('0', 156);
+        header.write('ustar', 257);
+        blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+    }
+    blocks.push(Buffer.alloc(1024));
+    return Buffer.concat(blocks);
+}
+
+function notebook(cells: unknown[]): string {
+    return JSON.stringify({ cells, metadata: {}, nbformat: 4, nbformat_minor: 5 }, null, 1);
+}
+
+describe('Secrets Extractors', () => {
+    // ============================================================================
+    // Path Detection Tests
+    // ============================================================================
+    describe('isArchivePath / isNotebookPath', () => {
+        it('recognises archive extensions', () => {
+            for (const path of ['a.zip', 'lib.JAR', 'app.war', 'x.tar', 'x.tar.gz', 'x.tgz']) {
+                expect(isArchivePath(path)).toBe(true);
+            }
+            expect(isArchivePath('archive.gz')).toBe(false);
+            expect(isArchivePath('zip.ts')).toBe(false);
+        });
+
+        it('recognises notebooks', () => {
+            expect(isNotebookPath('analysis.ipynb')).toBe(true);
+            expect(isNotebookPath('analysis.py')).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // Archive Tests
+    // ============================================================================
+    describe('extractArchive', () => {
+        it('extracts deflated zip members under virtual paths', () => {
+            const result = extractArchive(
+                zip({ 'config/app.properties': `aws.key=${AWS_KEY}\n`, 'README.md': 'hi' }),
+                'build.zip'
+            );
+            expect(result.entries).toEqual([
+                { path: 'build.zip!config/app.properties', content: `aws.key=${AWS_KEY}\n` },
+                { path: 'build.zip!README.md', content: 'hi' },
+            ]);
+            expect(result.skipped).toEqual([]);
+        });
+
+        it('extracts stored zip members', () => {
+            const result = extractArchive(zip({ 'a.txt': 'plain' }, false), 'lib.jar');
+            expect(result.entries).toEqual([{ path: 'lib.jar!a.txt', content: 'plain' }]);
+        });
+
+        it('drops binary members without listing them', () => {
+            const result = extractArchive(
+                zip({ 'Main.class': Buffer.from([0xca, 0xfe, 0x00, 0x00]) }),
+                'lib.jar'
+            );
+            expect(result).toEqual({ entries: [], skipped: [] });
+        });
+
+        it('lists members over the size limit', () => {
+            const result = extractArchive(zip({ 'big.txt': 'x'.repeat(100) }), 'a.zip', {
+                maxFileSize: 10,
+            });
+            expect(result.entries).toEqual([]);
+            expect(result.skipped).toEqual([
+                {
+                    file: 'a.zip!big.txt',
+                    reason: 'too-large',
+                    detail: '100 bytes exceeds the 10 byte limit',
+                },
+            ]);
+        });
+
+        it('skips an archive whose members add up to more than the total limit', () => {
+            const files = { 'a.txt': 'a'.repeat(60), 'b.txt': 'b'.repeat(60) };
+            expect(extractArchive(zip(files), 'a.zip', { maxTotalSize: 100 })).toEqual({
+                entries: [],
+                skipped: [
+                    { file: 'a.zip', reason: 'too-large', detail: 'Members exceed the 100 byte archive limit' },
+                ],
+            });
+            expect(extractArchive(tar(files), 'a.tar', { maxTotalSize: 100 }).skipped[0]?.file).toBe('a.tar');
+            expect(extractArchive(zip(files), 'a.zip', { maxTotalSize: 120 }).entries).toHaveLength(2);
+        });
+
+        it('counts nested archive members against the top-level archive', () => {
+            const inner = zip({ 'a.txt': 'a', 'b.txt': 'b' });
+            const result = extractArchive(zip({ 'x.txt': 'x', 'lib/inner.jar': inner }), 'app.war', {
+                maxEntries: 3,
+            });
+            expect(result).toEqual({
+                entries: [],
+                skipped: [{ file: 'app.war', reason: 'too-large', detail: 'More than 3 archive members' }],
+            });
+        });
+
+        it('reports a corrupt archive as unreadable', () => {
+            const result = extractArchive(Buffer.from('not a zip at all, sorry'), 'bad.zip');
+            expect(result.skipped[0]?.file).toBe('bad.zip');
+            expect(result.skipped[0]?.reason).toBe('unreadable');
+        });
+
+        it('extracts tar and tar.gz archives', () => {
+            const files = { 'etc/secret.env': `KEY=${AWS_KEY}\n` };
+            expect(extractArchive(tar(files), 'dump.tar').entries).toEqual([
+                { path: 'dump.tar!etc/secret.env', content: `KEY=${AWS_KEY}\n` },
+            ]);
+            expect(extractArchive(gzipSync(tar(files)), 'dump.tgz').entries).toEqual([
+                { path: 'dump.tgz!etc/secret.env', content: `KEY=${AWS_KEY}\n` },
+            ]);
+        });
+
+        it('follows nested archives', () => {
+            const inner = zip({ 'application.yml': 'password: hunter2hunter2' });
+            const result = extractArchive(zip({ 'WEB-INF/lib/core.jar': inner }), 'app.war');
+            expect(result.entries.map((e) => e.path)).toEqual([
+                'app.war!WEB-INF/lib/core.jar!application.yml',
+            ]);
+        });
+
+        it('extracts notebooks inside archives by cell', () => {
+            const nb = notebook([{ cell_type: 'code', source: ['x = 1\n'], outputs: [] }]);
+            const result = extractArchive(zip({ 'nb/a.ipynb': nb }), 'export.zip');
+            expect(result.entries.map((e) => e.path)).toEqual([
+                'export.zip!nb/a.ipynb!cells/0/source',
+            ]);
+        });
+    });
+
+    // ============================================================================
+    // Notebook Tests
+    // ============================================================================
+    describe('extractNotebook', () => {
+        it('extracts cell sources and text outputs', () => {
+            const nb = notebook([
+                { cell_type: 'markdown', source: '# Title' },
+                {
+                    cell_type: 'code',
+                    source: ['import os\n', 'print(os.environ["KEY"])'],
+                    outputs: [
+                        { output_type: 'stream', name: 'stdout', text: [`${AWS_KEY}\n`] },
+                        {
+                            output_type: 'execute_result',
+                            data: { 'text/plain': ["'done'"], 'image/png': 'iVBORw0KGgo=' },
+                        },
+                        { output_type: 'error', traceback: ['KeyError: token'] },
+                    ],
+                },
+            ]);
+
+            expect(extractNotebook(nb, 'a.ipynb')).toEqual([
+                { path: 'a.ipynb!cells/0/source', content: '# Title' },
+                {
+                    path: 'a.ipynb!cells/1/source',
+                    content: 'import os\nprint(os.environ["KEY"])',
+                },
+                { path: 'a.ipynb!cells/1/outputs/0', content: `${AWS_KEY}\n` },
+                { path: 'a.ipynb!cells/1/outputs/1', content: "'done'" },
+                { path: 'a.ipynb!cells/1/outputs/2', content: 'KeyError: token' },
+            ]);
+        });
+
+        it('returns null for content that is not a notebook', () => {
+            expect(extractNotebook('{not json', 'a.ipynb')).toBeNull();
+            expect(extractNotebook('{"foo": 1}', 'a.ipynb')).toBeNull();
+        });
+    });
+
+    // ============================================================================
+    // Base64 Tests
+    // ============================================================================
+    describe('findEncodedPayloads', () => {
+        it('decodes long printable blobs', () => {
+            const encoded = Buffer.from(`aws_key = ${AWS_KEY}`).toString('base64');
+            const payloads = findEncodedPayloads(`data: ${encoded}`);
+            expect(payloads).toEqual([
+                { value: encoded, decoded: `aws_key = ${AWS_KEY}`, position: 6 },
+            ]);
+        });
+
+        it('ignores short blobs and binary payloads', () => {
+            expect(findEncodedPayloads('dGVzdA==')).toEqual([]);
+            const binary = Buffer.from([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17])
+                .toString('base64');
+            expect(findEncodedPayloads(binary)).toEqual([]);
+        });
+
+        it('finds secrets in decoded blobs only when enabled', () => {
+            const encoded = Buffer.from(`{"key": "${AWS_KEY}"}`).toString('base64');
+            const content = `first line\nconfig: ${encoded}\n`;
+
+            expect(
+                scanContent(content, 'a.yml', SECRET_PATTERNS, 99).filter(
+                    (f) => f.ruleId === 'aws-access-key-id'
+                )
+            ).toEqual([]);
+
+            const decoded = scanContent(content, 'a.yml', SECRET_PATTERNS, 99, {
+                decodeBase64: true,
+            }).find((f) => f.ruleId === 'aws-access-key-id');
+            expect(decoded).toMatchObject({ line: 2, column: 9, match: AWS_KEY, encoding: 'base64' });
+        });
+    });
+
+    // ============================================================================
+    // Walker Integration Tests
+    // ============================================================================
+    describe('scanFilesForSecrets', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'rh-extract-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('reports findings inside archives with virtual paths', async () => {
+            writeFileSync(join(dir, 'build.zip'), zip({ 'config/app.properties': `key=${AWS_KEY}` }));
+
+            const result = await scanFilesForSecrets({ cwd: dir, concurrency: 1 });
+            const aws = result.findings.find((f) => f.ruleId === 'aws-access-key-id');
+
+            expect(aws?.file).toBe(`${join(dir, 'build.zip')}!config/app.properties`);
+            expect(aws?.line).toBe(1);
+            expect(result.scannedFiles).toBe(1);
+        });
+
+        it('reports notebook output findings by cell', async () => {
+            writeFileSync(
+                join(dir, 'explore.ipynb'),
+                notebook([
+                    {
+                        cell_type: 'code',
+                        source: 'print(creds)',
+                        outputs: [{ output_type: 'stream', text: `{'id': '${AWS_KEY}'}` }],
+                    },
+                ])
+            );
+
+            const result = await scanFilesForSecrets({ cwd: dir, concurrency: 1 });
+            const aws = result.findings.find((f) => f.ruleId === 'aws-access-key-id');
+
+            expect(aws?.file).toBe(`${join(dir, 'explore.ipynb')}!cells/0/outputs/0`);
+        });
+
+        it('does not count a corrupt archive as scanned', async () => {
+            writeFileSync(join(dir, 'broken.jar'), 'garbage');
+
+            const result = await scanFilesForSecrets({ cwd: dir, concurrency: 1 });
+
+            expect(result.scannedFiles).toBe(0);
+            expect(result.skipped.map((s) => s.reason)).toEqual(['unreadable']);
+        });
+    });
+});
@@ -0,0 +1,179 @@
+/**
+ * Secrets File Reader Tests
+ * Tests for binary sniffing, size limits, encodings and skipped-file reporting
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    decodeText,
+    isBinaryContent,
+    readTextFile,
+} from '../../src/modules/secrets/files.js';
+import { scanFilesForSecrets } from '../../src/modules/secrets/scanner.js';
+
+const AWS_KEY = 'AKIA' + 'Q3ZR7T2LMN4PW8XY';
+
+describe('Secrets File Reader', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'rh-files-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    // ============================================================================
+    // Binary Detection Tests
+    // ============================================================================
+    describe('isBinaryContent', () => {
+        it('treats text as non-binary', () => {
+            expect(isBinaryContent(Buffer.from('const a = 1;\n'))).toBe(false);
+        });
+
+        it('detects a NUL byte near the start', () => {
+            expect(isBinaryContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))).toBe(true);
+        });
+
+        it('only sniffs the first 8000 bytes', () => {
+            const buffer = Buffer.concat([Buffer.alloc(9000, 0x61), Buffer.from([0])]);
+            expect(isBinaryContent(buffer)).toBe(false);
+        });
+
+        it('treats an empty buffer as text', () => {
+            expect(isBinaryContent(Buffer.alloc(0))).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // Decoding Tests
+    // ============================================================================
+    describe('decodeText', () => {
+        it('decodes plain UTF-8', () => {
+            expect(decodeText(Buffer.from('héllo'))).toEqual({
+                content: 'héllo',
+                encoding: 'utf-8',
+            });
+        });
+
+        it('strips a UTF-8 byte order mark', () => {
+            const buffer = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from('key')]);
+            expect(decodeText(buffer)?.content).toBe('key');
+        });
+
+        it('decodes UTF-16LE with a byte order mark', () => {
+            const buffer = Buffer.concat([
+                Buffer.from([0xff, 0xfe]),
+                Buffer.from('token = abc', 'utf16le'),
+            ]);
+            expect(decodeText(buffer)).toEqual({ content: 'token = abc', encoding: 'utf-16le' });
+        });
+
+        it('decodes UTF-16BE with a byte order mark', () => {
+            const body = Buffer.from('token = abc', 'utf16le');
+            body.swap16();
+            const buffer = Buffer.concat([Buffer.from([0xfe, 0xff]), body]);
+            expect(decodeText(buffer)).toEqual({ content: 'token = abc', encoding: 'utf-16be' });
+        });
+
+        it('returns null for binary content', () => {
+            expect(decodeText(Buffer.from([0x00, 0x01, 0x02, 0x41]))).toBeNull();
+        });
+    });
+
+    // ============================================================================
+    // File Reading Tests
+    // ============================================================================
+    describe('readTextFile', () => {
+        it('reads text files', async () => {
+            writeFileSync(join(dir, 'a.txt'), 'hello');
+            expect(await readTextFile(join(dir, 'a.txt'))).toEqual({
+                content: 'hello',
+                encoding: 'utf-8',
+            });
+        });
+
+        it('skips files over the size limit without reading them', async () => {
+            writeFileSync(join(dir, 'big.txt'), 'x'.repeat(2048));
+            const result = await readTextFile(join(dir, 'big.txt'), 1024);
+            expect(result).toEqual({
+                skipped: {
+                    file: join(dir, 'big.txt'),
+                    reason: 'too-large',
+                    detail: '2048 bytes exceeds the 1024 byte limit',
+                },
+            });
+        });
+
+        it('skips binary files', async () => {
+            writeFileSync(join(dir, 'blob.bin'), Buffer.from([0x00, 0xff, 0x10]));
+            const result = await readTextFile(join(dir, 'blob.bin'));
+            expect(result).toEqual({ skipped: { file: join(dir, 'blob.bin'), reason: 'binary' } });
+        });
+
+        it('reports unreadable files with the error', async () => {
+            mkdirSync(join(dir, 'folder'));
+            const result = await readTextFile(join(dir, 'folder'));
+            expect('skipped' in result && result.skipped.reason).toBe('unreadable');
+        });
+    });
+
+    // ============================================================================
+    // Walker Tests
+    // ============================================================================
+    describe('scanFilesForSecrets', () => {
+        it('scans dotfiles outside the old extension list', async () => {
+            writeFileSync(join(dir, '.env.production'), `AWS_KEY=${AWS_KEY}\n`);
+            const result = await scanFilesForSecrets({ cwd: dir, concurrency: 1 });
+            expect(result.findings.map((f) => f.ruleId)).toContain('aws-access-key-id');
+        });
+
+        it('never scans .git, even when custom excludes leave it out', async () => {
+            mkdirSync(join(dir, '.git', 'logs'), { recursive: true });
+            writeFileSync(join(dir, '.git', 'logs', 'HEAD'), `AWS_KEY=${AWS_KEY}\n`);
+            mkdirSync(join(dir, 'vendor', '.git'), { recursive: true });
+            writeFileSync(join(dir, 'vendor', '.git', 'ORIG_HEAD'), `AWS_KEY=${AWS_KEY}\n`);
+            writeFileSync(join(dir, 'app.ts'), 'export const a = 1;\n');
+
+            const result = await scanFilesForSecrets({ cwd: dir, exclude: ['x/**'], concurrency: 1 });
+            expect(result.scannedFiles).toBe(1);
+            expect(result.findings).toEqual([]);
+        });
+
+        it('finds secrets in UTF-16 files with correct positions', async () => {
+            const buffer = Buffer.concat([
+                Buffer.from([0xff, 0xfe]),
+                Buffer.from(`// config\nconst key = '${AWS_KEY}';\n`, 'utf16le'),
+            ]);
+            writeFileSync(join(dir, 'settings.cs'), buffer);
+
+            const result = await scanFilesForSecrets({ cwd: dir, concurrency: 1 });
+            const aws = result.findings.find((f) => f.ruleId === 'aws-access-key-id');
+            expect(aws?.line).toBe(2);
+            expect(aws?.column).toBe(14);
+        });
+
+        it('lists skipped files and excludes them from the scanned count', async () => {
+            writeFileSync(join(dir, 'app.ts'), 'export const a = 1;\n');
+            writeFileSync(join(dir, 'image.bin'), Buffer.from([0x00, 0x01, 0x02]));
+            writeFileSync(join(dir, 'fixture.json'), `{"key": "${AWS_KEY}"}`.padEnd(4096, ' '));
+
+            const result = await scanFilesForSecrets({
+                cwd: dir,
+                concurrency: 1,
+                maxFileSize: 1024,
+            });
+
+            expect(result.scannedFiles).toBe(1);
+            expect(result.findings).toEqual([]);
+            expect(result.skipped.map((s) => [s.file, s.reason]).sort()).toEqual([
+                [join(dir, 'fixture.json'), 'too-large'],
+                [join(dir, 'image.bin'), 'binary'],
+            ]);
+        });
+    });
+});
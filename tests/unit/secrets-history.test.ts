@@ -0,0 +1,258 @@
+/**
+ * Secrets History Tests
+ * Tests for diff parsing and git history secret scanning
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseUnifiedDiff } from '../../src/modules/secrets/diff.js';
+import { scanAddedLines } from '../../src/modules/secrets/scanner.js';
+import { scanGitHistory, scanGitDiff } from '../../src/modules/secrets/history.js';
+import { initGitContext } from '../../src/core/git.js';
+import { createSecretsAuditor } from '../../src/modules/secrets/auditor.js';
+
+// Built at runtime so the literal never appears in the repository
+const AWS_KEY = 'AKIA' + 'Q3ZR7T2LMN4PW8XY';
+
+describe('Secrets History', () => {
+    // ============================================================================
+    // parseUnifiedDiff Tests
+    // ============================================================================
+    describe('parseUnifiedDiff', () => {
+        const diff = [
+            'diff --git a/src/config.ts b/src/config.ts',
+            'index 1111111..2222222 100644',
+            '--- a/src/config.ts',
+            '+++ b/src/config.ts',
+            '@@ -3,0 +4,2 @@ export const config = {',
+            `+  awsKey: '${AWS_KEY}',`,
+            '+  region: "eu-west-1",',
+            '@@ -10 +12 @@',
+            '-  old: true,',
+            '+  new: true,',
+            'diff --git a/removed.txt b/removed.txt',
+            'deleted file mode 100644',
+            '--- a/removed.txt',
+            '+++ /dev/null',
+            '@@ -1 +0,0 @@',
+            '-gone',
+        ].join('\n');
+
+        it('extracts added lines with new-file line numbers', () => {
+            const files = parseUnifiedDiff(diff);
+            expect(files).toHaveLength(1);
+            expect(files[0]?.path).toBe('src/config.ts');
+            expect(files[0]?.addedLines.map((l) => l.line)).toEqual([4, 5, 12]);
+        });
+
+        it('skips deleted files', () => {
+            const files = parseUnifiedDiff(diff);
+            expect(files.some((f) => f.path === 'removed.txt')).toBe(false);
+        });
+
+        it('strips the tab git adds after paths with spaces and unquotes C-quoted paths', () => {
+            const files = parseUnifiedDiff(
+                [
+                    'diff --git a/sp ace.txt b/sp ace.txt',
+                    '+++ b/sp ace.txt\t',
+                    '@@ -0,0 +1 @@',
+                    '+one',
+                    'diff --git "a/\\303\\251 b.txt" "b/\\303\\251 b.txt"',
+                    '+++ "b/\\303\\251 b.txt"\t',
+                    '@@ -0,0 +1 @@',
+                    '+two',
+                    'diff --git "a/q\\"t.txt" "b/q\\"t.txt"',
+                    '+++ "b/q\\"t.txt"',
+                    '@@ -0,0 +1 @@',
+                    '+three',
+                ].join('\n')
+            );
+            expect(files.map((f) => f.path)).toEqual(['sp ace.txt', 'é b.txt', 'q"t.txt']);
+        });
+
+        it('returns nothing for an empty diff', () => {
+            expect(parseUnifiedDiff('')).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // scanAddedLines Tests
+    // ============================================================================
+    describe('scanAddedLines', () => {
+        it('reports findings at the line in the new file', () => {
+            const findings = scanAddedLines({
+                path: 'app.ts',
+                addedLines: [
+                    { line: 40, content: 'const a = 1;' },
+                    { line: 41, content: `const key = '${AWS_KEY}';` },
+                ],
+            });
+
+            const aws = findings.find((f) => f.type === 'AWS Access Key ID');
+            expect(aws?.line).toBe(41);
+            expect(aws?.file).toBe('app.ts');
+        });
+    });
+
+    // ============================================================================
+    // scanGitHistory Tests
+    // ============================================================================
+    describe('scanGitHistory', () => {
+        let repo: string;
+
+        const git = (...args: string[]): void => {
+            execFileSync('git', args, { cwd: repo, stdio: 'ignore' });
+        };
+
+        beforeAll(() => {
+            repo = mkdtempSync(join(tmpdir(), 'rh-history-'));
+            git('init', '-q');
+            git('config', 'user.name', 'Alice');
+            git('config', 'user.email', 'alice@acme.dev');
+            git('config', 'commit.gpgsign', 'false');
+
+            writeFileSync(join(repo, 'deploy.sh'), `export AWS_ACCESS_KEY_ID=${AWS_KEY}\n`);
+            git('add', '-A');
+            git('commit', '-q', '-m', 'add deploy script');
+
+            writeFileSync(join(repo, 'deploy.sh'), `export AWS_ACCESS_KEY_ID=${AWS_KEY}\necho done\n`);
+            git('commit', '-q', '-am', 'touch deploy script');
+
+            unlinkSync(join(repo, 'deploy.sh'));
+            git('commit', '-q', '-am', 'remove deploy script');
+        });
+
+        afterAll(() => {
+            rmSync(repo, { recursive: true, force: true });
+        });
+
+        it('finds secrets that were deleted in a later commit', async () => {
+            const ctx = await initGitContext(repo);
+            const result = await scanGitHistory(ctx);
+
+            const aws = result.findings.filter((f) => f.type === 'AWS Access Key ID');
+            expect(aws).toHaveLength(1);
+            expect(aws[0]?.file).toBe('deploy.sh');
+            expect(aws[0]?.line).toBe(1);
+            expect(aws[0]?.author).toBe('Alice');
+            expect(aws[0]?.commit).toMatch(/^[0-9a-f]{40}$/);
+            expect(aws[0]?.date).toBeInstanceOf(Date);
+        });
+
+        it('counts scanned commits', async () => {
+            const ctx = await initGitContext(repo);
+            const result = await scanGitHistory(ctx);
+            expect(result.scannedCommits).toBe(3);
+        });
+
+        it('honours exclude globs', async () => {
+            const ctx = await initGitContext(repo);
+            const result = await scanGitHistory(ctx, { exclude: ['*.sh'] });
+            expect(result.findings).toHaveLength(0);
+        });
+
+        it('matches history findings to files with spaces or non-ASCII characters in their names', async () => {
+            const quoted = mkdtempSync(join(tmpdir(), 'rh-history-paths-'));
+            const run = (...args: string[]): void => {
+                execFileSync('git', args, { cwd: quoted, stdio: 'ignore' });
+            };
+            try {
+                run('init', '-q');
+                run('config', 'user.name', 'Alice');
+                run('config', 'user.email', 'alice@acme.dev');
+                run('config', 'commit.gpgsign', 'false');
+                writeFileSync(join(quoted, 'sp ace.txt'), `key=${AWS_KEY}\n`);
+                writeFileSync(join(quoted, 'é b.txt'), `key=${AWS_KEY}\n`);
+                run('add', '-A');
+                run('commit', '-q', '-m', 'add keys');
+
+                const ctx = await initGitContext(quoted);
+                const result = await createSecretsAuditor(ctx, {}, { scanHistory: true }).execute();
+
+                const aws = result.issues.filter((issue) => issue.message.includes('AWS Access Key ID'));
+                expect(aws.map((issue) => issue.file).sort()).toEqual([
+                    join(quoted, 'sp ace.txt'),
+                    join(quoted, 'é b.txt'),
+                ]);
+            } finally {
+                rmSync(quoted, { recursive: true, force: true });
+            }
+        });
+    });
+
+    // ============================================================================
+    // scanGitDiff Tests
+    // ============================================================================
+    describe('scanGitDiff', () => {
+        let repo: string;
+
+        const git = (...args: string[]): void => {
+            execFileSync('git', args, { cwd: repo, stdio: 'ignore' });
+        };
+
+        beforeAll(() => {
+            repo = mkdtempSync(join(tmpdir(), 'rh-staged-'));
+            git('init', '-q');
+            git('config', 'user.name', 'Bob');
+            git('config', 'user.email', 'bob@acme.dev');
+            git('config', 'commit.gpgsign', 'false');
+
+            writeFileSync(join(repo, 'app.env'), 'REGION=eu-west-1\nDEBUG=false\n');
+            git('add', '-A');
+            git('commit', '-q', '-m', 'initial');
+
+            writeFileSync(join(repo, 'sp ace.txt'), `key=${AWS_KEY}\n`);
+            writeFileSync(join(repo, 'é b.txt'), `key=${AWS_KEY}\n`);
+            git('add', 'sp ace.txt', 'é b.txt');
+
+            // Stage a secret, then remove it from the working tree only
+            writeFileSync(join(repo, 'app.env'), `REGION=eu-west-1\nAWS_KEY=${AWS_KEY}\nDEBUG=false\n`);
+            git('add', 'app.env');
+            writeFileSync(join(repo, 'app.env'), 'REGION=eu-west-1\nDEBUG=false\n');
+        });
+
+        afterAll(() => {
+            rmSync(repo, { recursive: true, force: true });
+        });
+
+        it('scans staged content rather than the working tree', async () => {
+            const ctx = await initGitContext(repo);
+            const result = await scanGitDiff(ctx, ['--cached']);
+
+            const aws = result.findings.find((f) => f.type === 'AWS Access Key ID');
+            expect(aws?.file).toBe('app.env');
+            expect(aws?.line).toBe(2);
+            expect(result.scannedFiles).toBe(3);
+        });
+
+        it('reports paths with spaces and non-ASCII characters as they are', async () => {
+            const ctx = await initGitContext(repo);
+            const result = await scanGitDiff(ctx, ['--cached']);
+
+            const files = result.findings.filter((f) => f.type === 'AWS Access Key ID').map((f) => f.file);
+            expect(files.sort()).toEqual(['app.env', 'sp ace.txt', 'é b.txt']);
+        });
+
+        it('finds nothing in unstaged changes', async () => {
+            const ctx = await initGitContext(repo);
+            const result = await scanGitDiff(ctx, []);
+            expect(result.findings).toHaveLength(0);
+        });
+
+        it('rejects diff ranges git would read as options', async () => {
+            const ctx = await initGitContext(repo);
+            const outside = join(repo, 'written-by-git');
+
+            for (const diff of [`--output=${outside}..HEAD`, 'HEAD']) {
+                const result = await createSecretsAuditor(ctx, {}, { diff }).execute();
+                expect(result.status).toBe('failed');
+                expect(result.issues[0]?.message).toBe(`Invalid diff range "${diff}", expected <base>..<head>`);
+            }
+            const since = await createSecretsAuditor(ctx, {}, { sinceCommit: '--all' }).execute();
+            expect(since.issues[0]?.message).toBe('Invalid commit "--all"');
+        });
+    });
+});
@@ -0,0 +1,460 @@
+/**
+ * Rule Import Tests
+ * Tests for the TOML parser, gitleaks / trufflehog conversion and allowlists
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseToml } from '../../src/core/toml.js';
+import {
+    convertGoRegex,
+    importGitleaksConfig,
+    importTrufflehogConfig,
+    loadRuleImport,
+    markSecretGroup,
+} from '../../src/modules/secrets/importers.js';
+import { applyAllowlists, compileAllowlist } from '../../src/modules/secrets/allowlist.js';
+import { resolveSecretPatterns } from '../../src/modules/secrets/loader.js';
+import { scanContent } from '../../src/modules/secrets/scanner.js';
+import { createSecretsAuditor } from '../../src/modules/secrets/auditor.js';
+import type { GitContext } from '../../src/core/git.js';
+import type { SecretFinding } from '../../src/types/index.js';
+
+const ACME_TOKEN = 'acme_' + 'k3j9x2m7q4w8z1p5r6t0y2u4';
+
+const GITLEAKS_CONFIG = `
+title = "acme gitleaks config"
+
+[extend]
+useDefault = true
+
+[[rules]]
+id = "acme-api-token"
+description = "Acme API token"
+regex = '''(?i)acme[_-]?token\\s*[:=]\\s*['"]?(acme_[a-z0-9]{24})'''
+keywords = ["ACME"]
+entropy = 3.0
+tags = ["api", "acme"]
+
+  [[rules.allowlists]]
+  description = "documented dummy token"
+  stopwords = ["dummy"]
+
+[[rules]]
+id = "pkcs12-file"
+path = '''(?i)\\.(p12|pfx)$'''
+
+[[rules]]
+id = "unicode-rule"
+regex = '''\\p{L}+secret'''
+
+[allowlist]
+description = "vendored code"
+paths = ['''(^|/)vendor/''']
+`;
+
+function finding(overrides: Partial<SecretFinding> = {}): SecretFinding {
+    return {
+        file: 'src/config.ts',
+        line: 1,
+        column: 1,
+        type: 'Acme API token',
+        ruleId: 'acme-api-token',
+        match: `token = ${ACME_TOKEN}`,
+        secret: ACME_TOKEN,
+        severity: 'high',
+        ...overrides,
+    } as SecretFinding;
+}
+
+describe('Rule Imports', () => {
+    // ============================================================================
+    // TOML Parser Tests
+    // ============================================================================
+    describe('parseToml', () => {
+        it('parses tables, arrays of tables and nested allowlists', () => {
+            const config = parseToml(GITLEAKS_CONFIG);
+
+            expect(config.title).toBe('acme gitleaks config');
+            expect(config.extend).toEqual({ useDefault: true });
+            expect(config.rules).toHaveLength(3);
+            expect(config.rules).toContainEqual(
+                expect.objectContaining({
+                    id: 'acme-api-token',
+                    entropy: 3,
+                    allowlists: [{ description: 'documented dummy token', stopwords: ['dummy'] }],
+                })
+            );
+            expect(config.allowlist).toEqual({
+                description: 'vendored code',
+                paths: ['(^|/)vendor/'],
+            });
+        });
+
+        it('parses strings, numbers, dotted keys and inline tables', () => {
+            const config = parseToml(
+                [
+                    'basic = "tab\\tquote\\" \\u00e9"',
+                    "literal = 'C:\\path'",
+                    'multi = """',
+                    'line one \\',
+                    '    continued"""',
+                    'ints = [1_000, 0xff, 0o17, 0b101, -3]',
+                    'floats = [1.5, 2e3, inf, -inf]',
+                    'a.b."c.d" = true',
+                    'inline = { x = 1, y = [ "z" ] }',
+                    'trailing = [',
+                    '  "one", # comment',
+                    '  "two",',
+                    ']',
+                ].join('\n')
+            );
+
+            expect(config.basic).toBe('tab\tquote" é');
+            expect(config.literal).toBe('C:\\path');
+            expect(config.multi).toBe('line one continued');
+            expect(config.ints).toEqual([1000, 255, 15, 5, -3]);
+            expect(config.floats).toEqual([1.5, 2000, Infinity, -Infinity]);
+            expect(config.a).toEqual({ b: { 'c.d': true } });
+            expect(config.inline).toEqual({ x: 1, y: ['z'] });
+            expect(config.trailing).toEqual(['one', 'two']);
+        });
+
+        it('reports the line of syntax errors', () => {
+            expect(() => parseToml('a = 1\nb = "open\n')).toThrow(/line 2: Newline in string/);
+            expect(() => parseToml('[t]\n[t]\n')).toThrow(/line 2: Table "t" is defined twice/);
+            expect(() => parseToml('a = 1\na = 2\n')).toThrow(/defined twice/);
+            expect(() => parseToml('when = 1979-05-27\n')).toThrow(/Dates and times/);
+        });
+    });
+
+    // ============================================================================
+    // Regex Conversion Tests
+    // ============================================================================
+    describe('convertGoRegex / markSecretGroup', () => {
+        it('turns leading flag groups into flags and translates RE2 syntax', () => {
+            expect(convertGoRegex('(?i)key_(?P<val>[[:alnum:]]{8})\\z')).toEqual({
+                source: 'key_(?<val>[a-zA-Z0-9]{8})$',
+                flags: 'i',
+            });
+            expect(convertGoRegex('\\Afoo').source).toBe('^foo');
+        });
+
+        it('rejects syntax without a JavaScript equivalent', () => {
+            expect(() => convertGoRegex('foo(?i)bar')).toThrow(/inline flag groups/);
+            expect(() => convertGoRegex('(?i:foo)')).toThrow(/inline flag groups/);
+            expect(() => convertGoRegex('\\p{Greek}')).toThrow(/Unicode classes/);
+            expect(() => convertGoRegex('\\Qa.b\\E')).toThrow(/literal quoting/);
+            expect(() => convertGoRegex('(?U)a+')).toThrow(/ungreedy/);
+        });
+
+        it('names the requested capture group secret', () => {
+            expect(markSecretGroup('(?:a)(b)[(](c)', 2)).toBe('(?:a)(b)[(](?<secret>c)');
+            expect(markSecretGroup('(?<key>a)(?<=x)(b)', 1)).toBe('(?<secret>a)(?<=x)(b)');
+            expect(markSecretGroup('\\(a\\)', 1)).toBe('\\(a\\)');
+        });
+    });
+
+    // ============================================================================
+    // Gitleaks Import Tests
+    // ============================================================================
+    describe('importGitleaksConfig', () => {
+        it('converts rules and reports every unsupported feature', () => {
+            const imported = importGitleaksConfig(GITLEAKS_CONFIG, 'gitleaks.toml');
+
+            expect(imported.patterns).toHaveLength(1);
+            expect(imported.patterns[0]).toMatchObject({
+                id: 'acme-api-token',
+                name: 'acme-api-token',
+                description: 'Acme API token',
+                severity: 'high',
+                keywords: ['ACME'],
+                minEntropy: 3,
+            });
+            expect(imported.warnings).toEqual([
+                expect.stringMatching(/^gitleaks\.toml: \[extend\] is not supported/),
+                'gitleaks.toml: rule "pkcs12-file": path-only rules are not supported; skipped',
+                'gitleaks.toml: rule "unicode-rule": regex not imported, Unicode classes (\\p{...}) are not supported',
+            ]);
+        });
+
+        it('reports the capture group as the secret', () => {
+            const { patterns } = importGitleaksConfig(GITLEAKS_CONFIG, 'gitleaks.toml');
+            const findings = scanContent(`const ACME_TOKEN = "${ACME_TOKEN}";`, 'a.ts', patterns, 99);
+
+            expect(findings).toHaveLength(1);
+            expect(findings[0]?.ruleId).toBe('acme-api-token');
+            expect(findings[0]?.secret).toBe(ACME_TOKEN);
+        });
+
+        it('honours rule entropy thresholds', () => {
+            const { patterns } = importGitleaksConfig(GITLEAKS_CONFIG, 'gitleaks.toml');
+            const lowEntropy = 'acme_' + 'a'.repeat(24);
+
+            expect(scanContent(`acme_token=${lowEntropy}`, 'a.ts', patterns, 99)).toEqual([]);
+        });
+
+        it('scopes rule allowlists to their rule and global ones to targetRules', () => {
+            const imported = importGitleaksConfig(
+                [
+                    '[[rules]]',
+                    'id = "acme-api-token"',
+                    'regex = "acme_[a-z0-9]{24}"',
+                    '[rules.allowlist]',
+                    'regexes = ["^acme_test"]',
+                    '[[allowlists]]',
+                    'targetRules = ["other-rule"]',
+                    'commits = ["abc123"]',
+                    'condition = "AND"',
+                    'paths = ["fixtures/"]',
+                ].join('\n'),
+                'gitleaks.toml'
+            );
+
+            expect(imported.allowlists).toHaveLength(2);
+            expect([...(imported.allowlists[0]?.rules ?? [])]).toEqual(['acme-api-token']);
+            expect(imported.allowlists[0]?.regexTarget).toBe('secret');
+            expect([...(imported.allowlists[1]?.rules ?? [])]).toEqual(['other-rule']);
+            expect(imported.allowlists[1]?.condition).toBe('and');
+        });
+    });
+
+    // ============================================================================
+    // Trufflehog Import Tests
+    // ============================================================================
+    describe('importTrufflehogConfig', () => {
+        it('converts custom detectors and their exclusions', () => {
+            const imported = importTrufflehogConfig(
+                {
+                    detectors: [
+                        {
+                            name: 'Acme Token',
+                            keywords: ['acme_'],
+                            regex: { token: 'acme_[a-z0-9]{24}' },
+                            entropy: 3,
+                            exclude_words: ['example'],
+                            exclude_regexes_capture: ['^acme_0+$'],
+                            verify: [{ endpoint: 'https://acme.test/verify' }],
+                        },
+                    ],
+                },
+                'trufflehog.yaml'
+            );
+
+            expect(imported.patterns).toHaveLength(1);
+            expect(imported.patterns[0]).toMatchObject({
+                id: 'acme-token',
+                name: 'Acme Token',
+                keywords: ['acme_'],
+                minEntropy: 3,
+            });
+            expect(imported.allowlists.map((a) => [a.stopwords, a.regexTarget])).toEqual([
+                [['example'], 'secret'],
+                [[], 'secret'],
+            ]);
+            expect(imported.warnings).toEqual([
+                'trufflehog.yaml: detector "Acme Token": "verify" webhooks are not supported; use secrets verifiers',
+            ]);
+        });
+
+        it('splits multi-regex detectors and warns about it', () => {
+            const imported = importTrufflehogConfig(
+                {
+                    detectors: [
+                        { name: 'Pair', regex: { id: 'pid_[0-9]{8}', key: 'pkey_[a-z]{16}' }, bogus: 1 },
+                    ],
+                },
+                'th.yaml'
+            );
+
+            expect(imported.patterns.map((p) => p.id)).toEqual(['pair-id', 'pair-key']);
+            expect(imported.warnings).toEqual([
+                'th.yaml: detector "Pair": "bogus" is not supported',
+                'th.yaml: detector "Pair": trufflehog requires all 2 regexes to match together; each is imported as a separate pattern',
+            ]);
+        });
+
+        it('skips regexes that match the empty string', () => {
+            const gitleaks = importGitleaksConfig(
+                '[[rules]]\nid = "anything"\nregex = \'\'\'(?i)(token)?\'\'\'\n',
+                'gitleaks.toml'
+            );
+            const trufflehog = importTrufflehogConfig(
+                { detectors: [{ name: 'Loose', regex: { any: 'x*' } }] },
+                'th.yaml'
+            );
+
+            expect(gitleaks.patterns).toEqual([]);
+            expect(gitleaks.warnings).toEqual([
+                'gitleaks.toml: rule "anything": regex matches the empty string; skipped',
+            ]);
+            expect(trufflehog.patterns).toEqual([]);
+            expect(trufflehog.warnings).toEqual([
+                'th.yaml: detector "Loose" regex "any": regex matches the empty string; skipped',
+            ]);
+        });
+
+        it('rejects files without a detectors list', () => {
+            expect(() => importTrufflehogConfig({ rules: [] }, 'th.yaml')).toThrow(
+                'th.yaml has no trufflehog "detectors" list'
+            );
+        });
+    });
+
+    // ============================================================================
+    // Allowlist Tests
+    // ============================================================================
+    describe('applyAllowlists', () => {
+        it('suppresses findings matching any check by default', async () => {
+            const allowlist = compileAllowlist(
+                { description: 'dummy values', stopwords: ['K3J9'], paths: ['^docs/'] },
+                'test'
+            );
+            const [byStopword, byPath, kept] = await applyAllowlists(
+                [
+                    finding(),
+                    finding({ file: 'docs/setup.md', secret: 'acme_zzz' }),
+                    finding({ secret: 'acme_zzz' }),
+                ],
+                [allowlist],
+                '/repo'
+            );
+
+            expect(byStopword?.suppressed).toBe(true);
+            expect(byStopword?.suppressionReason).toBe('allowlisted: dummy values');
+            expect(byPath?.suppressed).toBe(true);
+            expect(kept?.suppressed).toBeUndefined();
+        });
+
+        it('requires every check with condition "and" and respects rule scoping', async () => {
+            const allowlist = compileAllowlist(
+                {
+                    rules: ['acme-api-token'],
+                    paths: ['^test/'],
+                    commits: ['deadbeef'],
+                    condition: 'and',
+                },
+                'test'
+            );
+            const results = await applyAllowlists(
+                [
+                    finding({ file: 'test/a.ts', commit: 'deadbeef0123' }),
+                    finding({ file: 'test/a.ts' }),
+                    finding({ file: 'test/a.ts', commit: 'deadbeef0123', ruleId: 'other' }),
+                ],
+                [allowlist],
+                '/repo'
+            );
+
+            expect(results.map((f) => f.suppressed === true)).toEqual([true, false, false]);
+        });
+
+        it('matches regexes against the secret, the match or the line', async () => {
+            const dir = mkdtempSync(join(tmpdir(), 'rh-allowlist-'));
+            try {
+                writeFileSync(join(dir, 'a.ts'), `// fake-credential\nconst t = "${ACME_TOKEN}";\n`);
+                const line = compileAllowlist({ regexes: ['const t'], regexTarget: 'line' }, 'test');
+                const match = compileAllowlist({ regexes: ['^token ='], regexTarget: 'match' }, 'test');
+
+                const [onLine] = await applyAllowlists(
+                    [finding({ file: join(dir, 'a.ts'), line: 2, match: ACME_TOKEN })],
+                    [line],
+                    dir
+                );
+                const [onMatch] = await applyAllowlists([finding()], [match], dir);
+
+                expect(onLine?.suppressed).toBe(true);
+                expect(onMatch?.suppressed).toBe(true);
+            } finally {
+                rmSync(dir, { recursive: true, force: true });
+            }
+        });
+
+        it('rejects invalid definitions', () => {
+            expect(() => compileAllowlist({ regexes: ['('] }, 'cfg')).toThrow(
+                /Invalid allowlist "allowlist from cfg" in cfg/
+            );
+            expect(() => compileAllowlist({ condition: 'xor' as never }, 'cfg')).toThrow(
+                /condition must be or \/ and/
+            );
+        });
+    });
+
+    // ============================================================================
+    // Loader and Auditor Integration Tests
+    // ============================================================================
+    describe('integration', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'rh-rule-import-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('loads rule imports by extension', async () => {
+            writeFileSync(join(dir, 'gitleaks.toml'), GITLEAKS_CONFIG);
+            writeFileSync(
+                join(dir, 'trufflehog.yaml'),
+                'detectors:\n  - name: Acme Token\n    regex:\n      token: acme_[a-z0-9]{24}\n'
+            );
+            writeFileSync(join(dir, 'rules.txt'), '');
+
+            expect((await loadRuleImport(dir, 'gitleaks.toml')).patterns).toHaveLength(1);
+            expect((await loadRuleImport(dir, 'trufflehog.yaml')).patterns[0]?.id).toBe(
+                'acme-token'
+            );
+            await expect(loadRuleImport(dir, 'rules.txt')).rejects.toThrow(
+                /Unsupported rule import format/
+            );
+            await expect(loadRuleImport(dir, 'missing.toml')).rejects.toThrow(
+                'Rule import not found: missing.toml'
+            );
+        });
+
+        it('adds imported patterns, allowlists and warnings to the resolved set', async () => {
+            writeFileSync(join(dir, 'gitleaks.toml'), GITLEAKS_CONFIG);
+
+            const resolved = await resolveSecretPatterns(dir, {
+                secrets: {
+                    ruleImports: ['gitleaks.toml'],
+                    allowlists: [{ description: 'examples', paths: ['\\.example$'] }],
+                },
+            });
+
+            expect(resolved.patterns.some((p) => p.id === 'acme-api-token')).toBe(true);
+            expect(resolved.allowlists.map((a) => a.description)).toEqual([
+                'documented dummy token',
+                'vendored code',
+                'examples',
+            ]);
+            expect(resolved.warnings).toHaveLength(3);
+        });
+
+        it('suppresses allowlisted findings in an audit', async () => {
+            writeFileSync(join(dir, 'gitleaks.toml'), GITLEAKS_CONFIG);
+            writeFileSync(join(dir, 'app.ts'), `const acme_token = "${ACME_TOKEN}";\n`);
+            const ctx = { rootDir: dir, isGitRepo: false } as GitContext;
+            const config = {
+                secrets: { ruleImports: ['gitleaks.toml'], sensitiveFiles: false },
+            };
+
+            const failing = await createSecretsAuditor(ctx, config, { concurrency: 1 }).execute();
+            expect(failing.status).toBe('failed');
+            expect(failing.issues.map((i) => i.rule)).toContain('secret-pattern-config');
+
+            const allowed = await createSecretsAuditor(
+                ctx,
+                { secrets: { ...config.secrets, allowlists: [{ paths: ['^app\\.ts$'] }] } },
+                { concurrency: 1 }
+            ).execute();
+            const acme = allowed.data?.findings.find((f) => f.ruleId === 'acme-api-token');
+            expect(acme?.suppressed).toBe(true);
+            expect(acme?.suppressionReason).toBe('allowlisted: allowlist from secrets.allowlists');
+        });
+    });
+});
@@ -0,0 +1,172 @@
+/**
+ * Secret Pattern Loader Tests
+ * Tests for custom patterns, disabled built-ins and pattern packs
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    compilePattern,
+    loadPatternPack,
+    resolveSecretPatterns,
+} from '../../src/modules/secrets/loader.js';
+import { SECRET_PATTERNS } from '../../src/modules/secrets/patterns.js';
+
+describe('Secret Pattern Loader', () => {
+    let dir: string;
+
+    beforeAll(() => {
+        dir = mkdtempSync(join(tmpdir(), 'rh-patterns-'));
+
+        writeFileSync(
+            join(dir, 'acme.json'),
+            JSON.stringify({
+                patterns: [
+                    { name: 'Acme Token', pattern: 'acme_[a-z0-9]{32}', severity: 'high', keywords: ['acme_'] },
+                ],
+            })
+        );
+
+        writeFileSync(
+            join(dir, 'internal.yaml'),
+            [
+                '- name: Internal Service Key',
+                '  pattern: "isk-[A-F0-9]{24}"',
+                '  severity: medium',
+                '  description: Internal service key',
+            ].join('\n')
+        );
+
+        mkdirSync(join(dir, 'node_modules', 'rh-pack-corp'), { recursive: true });
+        writeFileSync(
+            join(dir, 'node_modules', 'rh-pack-corp', 'package.json'),
+            JSON.stringify({ name: 'rh-pack-corp', main: 'patterns.json' })
+        );
+        writeFileSync(
+            join(dir, 'node_modules', 'rh-pack-corp', 'patterns.json'),
+            JSON.stringify([{ name: 'Corp Token', pattern: 'corp_[0-9]{10}' }])
+        );
+    });
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    // ============================================================================
+    // compilePattern Tests
+    // ============================================================================
+    describe('compilePattern', () => {
+        it('compiles string patterns with a global flag', () => {
+            const pattern = compilePattern({ name: 'X', pattern: 'x_[0-9]+', flags: 'i' }, 'test');
+            expect(pattern.pattern.flags).toContain('g');
+            expect(pattern.pattern.flags).toContain('i');
+            expect(pattern.severity).toBe('high');
+            expect(pattern.description).toBe('X');
+        });
+
+        it('accepts RegExp patterns', () => {
+            const pattern = compilePattern({ name: 'Y', pattern: /y_[0-9]+/ }, 'test');
+            expect(pattern.pattern.global).toBe(true);
+        });
+
+        it('rejects invalid regexes', () => {
+            expect(() => compilePattern({ name: 'Bad', pattern: '([' }, 'test')).toThrow(
+                /Invalid secret pattern "Bad"/
+            );
+        });
+
+        it('rejects unknown severities', () => {
+            expect(() =>
+                compilePattern(
+                    { name: 'Bad', pattern: 'x', severity: 'critical' as 'high' },
+                    'test'
+                )
+            ).toThrow(/severity/);
+        });
+
+        it('rejects patterns that match the empty string', () => {
+            for (const source of ['a*', '(?:)', 'x?|']) {
+                expect(() => compilePattern({ name: 'Empty', pattern: source }, 'test')).toThrow(
+                    'Invalid secret pattern "Empty" in test: pattern matches the empty string'
+                );
+            }
+            expect(() => compilePattern({ name: 'Empty', pattern: /(?:)/ }, 'test')).toThrow(
+                /matches the empty string/
+            );
+        });
+    });
+
+    // ============================================================================
+    // loadPatternPack Tests
+    // ============================================================================
+    describe('loadPatternPack', () => {
+        it('loads JSON packs', async () => {
+            const patterns = await loadPatternPack(dir, 'acme.json');
+            expect(patterns.map((p) => p.name)).toEqual(['Acme Token']);
+            expect(patterns[0]?.keywords).toEqual(['acme_']);
+        });
+
+        it('loads YAML packs', async () => {
+            const patterns = await loadPatternPack(dir, 'internal.yaml');
+            expect(patterns[0]?.name).toBe('Internal Service Key');
+            expect(patterns[0]?.severity).toBe('medium');
+        });
+
+        it('loads packs from npm packages', async () => {
+            const patterns = await loadPatternPack(dir, 'rh-pack-corp');
+            expect(patterns[0]?.name).toBe('Corp Token');
+        });
+
+        it('throws for missing packs', async () => {
+            await expect(loadPatternPack(dir, 'missing.json')).rejects.toThrow(/not found/);
+        });
+    });
+
+    // ============================================================================
+    // resolveSecretPatterns Tests
+    // ============================================================================
+    describe('resolveSecretPatterns', () => {
+        it('returns built-ins by default', async () => {
+            const { patterns, warnings } = await resolveSecretPatterns(dir, {});
+            expect(patterns).toHaveLength(SECRET_PATTERNS.length);
+            expect(warnings).toEqual([]);
+        });
+
+        it('disables built-ins by name', async () => {
+            const { patterns } = await resolveSecretPatterns(dir, {
+                secrets: { disabledPatterns: ['JWT Token'] },
+            });
+            expect(patterns.some((p) => p.name === 'JWT Token')).toBe(false);
+        });
+
+        it('warns about unknown disabled names', async () => {
+            const { warnings } = await resolveSecretPatterns(dir, {
+                secrets: { disabledPatterns: ['No Such Pattern'] },
+            });
+            expect(warnings).toHaveLength(1);
+        });
+
+        it('adds custom patterns and packs', async () => {
+            const { patterns } = await resolveSecretPatterns(dir, {
+                secrets: {
+                    patterns: [{ name: 'Custom', pattern: 'cst_[a-z]{8}' }],
+                    patternPacks: ['acme.json'],
+                },
+            });
+            const names = patterns.map((p) => p.name);
+            expect(names).toContain('Custom');
+            expect(names).toContain('Acme Token');
+        });
+
+        it('lets custom patterns replace built-ins with the same name', async () => {
+            const { patterns } = await resolveSecretPatterns(dir, {
+                secrets: { patterns: [{ name: 'NPM Token', pattern: 'npm_x', severity: 'low' }] },
+            });
+            const npm = patterns.filter((p) => p.name === 'NPM Token');
+            expect(npm).toHaveLength(1);
+            expect(npm[0]?.severity).toBe('low');
+        });
+    });
+});
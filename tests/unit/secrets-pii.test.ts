@@ -0,0 +1,261 @@
+/**
+ * PII Detector Tests
+ * Tests for payment card, IBAN, national ID and bulk contact list detection
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    detectPii,
+    isIban,
+    isPiiFinding,
+    passesLuhn,
+    PII_FAMILIES,
+    resolvePiiFamilies,
+} from '../../src/modules/secrets/pii.js';
+import { scanContent, scanFilesForSecrets } from '../../src/modules/secrets/scanner.js';
+import { SECRET_PATTERNS } from '../../src/modules/secrets/patterns.js';
+import { createSecretsAuditor } from '../../src/modules/secrets/auditor.js';
+import type { GitContext } from '../../src/core/git.js';
+
+const VISA = '4539148803436467';
+const MASTERCARD = '5512345678901231';
+const AMEX = '341234567890127';
+
+function emails(count: number, domain = 'acme-corp.io'): string {
+    return JSON.stringify(
+        Array.from({ length: count }, (_, i) => ({ id: i, email: `customer${i}@${domain}` })),
+        null,
+        2
+    );
+}
+
+function rules(content: string, filePath = 'src/app.ts'): string[] {
+    return detectPii(content, filePath, PII_FAMILIES).map((f) => f.ruleId);
+}
+
+describe('PII Detectors', () => {
+    // ============================================================================
+    // Checksum Tests
+    // ============================================================================
+    describe('passesLuhn / isIban', () => {
+        it('validates Luhn checksums', () => {
+            expect(passesLuhn(VISA)).toBe(true);
+            expect(passesLuhn('4539148803436468')).toBe(false);
+            expect(passesLuhn('')).toBe(false);
+        });
+
+        it('validates IBAN length and mod-97 checksum', () => {
+            expect(isIban('GB82 WEST 1234 5698 7654 32')).toBe(true);
+            expect(isIban('DE89370400440532013000')).toBe(true);
+            expect(isIban('GB82 WEST 1234 5698 7654 33')).toBe(false);
+            expect(isIban('GB82WEST123456987654')).toBe(false);
+            expect(isIban('XX82WEST12345698765432')).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // Payment Card Tests
+    // ============================================================================
+    describe('credit cards', () => {
+        it('finds Luhn-valid card numbers with or without separators', () => {
+            const findings = detectPii(
+                `visa: ${VISA}\nmc: 5512 3456 7890 1231\namex: 3412-345678-90127\n`,
+                'seed.json',
+                ['credit-card']
+            );
+            expect(findings.map((f) => f.match)).toEqual([
+                VISA,
+                '5512 3456 7890 1231',
+                '3412-345678-90127',
+            ]);
+            expect(findings[0]).toMatchObject({
+                ruleId: 'pii-credit-card',
+                type: 'Credit Card Number',
+                severity: 'high',
+                line: 1,
+                column: 7,
+            });
+        });
+
+        it('ignores failed checksums, unknown issuers and published test numbers', () => {
+            expect(rules('4539148803436468')).toEqual([]);
+            expect(rules('1234567812345670')).toEqual([]);
+            expect(rules('453914880343649')).toEqual([]);
+            expect(rules('4242424242424242 and 4111 1111 1111 1111')).toEqual([]);
+        });
+
+        it('ignores digits embedded in longer numbers', () => {
+            expect(rules(`id=9${MASTERCARD}`)).toEqual([]);
+            expect(rules(`version ${AMEX}.5`)).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // IBAN Tests
+    // ============================================================================
+    describe('IBANs', () => {
+        it('finds checksum-valid IBANs', () => {
+            const findings = detectPii('iban: "GB82 WEST 1234 5698 7654 32"', 'a.yml', ['iban']);
+            expect(findings).toHaveLength(1);
+            expect(findings[0]).toMatchObject({ ruleId: 'pii-iban', severity: 'medium' });
+        });
+
+        it('ignores IBAN-shaped strings with a bad checksum', () => {
+            expect(rules('DE89370400440532013001')).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // National ID Tests
+    // ============================================================================
+    describe('national IDs', () => {
+        it('finds US SSNs, UK NI numbers and Canadian SINs under their own rules', () => {
+            expect(rules('ssn: 536-22-1234\nnino: AB 12 34 56 C\nsin: 130-464-548\n')).toEqual([
+                'pii-us-ssn',
+                'pii-uk-nino',
+                'pii-ca-sin',
+            ]);
+        });
+
+        it('skips ranges that are never issued', () => {
+            expect(rules('000-12-3456 666-12-3456 912-12-3456 123-45-6789')).toEqual([]);
+            expect(rules('GB 12 34 56 A and QQ123456C')).toEqual([]);
+            expect(rules('130-464-549')).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // Bulk List Tests
+    // ============================================================================
+    describe('contact lists', () => {
+        it('reports one finding for many emails in a seed file', () => {
+            const findings = detectPii(emails(12), 'db/seed.json', PII_FAMILIES);
+            expect(findings).toHaveLength(1);
+            expect(findings[0]).toMatchObject({
+                ruleId: 'pii-email-list',
+                match: 'customer0@acme-corp.io',
+                line: 4,
+            });
+            expect(findings[0]?.masked).toMatch(/and 11 more$/);
+        });
+
+        it('needs enough distinct addresses', () => {
+            expect(rules(`${emails(9)}\n${emails(9)}`, 'fixtures/users.json')).toEqual([]);
+        });
+
+        it('only looks at fixture and seed files', () => {
+            expect(rules(emails(20), 'src/users.ts')).toEqual([]);
+            expect(rules(emails(20), 'test/fixtures/users.json')).toEqual(['pii-email-list']);
+            expect(rules(emails(20), 'dump.zip!users.json')).toEqual(['pii-email-list']);
+        });
+
+        it('ignores reserved example domains', () => {
+            expect(rules(emails(20, 'example.com'), 'seed.json')).toEqual([]);
+            expect(rules(emails(20, 'shop.test'), 'seed.json')).toEqual([]);
+        });
+
+        it('reports phone number lists, skipping fictional 555 numbers', () => {
+            const phones = Array.from(
+                { length: 10 },
+                (_, i) => `+1 (415) 23${i}-98${i}${i}`
+            ).join('\n');
+            expect(rules(phones, 'seeds/contacts.csv')).toEqual(['pii-phone-list']);
+
+            const fictional = Array.from({ length: 10 }, (_, i) => `(415) 555-01${i}${i}`).join(
+                '\n'
+            );
+            expect(rules(fictional, 'seeds/contacts.csv')).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // Family Toggle Tests
+    // ============================================================================
+    describe('resolvePiiFamilies', () => {
+        it('enables no family unless asked', () => {
+            expect(resolvePiiFamilies(undefined).families).toEqual([]);
+            expect(resolvePiiFamilies(true).families).toEqual(PII_FAMILIES);
+            expect(resolvePiiFamilies(false).families).toEqual([]);
+        });
+
+        it('switches families off individually and warns about unknown ones', () => {
+            const result = resolvePiiFamilies({
+                'email-list': false,
+                'phone-list': false,
+                passports: true,
+            } as never);
+            expect(result.families).toEqual(['credit-card', 'iban', 'national-id']);
+            expect(result.warnings).toEqual(['Unknown PII family in secrets.pii: "passports"']);
+        });
+
+        it('tells PII findings apart from secret findings', () => {
+            expect(isPiiFinding({ ruleId: 'pii-iban' })).toBe(true);
+            expect(isPiiFinding({ ruleId: 'aws-access-key-id' })).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // Scanner Integration Tests
+    // ============================================================================
+    describe('scanner integration', () => {
+        let dir: string;
+
+        beforeEach(() => {
+            dir = mkdtempSync(join(tmpdir(), 'rh-pii-'));
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('runs only when families are passed to scanContent', () => {
+            const content = `card: ${VISA}`;
+            expect(scanContent(content, 'a.ts', SECRET_PATTERNS, 99)).toEqual([]);
+            expect(
+                scanContent(content, 'a.ts', SECRET_PATTERNS, 99, { pii: ['credit-card'] }).map(
+                    (f) => f.ruleId
+                )
+            ).toEqual(['pii-credit-card']);
+        });
+
+        it('honours suppressions by PII rule id', () => {
+            const content = `// repohygiene-ignore-next-line secrets/pii-credit-card\ncard: ${VISA}`;
+            const [finding] = scanContent(content, 'a.ts', SECRET_PATTERNS, 99, {
+                pii: ['credit-card'],
+            });
+            expect(finding?.suppressed).toBe(true);
+        });
+
+        it('finds customer data in seed files through the auditor', async () => {
+            mkdirSync(join(dir, 'db'));
+            writeFileSync(join(dir, 'db', 'seed.json'), emails(15));
+            writeFileSync(join(dir, 'payments.csv'), `name,card\nAda,${VISA}\n`);
+
+            const ctx = { rootDir: dir, isGitRepo: false } as GitContext;
+            const unset = await createSecretsAuditor(ctx, {}, { concurrency: 1 }).execute();
+            expect(unset.issues.filter((i) => i.rule?.startsWith('pii-'))).toEqual([]);
+
+            const result = await createSecretsAuditor(ctx, { secrets: { pii: true } }, { concurrency: 1 }).execute();
+            const issues = result.issues.filter((i) => i.rule?.startsWith('pii-'));
+
+            expect(issues.map((i) => i.rule).sort()).toEqual(['pii-credit-card', 'pii-email-list']);
+            expect(issues[0]?.suggestion).toContain('synthetic');
+
+            const disabled = await createSecretsAuditor(
+                ctx,
+                { secrets: { pii: { 'credit-card': false } } },
+                { concurrency: 1 }
+            ).execute();
+            expect(disabled.issues.map((i) => i.rule)).not.toContain('pii-credit-card');
+            expect(disabled.issues.map((i) => i.rule)).toContain('pii-email-list');
+        });
+
+        it('leaves PII out of plain file scans unless requested', async () => {
+            writeFileSync(join(dir, 'payments.csv'), `card,${VISA}\n`);
+            expect((await scanFilesForSecrets({ cwd: dir, concurrency: 1 })).findings).toEqual([]);
+        });
+    });
+});
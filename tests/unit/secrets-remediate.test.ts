@@ -0,0 +1,300 @@
+/**
+ * Secrets Remediation Tests
+ * Tests for remediation plans, replacements files and history rewriting
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initGitContext } from '../../src/core/git.js';
+import {
+    createRemediationPlan,
+    formatReplacements,
+    rewriteFastExportStream,
+    rewriteHistory,
+    writeReplacementsFile,
+} from '../../src/modules/secrets/remediate.js';
+import { scanContent } from '../../src/modules/secrets/scanner.js';
+import { SECRET_PATTERNS } from '../../src/modules/secrets/patterns.js';
+import type { SecretFinding } from '../../src/types/index.js';
+
+const AWS_KEY = 'AKIA' + 'Q3ZR7T2LMN4PW8XY';
+const KEY_BODY = 'MIIEowIBAAKCAQEAu1SU1LfVLPHCozMxH2Mo4lgOEePzNm0tRgeLezV6ffAt0gun\nVTLw7onLRnrq0/IzW7yWR7QkrmBL7jTKEn5u+qKhbwKfBstIs+bMY2Zkp18gnTxK';
+// Built at runtime so the literal never appears in the repository
+const RSA_KEY = `-----BEGIN RSA ${'PRIVATE'} KEY-----\n${KEY_BODY}\n-----END RSA ${'PRIVATE'} KEY-----`;
+
+function git(cwd: string, ...args: string[]): string {
+    return execFileSync('git', args, { cwd, encoding: 'utf-8' });
+}
+
+function finding(overrides: Partial<SecretFinding> = {}): SecretFinding {
+    return {
+        type: 'AWS Access Key ID',
+        ruleId: 'aws-access-key-id',
+        severity: 'high',
+        file: 'config.env',
+        line: 1,
+        column: 5,
+        match: AWS_KEY,
+        masked: 'AKIA****',
+        ...overrides,
+    };
+}
+
+async function collect(chunks: string[], replacements: Array<[string, string]>): Promise<string> {
+    async function* source(): AsyncGenerator<Buffer> {
+        for (const chunk of chunks) yield Buffer.from(chunk);
+    }
+    const output: Buffer[] = [];
+    for await (const chunk of rewriteFastExportStream(
+        source(),
+        replacements.map(([from, to]) => [Buffer.from(from), Buffer.from(to)])
+    )) {
+        output.push(chunk);
+    }
+    return Buffer.concat(output).toString();
+}
+
+describe('Secrets Remediation', () => {
+    let dir: string;
+    let commit: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'rh-remediate-'));
+        git(dir, 'init', '-q', '-b', 'main');
+        git(dir, 'config', 'user.email', 'test@example.com');
+        git(dir, 'config', 'user.name', 'Test');
+        writeFileSync(join(dir, 'config.env'), `KEY=${AWS_KEY}\n`);
+        git(dir, 'add', '.');
+        git(dir, 'commit', '-q', '-m', 'add config');
+        commit = git(dir, 'rev-parse', 'HEAD').trim();
+        git(dir, 'branch', 'feature');
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    // ============================================================================
+    // Plan Tests
+    // ============================================================================
+    describe('createRemediationPlan', () => {
+        it('groups findings by secret with commits, refs and working-tree files', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [
+                finding({ commit }),
+                finding({ file: join(dir, 'config.env') }),
+            ]);
+
+            expect(plan.secrets).toHaveLength(1);
+            expect(plan.secrets[0]).toMatchObject({
+                value: AWS_KEY,
+                replacement: '***REMOVED:aws-access-key-id***',
+                commits: [commit],
+                workingTreeFiles: ['config.env'],
+            });
+            expect(plan.refs).toEqual(['refs/heads/feature', 'refs/heads/main']);
+        });
+
+        it('uses the captured secret rather than the whole match', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [
+                finding({ type: 'Bearer Token', match: 'Bearer abc', secret: 'abc' }),
+            ]);
+            expect(plan.secrets[0]?.value).toBe('abc');
+        });
+
+        it('captures the token apart from its Bearer prefix when scanning', () => {
+            const token = 'abcdefghijklmnopqrstuvwxyz012345';
+            const bearer = scanContent(
+                `Authorization: Bearer ${token}`,
+                'a.ts',
+                SECRET_PATTERNS,
+                99
+            ).find((f) => f.type === 'Bearer Token');
+            expect(bearer).toMatchObject({ match: `Bearer ${token}`, secret: token });
+        });
+
+        it('leaves suppressed and baselined findings alone', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [
+                finding({ suppressed: true }),
+                finding({ baselined: true }),
+            ]);
+            expect(plan).toEqual({ secrets: [], manual: [], refs: [] });
+        });
+
+        it('rewrites base64-encoded secrets as the encoded text in the file', async () => {
+            const encoded = Buffer.from(`aws_access_key_id = ${AWS_KEY}`).toString('base64');
+            writeFileSync(join(dir, 'values.yaml'), `credentials: ${encoded}\n`);
+            const [decoded] = scanContent(
+                `credentials: ${encoded}\n`,
+                join(dir, 'values.yaml'),
+                SECRET_PATTERNS,
+                99,
+                { decodeBase64: true }
+            ).filter((f) => f.encoding === 'base64');
+            expect(decoded).toMatchObject({ match: AWS_KEY, encoded });
+
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [decoded!]);
+            expect(plan.secrets[0]).toMatchObject({ value: encoded, workingTreeFiles: ['values.yaml'] });
+            expect(formatReplacements(plan)).toBe(`literal:${encoded}==>***REMOVED:aws-access-key-id***\n`);
+        });
+
+        it('leaves personal data out of the plan', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [
+                finding({ type: 'Credit Card Number', ruleId: 'pii-credit-card', match: '4111111111111111' }),
+            ]);
+            expect(plan.secrets).toEqual([]);
+        });
+
+        it('does not look for virtual archive paths in the working tree', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [finding({ file: 'build.zip!a.env' })]);
+            expect(plan.secrets[0]?.workingTreeFiles).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // Private Key Tests
+    // ============================================================================
+    describe('private keys', () => {
+        function keyFinding(overrides: Partial<SecretFinding> = {}): SecretFinding {
+            return finding({
+                type: 'RSA Private Key',
+                ruleId: 'rsa-private-key',
+                file: 'deploy/id.pem',
+                line: 2,
+                match: RSA_KEY.split('\n')[0],
+                ...overrides,
+            });
+        }
+
+        beforeEach(() => {
+            mkdirSync(join(dir, 'deploy'));
+            writeFileSync(join(dir, 'deploy', 'id.pem'), `# deploy key\n${RSA_KEY}\n`);
+            git(dir, 'add', '.');
+            git(dir, 'commit', '-q', '-m', 'add deploy key');
+            commit = git(dir, 'rev-parse', 'HEAD').trim();
+            // Only history still holds the key
+            git(dir, 'rm', '-q', 'deploy/id.pem');
+            git(dir, 'commit', '-q', '-m', 'remove deploy key');
+        });
+
+        it('plans the whole BEGIN...END block rather than the header', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [keyFinding({ commit })]);
+
+            expect(plan.secrets[0]?.value).toBe(RSA_KEY);
+            expect(plan.manual).toEqual([]);
+            const replacements = formatReplacements(plan);
+            expect(replacements.startsWith('regex:\\-\\-\\-\\-\\-BEGIN\\ RSA')).toBe(true);
+            expect(replacements).not.toContain('\n' + KEY_BODY);
+        });
+
+        it('removes the key body from history when rewriting', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [keyFinding({ commit })]);
+            const cloneDir = join(dir, '..', `${dir.split(/[\\/]/).pop()}-clone.git`);
+
+            try {
+                await rewriteHistory(ctx, plan, cloneDir);
+
+                const log = git(cloneDir, 'log', '-p', '--all');
+                for (const line of KEY_BODY.split('\n')) {
+                    expect(log).not.toContain(line);
+                }
+                expect(log).toContain('+***REMOVED:rsa-private-key***');
+            } finally {
+                rmSync(cloneDir, { recursive: true, force: true });
+            }
+        });
+
+        it('lists keys whose block cannot be read for removal by hand', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [keyFinding({ file: 'keys.zip!id.pem' })]);
+
+            expect(plan.secrets).toEqual([]);
+            expect(plan.manual).toEqual([{ file: 'keys.zip!id.pem', line: 2, commit: undefined }]);
+        });
+    });
+
+    // ============================================================================
+    // Replacements File Tests
+    // ============================================================================
+    describe('formatReplacements / writeReplacementsFile', () => {
+        it('writes filter-repo literal replacements readable by the owner only', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [finding()]);
+
+            expect(formatReplacements(plan)).toBe(
+                `literal:${AWS_KEY}==>***REMOVED:aws-access-key-id***\n`
+            );
+
+            const path = await writeReplacementsFile(plan);
+            expect(path.startsWith(dir)).toBe(false);
+            expect(readFileSync(path, 'utf-8')).toBe(formatReplacements(plan));
+            if (process.platform !== 'win32') {
+                expect(statSync(path).mode & 0o777).toBe(0o600);
+            }
+            rmSync(join(path, '..'), { recursive: true, force: true });
+        });
+    });
+
+    // ============================================================================
+    // Stream Rewriting Tests
+    // ============================================================================
+    describe('rewriteFastExportStream', () => {
+        it('replaces secrets inside data blocks and fixes their length', async () => {
+            const output = await collect(
+                ['blob\nmark :1\ndata 11\nkey=SECRET\n', '\ncommit refs/heads/main\n'],
+                [['SECRET', 'XX']]
+            );
+            expect(output).toBe('blob\nmark :1\ndata 7\nkey=XX\n\ncommit refs/heads/main\n');
+        });
+
+        it('handles headers and data split across chunks', async () => {
+            const output = await collect(['da', 'ta 6\nSEC', 'RET', 'reset x\n'], [['SECRET', 'Y']]);
+            expect(output).toBe('data 1\nYreset x\n');
+        });
+
+        it('passes empty data blocks and command lines through untouched', async () => {
+            const output = await collect(['data 0\nfrom SECRET\n'], [['SECRET', 'Y']]);
+            expect(output).toBe('data 0\nfrom SECRET\n');
+        });
+    });
+
+    // ============================================================================
+    // History Rewrite Tests
+    // ============================================================================
+    describe('rewriteHistory', () => {
+        it('removes the secret from every ref of a mirror clone', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [finding({ commit })]);
+            const cloneDir = join(dir, '..', `${dir.split(/[\\/]/).pop()}-clone.git`);
+
+            try {
+                const result = await rewriteHistory(ctx, plan, cloneDir);
+
+                expect(result.refs).toEqual(['refs/heads/feature', 'refs/heads/main']);
+                const log = git(cloneDir, 'log', '-p', '--all');
+                expect(log).not.toContain(AWS_KEY);
+                expect(log).toContain('***REMOVED:aws-access-key-id***');
+                // The original repository is untouched
+                expect(git(dir, 'log', '-p', '--all')).toContain(AWS_KEY);
+            } finally {
+                rmSync(cloneDir, { recursive: true, force: true });
+            }
+        });
+
+        it('refuses to reuse an existing clone directory', async () => {
+            const ctx = await initGitContext(dir);
+            const plan = await createRemediationPlan(ctx, [finding()]);
+            await expect(rewriteHistory(ctx, plan, dir)).rejects.toThrow('already exists');
+        });
+    });
+});
@@ -0,0 +1,232 @@
+/**
+ * Sensitive File Check Tests
+ * Tests for tracked and unignored secret-bearing files and .env.example drift
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { initGitContext, type GitContext } from '../../src/core/git.js';
+import {
+    checkSensitiveFiles,
+    compareEnvKeys,
+    getSensitiveKind,
+    parseEnvKeys,
+} from '../../src/modules/secrets/sensitive-files.js';
+import { createSecretsAuditor } from '../../src/modules/secrets/auditor.js';
+
+function git(cwd: string, ...args: string[]): void {
+    execFileSync('git', args, { cwd, stdio: 'ignore' });
+}
+
+describe('Sensitive Files', () => {
+    // ============================================================================
+    // Classification Tests
+    // ============================================================================
+    describe('getSensitiveKind', () => {
+        it('recognises secret-bearing file names', () => {
+            expect(getSensitiveKind('.env')).toBe('environment file');
+            expect(getSensitiveKind('apps/api/.env.production')).toBe('environment file');
+            expect(getSensitiveKind('certs/server.pem')).toBe('PEM certificate or key');
+            expect(getSensitiveKind('keystore.p12')).toBe('PKCS#12 keystore');
+            expect(getSensitiveKind('deploy/id_rsa')).toBe('SSH private key');
+            expect(getSensitiveKind('gcp/credentials.json')).toBe('credentials file');
+        });
+
+        it('treats environment templates and public keys as safe', () => {
+            expect(getSensitiveKind('.env.example')).toBeNull();
+            expect(getSensitiveKind('.env.sample')).toBeNull();
+            expect(getSensitiveKind('.env.template')).toBeNull();
+            expect(getSensitiveKind('deploy/id_rsa.pub')).toBeNull();
+            expect(getSensitiveKind('environment.ts')).toBeNull();
+        });
+    });
+
+    // ============================================================================
+    // Env Key Tests
+    // ============================================================================
+    describe('parseEnvKeys / compareEnvKeys', () => {
+        it('parses assignments, skipping comments and blank lines', () => {
+            expect(
+                parseEnvKeys('# db\nDB_URL=postgres://x\n\nexport API_KEY="abc"\n  PORT = 3000\nDB_URL=y\n')
+            ).toEqual(['DB_URL', 'API_KEY', 'PORT']);
+        });
+
+        it('reports keys missing on either side', () => {
+            expect(compareEnvKeys('A=1\nB=2\nC=3\n', 'A=\nD=\n')).toEqual({
+                missingFromExample: ['B', 'C'],
+                missingFromEnv: ['D'],
+            });
+        });
+    });
+
+    // ============================================================================
+    // Repository Check Tests
+    // ============================================================================
+    describe('checkSensitiveFiles', () => {
+        let dir: string;
+        let ctx: GitContext;
+
+        beforeEach(async () => {
+            dir = mkdtempSync(join(tmpdir(), 'rh-sensitive-'));
+            git(dir, 'init', '-q');
+            git(dir, 'config', 'user.email', 'test@example.com');
+            git(dir, 'config', 'user.name', 'Test');
+            ctx = await initGitContext(dir);
+        });
+
+        afterEach(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('splits sensitive files into tracked and unignored', async () => {
+            mkdirSync(join(dir, 'certs'));
+            writeFileSync(join(dir, '.gitignore'), '.env\n');
+            writeFileSync(join(dir, '.env'), 'KEY=1\n');
+            writeFileSync(join(dir, '.env.production'), 'KEY=2\n');
+            writeFileSync(join(dir, 'certs', 'server.pem'), '-----BEGIN CERTIFICATE-----\n');
+            writeFileSync(join(dir, 'credentials.json'), '{}');
+            git(dir, 'add', '.gitignore', 'certs/server.pem');
+            git(dir, 'commit', '-q', '-m', 'init');
+            git(dir, 'add', 'credentials.json');
+
+            const report = await checkSensitiveFiles(ctx);
+
+            expect(report.tracked).toEqual([
+                { file: 'certs/server.pem', kind: 'PEM certificate or key' },
+                { file: 'credentials.json', kind: 'credentials file' },
+            ]);
+            expect(report.unignored).toEqual([
+                { file: '.env.production', kind: 'environment file' },
+            ]);
+        });
+
+        it('asks git what is tracked, so files deleted from disk still count', async () => {
+            mkdirSync(join(dir, 'keys'));
+            writeFileSync(join(dir, 'keys', 'id_rsa'), 'x');
+            writeFileSync(join(dir, '.npmrc'), '//registry.npmjs.org/:_authToken=npm_abc123\n');
+            git(dir, 'add', '.');
+            git(dir, 'commit', '-q', '-m', 'init');
+            rmSync(join(dir, 'keys', 'id_rsa'));
+            rmSync(join(dir, '.npmrc'));
+
+            const report = await checkSensitiveFiles(ctx);
+
+            expect(report.tracked).toEqual([
+                { file: '.npmrc', kind: 'npm auth token' },
+                { file: 'keys/id_rsa', kind: 'SSH private key' },
+            ]);
+        });
+
+        it('limits the check to the given paths', async () => {
+            writeFileSync(join(dir, '.env'), 'A=1\nB=2\n');
+            writeFileSync(join(dir, '.env.example'), 'A=\n');
+            writeFileSync(join(dir, 'server.pem'), 'x');
+
+            const report = await checkSensitiveFiles(ctx, { paths: ['server.pem'] });
+
+            expect(report.unignored).toEqual([{ file: 'server.pem', kind: 'PEM certificate or key' }]);
+            expect(report.envDrift).toEqual([]);
+        });
+
+        it('only flags .npmrc files holding a literal token', async () => {
+            mkdirSync(join(dir, 'pkg'));
+            writeFileSync(join(dir, '.npmrc'), '//registry.npmjs.org/:_authToken=${NPM_TOKEN}\n');
+            writeFileSync(join(dir, 'pkg', '.npmrc'), '//registry.npmjs.org/:_authToken=npm_abc123\n');
+
+            const report = await checkSensitiveFiles(ctx);
+
+            expect(report.unignored).toEqual([{ file: 'pkg/.npmrc', kind: 'npm auth token' }]);
+        });
+
+        it('honours excludes', async () => {
+            mkdirSync(join(dir, 'fixtures'));
+            writeFileSync(join(dir, 'fixtures', 'test.pem'), 'x');
+
+            const report = await checkSensitiveFiles(ctx, { exclude: ['fixtures/**'] });
+
+            expect(report.unignored).toEqual([]);
+        });
+
+        it('compares each .env.example with the .env beside it', async () => {
+            mkdirSync(join(dir, 'api'));
+            writeFileSync(join(dir, '.env'), 'A=1\n');
+            writeFileSync(join(dir, '.env.example'), 'A=\n');
+            writeFileSync(join(dir, 'api', '.env'), 'DB_URL=x\nSTRIPE_KEY=y\n');
+            writeFileSync(join(dir, 'api', '.env.example'), 'DB_URL=\nREDIS_URL=\n');
+
+            const report = await checkSensitiveFiles(ctx);
+
+            expect(report.envDrift).toEqual([
+                {
+                    example: 'api/.env.example',
+                    env: 'api/.env',
+                    missingFromExample: ['STRIPE_KEY'],
+                    missingFromEnv: ['REDIS_URL'],
+                },
+            ]);
+        });
+
+        it('checks .env drift but not tracking outside a git repository', async () => {
+            const plain = mkdtempSync(join(tmpdir(), 'rh-sensitive-plain-'));
+            try {
+                writeFileSync(join(plain, '.env'), 'A=1\nB=2\n');
+                writeFileSync(join(plain, '.env.example'), 'A=\n');
+
+                const report = await checkSensitiveFiles(await initGitContext(plain));
+
+                expect(report.tracked).toEqual([]);
+                expect(report.unignored).toEqual([]);
+                expect(report.envDrift[0]?.missingFromExample).toEqual(['B']);
+            } finally {
+                rmSync(plain, { recursive: true, force: true });
+            }
+        });
+
+        it('reports issues through the secrets auditor', async () => {
+            writeFileSync(join(dir, '.env'), 'A=1\nB=2\n');
+            writeFileSync(join(dir, '.env.example'), 'A=\n');
+            git(dir, 'add', '.env', '.env.example');
+
+            const result = await createSecretsAuditor(ctx, {}, { concurrency: 1 }).execute();
+            const rules = result.issues.map((i) => i.rule);
+
+            expect(rules).toContain('sensitive-file-tracked');
+            expect(rules).toContain('env-example-drift');
+            expect(result.status).toBe('failed');
+            expect(result.data?.sensitiveFiles?.tracked).toEqual([
+                { file: '.env', kind: 'environment file' },
+            ]);
+
+            const skipped = await createSecretsAuditor(
+                ctx,
+                { secrets: { sensitiveFiles: false } },
+                { concurrency: 1 }
+            ).execute();
+            expect(skipped.issues.map((i) => i.rule)).not.toContain('sensitive-file-tracked');
+            expect(skipped.data?.sensitiveFiles).toBeUndefined();
+        });
+
+        it('only checks the changed files when scanning staged changes', async () => {
+            writeFileSync(join(dir, '.env'), 'A=1\n');
+            writeFileSync(join(dir, 'app.ts'), 'export const a = 1;\n');
+            git(dir, 'add', '.');
+            git(dir, 'commit', '-q', '-m', 'init');
+
+            writeFileSync(join(dir, 'app.ts'), 'export const a = 2;\n');
+            git(dir, 'add', 'app.ts');
+            const unrelated = await createSecretsAuditor(ctx, {}, { staged: true }).execute();
+            expect(unrelated.issues.map((i) => i.rule)).not.toContain('sensitive-file-tracked');
+            expect(unrelated.status).not.toBe('failed');
+
+            writeFileSync(join(dir, '.env'), 'A=2\n');
+            git(dir, 'add', '.env');
+            const touched = await createSecretsAuditor(ctx, {}, { staged: true }).execute();
+            expect(touched.data?.sensitiveFiles?.tracked).toEqual([
+                { file: '.env', kind: 'environment file' },
+            ]);
+        });
+    });
+});
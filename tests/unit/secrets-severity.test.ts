@@ -0,0 +1,121 @@
+/**
+ * Secret Severity Tests
+ * Tests for rule ids, severity overrides and minimum severity filtering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SECRET_PATTERNS, toRuleId } from '../../src/modules/secrets/patterns.js';
+import {
+    applySeverityOverrides,
+    isSecretSeverity,
+    meetsMinSeverity,
+    toIssueSeverity,
+} from '../../src/modules/secrets/severity.js';
+import { scanContent } from '../../src/modules/secrets/scanner.js';
+import type { SecretFinding } from '../../src/types/index.js';
+
+function finding(overrides: Partial<SecretFinding> = {}): SecretFinding {
+    return {
+        type: 'Stripe Publishable Key',
+        ruleId: 'stripe-publishable-key',
+        severity: 'medium',
+        file: 'a.ts',
+        line: 1,
+        column: 1,
+        match: 'pk',
+        masked: 'pk',
+        ...overrides,
+    };
+}
+
+describe('Secret Severity', () => {
+    // ============================================================================
+    // Rule Id Tests
+    // ============================================================================
+    describe('Rule ids', () => {
+        it('gives every built-in pattern a unique id', () => {
+            const ids = SECRET_PATTERNS.map((p) => p.id);
+            expect(new Set(ids).size).toBe(ids.length);
+        });
+
+        SECRET_PATTERNS.forEach((pattern) => {
+            it(`uses a slug id for ${pattern.name}`, () => {
+                expect(pattern.id).toMatch(/^[a-z0-9]+(?:-[a-z0-9]+)*$/);
+            });
+        });
+
+        it('slugs pattern names', () => {
+            expect(toRuleId('AWS Access Key ID')).toBe('aws-access-key-id');
+            expect(toRuleId('  Weird / Name!! ')).toBe('weird-name');
+        });
+    });
+
+    // ============================================================================
+    // scanContent Tests
+    // ============================================================================
+    describe('scanContent', () => {
+        it('carries pattern severity and id onto findings', () => {
+            const key = 'AKIA' + 'Q3ZR7T2LMN4PW8XY';
+            const findings = scanContent(`const k = '${key}';`, 'a.ts', SECRET_PATTERNS, 4.5);
+            const aws = findings.find((f) => f.type === 'AWS Access Key ID');
+            expect(aws?.ruleId).toBe('aws-access-key-id');
+            expect(aws?.severity).toBe('high');
+        });
+    });
+
+    // ============================================================================
+    // applySeverityOverrides Tests
+    // ============================================================================
+    describe('applySeverityOverrides', () => {
+        it('remaps by rule id', () => {
+            const [result] = applySeverityOverrides([finding()], { 'stripe-publishable-key': 'low' });
+            expect(result?.severity).toBe('low');
+        });
+
+        it('remaps by pattern name', () => {
+            const [result] = applySeverityOverrides([finding()], { 'Stripe Publishable Key': 'high' });
+            expect(result?.severity).toBe('high');
+        });
+
+        it('leaves other findings untouched', () => {
+            const original = finding();
+            const [result] = applySeverityOverrides([original], { 'jwt-token': 'low' });
+            expect(result).toBe(original);
+        });
+    });
+
+    // ============================================================================
+    // meetsMinSeverity / toIssueSeverity Tests
+    // ============================================================================
+    describe('meetsMinSeverity', () => {
+        const cases = [
+            { severity: 'low', min: 'low', expected: true },
+            { severity: 'low', min: 'medium', expected: false },
+            { severity: 'medium', min: 'medium', expected: true },
+            { severity: 'medium', min: 'high', expected: false },
+            { severity: 'high', min: 'low', expected: true },
+        ] as const;
+
+        cases.forEach(({ severity, min, expected }) => {
+            it(`${severity} ${expected ? 'meets' : 'is below'} ${min}`, () => {
+                expect(meetsMinSeverity(finding({ severity }), min)).toBe(expected);
+            });
+        });
+    });
+
+    describe('toIssueSeverity', () => {
+        it('maps high, medium and low to error, warning and info', () => {
+            expect(toIssueSeverity('high')).toBe('error');
+            expect(toIssueSeverity('medium')).toBe('warning');
+            expect(toIssueSeverity('low')).toBe('info');
+        });
+    });
+
+    describe('isSecretSeverity', () => {
+        it('validates severities', () => {
+            expect(isSecretSeverity('high')).toBe(true);
+            expect(isSecretSeverity('critical')).toBe(false);
+            expect(isSecretSeverity(undefined)).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,238 @@
+/**
+ * Inline Suppression Tests
+ * Tests for repohygiene-ignore comment parsing and application
+ */
+
+import { describe, it, expect, afterAll } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+    parseSuppressions,
+    suppressionMatches,
+    applySuppressions,
+} from '../../src/core/suppressions.js';
+import { scanContent } from '../../src/modules/secrets/scanner.js';
+import { SECRET_PATTERNS } from '../../src/modules/secrets/patterns.js';
+import { createSecretsAuditor } from '../../src/modules/secrets/auditor.js';
+import { writeBaseline } from '../../src/modules/secrets/baseline.js';
+import { initGitContext } from '../../src/core/git.js';
+import type { Issue } from '../../src/types/index.js';
+
+const AWS_KEY = 'AKIA' + 'Q3ZR7T2LMN4PW8XY';
+
+describe('Inline Suppressions', () => {
+    // ============================================================================
+    // parseSuppressions Tests
+    // ============================================================================
+    describe('parseSuppressions', () => {
+        it('parses next-line directives with rules and a quoted reason', () => {
+            const [s] = parseSuppressions(
+                '// repohygiene-ignore-next-line secrets/aws-access-key-id reason="rotated"\nconst x = 1;'
+            );
+            expect(s?.line).toBe(1);
+            expect(s?.targetLine).toBe(2);
+            expect(s?.rules).toEqual(['secrets/aws-access-key-id']);
+            expect(s?.reason).toBe('rotated');
+        });
+
+        it('parses same-line hash comments', () => {
+            const [s] = parseSuppressions('a\nTOKEN=abc # repohygiene-ignore');
+            expect(s?.targetLine).toBe(2);
+            expect(s?.rules).toEqual([]);
+        });
+
+        const commentStyles = [
+            '/* repohygiene-ignore secrets */',
+            '<!-- repohygiene-ignore secrets -->',
+            '-- repohygiene-ignore secrets',
+            '; repohygiene-ignore secrets',
+        ];
+
+        commentStyles.forEach((comment) => {
+            it(`parses comment style: ${comment}`, () => {
+                const [s] = parseSuppressions(comment);
+                expect(s?.rules).toEqual(['secrets']);
+            });
+        });
+
+        it('accepts several comma separated rules and unquoted reasons', () => {
+            const [s] = parseSuppressions('# repohygiene-ignore a/b, c/d reason=legacy');
+            expect(s?.rules).toEqual(['a/b', 'c/d']);
+            expect(s?.reason).toBe('legacy');
+        });
+
+        it('ignores the directive outside comments', () => {
+            expect(parseSuppressions('const repohygiene-ignore = 1')).toEqual([]);
+        });
+    });
+
+    // ============================================================================
+    // suppressionMatches Tests
+    // ============================================================================
+    describe('suppressionMatches', () => {
+        const make = (rules: string[]) => ({ line: 1, targetLine: 1, rules });
+
+        it('matches everything without rules', () => {
+            expect(suppressionMatches(make([]), 'secrets', 'jwt-token')).toBe(true);
+        });
+
+        it('matches module/rule, bare module and bare rule', () => {
+            expect(suppressionMatches(make(['secrets/jwt-token']), 'secrets', 'jwt-token')).toBe(true);
+            expect(suppressionMatches(make(['secrets']), 'secrets', 'jwt-token')).toBe(true);
+            expect(suppressionMatches(make(['jwt-token']), 'secrets', 'jwt-token')).toBe(true);
+        });
+
+        it('does not match other modules or rules', () => {
+            expect(suppressionMatches(make(['licenses']), 'secrets', 'jwt-token')).toBe(false);
+            expect(suppressionMatches(make(['secrets/other']), 'secrets', 'jwt-token')).toBe(false);
+        });
+    });
+
+    // ============================================================================
+    // applySuppressions Tests
+    // ============================================================================
+    describe('applySuppressions', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'rh-suppress-'));
+
+        afterAll(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('marks matching issues and reports unused suppressions', async () => {
+            writeFileSync(
+                join(dir, 'CODEOWNERS'),
+                [
+                    '# repohygiene-ignore-next-line codeowners/invalid-owner reason="bot account"',
+                    '/src deploy-bot',
+                    '# repohygiene-ignore-next-line codeowners/missing-path',
+                    '/docs @docs-team',
+                ].join('\n')
+            );
+
+            const issues: Issue[] = [
+                {
+                    id: 'codeowners-1',
+                    severity: 'error',
+                    message: 'Invalid owner',
+                    file: 'CODEOWNERS',
+                    line: 2,
+                    rule: 'invalid-owner',
+                },
+                { id: 'codeowners-2', severity: 'warning', message: 'No file' },
+            ];
+
+            const result = await applySuppressions('codeowners', issues, dir);
+
+            expect(result.issues[0]?.suppressed).toBe(true);
+            expect(result.issues[0]?.suppressionReason).toBe('bot account');
+            expect(result.issues[1]?.suppressed).toBeUndefined();
+            expect(result.unused).toHaveLength(1);
+            expect(result.unused[0]?.suppression.line).toBe(3);
+        });
+
+        it('reports stale suppressions in files without issues', async () => {
+            const clean = mkdtempSync(join(tmpdir(), 'rh-suppress-clean-'));
+            try {
+                mkdirSync(join(clean, 'src'));
+                writeFileSync(
+                    join(clean, 'src', 'app.ts'),
+                    '// repohygiene-ignore-next-line deps/no-circular\nimport { a } from "./a";\n'
+                );
+                writeFileSync(join(clean, 'src', 'b.ts'), '// repohygiene-ignore-next-line secrets\nexport {};\n');
+
+                const result = await applySuppressions('deps', [], clean);
+
+                expect(result.unused).toEqual([
+                    {
+                        file: join(clean, 'src', 'app.ts'),
+                        suppression: expect.objectContaining({ line: 1, rules: ['deps/no-circular'] }),
+                    },
+                ]);
+            } finally {
+                rmSync(clean, { recursive: true, force: true });
+            }
+        });
+    });
+
+    // ============================================================================
+    // Secrets scanContent Tests
+    // ============================================================================
+    describe('scanContent', () => {
+        it('keeps suppressed secret findings with their reason', () => {
+            const content = [
+                '// repohygiene-ignore-next-line secrets/aws-access-key-id reason="rotated"',
+                `const key = '${AWS_KEY}';`,
+            ].join('\n');
+
+            const findings = scanContent(content, 'a.ts', SECRET_PATTERNS, 4.5);
+            const aws = findings.find((f) => f.type === 'AWS Access Key ID');
+            expect(aws?.suppressed).toBe(true);
+            expect(aws?.suppressionReason).toBe('rotated');
+        });
+
+        it('does not suppress other rules', () => {
+            const content = [
+                '// repohygiene-ignore-next-line secrets/jwt-token',
+                `const key = '${AWS_KEY}';`,
+            ].join('\n');
+
+            const findings = scanContent(content, 'a.ts', SECRET_PATTERNS, 4.5);
+            const aws = findings.find((f) => f.type === 'AWS Access Key ID');
+            expect(aws?.suppressed).toBeUndefined();
+        });
+    });
+
+    // ============================================================================
+    // Secrets Auditor Tests
+    // ============================================================================
+    describe('SecretsAuditor', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'rh-secrets-suppress-'));
+
+        afterAll(() => {
+            rmSync(dir, { recursive: true, force: true });
+        });
+
+        it('suppresses issues other than findings and leaves rule-less comments to other modules', async () => {
+            mkdirSync(join(dir, 'src'));
+            writeFileSync(
+                join(dir, 'src', 'db.ts'),
+                [
+                    '// repohygiene-ignore-next-line secrets/stale-baseline-entry reason="rotated"',
+                    'export const retries = 3;',
+                    '// repohygiene-ignore-next-line',
+                    'export const timeout = 30;',
+                ].join('\n')
+            );
+            await writeBaseline(
+                join(dir, '.repohygiene-baseline.json'),
+                [
+                    {
+                        type: 'Generic Secret',
+                        ruleId: 'generic-secret',
+                        severity: 'medium',
+                        file: join(dir, 'src', 'db.ts'),
+                        line: 2,
+                        column: 7,
+                        match: 'password = "hunter2hunter2"',
+                        masked: 'pass****ter2',
+                    },
+                ],
+                dir
+            );
+
+            const ctx = await initGitContext(dir);
+            const result = await createSecretsAuditor(
+                ctx,
+                {},
+                { auditBaseline: true, sensitiveFiles: false, concurrency: 1 }
+            ).execute();
+
+            const stale = result.issues.find((i) => i.rule === 'stale-baseline-entry');
+            expect(stale?.suppressed).toBe(true);
+            expect(stale?.suppressionReason).toBe('rotated');
+            expect(result.issues.filter((i) => i.rule === 'unused-suppression')).toEqual([]);
+            expect(result.status).toBe('passed');
+        });
+    });
+});
@@ -4,6 +4,7 @@ export default defineConfig({
     entry: {
         index: 'src/index.ts',
         'cli/index': 'src/cli/index.ts',
+        'secrets-worker': 'src/modules/secrets/worker.ts',
     },
     format: ['esm'],
     dts: true,